@@ -0,0 +1,26 @@
+export {
+  RealtimeClient,
+  RealtimeRequestError,
+  type ClientEventName,
+  type ClientEventPayload,
+  type ClientHandler,
+  type CallOptions,
+  type ClientMessage,
+  type ClientProcedureHandler,
+  type ConnectionState,
+  type EmitOptions,
+  type JoinOptions,
+  type ReconnectOptions,
+  type RealtimeClientOptions,
+  type WebSocketFactory,
+  type WebSocketLike,
+} from './realtimeClient.js';
+export { jsonCodec, msgpackCodec, type Codec } from '../core/codec.js';
+export type {
+  EventTemplate,
+  TemplateEventName,
+  TemplateParams,
+  TemplateParamValue,
+} from '../core/eventTypeBuilder.js';
+export type { ProcedureMap, ProcedureName } from '../core/rpc.js';
+export type * from '../types/index.js';
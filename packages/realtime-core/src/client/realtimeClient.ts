@@ -0,0 +1,586 @@
+import { jsonCodec, type Codec } from '../core/codec.js';
+import type { EventTemplate, TemplateEventName } from '../core/eventTypeBuilder.js';
+import { formatSubprotocol, parseSubprotocol } from '../core/protocol.js';
+import type { ProcedureMap, ProcedureName } from '../core/rpc.js';
+import type {
+  EventName,
+  KernelEventMap,
+  RealtimeEventMap,
+  RealtimeMessage,
+  SystemEventMap,
+} from '../types/index.js';
+
+const OPEN = 1;
+/** Recheck interval while a draining connection still has answers to deliver. */
+const HAND_OVER_RETRY_MS = 100;
+
+export interface WebSocketLike {
+  readonly readyState: number;
+  /** Subprotocol selected by the server. */
+  readonly protocol?: string;
+  binaryType?: string;
+  onopen: ((event: unknown) => void) | null;
+  onclose: ((event: { code?: number; reason?: string }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  send(data: string | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type WebSocketFactory = new (url: string, protocols?: string | string[]) => WebSocketLike;
+
+export interface RealtimeClientOptions {
+  url: string;
+  protocols?: string | string[];
+  /**
+   * Codec to ask the server for (JSON by default). Offered with `protocolVersion` as the
+   * `realtime.<version>.<codec>` subprotocol; a server that does not select it is spoken to in JSON.
+   */
+  codec?: Codec;
+  /** Protocol version to ask for, e.g. `v2`; the server's default one otherwise. */
+  protocolVersion?: string;
+  /** WebSocket implementation, defaults to `globalThis.WebSocket` (browsers, Node >= 22). */
+  WebSocket?: WebSocketFactory;
+  ackTimeoutMs?: number;
+  /** Reconnect after unexpected drops and resume the server session (requires `sessions` on the kernel). */
+  reconnect?: boolean | ReconnectOptions;
+}
+
+export interface ReconnectOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface EmitOptions {
+  room?: string;
+  target?: string | string[];
+  timeoutMs?: number;
+}
+
+export interface JoinOptions extends Omit<EmitOptions, 'room'> {
+  /** Replays the room's messages after this sequence, when the server keeps its history. */
+  since?: number;
+  /** `epoch` of the message `since` comes from; the server starts over when it is not its own. */
+  epoch?: string;
+}
+
+export interface CallOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export type ClientProcedureHandler<Input = unknown, Output = unknown> = (
+  input: Input,
+  context: { signal: AbortSignal },
+) => Output | Promise<Output>;
+
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type ClientEventName<
+  Events extends RealtimeEventMap = RealtimeEventMap,
+  EventTemplates extends readonly EventTemplate[] = readonly EventTemplate[],
+> = EventName<KernelEventMap<Events>> | TemplateEventName<EventTemplates[number]>;
+
+export type ClientEventPayload<
+  Events extends RealtimeEventMap,
+  Type extends string,
+> = Type extends keyof KernelEventMap<Events> ? KernelEventMap<Events>[Type] : unknown;
+
+export type ClientMessage<Events extends RealtimeEventMap, Type extends string> = RealtimeMessage<
+  Type,
+  ClientEventPayload<Events, Type>
+> & { timestamp?: number };
+
+export type ClientHandler<Events extends RealtimeEventMap, Type extends string> = (
+  message: ClientMessage<Events, Type>,
+) => void;
+
+export class RealtimeRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly details?: string,
+    /** Set when the server refused the request for exceeding a rate limit. */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'RealtimeRequestError';
+  }
+}
+
+interface PendingAck {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface PendingCall {
+  resolve: (output: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+type RpcRequest = SystemEventMap['system:rpc'];
+type RpcResult = SystemEventMap['system:rpc:result'];
+
+export class RealtimeClient<
+  Events extends RealtimeEventMap = RealtimeEventMap,
+  EventTemplates extends readonly EventTemplate[] = readonly EventTemplate[],
+  ServerProcedures extends ProcedureMap = ProcedureMap,
+  ClientProcedures extends ProcedureMap = ProcedureMap,
+> {
+  private socket?: WebSocketLike;
+  private state: ConnectionState = 'idle';
+  private sessionToken?: string;
+  private sessionClientId?: string;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  /** Attempt in flight; further `connect` calls wait for it instead of opening another socket. */
+  private connecting?: Promise<void>;
+  private codec: Codec = jsonCodec;
+  private negotiatedVersion?: string;
+  private readonly outbox: RealtimeMessage[] = [];
+  private readonly reconnect?: Required<ReconnectOptions>;
+  private ackCounter = 0;
+  private readonly ackPrefix = Math.random().toString(36).slice(2, 10);
+  private readonly pending = new Map<string, PendingAck>();
+  private readonly calls = new Map<string, PendingCall>();
+  private readonly procedures = new Map<string, ClientProcedureHandler>();
+  private readonly servingCalls = new Map<string, AbortController>();
+  private readonly handlers = new Map<string, Set<ClientHandler<Events, string>>>();
+  private readonly stateListeners = new Set<(state: ConnectionState) => void>();
+  private readonly options: Required<Pick<RealtimeClientOptions, 'ackTimeoutMs'>> &
+    RealtimeClientOptions;
+
+  constructor(options: RealtimeClientOptions) {
+    this.options = { ackTimeoutMs: 10_000, ...options };
+    if (options.reconnect) {
+      const reconnect = options.reconnect === true ? {} : options.reconnect;
+      this.reconnect = {
+        initialDelayMs: reconnect.initialDelayMs ?? 500,
+        maxDelayMs: reconnect.maxDelayMs ?? 10_000,
+        maxAttempts: reconnect.maxAttempts ?? Infinity,
+      };
+    }
+  }
+
+  get connectionState() {
+    return this.state;
+  }
+
+  /** Protocol version the server selected, when it negotiated one. */
+  get protocolVersion() {
+    return this.negotiatedVersion;
+  }
+
+  /** Client id assigned by the server, stable across resumed reconnects. */
+  get clientId() {
+    return this.sessionClientId;
+  }
+
+  connect(): Promise<void> {
+    if (this.state === 'open') return Promise.resolve();
+    if (this.connecting) return this.connecting;
+    clearTimeout(this.reconnectTimer);
+    const Implementation =
+      this.options.WebSocket ?? (globalThis as { WebSocket?: WebSocketFactory }).WebSocket;
+    if (!Implementation) {
+      return Promise.reject(
+        new Error('No WebSocket implementation available, pass one through options.WebSocket'),
+      );
+    }
+
+    if (this.state !== 'reconnecting') {
+      this.setState('connecting');
+    }
+    const socket = new Implementation(this.sessionUrl(), this.protocols());
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    const attempt = new Promise<void>((resolve, reject) => {
+      socket.onopen = () => {
+        const selected = socket.protocol ? parseSubprotocol(socket.protocol) : undefined;
+        const { codec } = this.options;
+        this.codec = codec && selected?.codec === codec.name ? codec : jsonCodec;
+        this.negotiatedVersion = selected?.version;
+        this.reconnectAttempts = 0;
+        this.setState('open');
+        this.flushOutbox();
+        resolve();
+      };
+      socket.onerror = () => {
+        if (this.state === 'connecting' || this.state === 'reconnecting') {
+          reject(new Error(`Unable to connect to ${this.options.url}`));
+        }
+      };
+      socket.onclose = () => {
+        // a socket closed before opening settles its attempt, whatever closed it
+        reject(new Error(`Unable to connect to ${this.options.url}`));
+        if (this.socket !== socket) return;
+        this.socket = undefined;
+        if (this.scheduleReconnect()) return;
+        // what was written while reconnecting fails with the pending requests, not on a later connect
+        this.outbox.length = 0;
+        this.failPending(new RealtimeRequestError('Connection closed', 'CONNECTION_CLOSED'));
+        this.setState('closed');
+      };
+      socket.onmessage = (event) => this.handleData(event.data);
+    });
+    this.connecting = attempt;
+    const settled = () => {
+      if (this.connecting === attempt) this.connecting = undefined;
+    };
+    attempt.then(settled, settled);
+    return attempt;
+  }
+
+  close(code = 1000, reason?: string) {
+    const socket = this.socket;
+    this.socket = undefined;
+    clearTimeout(this.reconnectTimer);
+    this.outbox.length = 0;
+    socket?.close(code, reason);
+    this.failPending(new RealtimeRequestError('Connection closed', 'CONNECTION_CLOSED'));
+    this.setState('closed');
+  }
+
+  on<Type extends ClientEventName<Events, EventTemplates>>(
+    type: Type | '*',
+    handler: ClientHandler<Events, Type>,
+  ): () => void {
+    const bucket = this.handlers.get(type) ?? new Set();
+    bucket.add(handler as ClientHandler<Events, string>);
+    this.handlers.set(type, bucket);
+    return () => {
+      bucket.delete(handler as ClientHandler<Events, string>);
+    };
+  }
+
+  onStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  emit<Type extends ClientEventName<Events, EventTemplates>>(
+    type: Type,
+    payload?: ClientEventPayload<Events, Type>,
+    options: EmitOptions = {},
+  ): Promise<void> {
+    const ack = `${this.ackPrefix}-${++this.ackCounter}`;
+    const message: RealtimeMessage = { type, ack };
+    if (payload !== undefined) message.payload = payload;
+    if (options.room) message.room = options.room;
+    if (options.target) message.target = options.target;
+
+    return new Promise<void>((resolve, reject) => {
+      const timeoutMs = options.timeoutMs ?? this.options.ackTimeoutMs;
+      const timer = setTimeout(() => {
+        this.pending.delete(ack);
+        reject(new RealtimeRequestError(`No ack for ${type} after ${timeoutMs}ms`, 'ACK_TIMEOUT'));
+      }, timeoutMs);
+      this.pending.set(ack, { resolve, reject, timer });
+
+      try {
+        this.write(message);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(ack);
+        reject(error);
+      }
+    });
+  }
+
+  /** Calls a server procedure registered with `kernel.procedure` and resolves with its output. */
+  call<Name extends ProcedureName<ServerProcedures>>(
+    procedure: Name,
+    input: ServerProcedures[Name]['input'],
+    options: CallOptions = {},
+  ): Promise<ServerProcedures[Name]['output']> {
+    const id = `${this.ackPrefix}-rpc-${++this.ackCounter}`;
+    const timeoutMs = options.timeoutMs ?? this.options.ackTimeoutMs;
+
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new RealtimeRequestError(`Call to ${procedure} was cancelled`, 'RPC_CANCELLED'));
+        return;
+      }
+      const cancel = (error: Error) => {
+        cleanup();
+        try {
+          this.write({ type: 'system:rpc:cancel', payload: { id } });
+        } catch {
+          // nothing to cancel on a closed connection
+        }
+        reject(error);
+      };
+      const onAbort = () =>
+        cancel(new RealtimeRequestError(`Call to ${procedure} was cancelled`, 'RPC_CANCELLED'));
+      const timer = setTimeout(
+        () =>
+          cancel(
+            new RealtimeRequestError(`${procedure} timed out after ${timeoutMs}ms`, 'RPC_TIMEOUT'),
+          ),
+        timeoutMs,
+      );
+      const cleanup = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.calls.delete(id);
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.calls.set(id, { resolve, reject, cleanup });
+
+      try {
+        this.write({ type: 'system:rpc', payload: { id, procedure, input, timeoutMs } });
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  /** Exposes a procedure the server can invoke with `kernel.call(clientId, name, input)`. */
+  procedure<Name extends ProcedureName<ClientProcedures>>(
+    name: Name,
+    handler: ClientProcedureHandler<
+      ClientProcedures[Name]['input'],
+      ClientProcedures[Name]['output']
+    >,
+  ): () => void {
+    this.procedures.set(name, handler as ClientProcedureHandler);
+    return () => {
+      this.procedures.delete(name);
+    };
+  }
+
+  join(room: string, { since, epoch, ...options }: JoinOptions = {}) {
+    const payload = since === undefined ? undefined : { since, epoch };
+    return this.emit('system:join', payload as ClientEventPayload<Events, 'system:join'>, {
+      ...options,
+      room,
+    });
+  }
+
+  leave(room: string, options?: Omit<EmitOptions, 'room'>) {
+    return this.emit('system:leave', undefined, { ...options, room });
+  }
+
+  private write(message: RealtimeMessage) {
+    if (this.socket && this.socket.readyState === OPEN) {
+      this.socket.send(this.codec.encode(message));
+      return;
+    }
+    if (this.state === 'reconnecting') {
+      // encoded once the new connection has settled on a codec
+      this.outbox.push(message);
+      return;
+    }
+    throw new RealtimeRequestError('Client is not connected', 'NOT_CONNECTED');
+  }
+
+  private flushOutbox() {
+    while (this.outbox.length && this.socket?.readyState === OPEN) {
+      this.socket.send(this.codec.encode(this.outbox.shift()!));
+    }
+  }
+
+  /**
+   * The server is draining: after `delayMs`, and once the answers awaited on this connection have
+   * arrived, it is replaced by a new one, which lands on another node. Without `reconnect` the hint
+   * is only passed to the handlers.
+   */
+  private handOver(delayMs: number) {
+    if (!this.reconnect) return;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      const socket = this.socket;
+      if (!socket || this.state !== 'open') return;
+      if (this.pending.size || this.calls.size) {
+        this.handOver(HAND_OVER_RETRY_MS);
+        return;
+      }
+      this.socket = undefined;
+      this.setState('reconnecting');
+      socket.close(1000, 'reconnect');
+      this.connect().catch(() => {
+        // the failed socket closes as well and schedules the next attempt
+      });
+    }, delayMs);
+  }
+
+  private scheduleReconnect() {
+    if (!this.reconnect || this.state === 'closed') return false;
+    if (this.reconnectAttempts >= this.reconnect.maxAttempts) return false;
+    const delay = Math.min(
+      this.reconnect.initialDelayMs * 2 ** this.reconnectAttempts,
+      this.reconnect.maxDelayMs,
+    );
+    this.reconnectAttempts += 1;
+    this.setState('reconnecting');
+    this.reconnectTimer = setTimeout(
+      () => {
+        this.connect().catch(() => {
+          // the failed socket closes as well and schedules the next attempt
+        });
+      },
+      delay * (0.5 + Math.random() / 2),
+    );
+    return true;
+  }
+
+  private protocols() {
+    const { codec, protocolVersion, protocols = [] } = this.options;
+    if (!codec && !protocolVersion) return this.options.protocols;
+    const requested = typeof protocols === 'string' ? [protocols] : protocols;
+    const name = codec && codec !== jsonCodec ? codec : undefined;
+    return [formatSubprotocol(protocolVersion, name), ...requested];
+  }
+
+  private sessionUrl() {
+    if (!this.sessionToken) return this.options.url;
+    const separator = this.options.url.includes('?') ? '&' : '?';
+    return `${this.options.url}${separator}session=${encodeURIComponent(this.sessionToken)}`;
+  }
+
+  private handleData(data: unknown) {
+    let raw: string | Uint8Array;
+    if (typeof data === 'string') {
+      raw = data;
+    } else if (data instanceof ArrayBuffer) {
+      raw = new Uint8Array(data);
+    } else if (ArrayBuffer.isView(data)) {
+      raw = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    } else {
+      return;
+    }
+    let message: RealtimeMessage & { timestamp?: number };
+    try {
+      message = this.codec.decode(raw) as RealtimeMessage & { timestamp?: number };
+    } catch {
+      return;
+    }
+    if (!message || typeof message.type !== 'string') return;
+
+    if (message.type === 'system:session') {
+      const session = message.payload as SystemEventMap['system:session'];
+      this.sessionToken = session.token;
+      this.sessionClientId = session.clientId;
+    } else if (message.type === 'system:ack') {
+      const { ack } = (message.payload ?? {}) as Partial<SystemEventMap['system:ack']>;
+      if (ack) this.settle(ack);
+    } else if (message.type === 'system:rpc:result') {
+      this.settleCall(message.payload as RpcResult);
+    } else if (message.type === 'system:rpc') {
+      void this.serveCall(message.payload as RpcRequest);
+    } else if (message.type === 'system:rpc:cancel') {
+      const { id } = (message.payload ?? {}) as Partial<SystemEventMap['system:rpc:cancel']>;
+      if (id) this.servingCalls.get(id)?.abort();
+    } else if (message.type === 'system:reconnect') {
+      const { delayMs } = (message.payload ?? {}) as Partial<SystemEventMap['system:reconnect']>;
+      this.handOver(delayMs ?? 0);
+    } else if (message.type === 'system:error') {
+      const payload = (message.payload ?? {}) as Partial<SystemEventMap['system:error']>;
+      if (payload.ack) {
+        this.settle(
+          payload.ack,
+          new RealtimeRequestError(
+            payload.message ?? 'Request failed',
+            payload.code ?? 'SERVER_ERROR',
+            payload.details,
+            payload.retryAfterMs,
+          ),
+        );
+      }
+    }
+
+    this.handlers.get(message.type)?.forEach((handler) => handler(message as never));
+    this.handlers.get('*')?.forEach((handler) => handler(message as never));
+  }
+
+  private settleCall(result: RpcResult | undefined) {
+    const call = result?.id ? this.calls.get(result.id) : undefined;
+    if (!result || !call) return;
+    call.cleanup();
+    if (result.error) {
+      call.reject(
+        new RealtimeRequestError(result.error.message, result.error.code, result.error.details),
+      );
+    } else {
+      call.resolve(result.output);
+    }
+  }
+
+  private async serveCall(request: RpcRequest | undefined) {
+    if (!request?.id) return;
+    const handler = this.procedures.get(request.procedure);
+    const respond = (result: RpcResult) => {
+      try {
+        this.write({ type: 'system:rpc:result', payload: result });
+      } catch {
+        // the server drops calls of disconnected clients on its side
+      }
+    };
+    if (!handler) {
+      respond({
+        id: request.id,
+        error: { code: 'RPC_NOT_FOUND', message: `Unknown procedure ${request.procedure}` },
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.servingCalls.set(request.id, controller);
+    try {
+      const output = await handler(request.input, { signal: controller.signal });
+      if (!controller.signal.aborted) respond({ id: request.id, output });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const failure = error as Partial<RealtimeRequestError>;
+      respond({
+        id: request.id,
+        error: {
+          code: typeof failure.code === 'string' ? failure.code : 'INTERNAL_ERROR',
+          message: failure.message ?? 'Procedure failed',
+          details: failure.details,
+        },
+      });
+    } finally {
+      this.servingCalls.delete(request.id);
+    }
+  }
+
+  private settle(ack: string, error?: Error) {
+    const pending = this.pending.get(ack);
+    if (!pending) return;
+    this.pending.delete(ack);
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
+  private failPending(error: Error) {
+    for (const [ack, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(ack);
+    }
+    for (const call of this.calls.values()) {
+      call.cleanup();
+      call.reject(error);
+    }
+    this.servingCalls.forEach((controller) => controller.abort());
+    this.servingCalls.clear();
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,75 @@
+import cluster from 'node:cluster';
+import {
+  PubSubAdapter,
+  type PubSubAdapterOptions,
+  type PubSubClient,
+} from '../core/pubSubAdapter.js';
+
+/** IPC messages between a worker and the `ClusterRouter` of the primary. */
+export type RouterMessage =
+  | { type: 'router:subscribe'; channels: string[] }
+  | { type: 'router:unsubscribe' }
+  | { type: 'router:publish'; channel: string; payload: string }
+  | { type: 'router:message'; channel: string; payload: string };
+
+export function isRouterMessage(message: unknown): message is RouterMessage {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    'type' in message &&
+    typeof message.type === 'string' &&
+    message.type.startsWith('router:')
+  );
+}
+
+/** Publish/subscribe over the IPC channel of a cluster worker, brokered by the primary. */
+export class IpcPubSub implements PubSubClient {
+  private listener?: (message: unknown) => void;
+
+  async subscribe(channels: string[], onMessage: (channel: string, payload: string) => void) {
+    if (!process.send) {
+      throw new Error('IpcPubSub needs a worker forked with an IPC channel');
+    }
+    if (!this.listener) {
+      this.listener = (message) => {
+        if (isRouterMessage(message) && message.type === 'router:message') {
+          onMessage(message.channel, message.payload);
+        }
+      };
+      process.on('message', this.listener);
+    }
+    this.post({ type: 'router:subscribe', channels });
+  }
+
+  async publish(channel: string, payload: string) {
+    this.post({ type: 'router:publish', channel, payload });
+  }
+
+  async close() {
+    if (this.listener) process.off('message', this.listener);
+    this.listener = undefined;
+    if (process.connected) this.post({ type: 'router:unsubscribe' });
+  }
+
+  private post(message: RouterMessage) {
+    if (!process.connected) {
+      throw new Error('The IPC channel to the primary is closed');
+    }
+    process.send!(message);
+  }
+}
+
+/**
+ * Shares the hubs of the workers of a `ClusterManager`: presence, rooms, broadcasts and direct
+ * sends go through the primary, which forwards them to the workers concerned.
+ */
+export class ClusterAdapter extends PubSubAdapter {
+  readonly name = 'cluster';
+
+  constructor(options: PubSubAdapterOptions = {}) {
+    super(new IpcPubSub(), {
+      nodeId: cluster.isWorker ? `worker-${cluster.worker!.id}` : undefined,
+      ...options,
+    });
+  }
+}
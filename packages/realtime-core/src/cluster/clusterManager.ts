@@ -1,12 +1,95 @@
-import cluster from 'node:cluster';
+import cluster, { type Worker } from 'node:cluster';
 import { availableParallelism } from 'node:os';
 import type { RealtimeKernel } from '../core/realtimeKernel.js';
+import type { DrainOptions } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
+import { ClusterAdapter } from './clusterAdapter.js';
+import { ClusterRouter } from './clusterRouter.js';
 
 export interface ClusterOptions {
   workers?: number;
   restartOnExit?: boolean;
   logLevel?: 'silent' | 'error' | 'info' | 'debug';
+  /**
+   * Route sends, broadcasts and presence between workers through the primary (true by default).
+   * Turn it off to share the hubs with another adapter, such as a mesh or Redis.
+   */
+  routing?: boolean;
+  /** How a stopping worker lets its clients go, on shutdown and reload (see `RealtimeKernel.drain`). */
+  drain?: DrainOptions;
+  /** A worker still running this long after being asked to stop is killed (30 s by default). */
+  shutdownTimeoutMs?: number;
+  /** During a reload, a new worker not ready after this long aborts it (30 s by default). */
+  readyTimeoutMs?: number;
+  /** Delay before a crashed worker is restarted, doubled with each recent restart. */
+  restartBackoff?: RestartBackoffOptions;
+  /**
+   * Past this many restarts within `restartWindowMs` (10 per minute by default), crashed workers
+   * are no longer restarted and the cluster is degraded until the next reload.
+   */
+  maxRestarts?: number;
+  restartWindowMs?: number;
+  /** Health checks over IPC; `false` disables them. */
+  healthCheck?: HealthCheckOptions | false;
+}
+
+export interface RestartBackoffOptions {
+  /** 1 s by default. */
+  initialDelayMs?: number;
+  /** 30 s by default. */
+  maxDelayMs?: number;
+}
+
+export interface HealthCheckOptions {
+  /** Interval between two checks (5 s by default). */
+  intervalMs?: number;
+  /** A worker not answering within this delay is killed, then restarted (2 s by default). */
+  timeoutMs?: number;
+}
+
+/** What a worker reported at its last health check. */
+export interface WorkerHealth {
+  /** Clients connected to the worker's hub. */
+  clients: number;
+  memory: { rss: number; heapUsed: number };
+  checkedAt: number;
+}
+
+export interface WorkerStats {
+  id: number;
+  pid?: number;
+  isDead: boolean;
+  ready: boolean;
+  uptimeMs: number;
+  /** Restarts of this worker's slot after a crash. */
+  restarts: number;
+  lastExitCode?: number | null;
+  lastExitSignal?: string | null;
+  memory?: WorkerHealth['memory'];
+  clients?: number;
+  lastHealthCheckAt?: number;
+}
+
+export interface ClusterStats {
+  totalWorkers: number;
+  activeWorkers: number;
+  /** Set when crashed workers are no longer restarted (see `maxRestarts`). */
+  degraded: boolean;
+  restarts: number;
+  uptimeMs: number;
+  workers: WorkerStats[];
+}
+
+/** What the primary knows of a worker; the worker replacing it takes over its slot and counts. */
+interface WorkerRecord {
+  slot: number;
+  startedAt: number;
+  ready: boolean;
+  restarts: number;
+  lastExitCode?: number | null;
+  lastExitSignal?: string | null;
+  health?: WorkerHealth;
+  pendingCheck?: { id: number; timer: NodeJS.Timeout };
 }
 
 type WorkerSetupFn = () => Promise<RealtimeKernel> | RealtimeKernel;
@@ -14,14 +97,47 @@ type WorkerSetupFn = () => Promise<RealtimeKernel> | RealtimeKernel;
 export class ClusterManager {
   readonly options: Required<ClusterOptions>;
   private readonly logger: Logger;
+  private readonly router = new ClusterRouter();
+  /** Workers asked to stop, which must not be restarted. */
+  private readonly retired = new WeakSet<Worker>();
+  private readonly records = new Map<number, WorkerRecord>();
+  /** Restarts scheduled after a crash, by slot. */
+  private readonly pendingRestarts = new Map<number, NodeJS.Timeout>();
+  private readonly backoff: Required<RestartBackoffOptions>;
+  private readonly health?: Required<HealthCheckOptions>;
+  private restartTimes: number[] = [];
+  private totalRestarts = 0;
+  private degraded = false;
+  private healthTimer?: NodeJS.Timeout;
+  private healthChecks = 0;
+  private startedAt = 0;
+  private reloading?: Promise<void>;
   private started = false;
 
   constructor(options: ClusterOptions = {}) {
     this.options = {
       workers: options.workers ?? availableParallelism(),
       restartOnExit: options.restartOnExit ?? true,
-      logLevel: options.logLevel ?? 'info'
+      logLevel: options.logLevel ?? 'info',
+      routing: options.routing ?? true,
+      drain: options.drain ?? {},
+      shutdownTimeoutMs: options.shutdownTimeoutMs ?? 30_000,
+      readyTimeoutMs: options.readyTimeoutMs ?? 30_000,
+      restartBackoff: options.restartBackoff ?? {},
+      maxRestarts: options.maxRestarts ?? 10,
+      restartWindowMs: options.restartWindowMs ?? 60_000,
+      healthCheck: options.healthCheck ?? {}
+    };
+    this.backoff = {
+      initialDelayMs: this.options.restartBackoff.initialDelayMs ?? 1000,
+      maxDelayMs: this.options.restartBackoff.maxDelayMs ?? 30_000
     };
+    if (this.options.healthCheck) {
+      this.health = {
+        intervalMs: this.options.healthCheck.intervalMs ?? 5000,
+        timeoutMs: this.options.healthCheck.timeoutMs ?? 2000
+      };
+    }
     this.logger = new Logger('cluster', this.options.logLevel);
   }
 
@@ -42,53 +158,256 @@ export class ClusterManager {
   private async startPrimary(): Promise<void> {
     this.logger.info(`Primary process ${process.pid} starting with ${this.options.workers} workers`);
 
+    this.startedAt = Date.now();
+
     // Fork les workers
-    for (let i = 0; i < this.options.workers; i++) {
-      this.forkWorker();
+    for (let slot = 0; slot < this.options.workers; slot++) {
+      this.forkWorker(slot);
     }
 
     // Redémarrer les workers qui crashent
     cluster.on('exit', (worker, code, signal) => {
+      const record = this.records.get(worker.id);
+      this.records.delete(worker.id);
+      clearTimeout(record?.pendingCheck?.timer);
+
+      if (this.retired.has(worker)) {
+        this.logger.info(`Worker ${worker.process.pid} stopped`);
+        return;
+      }
+
       this.logger.error(`Worker ${worker.process.pid} died (${signal || code})`);
 
-      if (this.options.restartOnExit && this.started) {
-        this.logger.info('Restarting worker...');
-        this.forkWorker();
+      if (this.options.restartOnExit && this.started && record) {
+        this.scheduleRestart({ ...record, lastExitCode: code, lastExitSignal: signal });
       }
     });
 
+    // Vérifier que chaque worker répond encore
+    if (this.health) {
+      this.healthTimer = setInterval(() => this.checkHealth(), this.health.intervalMs);
+    }
+
     // Gérer les signaux de terminaison
     const shutdown = async () => {
+      if (!this.started) return;
       this.logger.info('Shutting down cluster...');
       this.started = false;
+      clearInterval(this.healthTimer);
+      this.pendingRestarts.forEach((timer) => clearTimeout(timer));
+      this.pendingRestarts.clear();
 
-      // Envoyer un signal de shutdown à tous les workers
-      for (const id in cluster.workers) {
-        cluster.workers[id]?.send({ type: 'shutdown' });
-      }
-
-      // Attendre 5 secondes puis forcer l'arrêt
-      setTimeout(() => {
-        for (const id in cluster.workers) {
-          cluster.workers[id]?.kill();
-        }
-        process.exit(0);
-      }, 5000);
+      // Chaque worker draine ses clients, ceux qui dépassent shutdownTimeoutMs sont tués
+      await Promise.all(this.listWorkers().map((worker) => this.retireWorker(worker)));
+      process.exit(0);
     };
 
     process.on('SIGTERM', shutdown);
     process.on('SIGINT', shutdown);
+    // Rechargement progressif ; les transports TLS des workers n'entendent SIGHUP que s'il vise tout le groupe (voir `reloadOnSighup`)
+    process.on('SIGHUP', () => {
+      this.reload().catch((error: Error) => this.logger.error('Reload failed:', error.message));
+    });
+  }
+
+  /**
+   * Replaces the workers one at a time: a new worker is started and, once it is ready, an old one
+   * stops accepting connections, asks its clients to reconnect and drains before exiting. The
+   * workers a degraded cluster gave up on are started again. Triggered by SIGHUP; a reload already
+   * running is returned as is.
+   */
+  reload(): Promise<void> {
+    if (!cluster.isPrimary || !this.started) {
+      return Promise.reject(new Error('Only a started primary can reload its workers'));
+    }
+    this.reloading ??= this.replaceWorkers().finally(() => {
+      this.reloading = undefined;
+    });
+    return this.reloading;
   }
 
-  private forkWorker(): void {
+  private async replaceWorkers(): Promise<void> {
+    const workers = this.listWorkers();
+    this.logger.info(`Reloading ${workers.length} workers...`);
+
+    for (const worker of workers) {
+      if (!this.started) return;
+      if (worker.isDead()) continue;
+
+      const record = this.records.get(worker.id);
+      if (!record) continue;
+
+      await this.startReplacement(record);
+      await this.retireWorker(worker);
+    }
+
+    // Relancer les workers abandonnés par un cluster dégradé
+    const slots = new Set([...this.records.values()].map((record) => record.slot));
+    for (let slot = 0; slot < this.options.workers; slot++) {
+      if (!this.started) return;
+      if (slots.has(slot) || this.pendingRestarts.has(slot)) continue;
+      await this.startReplacement({ slot, startedAt: Date.now(), ready: false, restarts: 0 });
+    }
+    this.degraded = false;
+    this.restartTimes = [];
+
+    this.logger.info('Reload complete');
+  }
+
+  private async startReplacement(record: WorkerRecord): Promise<void> {
+    const replacement = this.forkWorker(record.slot, record);
+    try {
+      await this.waitForReady(replacement);
+    } catch (error) {
+      // Les anciens workers restent en place
+      this.retired.add(replacement);
+      replacement.kill();
+      throw error;
+    }
+  }
+
+  /** Restarts a crashed worker after a backoff, unless it crashed too often lately. */
+  private scheduleRestart(record: WorkerRecord): void {
+    const now = Date.now();
+    this.restartTimes = this.restartTimes.filter((time) => time > now - this.options.restartWindowMs);
+
+    if (this.restartTimes.length >= this.options.maxRestarts) {
+      if (!this.degraded) {
+        this.degraded = true;
+        this.logger.error(
+          `${this.restartTimes.length} restarts within ${this.options.restartWindowMs} ms, cluster degraded: crashed workers are no longer restarted until the next reload`
+        );
+      }
+      return;
+    }
+
+    const delay = Math.min(
+      this.backoff.initialDelayMs * 2 ** this.restartTimes.length,
+      this.backoff.maxDelayMs
+    );
+    this.restartTimes.push(now);
+    this.totalRestarts++;
+    this.logger.info(`Restarting worker in ${delay} ms...`);
+
+    const timer = setTimeout(() => {
+      this.pendingRestarts.delete(record.slot);
+      if (this.started) {
+        this.forkWorker(record.slot, { ...record, restarts: record.restarts + 1 });
+      }
+    }, delay);
+    this.pendingRestarts.set(record.slot, timer);
+  }
+
+  /** Asks every ready worker for its health; one that does not answer in time is killed. */
+  private checkHealth(): void {
+    for (const worker of this.listWorkers()) {
+      const record = this.records.get(worker.id);
+      if (!record?.ready || record.pendingCheck || this.retired.has(worker) || !worker.isConnected()) {
+        continue;
+      }
+
+      const id = ++this.healthChecks;
+      const timer = setTimeout(() => {
+        this.logger.error(`Worker ${worker.process.pid} missed its health check, killing it`);
+        worker.process.kill('SIGKILL');
+      }, this.health!.timeoutMs);
+      record.pendingCheck = { id, timer };
+      worker.send({ type: 'health', id });
+    }
+  }
+
+  private handleHealth(worker: Worker, msg: HealthReply): void {
+    const record = this.records.get(worker.id);
+    if (!record || record.pendingCheck?.id !== msg.id) return;
+
+    clearTimeout(record.pendingCheck.timer);
+    record.pendingCheck = undefined;
+    record.health = { clients: msg.clients, memory: msg.memory, checkedAt: Date.now() };
+  }
+
+  private waitForReady(worker: Worker): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const done = (error?: Error) => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('exit', onExit);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const onMessage = (msg: unknown) => {
+        if (isMessage(msg, 'ready')) done();
+      };
+      const onExit = () => {
+        this.retired.add(worker);
+        done(new Error(`Worker ${worker.process.pid} exited before being ready`));
+      };
+      const timer = setTimeout(
+        () => done(new Error(`Worker ${worker.process.pid} not ready after ${this.options.readyTimeoutMs} ms`)),
+        this.options.readyTimeoutMs
+      );
+      worker.on('message', onMessage);
+      worker.once('exit', onExit);
+    });
+  }
+
+  /** Asks a worker to drain and stop, and kills it after `shutdownTimeoutMs`. */
+  private retireWorker(worker: Worker): Promise<void> {
+    this.retired.add(worker);
+    if (worker.isDead()) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.logger.error(`Worker ${worker.process.pid} did not stop in time, killing it`);
+        worker.process.kill('SIGKILL');
+      }, this.options.shutdownTimeoutMs);
+      worker.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+
+      if (worker.isConnected()) {
+        worker.send({ type: 'shutdown' });
+      } else {
+        worker.kill();
+      }
+    });
+  }
+
+  private listWorkers(): Worker[] {
+    return Object.values(cluster.workers ?? {}).filter((w): w is Worker => w !== undefined);
+  }
+
+  private forkWorker(slot: number, previous?: WorkerRecord): Worker {
     const worker = cluster.fork();
     this.logger.info(`Worker ${worker.process.pid} started`);
 
+    this.records.set(worker.id, {
+      slot,
+      startedAt: Date.now(),
+      ready: false,
+      restarts: previous?.restarts ?? 0,
+      lastExitCode: previous?.lastExitCode,
+      lastExitSignal: previous?.lastExitSignal
+    });
+
+    if (this.options.routing) {
+      this.router.attach(worker);
+    }
+
     worker.on('message', (msg: unknown) => {
-      if (typeof msg === 'object' && msg !== null && 'type' in msg && msg.type === 'ready') {
+      if (isMessage(msg, 'ready')) {
         this.logger.info(`Worker ${worker.process.pid} is ready`);
+        const record = this.records.get(worker.id);
+        if (record) record.ready = true;
+      } else if (isMessage(msg, 'health')) {
+        this.handleHealth(worker, msg as HealthReply);
       }
     });
+
+    return worker;
   }
 
   private async startWorker(setupFn: WorkerSetupFn): Promise<void> {
@@ -96,15 +415,36 @@ export class ClusterManager {
 
     try {
       const kernel = await setupFn();
+
+      // Partager les clients et les rooms avec les autres workers via le primary
+      if (this.options.routing) {
+        await kernel.useAdapter(new ClusterAdapter());
+      }
+
       await kernel.start();
 
       // Notifier le master que le worker est prêt
       process.send?.({ type: 'ready' });
 
+      // Ctrl+C atteint tout le groupe de processus : l'arrêt passe par le primary, qui draine les workers
+      process.on('SIGINT', () => {});
+
       // Écouter les messages du master
+      let stopping = false;
       process.on('message', async (msg: unknown) => {
-        if (typeof msg === 'object' && msg !== null && 'type' in msg && msg.type === 'shutdown') {
-          this.logger.info(`Worker ${process.pid} shutting down...`);
+        if (isMessage(msg, 'health')) {
+          const { rss, heapUsed } = process.memoryUsage();
+          const reply: HealthReply = {
+            type: 'health',
+            id: (msg as HealthReply).id,
+            clients: kernel.clientCount,
+            memory: { rss, heapUsed }
+          };
+          process.send?.(reply);
+        } else if (isMessage(msg, 'shutdown') && !stopping) {
+          stopping = true;
+          this.logger.info(`Worker ${process.pid} draining...`);
+          await kernel.drain(this.options.drain);
           await kernel.stop();
           process.exit(0);
         }
@@ -117,27 +457,53 @@ export class ClusterManager {
     }
   }
 
-  getStats() {
+  getStats(): ClusterStats | null {
     if (!cluster.isPrimary) {
       return null;
     }
 
-    const workers = Object.values(cluster.workers ?? {})
-      .filter((w): w is NonNullable<typeof w> => w !== undefined)
-      .map((w) => ({
-        id: w.id,
-        pid: w.process.pid,
-        isDead: w.isDead()
-      }));
+    const now = Date.now();
+    const workers = this.listWorkers()
+      .map((w): WorkerStats => {
+        const record = this.records.get(w.id);
+        return {
+          id: w.id,
+          pid: w.process.pid,
+          isDead: w.isDead(),
+          ready: record?.ready ?? false,
+          uptimeMs: record ? now - record.startedAt : 0,
+          restarts: record?.restarts ?? 0,
+          lastExitCode: record?.lastExitCode,
+          lastExitSignal: record?.lastExitSignal,
+          memory: record?.health?.memory,
+          clients: record?.health?.clients,
+          lastHealthCheckAt: record?.health?.checkedAt
+        };
+      });
 
     return {
       totalWorkers: this.options.workers,
       activeWorkers: workers.length,
+      degraded: this.degraded,
+      restarts: this.totalRestarts,
+      uptimeMs: this.startedAt ? now - this.startedAt : 0,
       workers
     };
   }
 }
 
+/** A worker's answer to a health check. */
+interface HealthReply {
+  type: 'health';
+  id: number;
+  clients: number;
+  memory: WorkerHealth['memory'];
+}
+
+function isMessage(msg: unknown, type: string): boolean {
+  return typeof msg === 'object' && msg !== null && 'type' in msg && msg.type === type;
+}
+
 export function generateMeshPeers(basePort = 9090, totalWorkers?: number): string[] {
   if (!cluster.isWorker) {
     return [];
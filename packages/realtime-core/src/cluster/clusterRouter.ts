@@ -0,0 +1,156 @@
+import type { Worker } from 'node:cluster';
+import type { PresenceSnapshot } from '../types/index.js';
+import { safeParse } from '../utils/json.js';
+import { isRouterMessage, type RouterMessage } from './clusterAdapter.js';
+
+/** The parts of the adapters' messages the router reads to keep its registry. */
+interface RoutedMessage {
+  origin?: string;
+  kind?: string;
+  clients?: PresenceSnapshot[];
+  client?: PresenceSnapshot;
+  clientId?: string;
+  room?: string;
+}
+
+/**
+ * Runs in the primary and brokers the `ClusterAdapter` of every worker. It keeps a registry of
+ * the clients and rooms each worker owns, learned from their presence messages: room broadcasts
+ * only reach the workers with members, and when a worker exits the others forget its clients.
+ */
+export class ClusterRouter {
+  private readonly workers = new Map<number, Worker>();
+  private readonly subscriptions = new Map<string, Set<number>>();
+  /** Node id each worker's adapter publishes under. */
+  private readonly nodeIds = new Map<number, string>();
+  private readonly owners = new Map<string, number>();
+  private readonly clients = new Map<number, Map<string, string[]>>();
+
+  attach(worker: Worker) {
+    this.workers.set(worker.id, worker);
+    worker.on('message', (message: unknown) => {
+      if (isRouterMessage(message)) this.handle(worker.id, message);
+    });
+    worker.on('exit', () => this.detach(worker.id));
+  }
+
+  /** Clients registered by each worker. */
+  clientCounts() {
+    return new Map([...this.clients].map(([workerId, clients]) => [workerId, clients.size]));
+  }
+
+  /** Workers with clients in `room`. */
+  workersIn(room: string) {
+    const workers = new Set<number>();
+    for (const [workerId, clients] of this.clients) {
+      for (const rooms of clients.values()) {
+        if (rooms.includes(room)) {
+          workers.add(workerId);
+          break;
+        }
+      }
+    }
+    return workers;
+  }
+
+  private handle(workerId: number, message: RouterMessage) {
+    switch (message.type) {
+      case 'router:subscribe':
+        message.channels.forEach((channel) => {
+          let subscribers = this.subscriptions.get(channel);
+          if (!subscribers) {
+            subscribers = new Set();
+            this.subscriptions.set(channel, subscribers);
+          }
+          subscribers.add(workerId);
+        });
+        break;
+      case 'router:unsubscribe':
+        this.detach(workerId);
+        break;
+      case 'router:publish':
+        this.route(workerId, message.channel, message.payload);
+        break;
+    }
+  }
+
+  private route(workerId: number, channel: string, payload: string) {
+    const routed = safeParse<RoutedMessage>(payload) ?? {};
+    this.register(workerId, routed);
+    const room = routed.kind === 'broadcast' ? routed.room : undefined;
+    const members = room ? this.workersIn(room) : undefined;
+    this.subscriptions.get(channel)?.forEach((subscriber) => {
+      if (subscriber === workerId || (members && !members.has(subscriber))) return;
+      this.deliver(subscriber, { type: 'router:message', channel, payload });
+    });
+  }
+
+  private register(workerId: number, message: RoutedMessage) {
+    if (typeof message.origin === 'string') this.nodeIds.set(workerId, message.origin);
+    let clients = this.clients.get(workerId);
+    if (!clients) {
+      clients = new Map();
+      this.clients.set(workerId, clients);
+    }
+    switch (message.kind) {
+      case 'sync':
+        clients.forEach((_rooms, clientId) => this.owners.delete(clientId));
+        clients.clear();
+        message.clients?.forEach((client) => this.own(workerId, client));
+        break;
+      case 'presence':
+        if (message.client) this.own(workerId, message.client);
+        break;
+      case 'disconnect':
+        if (message.clientId && this.owners.get(message.clientId) === workerId) {
+          this.owners.delete(message.clientId);
+          clients.delete(message.clientId);
+        }
+        break;
+      case 'leave':
+        this.forget(workerId);
+        break;
+    }
+  }
+
+  private own(workerId: number, client: PresenceSnapshot) {
+    const previous = this.owners.get(client.id);
+    if (previous !== undefined && previous !== workerId) {
+      this.clients.get(previous)?.delete(client.id);
+    }
+    this.owners.set(client.id, workerId);
+    this.clients.get(workerId)?.set(client.id, client.rooms ?? []);
+  }
+
+  private forget(workerId: number) {
+    this.clients.get(workerId)?.forEach((_rooms, clientId) => this.owners.delete(clientId));
+    this.clients.delete(workerId);
+  }
+
+  /** A worker that exits without saying so is announced as gone to the others. */
+  private detach(workerId: number) {
+    const nodeId = this.nodeIds.get(workerId);
+    const announce = this.clients.has(workerId) && nodeId;
+    this.forget(workerId);
+    this.nodeIds.delete(workerId);
+    this.workers.delete(workerId);
+    const channels = [...this.subscriptions.entries()].filter(([, subscribers]) =>
+      subscribers.delete(workerId),
+    );
+    if (!announce) return;
+    const payload = JSON.stringify({ origin: nodeId, kind: 'leave' });
+    const notified = new Set<number>();
+    channels.forEach(([channel, subscribers]) =>
+      subscribers.forEach((subscriber) => {
+        if (notified.has(subscriber)) return;
+        notified.add(subscriber);
+        this.deliver(subscriber, { type: 'router:message', channel, payload });
+      }),
+    );
+  }
+
+  private deliver(workerId: number, message: RouterMessage) {
+    const worker = this.workers.get(workerId);
+    if (worker?.isConnected()) worker.send(message);
+  }
+}
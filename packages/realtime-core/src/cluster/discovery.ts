@@ -0,0 +1,102 @@
+import { createSocket, type Socket } from 'node:dgram';
+import type { Logger } from '../utils/logger.js';
+import { safeParse } from '../utils/json.js';
+
+export interface MulticastDiscoveryOptions {
+  /** Multicast group the nodes announce themselves to (`239.255.42.99` by default). */
+  group?: string;
+  /** UDP port of the group (54545 by default). */
+  port?: number;
+  /** Interval between two announcements (2 s by default). */
+  intervalMs?: number;
+  /** Only nodes announcing the same name are reported, so several clusters can share a LAN. */
+  cluster?: string;
+  /** Address of the local interface joining the group; every interface by default. */
+  interface?: string;
+  /** Router hops announcements may cross (1 by default: the local network only). */
+  ttl?: number;
+}
+
+interface Announcement {
+  service: 'realtime-mesh';
+  cluster: string;
+  nodeId: string;
+  address: string;
+}
+
+/**
+ * Announces this node on a UDP multicast group and reports the nodes announced by others.
+ * Announcements are not authenticated: they only tell the mesh where to dial, and the mesh
+ * handshake (secret, TLS) decides whether the link is accepted.
+ */
+export class MulticastDiscovery {
+  private readonly options: Required<Omit<MulticastDiscoveryOptions, 'interface'>> &
+    Pick<MulticastDiscoveryOptions, 'interface'>;
+  private socket?: Socket;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly nodeId: string,
+    private readonly address: string,
+    private readonly onNode: (nodeId: string, address: string) => void,
+    private readonly logger: Logger,
+    options: MulticastDiscoveryOptions = {},
+  ) {
+    this.options = {
+      group: '239.255.42.99',
+      port: 54545,
+      intervalMs: 2000,
+      cluster: 'default',
+      ttl: 1,
+      ...options,
+    };
+  }
+
+  async start() {
+    const socket = createSocket({ type: 'udp4', reuseAddr: true });
+    this.socket = socket;
+    socket.on('message', (data) => this.handleAnnouncement(data));
+    socket.on('error', (error) => this.logger.error('Multicast discovery error:', error.message));
+    await new Promise<void>((resolve) => socket.bind(this.options.port, resolve));
+    socket.addMembership(this.options.group, this.options.interface);
+    socket.setMulticastTTL(this.options.ttl);
+    // nodes sharing a host hear each other too
+    socket.setMulticastLoopback(true);
+    this.announce();
+    this.timer = setInterval(() => this.announce(), this.options.intervalMs).unref();
+    this.logger.info(`Multicast discovery on ${this.options.group}:${this.options.port}`);
+  }
+
+  async stop() {
+    clearInterval(this.timer);
+    const socket = this.socket;
+    this.socket = undefined;
+    if (socket) {
+      await new Promise<void>((resolve) => socket.close(() => resolve()));
+    }
+  }
+
+  private announce() {
+    const announcement: Announcement = {
+      service: 'realtime-mesh',
+      cluster: this.options.cluster,
+      nodeId: this.nodeId,
+      address: this.address,
+    };
+    this.socket?.send(JSON.stringify(announcement), this.options.port, this.options.group);
+  }
+
+  private handleAnnouncement(data: Buffer) {
+    const announcement = safeParse<Announcement>(data.toString('utf8'));
+    if (
+      announcement?.service !== 'realtime-mesh' ||
+      announcement.cluster !== this.options.cluster ||
+      typeof announcement.nodeId !== 'string' ||
+      typeof announcement.address !== 'string' ||
+      announcement.nodeId === this.nodeId
+    ) {
+      return;
+    }
+    this.onNode(announcement.nodeId, announcement.address);
+  }
+}
@@ -0,0 +1,310 @@
+export type MemberStatus = 'alive' | 'suspect' | 'dead' | 'left';
+
+export interface MeshMember {
+  nodeId: string;
+  /** `host:port` other nodes dial to reach this member. */
+  address: string;
+  /**
+   * Raised by the member itself to refute a suspicion; a newer incarnation wins over any older
+   * state. Starts at the boot time so a restarted node outranks its previous life.
+   */
+  incarnation: number;
+  status: MemberStatus;
+}
+
+/** Why a member left the cluster: it announced it, or it stopped answering probes. */
+export type MemberLeaveReason = 'left' | 'failed';
+
+export type MembershipMessage =
+  | { type: 'ping'; seq: number }
+  | { type: 'ack'; seq: number }
+  /** Asks the receiver to probe `target` and to pass its ack back under `seq`. */
+  | { type: 'ping-req'; seq: number; target: string }
+  /** The full member list, exchanged when a link comes up. */
+  | { type: 'members'; members: MeshMember[] }
+  | { type: 'update'; member: MeshMember };
+
+/** The links between nodes, as provided by the mesh. */
+export interface MembershipLink {
+  /** Nodes with an open link to this one. */
+  peers(): string[];
+  send(nodeId: string, message: MembershipMessage): void;
+}
+
+export interface MembershipEvents {
+  joined(member: MeshMember): void;
+  left(member: MeshMember, reason: MemberLeaveReason): void;
+}
+
+export interface MembershipOptions {
+  /** Interval between two probes; each round probes one member (1 s by default). */
+  probeIntervalMs?: number;
+  /** How long a direct ping waits for its ack before other members probe on its behalf (500 ms by default). */
+  probeTimeoutMs?: number;
+  /** Members asked to probe a node that did not answer directly (3 by default). */
+  indirectProbes?: number;
+  /** How long a suspected member has to refute before it is declared failed (5 s by default). */
+  suspicionTimeoutMs?: number;
+}
+
+/** How long departed members are remembered, so stale gossip cannot bring them back. */
+const TOMBSTONE_MS = 60_000;
+
+const isUp = (member: MeshMember) => member.status === 'alive' || member.status === 'suspect';
+
+/** SWIM precedence: whether `update` replaces what is known of the member. */
+function supersedes(update: MeshMember, current: MeshMember) {
+  if (!isUp(current)) return update.incarnation > current.incarnation;
+  switch (update.status) {
+    case 'alive':
+      return update.incarnation > current.incarnation;
+    case 'suspect':
+      return current.status === 'alive'
+        ? update.incarnation >= current.incarnation
+        : update.incarnation > current.incarnation;
+    default:
+      return update.incarnation >= current.incarnation;
+  }
+}
+
+/**
+ * SWIM-style membership. Each round pings one member; without an ack in `probeTimeoutMs`, up to
+ * `indirectProbes` other members ping it on this node's behalf. A member nobody reaches becomes
+ * suspect and is declared failed unless it refutes within `suspicionTimeoutMs`. Every state
+ * change is passed on to the linked nodes, which pass it on in turn when it is news to them.
+ */
+export class Membership {
+  private readonly members = new Map<string, MeshMember>();
+  private readonly suspicions = new Map<string, NodeJS.Timeout>();
+  private readonly tombstones = new Map<string, NodeJS.Timeout>();
+  /** Pending acks by sequence number. */
+  private readonly acks = new Map<number, () => void>();
+  /** Pings sent for another node's ping-req: our sequence, theirs and who asked. */
+  private readonly relayedPings = new Map<number, { requester: string; seq: number }>();
+  private readonly self: MeshMember;
+  private readonly options: Required<MembershipOptions>;
+  private sequence = 0;
+  private queue: string[] = [];
+  private probing = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    nodeId: string,
+    address: string,
+    private readonly link: MembershipLink,
+    private readonly events: MembershipEvents,
+    options: MembershipOptions = {},
+  ) {
+    this.self = { nodeId, address, incarnation: Date.now(), status: 'alive' };
+    this.options = {
+      probeIntervalMs: 1000,
+      probeTimeoutMs: 500,
+      indirectProbes: 3,
+      suspicionTimeoutMs: 5000,
+      ...options,
+    };
+  }
+
+  start() {
+    this.timer = setInterval(() => void this.probeNext(), this.options.probeIntervalMs).unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.suspicions.forEach((timer) => clearTimeout(timer));
+    this.tombstones.forEach((timer) => clearTimeout(timer));
+    this.suspicions.clear();
+    this.tombstones.clear();
+    this.acks.forEach((resolve) => resolve());
+    this.acks.clear();
+    this.relayedPings.clear();
+  }
+
+  /** This node first, then every member known, departed ones included. */
+  list(): MeshMember[] {
+    return [{ ...this.self }, ...[...this.members.values()].map((member) => ({ ...member }))];
+  }
+
+  get(nodeId: string) {
+    return this.members.get(nodeId);
+  }
+
+  /** Members currently alive or suspect. */
+  active() {
+    return [...this.members.values()].filter(isUp);
+  }
+
+  /** A link came up: the peer gets the full member list, and learns of the others from it. */
+  linkUp(nodeId: string) {
+    this.link.send(nodeId, { type: 'members', members: this.list() });
+  }
+
+  /** Announces that this node is leaving, so the others do not wait for probes to time out. */
+  leave() {
+    this.self.status = 'left';
+    this.disseminate(this.self);
+  }
+
+  /** Removes a member from the cluster on every node; it stays out until it restarts. */
+  evict(nodeId: string) {
+    const member = this.members.get(nodeId);
+    if (member && isUp(member)) this.merge({ ...member, status: 'left' });
+  }
+
+  receive(from: string, message: MembershipMessage) {
+    switch (message?.type) {
+      case 'ping':
+        this.link.send(from, { type: 'ack', seq: message.seq });
+        break;
+      case 'ack': {
+        const relayed = this.relayedPings.get(message.seq);
+        if (relayed) {
+          this.relayedPings.delete(message.seq);
+          this.link.send(relayed.requester, { type: 'ack', seq: relayed.seq });
+        }
+        this.acks.get(message.seq)?.();
+        break;
+      }
+      case 'ping-req': {
+        if (!this.link.peers().includes(message.target)) break;
+        const seq = ++this.sequence;
+        this.relayedPings.set(seq, { requester: from, seq: message.seq });
+        setTimeout(() => this.relayedPings.delete(seq), this.options.probeIntervalMs).unref();
+        this.link.send(message.target, { type: 'ping', seq });
+        break;
+      }
+      case 'members':
+        message.members.forEach((member) => this.merge(member));
+        break;
+      case 'update':
+        this.merge(message.member);
+        break;
+    }
+  }
+
+  private merge(update: MeshMember) {
+    if (typeof update?.nodeId !== 'string' || typeof update.incarnation !== 'number') return;
+    if (update.nodeId === this.self.nodeId) {
+      this.refute(update);
+      return;
+    }
+    const current = this.members.get(update.nodeId);
+    if (current && !supersedes(update, current)) return;
+    if (!current && !isUp(update)) return;
+    const member = { ...update };
+    this.members.set(member.nodeId, member);
+    this.clearTimer(this.tombstones, member.nodeId);
+    if (member.status !== 'suspect') this.clearTimer(this.suspicions, member.nodeId);
+
+    if (member.status === 'suspect' && !this.suspicions.has(member.nodeId)) {
+      const timer = setTimeout(() => {
+        this.suspicions.delete(member.nodeId);
+        const latest = this.members.get(member.nodeId);
+        if (latest?.status === 'suspect') this.merge({ ...latest, status: 'dead' });
+      }, this.options.suspicionTimeoutMs).unref();
+      this.suspicions.set(member.nodeId, timer);
+    }
+    if (!isUp(member)) {
+      const timer = setTimeout(() => {
+        this.tombstones.delete(member.nodeId);
+        this.members.delete(member.nodeId);
+      }, TOMBSTONE_MS).unref();
+      this.tombstones.set(member.nodeId, timer);
+    }
+
+    this.disseminate(member);
+    const wasUp = current ? isUp(current) : false;
+    if (isUp(member) && !wasUp) {
+      this.events.joined({ ...member });
+    } else if (!isUp(member) && wasUp) {
+      this.events.left({ ...member }, member.status === 'left' ? 'left' : 'failed');
+    }
+  }
+
+  /**
+   * Gossip says this node is suspect or dead: a newer incarnation proves otherwise. Gossip that it
+   * was removed is final: the node forgets the cluster and reports itself as left.
+   */
+  private refute(update: MeshMember) {
+    if (this.self.status === 'left' || update.status === 'alive') return;
+    if (update.incarnation < this.self.incarnation) return;
+    if (update.status === 'left') {
+      this.self.status = 'left';
+      this.stop();
+      this.members.clear();
+      this.events.left({ ...this.self }, 'left');
+      return;
+    }
+    this.self.incarnation = update.incarnation + 1;
+    this.disseminate(this.self);
+  }
+
+  private disseminate(member: MeshMember) {
+    const update: MembershipMessage = { type: 'update', member: { ...member } };
+    this.link.peers().forEach((peer) => this.link.send(peer, update));
+  }
+
+  private async probeNext() {
+    if (this.probing) return;
+    const target = this.nextTarget();
+    if (!target) return;
+    this.probing = true;
+    try {
+      if (!(await this.probe(target))) {
+        const member = this.members.get(target);
+        if (member?.status === 'alive') this.merge({ ...member, status: 'suspect' });
+      }
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  /** Round-robin over a shuffled list, so every member is probed within a bounded time. */
+  private nextTarget() {
+    while (this.queue.length) {
+      const nodeId = this.queue.shift()!;
+      const member = this.members.get(nodeId);
+      if (member && isUp(member)) return nodeId;
+    }
+    this.queue = this.active()
+      .map((member) => member.nodeId)
+      .sort(() => Math.random() - 0.5);
+    return this.queue.shift();
+  }
+
+  private async probe(target: string) {
+    const peers = this.link.peers();
+    if (peers.includes(target)) {
+      const seq = ++this.sequence;
+      this.link.send(target, { type: 'ping', seq });
+      if (await this.waitAck(seq, this.options.probeTimeoutMs)) return true;
+    }
+    const helpers = peers
+      .filter((peer) => peer !== target)
+      .sort(() => Math.random() - 0.5)
+      .slice(0, this.options.indirectProbes);
+    if (!helpers.length) return false;
+    const seq = ++this.sequence;
+    helpers.forEach((helper) => this.link.send(helper, { type: 'ping-req', seq, target }));
+    return this.waitAck(seq, this.options.probeIntervalMs);
+  }
+
+  private waitAck(seq: number, timeoutMs: number) {
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.acks.delete(seq);
+        resolve(false);
+      }, timeoutMs);
+      this.acks.set(seq, () => {
+        clearTimeout(timer);
+        this.acks.delete(seq);
+        resolve(true);
+      });
+    });
+  }
+
+  private clearTimer(timers: Map<string, NodeJS.Timeout>, nodeId: string) {
+    clearTimeout(timers.get(nodeId));
+    timers.delete(nodeId);
+  }
+}
@@ -0,0 +1,237 @@
+import { connect, type Socket } from 'node:net';
+import {
+  PubSubAdapter,
+  type PubSubAdapterOptions,
+  type PubSubClient,
+} from '../core/pubSubAdapter.js';
+import { decodeReply, encodeCommand, RespError, type RespValue } from '../utils/resp.js';
+
+export interface RedisAdapterOptions extends PubSubAdapterOptions {
+  /** `redis://[[username]:password@]host[:port]`; takes precedence over the fields below. */
+  url?: string;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  /** Delay between two attempts to get the subscription back after the broker is lost (1 s by default). */
+  reconnectIntervalMs?: number;
+}
+
+type RedisConnectionOptions = Required<Pick<RedisAdapterOptions, 'host' | 'port'>> &
+  Pick<RedisAdapterOptions, 'username' | 'password'>;
+
+/** One RESP connection. Replies are matched to commands in order; pub/sub messages are pushed. */
+class RespConnection {
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly pending: Array<{
+    replies: number;
+    resolve: (value: RespValue) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private closed = false;
+  /** Set once the connection is ready, so a failed handshake is not taken for a lost broker. */
+  onClose?: () => void;
+
+  constructor(
+    private readonly socket: Socket,
+    private readonly onPush: (channel: string, payload: string) => void,
+  ) {
+    socket.on('data', (chunk: Buffer) => this.handleChunk(chunk));
+    socket.on('close', () => this.destroy(new Error('Connection to the broker closed')));
+    socket.on('error', (error) => this.destroy(error));
+  }
+
+  /** Resolves with the last of `replies` replies (SUBSCRIBE answers once per channel). */
+  command(args: Array<string | Buffer>, replies = 1) {
+    if (this.closed) return Promise.reject(new Error('Connection to the broker closed'));
+    return new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({ replies, resolve, reject });
+      this.socket.write(encodeCommand(args));
+    });
+  }
+
+  close() {
+    this.socket.destroy();
+    this.destroy(new Error('Connection to the broker closed'));
+  }
+
+  private destroy(error: Error) {
+    if (this.closed) return;
+    this.closed = true;
+    this.pending.splice(0).forEach((command) => command.reject(error));
+    this.onClose?.();
+  }
+
+  private handleChunk(chunk: Buffer) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let reply;
+      try {
+        reply = decodeReply(this.buffer, offset);
+      } catch (error) {
+        this.socket.destroy();
+        this.destroy(error as Error);
+        return;
+      }
+      if (!reply) break;
+      offset += reply.bytes;
+      this.handleReply(reply.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private handleReply(value: RespValue) {
+    if (Array.isArray(value) && String(value[0]) === 'message' && value.length === 3) {
+      this.onPush(String(value[1]), String(value[2]));
+      return;
+    }
+    const command = this.pending[0];
+    if (!command) return;
+    if (--command.replies > 0) return;
+    this.pending.shift();
+    if (value instanceof RespError) {
+      command.reject(value);
+    } else {
+      command.resolve(value);
+    }
+  }
+}
+
+/**
+ * Publish/subscribe client for Redis and the brokers speaking its protocol (RESP2): one
+ * connection publishes, another one holds the subscriptions. A lost subscription is restored
+ * every `reconnectIntervalMs` until the broker is back.
+ */
+export class RedisPubSub implements PubSubClient {
+  private readonly connection: RedisConnectionOptions;
+  private readonly reconnectIntervalMs: number;
+  private publisher?: Promise<RespConnection>;
+  private subscriber?: Promise<RespConnection>;
+  private readonly channels: string[] = [];
+  private onMessage?: (channel: string, payload: string) => void;
+  private readonly reconnectListeners: Array<() => void> = [];
+  private reconnectTimer?: NodeJS.Timeout;
+  private closing = false;
+
+  constructor(options: RedisAdapterOptions = {}) {
+    this.connection = parseRedisOptions(options);
+    this.reconnectIntervalMs = options.reconnectIntervalMs ?? 1000;
+  }
+
+  async subscribe(channels: string[], onMessage: (channel: string, payload: string) => void) {
+    this.closing = false;
+    this.onMessage = onMessage;
+    this.channels.push(...channels);
+    const subscriber = await this.connectSubscriber();
+    await subscriber.command(['SUBSCRIBE', ...channels], channels.length);
+  }
+
+  async publish(channel: string, payload: string) {
+    this.publisher ??= this.open(() => {
+      this.publisher = undefined;
+    });
+    const publisher = await this.publisher.catch((error: unknown) => {
+      this.publisher = undefined;
+      throw error;
+    });
+    await publisher.command(['PUBLISH', channel, payload]);
+  }
+
+  onReconnect(listener: () => void) {
+    this.reconnectListeners.push(listener);
+  }
+
+  async close() {
+    this.closing = true;
+    clearTimeout(this.reconnectTimer);
+    this.channels.length = 0;
+    const connections = await Promise.allSettled([this.publisher, this.subscriber]);
+    this.publisher = undefined;
+    this.subscriber = undefined;
+    connections.forEach((result) => {
+      if (result.status === 'fulfilled') result.value?.close();
+    });
+  }
+
+  private connectSubscriber() {
+    this.subscriber ??= this.open(
+      () => {
+        this.subscriber = undefined;
+        if (!this.closing) this.scheduleResubscribe();
+      },
+      (channel, payload) => this.onMessage?.(channel, payload),
+    );
+    return this.subscriber.catch((error: unknown) => {
+      this.subscriber = undefined;
+      throw error;
+    });
+  }
+
+  private scheduleResubscribe() {
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      this.connectSubscriber()
+        .then((subscriber) =>
+          subscriber.command(['SUBSCRIBE', ...this.channels], this.channels.length),
+        )
+        .then(
+          () => this.reconnectListeners.forEach((listener) => listener()),
+          () => {
+            if (!this.closing) this.scheduleResubscribe();
+          },
+        );
+    }, this.reconnectIntervalMs).unref();
+  }
+
+  private async open(
+    onClose: () => void,
+    onPush: (channel: string, payload: string) => void = () => {},
+  ) {
+    const { host, port, username, password } = this.connection;
+    const socket = connect(port, host);
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('error', reject);
+    });
+    socket.setNoDelay(true);
+    const connection = new RespConnection(socket, onPush);
+    if (password !== undefined) {
+      try {
+        await connection.command(username ? ['AUTH', username, password] : ['AUTH', password]);
+      } catch (error) {
+        connection.close();
+        throw error;
+      }
+    }
+    connection.onClose = onClose;
+    return connection;
+  }
+}
+
+/** Shares hubs across machines through a Redis-compatible broker. */
+export class RedisAdapter extends PubSubAdapter {
+  readonly name = 'redis';
+
+  constructor(options: RedisAdapterOptions = {}) {
+    super(new RedisPubSub(options), options);
+  }
+}
+
+function parseRedisOptions(options: RedisAdapterOptions): RedisConnectionOptions {
+  if (!options.url) {
+    return {
+      host: options.host ?? '127.0.0.1',
+      port: options.port ?? 6379,
+      username: options.username,
+      password: options.password,
+    };
+  }
+  const url = new URL(options.url);
+  return {
+    host: url.hostname || '127.0.0.1',
+    port: Number(url.port || 6379),
+    username: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+  };
+}
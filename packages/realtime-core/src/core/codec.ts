@@ -0,0 +1,65 @@
+import { safeStringify } from '../utils/json.js';
+import { decodeMsgpack, encodeMsgpack } from '../utils/msgpack.js';
+
+/**
+ * Serializes envelopes on the wire. Binary codecs travel in binary WebSocket frames, text codecs
+ * in text frames; `decode` throws on malformed input.
+ */
+export interface Codec {
+  readonly name: string;
+  readonly binary: boolean;
+  encode(value: unknown): string | Uint8Array;
+  decode(data: string | Uint8Array): unknown;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const jsonCodec: Codec = {
+  name: 'json',
+  binary: false,
+  encode: (value) => safeStringify(value),
+  decode: (data) => JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data)),
+};
+
+/** MessagePack: more compact than JSON, and `Uint8Array` payloads travel without base64. */
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  binary: true,
+  encode: (value) => encodeMsgpack(value),
+  decode: (data) => decodeMsgpack(typeof data === 'string' ? textEncoder.encode(data) : data),
+};
+
+export class CodecRegistry {
+  private readonly codecs = new Map<string, Codec>();
+
+  constructor(codecs: Codec[] = []) {
+    codecs.forEach((codec) => this.register(codec));
+  }
+
+  register(codec: Codec) {
+    this.codecs.set(codec.name, codec);
+    return this;
+  }
+
+  get(name: string) {
+    return this.codecs.get(name);
+  }
+
+  list() {
+    return [...this.codecs.values()];
+  }
+
+  /** Looks codecs up by name; instances are taken as they are. Throws for unknown names. */
+  resolve(codec: Codec | string): Codec {
+    if (typeof codec !== 'string') return codec;
+    const found = this.codecs.get(codec);
+    if (!found) {
+      throw new Error(`Unknown codec "${codec}"`);
+    }
+    return found;
+  }
+}
+
+/** Codecs transports refer to by name; register custom codecs here. */
+export const codecRegistry = new CodecRegistry([jsonCodec, msgpackCodec]);
@@ -0,0 +1,73 @@
+import type { ValidationIssue } from './validation.js';
+
+export const ErrorCodes = {
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+  EVENT_FORBIDDEN: 'EVENT_FORBIDDEN',
+  ROOM_FORBIDDEN: 'ROOM_FORBIDDEN',
+  DIRECT_MESSAGE_FORBIDDEN: 'DIRECT_MESSAGE_FORBIDDEN',
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  RPC_MALFORMED: 'RPC_MALFORMED',
+  RPC_NOT_FOUND: 'RPC_NOT_FOUND',
+  RPC_TIMEOUT: 'RPC_TIMEOUT',
+  RPC_CANCELLED: 'RPC_CANCELLED',
+  RATE_LIMITED: 'RATE_LIMITED',
+} as const;
+
+export type RealtimeErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
+
+export class RealtimeError extends Error {
+  constructor(
+    message: string,
+    readonly code: RealtimeErrorCode | (string & {}),
+    readonly details?: string,
+  ) {
+    super(message);
+    this.name = 'RealtimeError';
+  }
+}
+
+/** Thrown (or produced) by `KernelOptions.authenticate` to refuse a connection. */
+export class AuthenticationError extends RealtimeError {
+  constructor(
+    message = 'Unauthorized',
+    readonly status = 401,
+  ) {
+    super(message, ErrorCodes.UNAUTHORIZED);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** Raised when a policy denies an event, a room join or a direct message. */
+export class PolicyError extends RealtimeError {
+  constructor(code: RealtimeErrorCode, message: string, details?: string) {
+    super(message, code, details);
+    this.name = 'PolicyError';
+  }
+}
+
+/** Raised when an inbound payload does not match the schema registered for its event. */
+export class ValidationError extends RealtimeError {
+  constructor(
+    event: string,
+    readonly issues: ValidationIssue[],
+  ) {
+    super(
+      `Invalid payload for ${event}`,
+      ErrorCodes.VALIDATION_FAILED,
+      issues.map((issue) => `${issue.path}: ${issue.message}`).join('; '),
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+/** Raised when a client exceeds a rate limit; `retryAfterMs` tells it when to try again. */
+export class RateLimitError extends RealtimeError {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(message, ErrorCodes.RATE_LIMITED);
+    this.name = 'RateLimitError';
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  matchSegment,
+  parseTemplate,
+  type TemplateParamValue,
+  type TemplateSegment,
+} from './eventTypeBuilder.js';
+
+interface Route<T> {
+  template: string;
+  value: T;
+  order: number;
+}
+
+interface RouteNode<T> {
+  literals: Map<string, RouteNode<T>>;
+  params: Map<string, { segment: TemplateSegment; node: RouteNode<T> }>;
+  routes: Route<T>[];
+}
+
+export interface RouteMatch<T> {
+  template: string;
+  value: T;
+  params: Record<string, TemplateParamValue>;
+}
+
+const createNode = <T>(): RouteNode<T> => ({
+  literals: new Map(),
+  params: new Map(),
+  routes: [],
+});
+
+/**
+ * Segment trie of event templates. Lookup cost depends on the depth of the name and the number
+ * of placeholder branches along the way, not on how many templates are registered.
+ */
+export class EventRouter<T> {
+  private readonly root = createNode<T>();
+  private counter = 0;
+
+  add(template: string, value: T) {
+    let node = this.root;
+    for (const segment of parseTemplate(template)) {
+      if (!segment.param) {
+        let next = node.literals.get(segment.raw);
+        if (!next) {
+          next = createNode<T>();
+          node.literals.set(segment.raw, next);
+        }
+        node = next;
+        continue;
+      }
+      let edge = node.params.get(segment.raw);
+      if (!edge) {
+        edge = { segment, node: createNode<T>() };
+        node.params.set(segment.raw, edge);
+      }
+      node = edge.node;
+    }
+    node.routes.push({ template, value, order: this.counter++ });
+  }
+
+  get size() {
+    return this.counter;
+  }
+
+  /** All routes matching `type`, in registration order. */
+  match(type: string): RouteMatch<T>[] {
+    const matches: Array<RouteMatch<T> & { order: number }> = [];
+    this.walk(this.root, type.split(':'), 0, {}, matches);
+    return matches
+      .sort((a, b) => a.order - b.order)
+      .map(({ template, value, params }) => ({ template, value, params }));
+  }
+
+  private walk(
+    node: RouteNode<T>,
+    segments: string[],
+    index: number,
+    params: Record<string, TemplateParamValue>,
+    matches: Array<RouteMatch<T> & { order: number }>,
+  ) {
+    if (index === segments.length) {
+      node.routes.forEach(({ template, value, order }) =>
+        matches.push({ template, value, order, params: { ...params } }),
+      );
+      return;
+    }
+    const segment = segments[index]!;
+    const literal = node.literals.get(segment);
+    if (literal) {
+      this.walk(literal, segments, index + 1, params, matches);
+    }
+    for (const edge of node.params.values()) {
+      const result = matchSegment(edge.segment, segment);
+      if (!result.matched) continue;
+      const name = edge.segment.param!.name;
+      this.walk(edge.node, segments, index + 1, { ...params, [name]: result.value! }, matches);
+    }
+  }
+}
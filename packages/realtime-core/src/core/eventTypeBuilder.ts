@@ -1,6 +1,55 @@
 export type EventType = string;
 export type EventTemplate = string;
 
+type ConstraintValue<Constraint extends string> = Constraint extends 'number' | 'int'
+  ? number
+  : Constraint extends 'string'
+    ? string
+    : Constraint extends `${infer Option}|${infer Rest}`
+      ? Option | ConstraintValue<Rest>
+      : Constraint;
+
+type PlaceholderName<Inner extends string> = Inner extends `${infer Name}:${string}` ? Name : Inner;
+
+type PlaceholderValue<Inner extends string> = Inner extends `${string}:${infer Constraint}`
+  ? ConstraintValue<Constraint>
+  : string;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Concrete event names a template can produce, e.g. `chat:message:[roomId:number]` -> `chat:message:${number}`.
+ */
+export type TemplateEventName<Template extends string> =
+  Template extends `${infer Head}[${infer Inner}]${infer Tail}`
+    ? `${Head}${PlaceholderValue<Inner>}${TemplateEventName<Tail>}`
+    : Template;
+
+/** Params extracted from a template, e.g. `chat:[kind:dm|room]:[id:int]` -> `{ kind: 'dm' | 'room'; id: number }`. */
+export type TemplateParams<Template extends string> =
+  Template extends `${string}[${infer Inner}]${infer Tail}`
+    ? Simplify<{ [K in PlaceholderName<Inner>]: PlaceholderValue<Inner> } & TemplateParams<Tail>>
+    : {};
+
+export type TemplateParamValue = string | number;
+
+export type ParamConstraint =
+  | { kind: 'string' }
+  | { kind: 'number' }
+  | { kind: 'int' }
+  | { kind: 'enum'; values: string[] };
+
+export interface TemplateSegment {
+  /** Raw segment text, used as the trie edge key. */
+  raw: string;
+  param?: {
+    name: string;
+    constraint: ParamConstraint;
+    prefix: string;
+    suffix: string;
+  };
+}
+
 const eventTypeBuilder = (template: string, ...params: (number | string | boolean)[]): string => {
 
   const placeholders = template.match(/\[.*?]/g) || [];
@@ -17,4 +66,107 @@ const eventTypeBuilder = (template: string, ...params: (number | string | boolea
   return template.replace(/\[.*?]/g, () => String(params[i++]));
 };
 
-export default eventTypeBuilder;
\ No newline at end of file
+export const isEventTemplate = (value: string) => /\[.+?]/.test(value);
+
+/** Splits on `:` outside of placeholders, so `[id:number]` stays one segment. */
+export const splitSegments = (value: string) => {
+  const segments: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '[') depth += 1;
+    if (char === ']') depth = Math.max(0, depth - 1);
+    if (char === ':' && depth === 0) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments;
+};
+
+const parseConstraint = (raw: string | undefined): ParamConstraint => {
+  if (!raw || raw === 'string') return { kind: 'string' };
+  if (raw === 'number') return { kind: 'number' };
+  if (raw === 'int') return { kind: 'int' };
+  return { kind: 'enum', values: raw.split('|') };
+};
+
+export const parseTemplate = (template: string): TemplateSegment[] =>
+  splitSegments(template).map((raw) => {
+    const placeholders = raw.match(/\[[^\]]*]/g) ?? [];
+    if (!placeholders.length) return { raw };
+    if (placeholders.length > 1) {
+      throw new Error(`Template segment "${raw}" in ${template} has more than one placeholder`);
+    }
+    const placeholder = placeholders[0]!;
+    const start = raw.indexOf(placeholder);
+    const [name, constraint] = placeholder.slice(1, -1).split(/:(.*)/s);
+    if (!name) {
+      throw new Error(`Template ${template} has an unnamed placeholder`);
+    }
+    return {
+      raw,
+      param: {
+        name,
+        constraint: parseConstraint(constraint),
+        prefix: raw.slice(0, start),
+        suffix: raw.slice(start + placeholder.length),
+      },
+    };
+  });
+
+/** Matches one concrete segment against a parsed template segment; returns the param value if any. */
+export const matchSegment = (
+  segment: TemplateSegment,
+  value: string,
+): { matched: boolean; value?: TemplateParamValue } => {
+  const { param } = segment;
+  if (!param) return { matched: segment.raw === value };
+  if (value.length <= param.prefix.length + param.suffix.length) return { matched: false };
+  if (!value.startsWith(param.prefix) || !value.endsWith(param.suffix)) return { matched: false };
+  const raw = value.slice(param.prefix.length, value.length - param.suffix.length);
+  switch (param.constraint.kind) {
+    case 'number':
+      // plain decimals only: `Number()` would also take `0x1f`, `1e3` or ` 42 `
+      return /^-?\d+(?:\.\d+)?$/.test(raw)
+        ? { matched: true, value: Number(raw) }
+        : { matched: false };
+    case 'int':
+      return /^-?\d+$/.test(raw) ? { matched: true, value: Number(raw) } : { matched: false };
+    case 'enum':
+      return param.constraint.values.includes(raw)
+        ? { matched: true, value: raw }
+        : { matched: false };
+    default:
+      return { matched: true, value: raw };
+  }
+};
+
+/**
+ * Matches a concrete event (or room) name against a single template.
+ * Returns the placeholder values, or `undefined` when the name does not fit the template.
+ */
+export const matchEventTemplate = (
+  template: string,
+  type: string,
+): Record<string, TemplateParamValue> | undefined => {
+  const expected = parseTemplate(template);
+  const actual = type.split(':');
+  if (expected.length !== actual.length) return undefined;
+
+  const params: Record<string, TemplateParamValue> = {};
+  for (let i = 0; i < expected.length; i += 1) {
+    const segment = expected[i]!;
+    const result = matchSegment(segment, actual[i]!);
+    if (!result.matched) return undefined;
+    if (segment.param && result.value !== undefined) {
+      params[segment.param.name] = result.value;
+    }
+  }
+  return params;
+};
+
+export default eventTypeBuilder;
@@ -0,0 +1,247 @@
+import type { BroadcastOptions, OutboundMessage, PresenceSnapshot } from '../types/index.js';
+import type { AdapterHost, HubAdapter } from './hubAdapter.js';
+import { isClientUpdate, RemoteClients } from './remoteClients.js';
+
+interface EnvelopeHeader {
+  /** `<origin>:<sequence>`; a node handles each id once, whichever path it arrives by. */
+  id: string;
+  origin: string;
+  /** Links crossed so far. */
+  hops: number;
+  /** Nodes that already have the envelope or are being sent it; relays skip them. */
+  via: string[];
+  /** Nodes the envelope is meant for; every node when absent. */
+  to?: string[];
+}
+
+type EnvelopeBody =
+  /**
+   * Every client of the origin; sent when a link comes up, and answered by nodes that did not know
+   * it or that are asked to `resync`.
+   */
+  | { kind: 'sync'; clients: PresenceSnapshot[]; reply?: boolean; resync?: boolean }
+  /** A client of the origin connected or changed its rooms or metadata. */
+  | { kind: 'presence'; client: PresenceSnapshot }
+  | { kind: 'disconnect'; clientId: string }
+  | { kind: 'broadcast'; message: OutboundMessage; room?: string; except?: string[] }
+  | { kind: 'send'; clientId: string; message: OutboundMessage };
+
+export type FederationEnvelope = EnvelopeHeader & EnvelopeBody;
+
+/** The links between nodes, as provided by the mesh. */
+export interface FederationLink {
+  /** Nodes with an open link to this one. */
+  peers(): string[];
+  send(nodeId: string, envelope: FederationEnvelope): void;
+}
+
+export interface FederationOptions {
+  /** Links an envelope may cross before relays drop it (4 by default). */
+  maxHops?: number;
+}
+
+/** Ids remembered for deduplication; older ones are forgotten first. */
+const SEEN_LIMIT = 10_000;
+
+const isNodeList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((node) => typeof node === 'string');
+
+/** Peers are checked, not trusted: a malformed envelope would throw in the mesh socket. */
+function isEnvelope(envelope: unknown): envelope is FederationEnvelope {
+  if (!envelope || typeof envelope !== 'object') return false;
+  const { id, origin, hops, via, to } = envelope as Partial<FederationEnvelope>;
+  return (
+    typeof id === 'string' &&
+    typeof origin === 'string' &&
+    typeof hops === 'number' &&
+    isNodeList(via) &&
+    (to === undefined || isNodeList(to)) &&
+    isClientUpdate(envelope as Record<string, unknown>)
+  );
+}
+
+/**
+ * Shares presence and room membership between nodes and routes broadcasts and direct sends to
+ * the nodes that own the recipients. Envelopes go straight to their target nodes when linked to
+ * them and are relayed otherwise; ids, the `via` list and the hop limit stop loops and duplicates.
+ */
+export class Federation implements HubAdapter {
+  readonly name = 'mesh';
+  private sequence = 0;
+  private readonly seen = new Set<string>();
+  private readonly maxHops: number;
+  private host?: AdapterHost;
+  private remote?: RemoteClients;
+
+  constructor(
+    readonly nodeId: string,
+    private readonly link: FederationLink,
+    options: FederationOptions = {},
+  ) {
+    this.maxHops = options.maxHops ?? 4;
+  }
+
+  attach(host: AdapterHost) {
+    this.host = host;
+    this.remote = new RemoteClients(host.presence);
+  }
+
+  /** Forgets every remote client, e.g. when the mesh stops. */
+  detach() {
+    this.remote?.clear();
+    this.host = undefined;
+    this.remote = undefined;
+  }
+
+  owner(clientId: string) {
+    return this.remote?.owner(clientId);
+  }
+
+  /** Nodes whose clients are known here. */
+  listNodes() {
+    return this.remote?.listNodes() ?? [];
+  }
+
+  /** A link came up: the new peer, and every node behind it, learns this node's clients. */
+  linkUp() {
+    if (!this.host) return;
+    this.originate({ kind: 'sync', clients: this.host.localClients() });
+  }
+
+  /** A member (re)joined the cluster: asks it for its clients unless they are already known. */
+  nodeJoined(nodeId: string) {
+    if (!this.host || this.remote!.hasNode(nodeId)) return;
+    this.originate({ kind: 'sync', clients: this.host.localClients(), resync: true }, [nodeId]);
+  }
+
+  /** A member left or failed: its clients are forgotten until it joins and syncs again. */
+  nodeLeft(nodeId: string) {
+    this.remote?.forgetNode(nodeId);
+  }
+
+  publish(client: PresenceSnapshot) {
+    this.originate({ kind: 'presence', client });
+  }
+
+  retract(clientId: string) {
+    this.originate({ kind: 'disconnect', clientId });
+  }
+
+  /** Forwards a broadcast once to each node with members in `room` (every node without a room). */
+  broadcast(message: OutboundMessage, options: BroadcastOptions = {}) {
+    const room = options.room?.toLowerCase();
+    const targets = this.remote?.nodesFor(room) ?? [];
+    if (!targets.length) return;
+    this.originate(
+      {
+        kind: 'broadcast',
+        message,
+        room,
+        except: options.except?.length ? options.except : undefined,
+      },
+      targets,
+    );
+  }
+
+  send(clientId: string, message: OutboundMessage) {
+    const owner = this.remote?.owner(clientId);
+    if (!owner) return false;
+    this.originate({ kind: 'send', clientId, message }, [owner]);
+    return true;
+  }
+
+  receive(envelope: FederationEnvelope) {
+    if (!this.host) return;
+    if (!isEnvelope(envelope)) {
+      this.host.logger.debug('Malformed federation envelope dropped');
+      return;
+    }
+    if (envelope.origin === this.nodeId || this.seen.has(envelope.id)) {
+      this.host.metrics.increment('federation_duplicates_total', { kind: envelope.kind });
+      return;
+    }
+    this.remember(envelope.id);
+    this.host.metrics.increment('federation_envelopes_total', {
+      kind: envelope.kind,
+      direction: 'in',
+    });
+    if (!envelope.to || envelope.to.includes(this.nodeId)) {
+      this.apply(envelope);
+    }
+    this.relay(envelope);
+  }
+
+  /** Forgets every remote client, e.g. when this node is removed from the mesh. */
+  clear() {
+    this.remote?.clear();
+  }
+
+  private apply(envelope: FederationEnvelope) {
+    const host = this.host!;
+    const remote = this.remote!;
+    switch (envelope.kind) {
+      case 'sync': {
+        const known = remote.hasNode(envelope.origin);
+        remote.sync(envelope.origin, envelope.clients);
+        if ((!known || envelope.resync) && !envelope.reply) {
+          this.originate({ kind: 'sync', clients: host.localClients(), reply: true }, [
+            envelope.origin,
+          ]);
+        }
+        break;
+      }
+      case 'presence':
+        remote.track(envelope.origin, envelope.client);
+        break;
+      case 'disconnect':
+        remote.untrack(envelope.clientId);
+        break;
+      case 'broadcast':
+        host.broadcastLocal(envelope.message, {
+          room: envelope.room,
+          except: envelope.except,
+        });
+        break;
+      case 'send':
+        host.sendLocal(envelope.clientId, envelope.message);
+        break;
+    }
+  }
+
+  private originate(body: EnvelopeBody, to?: string[]) {
+    if (!this.host || !this.link.peers().length) return;
+    const id = `${this.nodeId}:${++this.sequence}`;
+    this.remember(id);
+    this.relay({ ...body, id, origin: this.nodeId, hops: 0, via: [this.nodeId], to });
+  }
+
+  /** Sends to the targets directly when linked to all of them, else to every peer not yet reached. */
+  private relay(envelope: FederationEnvelope) {
+    if (envelope.hops >= this.maxHops) return;
+    const targets = envelope.to?.filter(
+      (node) => node !== this.nodeId && !envelope.via.includes(node),
+    );
+    if (targets && !targets.length) return;
+    const peers = this.link.peers().filter((peer) => !envelope.via.includes(peer));
+    const next = targets?.every((node) => peers.includes(node)) ? targets : peers;
+    if (!next.length) return;
+    const forwarded: FederationEnvelope = {
+      ...envelope,
+      hops: envelope.hops + 1,
+      via: [...new Set([...envelope.via, this.nodeId, ...next])],
+    };
+    next.forEach((peer) => this.link.send(peer, forwarded));
+    this.host?.metrics.increment(
+      'federation_envelopes_total',
+      { kind: envelope.kind, direction: 'out' },
+      next.length,
+    );
+  }
+
+  private remember(id: string) {
+    this.seen.add(id);
+    if (this.seen.size > SEEN_LIMIT) {
+      this.seen.delete(this.seen.values().next().value!);
+    }
+  }
+}
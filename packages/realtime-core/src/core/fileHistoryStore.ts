@@ -0,0 +1,135 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { safeParse } from '../utils/json.js';
+import { Logger, type LogLevel } from '../utils/logger.js';
+import {
+  createHistoryEpoch,
+  MemoryHistoryStore,
+  type HistoryEntry,
+  type HistoryRetention,
+  type HistoryStore,
+} from './roomHistory.js';
+
+export interface FileHistoryStoreOptions {
+  /** Lines appended before the file is rewritten without the dropped entries (10 000 by default). */
+  compactEvery?: number;
+  logLevel?: LogLevel;
+}
+
+/**
+ * A stored message, only a room's sequence once its messages are all dropped, or the epoch of the
+ * numbering, on the first line.
+ */
+type FileRecord =
+  | HistoryEntry
+  | { room: string; seq: number; message?: undefined }
+  | { epoch: string; room?: undefined };
+
+/**
+ * Appends every message as a JSON line to a file, in batches, and keeps the retained ones in
+ * memory for reads. On open the file is read back, so numbering, epoch and history survive a
+ * restart, then rewritten without the dropped entries, as it is again every `compactEvery` lines.
+ */
+export class FileHistoryStore implements HistoryStore {
+  private readonly memory = new MemoryHistoryStore();
+  private readonly logger: Logger;
+  private readonly compactEvery: number;
+  private pending: string[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private flushScheduled = false;
+  private appended = 0;
+  epoch?: string;
+
+  constructor(
+    readonly path: string,
+    options: FileHistoryStoreOptions = {},
+  ) {
+    this.compactEvery = options.compactEvery ?? 10_000;
+    this.logger = new Logger('history', options.logLevel ?? 'info');
+  }
+
+  async open(retention: HistoryRetention) {
+    this.memory.open(retention);
+    await mkdir(dirname(this.path), { recursive: true });
+    const content = await readFile(this.path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    });
+    this.epoch = undefined;
+    for (const line of content.split('\n')) {
+      // a line cut short by a crash is skipped
+      const record = safeParse<FileRecord>(line);
+      if (record && 'epoch' in record && typeof record.epoch === 'string') {
+        this.epoch = record.epoch;
+        continue;
+      }
+      if (typeof record?.room !== 'string' || typeof record.seq !== 'number') continue;
+      if (record.message) {
+        this.memory.append(record);
+      } else {
+        this.memory.resume(record.room, record.seq);
+      }
+    }
+    // a new file, or one written before epochs were kept, starts a new epoch
+    this.epoch ??= createHistoryEpoch();
+    this.enqueue(() => this.compact());
+    await this.writing;
+  }
+
+  append(entry: HistoryEntry) {
+    this.memory.append(entry);
+    this.pending.push(`${JSON.stringify(entry)}\n`);
+    this.appended += 1;
+    if (this.appended >= this.compactEvery) {
+      this.appended = 0;
+      this.enqueue(() => this.compact());
+    } else if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      this.enqueue(() => this.flush());
+    }
+  }
+
+  read(room: string, after: number) {
+    return this.memory.read(room, after);
+  }
+
+  lastSeq(room: string) {
+    return this.memory.lastSeq(room);
+  }
+
+  async close() {
+    this.enqueue(() => this.flush());
+    await this.writing;
+  }
+
+  /** File operations run one after the other; a failure is logged and does not stop the next. */
+  private enqueue(operation: () => Promise<void>) {
+    this.writing = this.writing
+      .then(operation)
+      .catch((error: Error) => this.logger.error('History file write failed', error.message));
+  }
+
+  private async flush() {
+    this.flushScheduled = false;
+    if (!this.pending.length) return;
+    const lines = this.pending.join('');
+    this.pending = [];
+    await appendFile(this.path, lines);
+  }
+
+  /** Rewrites the file from memory, which already holds the lines still pending. */
+  private async compact() {
+    this.flushScheduled = false;
+    this.pending = [];
+    const lines = [`${JSON.stringify({ epoch: this.epoch })}\n`];
+    for (const { room, lastSeq, entries } of this.memory.snapshot()) {
+      if (entries.at(-1)?.seq !== lastSeq) {
+        lines.push(`${JSON.stringify({ room, seq: lastSeq })}\n`);
+      }
+      entries.forEach((entry) => lines.push(`${JSON.stringify(entry)}\n`));
+    }
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, lines.join(''));
+    await rename(temporary, this.path);
+  }
+}
@@ -0,0 +1,59 @@
+import type { BroadcastOptions, OutboundMessage, PresenceSnapshot } from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+import type { MetricsRegistry } from './metrics.js';
+import type { PresenceStore } from './presenceStore.js';
+
+/** What an adapter needs from the local hub. */
+export interface AdapterHost {
+  presence: PresenceStore;
+  metrics: MetricsRegistry;
+  logger: Logger;
+  localClients(): PresenceSnapshot[];
+  /** Fans a broadcast from another node out to the local clients it concerns. */
+  broadcastLocal(message: OutboundMessage, options: BroadcastOptions): void;
+  sendLocal(clientId: string, message: OutboundMessage): void;
+}
+
+/**
+ * Shares a hub with the hubs of other nodes. The hub delivers to its own clients and hands every
+ * broadcast, send to an unknown client and presence change to its adapter; the adapter mirrors the
+ * clients of other nodes into the local presence store.
+ */
+export interface HubAdapter {
+  readonly name: string;
+  attach(host: AdapterHost): void | Promise<void>;
+  /** Leaves the other nodes; their clients disappear from presence. */
+  detach(): void | Promise<void>;
+  /** Node of a client connected elsewhere, or undefined for local and unknown clients. */
+  owner(clientId: string): string | undefined;
+  /** Announces a local client's current snapshot (connection, rooms, metadata). */
+  publish(client: PresenceSnapshot): void;
+  retract(clientId: string): void;
+  /** Forwards a broadcast already delivered to the local clients to the nodes concerned. */
+  broadcast(message: OutboundMessage, options: BroadcastOptions): void;
+  /** Routes a direct send to the node owning `clientId`; false when no node is known to own it. */
+  send(clientId: string, message: OutboundMessage): boolean;
+}
+
+/** The default adapter: a single node, nothing leaves the process. */
+export class MemoryAdapter implements HubAdapter {
+  readonly name = 'memory';
+
+  attach() {}
+
+  detach() {}
+
+  owner() {
+    return undefined;
+  }
+
+  publish() {}
+
+  retract() {}
+
+  broadcast() {}
+
+  send() {
+    return false;
+  }
+}
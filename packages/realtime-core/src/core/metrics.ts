@@ -0,0 +1,43 @@
+export type MetricLabels = Record<string, string | number>;
+
+export interface MetricsSnapshot {
+  counters: Record<string, number>;
+  gauges: Record<string, number>;
+}
+
+const keyFor = (name: string, labels?: MetricLabels) => {
+  if (!labels) return name;
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  if (!entries.length) return name;
+  return `${name}{${entries.map(([key, value]) => `${key}="${value}"`).join(',')}}`;
+};
+
+/** Minimal in-process counters and gauges, keyed Prometheus-style (`name{label="value"}`). */
+export class MetricsRegistry {
+  private readonly counters = new Map<string, number>();
+  private readonly gauges = new Map<string, number>();
+
+  increment(name: string, labels?: MetricLabels, value = 1) {
+    const key = keyFor(name, labels);
+    this.counters.set(key, (this.counters.get(key) ?? 0) + value);
+  }
+
+  gauge(name: string, value: number, labels?: MetricLabels) {
+    this.gauges.set(keyFor(name, labels), value);
+  }
+
+  removeGauge(name: string, labels?: MetricLabels) {
+    this.gauges.delete(keyFor(name, labels));
+  }
+
+  counter(name: string, labels?: MetricLabels) {
+    return this.counters.get(keyFor(name, labels)) ?? 0;
+  }
+
+  snapshot(): MetricsSnapshot {
+    return {
+      counters: Object.fromEntries(this.counters),
+      gauges: Object.fromEntries(this.gauges),
+    };
+  }
+}
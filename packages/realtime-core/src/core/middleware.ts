@@ -0,0 +1,79 @@
+import type {
+  BroadcastOptions,
+  ClientContext,
+  HandlerToolkit,
+  OutboundMessage,
+  RealtimeEventMap,
+  RealtimeMessage,
+} from '../types/index.js';
+
+export interface MiddlewareContext<Events extends RealtimeEventMap = RealtimeEventMap> {
+  /** Inbound message; middleware may mutate or replace it before handlers run. */
+  message: RealtimeMessage;
+  client: ClientContext;
+  toolkit: HandlerToolkit<Events>;
+  /** Per-message scratch space, also exposed to handlers as `toolkit.state`. */
+  state: Record<string, unknown>;
+}
+
+export type Middleware<Events extends RealtimeEventMap = RealtimeEventMap> = (
+  context: MiddlewareContext<Events>,
+  next: () => Promise<void>,
+) => Promise<void> | void;
+
+export interface OutboundContext {
+  /** Outgoing message; replace it to rewrite what clients receive. */
+  message: OutboundMessage;
+  kind: 'send' | 'broadcast';
+  /** Target client for `send`. */
+  clientId?: string;
+  /** Room and exclusions for `broadcast`. */
+  options?: BroadcastOptions;
+}
+
+/** Outbound middleware is synchronous: not calling `next()` drops the message. */
+export type OutboundMiddleware = (context: OutboundContext, next: () => void) => void;
+
+export function compose<Context>(
+  middlewares: Array<(context: Context, next: () => Promise<void>) => Promise<void> | void>,
+  final: (context: Context) => Promise<void> | void,
+) {
+  return (context: Context) => {
+    let last = -1;
+    const run = async (index: number): Promise<void> => {
+      if (index <= last) {
+        throw new Error('next() called multiple times');
+      }
+      last = index;
+      const middleware = middlewares[index];
+      if (!middleware) {
+        await final(context);
+        return;
+      }
+      await middleware(context, () => run(index + 1));
+    };
+    return run(0);
+  };
+}
+
+export function composeSync<Context>(
+  middlewares: Array<(context: Context, next: () => void) => void>,
+  final: (context: Context) => void,
+) {
+  return (context: Context) => {
+    let last = -1;
+    const run = (index: number): void => {
+      if (index <= last) {
+        throw new Error('next() called multiple times');
+      }
+      last = index;
+      const middleware = middlewares[index];
+      if (!middleware) {
+        final(context);
+        return;
+      }
+      middleware(context, () => run(index + 1));
+    };
+    run(0);
+  };
+}
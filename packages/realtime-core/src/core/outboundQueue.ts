@@ -0,0 +1,155 @@
+import type { OutboundMessage } from '../types/index.js';
+
+/**
+ * What happens when a connection's queue would grow past its high-water mark:
+ * - `drop-oldest`: queued messages are discarded from the front until the new one fits
+ * - `drop-newest`: the new message is discarded
+ * - `coalesce`: a queued message with the same key is replaced where it stands, then oldest
+ *   messages are dropped; below the high-water mark nothing is replaced
+ * - `disconnect`: the connection is closed
+ *
+ * A single message larger than the high-water mark is still queued under `drop-oldest` and
+ * `coalesce`, alone once everything before it is dropped, so that it is delivered rather than
+ * lost; the queue then holds more than the mark until it drains.
+ */
+export type BackpressurePolicy = 'drop-oldest' | 'drop-newest' | 'coalesce' | 'disconnect';
+
+export interface BackpressureOptions {
+  /**
+   * Encoded bytes held in this queue before the policy applies (1 MiB by default). It counts
+   * bytes, not messages, and excludes what the socket itself already buffers.
+   */
+  highWaterMark?: number;
+  policy?: BackpressurePolicy;
+  /**
+   * Key used by `coalesce`, required with that policy; messages sharing a key supersede each other.
+   * Messages without a key are never replaced.
+   */
+  coalesceKey?: (message: OutboundMessage) => string | undefined;
+}
+
+export type ResolvedBackpressure = Required<Omit<BackpressureOptions, 'coalesceKey'>> &
+  Pick<BackpressureOptions, 'coalesceKey'>;
+
+export interface QueueOverflow {
+  policy: BackpressurePolicy;
+  queuedBytes: number;
+  /** Messages discarded by this push, including superseded ones. */
+  dropped: number;
+  /** True on the first high-water-mark crossing since the queue last drained. */
+  first: boolean;
+}
+
+interface QueuedChunk {
+  chunk: Buffer;
+  key?: string;
+}
+
+export const resolveBackpressure = (options: BackpressureOptions = {}): ResolvedBackpressure => {
+  if (options.policy === 'coalesce' && !options.coalesceKey) {
+    throw new Error('The coalesce backpressure policy needs a coalesceKey');
+  }
+  return { highWaterMark: 1024 * 1024, policy: 'drop-oldest', ...options };
+};
+
+/**
+ * Per-connection outbound queue. Chunks go straight to the sink while it keeps up; once a write
+ * reports congestion they are held here until `flush()` is called on drain.
+ */
+export class OutboundQueue {
+  private readonly entries: QueuedChunk[] = [];
+  private queuedBytes = 0;
+  private congested = false;
+  private overflowing = false;
+
+  constructor(
+    private readonly options: ResolvedBackpressure,
+    private readonly write: (chunk: Buffer) => boolean,
+  ) {}
+
+  get bytes() {
+    return this.queuedBytes;
+  }
+
+  get length() {
+    return this.entries.length;
+  }
+
+  push(message: OutboundMessage, chunk: Buffer): QueueOverflow | undefined {
+    if (!this.congested && !this.entries.length) {
+      this.congested = !this.write(chunk);
+      return undefined;
+    }
+
+    const { policy, highWaterMark } = this.options;
+    const key = policy === 'coalesce' ? this.options.coalesceKey?.(message) : undefined;
+    const crossed = this.queuedBytes + chunk.length > highWaterMark;
+    if (!crossed) {
+      this.entries.push({ chunk, key });
+      this.queuedBytes += chunk.length;
+      return undefined;
+    }
+    if (policy === 'disconnect') {
+      return this.overflow(0, crossed);
+    }
+    if (policy === 'drop-newest') {
+      return this.overflow(1, crossed);
+    }
+
+    let dropped = 0;
+    let index = -1;
+    if (key !== undefined) {
+      for (let position = this.entries.length - 1; position >= 0 && index === -1; position -= 1) {
+        if (this.entries[position]!.key === key) index = position;
+      }
+    }
+    let replacement: QueuedChunk | undefined;
+    if (index !== -1) {
+      // the newer message takes the place of the latest one it supersedes, so the order is kept
+      replacement = { chunk, key };
+      this.queuedBytes += chunk.length - this.entries[index]!.chunk.length;
+      this.entries[index] = replacement;
+      dropped += 1;
+    }
+    const incoming = replacement ? 0 : chunk.length;
+    // evicting the replacement would lose the latest value for its key: the others go first
+    for (let position = 0; position < this.entries.length; ) {
+      if (this.queuedBytes + incoming <= highWaterMark) break;
+      if (this.entries[position] === replacement) {
+        position += 1;
+        continue;
+      }
+      this.queuedBytes -= this.entries.splice(position, 1)[0]!.chunk.length;
+      dropped += 1;
+    }
+    if (!replacement) {
+      this.entries.push({ chunk, key });
+      this.queuedBytes += chunk.length;
+    }
+    return this.overflow(dropped, crossed);
+  }
+
+  /** Writes queued chunks until the sink pushes back again. */
+  flush() {
+    this.congested = false;
+    while (this.entries.length && !this.congested) {
+      const { chunk } = this.entries.shift()!;
+      this.queuedBytes -= chunk.length;
+      this.congested = !this.write(chunk);
+    }
+    if (!this.entries.length) {
+      this.overflowing = false;
+    }
+  }
+
+  clear() {
+    this.entries.length = 0;
+    this.queuedBytes = 0;
+  }
+
+  private overflow(dropped: number, crossed: boolean): QueueOverflow {
+    const first = crossed && !this.overflowing;
+    this.overflowing ||= crossed;
+    return { policy: this.options.policy, queuedBytes: this.queuedBytes, dropped, first };
+  }
+}
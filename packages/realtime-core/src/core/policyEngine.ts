@@ -0,0 +1,194 @@
+import type { ClientContext, RealtimeMessage } from '../types/index.js';
+import { ErrorCodes, PolicyError, type RealtimeErrorCode } from './errors.js';
+import { EventRouter } from './eventRouter.js';
+import { isEventTemplate, type TemplateParamValue } from './eventTypeBuilder.js';
+import type { MetricsRegistry } from './metrics.js';
+
+export interface EventGuardContext {
+  message: RealtimeMessage;
+  context: ClientContext;
+  /** Placeholder values when the guard was registered on a template, e.g. `{ roomId: '42' }`. */
+  params: Record<string, TemplateParamValue>;
+  isMember(room: string): boolean;
+}
+
+export type EventGuard = (guard: EventGuardContext) => boolean | Promise<boolean>;
+
+/**
+ * - `public`: anyone may join
+ * - `invite-only`: only clients (or user ids) invited through `invite()`
+ * - predicate: custom decision
+ */
+export type RoomPolicy =
+  | 'public'
+  | 'invite-only'
+  | ((context: ClientContext, room: string) => boolean);
+
+/**
+ * - `allow`: any client may message any other client
+ * - `deny`: direct messages are refused
+ * - `shared-room`: sender and target must have at least one room in common
+ */
+export type DirectMessagePolicy =
+  | 'allow'
+  | 'deny'
+  | 'shared-room'
+  | ((from: ClientContext, to: ClientContext) => boolean);
+
+export interface PolicyOptions {
+  /** Guards keyed by event name or event template (`chat:message:[roomId]`); `*` guards every event. */
+  events?: Record<string, EventGuard | EventGuard[]>;
+  /**
+   * Join policies keyed by room name or room template (`team:[teamId]`). Room names are
+   * case-insensitive: keys are lowercased, enum values of templates included.
+   */
+  rooms?: Record<string, RoomPolicy>;
+  defaultRoomPolicy?: RoomPolicy;
+  directMessages?: DirectMessagePolicy;
+}
+
+/** Guard requiring the sender to be a member of the room named by a template placeholder. */
+export const requireMembership =
+  (param: string): EventGuard =>
+  ({ params, isMember }) => {
+    const room = params[param];
+    return room !== undefined && room !== '' && isMember(String(room));
+  };
+
+export class PolicyEngine {
+  private readonly eventGuards = new Map<string, EventGuard[]>();
+  private readonly templateGuards = new EventRouter<EventGuard>();
+  private readonly roomPolicies = new Map<string, RoomPolicy>();
+  private readonly roomTemplates = new EventRouter<RoomPolicy>();
+  private readonly invites = new Map<string, Set<string>>();
+  private defaultRoomPolicy: RoomPolicy;
+  private directMessagePolicy: DirectMessagePolicy;
+
+  constructor(
+    private readonly metrics: MetricsRegistry,
+    options: PolicyOptions = {},
+  ) {
+    this.defaultRoomPolicy = options.defaultRoomPolicy ?? 'public';
+    this.directMessagePolicy = options.directMessages ?? 'allow';
+    Object.entries(options.events ?? {}).forEach(([event, guards]) =>
+      (Array.isArray(guards) ? guards : [guards]).forEach((guard) => this.guard(event, guard)),
+    );
+    Object.entries(options.rooms ?? {}).forEach(([room, policy]) => this.room(room, policy));
+  }
+
+  guard(eventOrTemplate: string, guard: EventGuard) {
+    if (isEventTemplate(eventOrTemplate)) {
+      this.templateGuards.add(eventOrTemplate, guard);
+      return this;
+    }
+    const bucket = this.eventGuards.get(eventOrTemplate) ?? [];
+    bucket.push(guard);
+    this.eventGuards.set(eventOrTemplate, bucket);
+    return this;
+  }
+
+  room(roomOrTemplate: string, policy: RoomPolicy) {
+    const key = roomOrTemplate.toLowerCase();
+    if (isEventTemplate(key)) {
+      this.roomTemplates.add(key, policy);
+    } else {
+      this.roomPolicies.set(key, policy);
+    }
+    return this;
+  }
+
+  directMessages(policy: DirectMessagePolicy) {
+    this.directMessagePolicy = policy;
+    return this;
+  }
+
+  /** Grants access to an invite-only room, by client id or user id. */
+  invite(room: string, clientOrUserId: string) {
+    const key = room.toLowerCase();
+    const bucket = this.invites.get(key) ?? new Set<string>();
+    bucket.add(clientOrUserId);
+    this.invites.set(key, bucket);
+  }
+
+  revokeInvite(room: string, clientOrUserId: string) {
+    const key = room.toLowerCase();
+    this.invites.get(key)?.delete(clientOrUserId);
+    if (!this.invites.get(key)?.size) {
+      this.invites.delete(key);
+    }
+  }
+
+  async assertEvent(message: RealtimeMessage, context: ClientContext) {
+    const isMember = (room: string) => context.rooms.includes(room.toLowerCase());
+    const checks = [
+      ...(this.eventGuards.get('*') ?? []).map((guard) => ({ guard, params: {} })),
+      ...(this.eventGuards.get(message.type) ?? []).map((guard) => ({ guard, params: {} })),
+      ...this.templateGuards
+        .match(message.type)
+        .map(({ value, params }) => ({ guard: value, params })),
+    ];
+    for (const { guard, params } of checks) {
+      if (!(await guard({ message, context, params, isMember }))) {
+        this.deny(ErrorCodes.EVENT_FORBIDDEN, `Event ${message.type} is not allowed`);
+      }
+    }
+  }
+
+  assertJoin(context: ClientContext, room: string) {
+    const policy = this.roomPolicyFor(room);
+    const allowed =
+      policy === 'public'
+        ? true
+        : policy === 'invite-only'
+          ? this.isInvited(context, room)
+          : policy(context, room);
+    if (!allowed) {
+      this.deny(ErrorCodes.ROOM_FORBIDDEN, `Joining room ${room} is not allowed`);
+    }
+  }
+
+  assertInvite(context: ClientContext, room: string) {
+    if (!context.rooms.includes(room.toLowerCase())) {
+      this.deny(ErrorCodes.ROOM_FORBIDDEN, `Only members of ${room} can invite to it`);
+    }
+  }
+
+  /**
+   * `to` is the target's context, undefined when no client `targetId` is known here or on another
+   * node; any policy but `allow` then refuses, since it cannot be checked.
+   */
+  assertDirectMessage(from: ClientContext, targetId: string, to: ClientContext | undefined) {
+    if (from.id === targetId) return;
+    const policy = this.directMessagePolicy;
+    if (policy === 'allow') return;
+    const allowed =
+      to === undefined
+        ? false
+        : policy === 'deny'
+          ? false
+          : policy === 'shared-room'
+            ? from.rooms.some((room) => to.rooms.includes(room))
+            : policy(from, to);
+    if (!allowed) {
+      this.deny(ErrorCodes.DIRECT_MESSAGE_FORBIDDEN, `Messaging ${targetId} is not allowed`);
+    }
+  }
+
+  private roomPolicyFor(room: string): RoomPolicy {
+    const key = room.toLowerCase();
+    const exact = this.roomPolicies.get(key);
+    if (exact) return exact;
+    return this.roomTemplates.match(key)[0]?.value ?? this.defaultRoomPolicy;
+  }
+
+  private isInvited(context: ClientContext, room: string) {
+    const invited = this.invites.get(room.toLowerCase());
+    if (!invited) return false;
+    return invited.has(context.id) || Boolean(context.user && invited.has(context.user.id));
+  }
+
+  private deny(code: RealtimeErrorCode, message: string): never {
+    this.metrics.increment('policy_denials_total', { code });
+    throw new PolicyError(code, message);
+  }
+}
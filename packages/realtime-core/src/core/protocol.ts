@@ -0,0 +1,58 @@
+import type { ClientContext, OutboundMessage, RealtimeMessage } from '../types/index.js';
+import { jsonCodec, type Codec } from './codec.js';
+
+/**
+ * Translates between the envelope a protocol version speaks and the current one the kernel works
+ * with. Returning undefined drops the message, e.g. an event older clients do not understand.
+ */
+export interface ProtocolAdapter {
+  inbound?(message: RealtimeMessage, client: ClientContext): RealtimeMessage | undefined;
+  outbound?(message: OutboundMessage, client: ClientContext): OutboundMessage | undefined;
+}
+
+const PREFIX = 'realtime';
+const VERSION_PATTERN = /^v\d+$/;
+
+export const isProtocolVersion = (value: string) => VERSION_PATTERN.test(value);
+
+/**
+ * WebSocket subprotocol for a version and codec: `realtime.v2.msgpack`. Either part may be left
+ * out; a missing version means the server's default one, a missing codec means JSON.
+ */
+export function formatSubprotocol(version?: string, codec?: Codec | string) {
+  const codecName = typeof codec === 'string' ? codec : codec?.name;
+  return [PREFIX, version, codecName].filter(Boolean).join('.');
+}
+
+export function parseSubprotocol(token: string): { version?: string; codec?: string } | undefined {
+  const [prefix, ...parts] = token.trim().split('.');
+  if (prefix !== PREFIX || parts.length > 2) return undefined;
+  const version = parts[0] && isProtocolVersion(parts[0]) ? parts.shift() : undefined;
+  if (parts.length > 1) return undefined;
+  return { version, codec: parts[0] || undefined };
+}
+
+/**
+ * Picks the first subprotocol in a `Sec-WebSocket-Protocol` header whose version and codec are
+ * both supported. Without a match the connection gets the first version and `fallbackCodec`, and
+ * no subprotocol is echoed: JSON by default, the only codec a client that negotiated nothing can
+ * be assumed to read.
+ */
+export function negotiateSubprotocol(
+  header: string | undefined,
+  versions: string[],
+  codecs: Codec[],
+  fallbackCodec: Codec = jsonCodec,
+): { version: string; codec: Codec; protocol?: string } {
+  const fallbackVersion = versions[0] ?? 'v1';
+  for (const token of (header ?? '').split(',')) {
+    const parsed = parseSubprotocol(token);
+    if (!parsed) continue;
+    const version = parsed.version ?? fallbackVersion;
+    const codec = codecs.find(({ name }) => name === (parsed.codec ?? jsonCodec.name));
+    if (codec && versions.includes(version)) {
+      return { version, codec, protocol: token.trim() };
+    }
+  }
+  return { version: fallbackVersion, codec: fallbackCodec };
+}
@@ -0,0 +1,221 @@
+import { randomUUID } from 'node:crypto';
+import type { BroadcastOptions, OutboundMessage, PresenceSnapshot } from '../types/index.js';
+import { safeParse } from '../utils/json.js';
+import type { AdapterHost, HubAdapter } from './hubAdapter.js';
+import { isClientUpdate, RemoteClients } from './remoteClients.js';
+
+/** A connection to a publish/subscribe broker. */
+export interface PubSubClient {
+  /** Subscribes to `channels`; `onMessage` receives what is published on any of them. */
+  subscribe(
+    channels: string[],
+    onMessage: (channel: string, payload: string) => void,
+  ): Promise<void>;
+  publish(channel: string, payload: string): Promise<void>;
+  /** Registers a listener for when a lost connection is back; messages may have been missed. */
+  onReconnect?(listener: () => void): void;
+  close(): Promise<void>;
+}
+
+export interface PubSubAdapterOptions {
+  nodeId?: string;
+  /** Prefix of every channel, so several applications can share a broker (`realtime` by default). */
+  channelPrefix?: string;
+  /** Interval between two heartbeats of this node (5 s by default). */
+  heartbeatIntervalMs?: number;
+  /** A node not heard from for this long is forgotten with its clients (15 s by default). */
+  nodeTimeoutMs?: number;
+}
+
+type PubSubBody =
+  /** Every client of the origin; answered with the receiver's own when `resync` is set. */
+  | { kind: 'sync'; clients: PresenceSnapshot[]; resync?: boolean }
+  | { kind: 'presence'; client: PresenceSnapshot }
+  | { kind: 'disconnect'; clientId: string }
+  | { kind: 'broadcast'; message: OutboundMessage; room?: string; except?: string[] }
+  | { kind: 'send'; clientId: string; message: OutboundMessage }
+  | { kind: 'heartbeat' }
+  | { kind: 'leave' };
+
+type PubSubMessage = { origin: string } & PubSubBody;
+
+/**
+ * Shares hubs through a broker. Every node subscribes to a common channel, for presence,
+ * broadcasts and heartbeats, and to a channel of its own, for direct sends and sync replies.
+ * A broadcast is published once whatever the number of nodes; nodes without recipients drop it.
+ */
+export class PubSubAdapter implements HubAdapter {
+  readonly name: string = 'pubsub';
+  readonly nodeId: string;
+  private readonly options: Required<Omit<PubSubAdapterOptions, 'nodeId'>>;
+  private readonly lastSeen = new Map<string, number>();
+  /** Nodes asked for their clients, until their sync arrives. */
+  private readonly syncRequests = new Set<string>();
+  private host?: AdapterHost;
+  private remote?: RemoteClients;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly client: PubSubClient,
+    options: PubSubAdapterOptions = {},
+  ) {
+    this.nodeId = options.nodeId ?? randomUUID();
+    this.options = {
+      channelPrefix: 'realtime',
+      heartbeatIntervalMs: 5000,
+      nodeTimeoutMs: 15_000,
+      ...options,
+    };
+    client.onReconnect?.(() => this.announce());
+  }
+
+  async attach(host: AdapterHost) {
+    this.host = host;
+    this.remote = new RemoteClients(host.presence);
+    await this.client.subscribe([this.channel(), this.channel(this.nodeId)], (_channel, payload) =>
+      this.receive(payload),
+    );
+    this.announce();
+    this.timer = setInterval(() => {
+      this.publishTo(undefined, { kind: 'heartbeat' });
+      this.expireNodes();
+    }, this.options.heartbeatIntervalMs).unref();
+  }
+
+  async detach() {
+    clearInterval(this.timer);
+    await this.client
+      .publish(this.channel(), JSON.stringify({ origin: this.nodeId, kind: 'leave' }))
+      .catch(() => undefined);
+    this.remote?.clear();
+    this.host = undefined;
+    this.remote = undefined;
+    this.lastSeen.clear();
+    this.syncRequests.clear();
+    await this.client.close();
+  }
+
+  owner(clientId: string) {
+    return this.remote?.owner(clientId);
+  }
+
+  /** Nodes whose clients are known here. */
+  listNodes() {
+    return this.remote?.listNodes() ?? [];
+  }
+
+  publish(client: PresenceSnapshot) {
+    this.publishTo(undefined, { kind: 'presence', client });
+  }
+
+  retract(clientId: string) {
+    this.publishTo(undefined, { kind: 'disconnect', clientId });
+  }
+
+  broadcast(message: OutboundMessage, options: BroadcastOptions = {}) {
+    const room = options.room?.toLowerCase();
+    if (!this.remote?.nodesFor(room).length) return;
+    this.publishTo(undefined, {
+      kind: 'broadcast',
+      message,
+      room,
+      except: options.except?.length ? options.except : undefined,
+    });
+  }
+
+  send(clientId: string, message: OutboundMessage) {
+    const owner = this.remote?.owner(clientId);
+    if (!owner) return false;
+    this.publishTo(owner, { kind: 'send', clientId, message });
+    return true;
+  }
+
+  /** Tells every node about this one and asks for theirs, on start and after a reconnection. */
+  private announce() {
+    if (!this.host) return;
+    this.publishTo(undefined, { kind: 'sync', clients: this.host.localClients(), resync: true });
+  }
+
+  private receive(payload: string) {
+    const message = safeParse<PubSubMessage>(payload);
+    const host = this.host;
+    const remote = this.remote;
+    if (!host || !remote || typeof message?.origin !== 'string') return;
+    if (message.origin === this.nodeId) return;
+    if (message.kind !== 'leave' && message.kind !== 'heartbeat' && !isClientUpdate(message)) {
+      host.logger.debug('Malformed pub/sub message dropped', message.origin);
+      return;
+    }
+    host.metrics.increment('pubsub_messages_total', { kind: message.kind, direction: 'in' });
+    if (message.kind === 'leave') {
+      remote.forgetNode(message.origin);
+      this.lastSeen.delete(message.origin);
+      return;
+    }
+    this.lastSeen.set(message.origin, Date.now());
+    // a node we know nothing of, e.g. after missed messages, is asked for its clients
+    if (
+      message.kind !== 'sync' &&
+      !remote.hasNode(message.origin) &&
+      !this.syncRequests.has(message.origin)
+    ) {
+      this.syncRequests.add(message.origin);
+      this.publishTo(message.origin, {
+        kind: 'sync',
+        clients: host.localClients(),
+        resync: true,
+      });
+    }
+
+    switch (message.kind) {
+      case 'sync':
+        this.syncRequests.delete(message.origin);
+        remote.sync(message.origin, message.clients);
+        if (message.resync) {
+          this.publishTo(message.origin, { kind: 'sync', clients: host.localClients() });
+        }
+        break;
+      case 'presence':
+        remote.track(message.origin, message.client);
+        break;
+      case 'disconnect':
+        remote.untrack(message.clientId);
+        break;
+      case 'broadcast':
+        host.broadcastLocal(message.message, { room: message.room, except: message.except });
+        break;
+      case 'send':
+        host.sendLocal(message.clientId, message.message);
+        break;
+    }
+  }
+
+  /** Forgets the nodes that stopped without saying so. */
+  private expireNodes() {
+    const deadline = Date.now() - this.options.nodeTimeoutMs;
+    for (const [nodeId, seen] of this.lastSeen) {
+      if (seen >= deadline) continue;
+      this.lastSeen.delete(nodeId);
+      this.syncRequests.delete(nodeId);
+      this.remote?.forgetNode(nodeId);
+      this.host?.logger.info('Pub/sub node timed out', nodeId);
+    }
+  }
+
+  /** Publishes on the channel of `nodeId`, or on the common channel. */
+  private publishTo(nodeId: string | undefined, body: PubSubBody) {
+    const host = this.host;
+    if (!host) return;
+    const message: PubSubMessage = { ...body, origin: this.nodeId };
+    host.metrics.increment('pubsub_messages_total', { kind: body.kind, direction: 'out' });
+    this.client
+      .publish(this.channel(nodeId), JSON.stringify(message))
+      .catch((error: Error) => host.logger.error('Pub/sub publish failed', error.message));
+  }
+
+  private channel(nodeId?: string) {
+    return nodeId
+      ? `${this.options.channelPrefix}:node:${nodeId}`
+      : `${this.options.channelPrefix}:nodes`;
+  }
+}
@@ -0,0 +1,181 @@
+import type { RealtimeMessage } from '../types/index.js';
+import { EventRouter } from './eventRouter.js';
+import { isEventTemplate } from './eventTypeBuilder.js';
+
+/** `points` tokens refilled every `intervalMs`; `burst` (defaults to `points`) caps the bucket. */
+export interface RateLimit {
+  points: number;
+  intervalMs: number;
+  burst?: number;
+}
+
+/**
+ * Violations counted per client over `windowMs`:
+ * - up to `dropAfter`: the client receives a `system:error` with `retryAfterMs`
+ * - up to `disconnectAfter`: messages are dropped silently
+ * - beyond: the client is disconnected with reason `rate_limited`
+ */
+export interface EscalationOptions {
+  windowMs?: number;
+  dropAfter?: number;
+  disconnectAfter?: number;
+}
+
+export interface RateLimitOptions {
+  /** Every inbound message of a client, whatever its type. */
+  client?: RateLimit;
+  /** Per client, keyed by event name or template (`chat:message:[roomId]`). */
+  events?: Record<string, RateLimit>;
+  /**
+   * Broadcasts into a room through `toolkit.rooms.broadcast`, per sender and room: a flooder only
+   * exhausts its own bucket, never the other members'.
+   */
+  rooms?: RateLimit;
+  escalation?: EscalationOptions;
+}
+
+export type RateLimitScope = 'client' | 'event' | 'room';
+
+export type RateLimitAction = 'error' | 'drop' | 'disconnect';
+
+export interface RateLimitVerdict {
+  scope: RateLimitScope;
+  /** Event name, event template or room that ran out of tokens. */
+  key: string;
+  action: RateLimitAction;
+  retryAfterMs: number;
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private readonly capacity: number;
+
+  constructor(
+    private readonly limit: RateLimit,
+    now = Date.now(),
+  ) {
+    this.capacity = limit.burst ?? limit.points;
+    this.tokens = this.capacity;
+    this.updatedAt = now;
+  }
+
+  /** Takes `cost` tokens; returns 0 on success, otherwise the delay before they are available. */
+  take(cost = 1, now = Date.now()) {
+    this.refill(now);
+    if (this.tokens >= cost) {
+      this.tokens -= cost;
+      return 0;
+    }
+    return Math.ceil(((cost - this.tokens) * this.limit.intervalMs) / this.limit.points);
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.updatedAt;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.limit.points) / this.limit.intervalMs,
+    );
+    this.updatedAt = now;
+  }
+}
+
+interface Strikes {
+  count: number;
+  since: number;
+}
+
+export class RateLimiter {
+  private readonly clientBuckets = new Map<string, Map<string, TokenBucket>>();
+  private readonly eventLimits = new Map<string, RateLimit>();
+  private readonly templateLimits = new EventRouter<RateLimit>();
+  private readonly strikes = new Map<string, Strikes>();
+  private readonly escalation: Required<EscalationOptions>;
+
+  constructor(private readonly options: RateLimitOptions = {}) {
+    this.escalation = {
+      windowMs: 10_000,
+      dropAfter: 3,
+      disconnectAfter: 20,
+      ...options.escalation,
+    };
+    Object.entries(options.events ?? {}).forEach(([event, limit]) => {
+      if (isEventTemplate(event)) {
+        this.templateLimits.add(event, limit);
+      } else {
+        this.eventLimits.set(event, limit);
+      }
+    });
+  }
+
+  /** Charges an inbound message to its sender; returns a verdict when a limit is exceeded. */
+  consumeMessage(clientId: string, message: RealtimeMessage): RateLimitVerdict | undefined {
+    const now = Date.now();
+    if (this.options.client) {
+      const retryAfterMs = this.bucketFor(clientId, '*', this.options.client, now).take(1, now);
+      if (retryAfterMs) return this.violation(clientId, 'client', '*', retryAfterMs, now);
+    }
+
+    const exact = this.eventLimits.get(message.type);
+    const match = exact ? undefined : this.templateLimits.match(message.type)[0];
+    const limit = exact ?? match?.value;
+    if (!limit) return undefined;
+    const key = match?.template ?? message.type;
+    const retryAfterMs = this.bucketFor(clientId, `event:${key}`, limit, now).take(1, now);
+    return retryAfterMs ? this.violation(clientId, 'event', key, retryAfterMs, now) : undefined;
+  }
+
+  /** Charges a room broadcast sent on behalf of `clientId`. */
+  consumeBroadcast(clientId: string, room: string): RateLimitVerdict | undefined {
+    if (!this.options.rooms) return undefined;
+    const now = Date.now();
+    const key = room.toLowerCase();
+    const retryAfterMs = this.bucketFor(clientId, `room:${key}`, this.options.rooms, now).take(
+      1,
+      now,
+    );
+    return retryAfterMs ? this.violation(clientId, 'room', key, retryAfterMs, now) : undefined;
+  }
+
+  forget(clientId: string) {
+    this.clientBuckets.delete(clientId);
+    this.strikes.delete(clientId);
+  }
+
+  private bucketFor(clientId: string, key: string, limit: RateLimit, now: number) {
+    let buckets = this.clientBuckets.get(clientId);
+    if (!buckets) {
+      buckets = new Map();
+      this.clientBuckets.set(clientId, buckets);
+    }
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit, now);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private violation(
+    clientId: string,
+    scope: RateLimitScope,
+    key: string,
+    retryAfterMs: number,
+    now: number,
+  ): RateLimitVerdict {
+    let strikes = this.strikes.get(clientId);
+    if (!strikes || now - strikes.since > this.escalation.windowMs) {
+      strikes = { count: 0, since: now };
+      this.strikes.set(clientId, strikes);
+    }
+    strikes.count += 1;
+    const action: RateLimitAction =
+      strikes.count <= this.escalation.dropAfter
+        ? 'error'
+        : strikes.count <= this.escalation.disconnectAfter
+          ? 'drop'
+          : 'disconnect';
+    return { scope, key, action, retryAfterMs };
+  }
+}
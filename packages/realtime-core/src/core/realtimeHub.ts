@@ -1,60 +1,260 @@
 import { EventEmitter } from 'node:events';
 import type {
+  AuthenticationResult,
+  Authenticator,
   BroadcastOptions,
   ClientContext,
+  ClientIdentity,
+  ClientMetadata,
+  ConnectionRequest,
   OutboundMessage,
   RealtimeMessage,
-  TransportClient
+  TransportClient,
+  TransportOffer
 } from '../types/index.js';
 import { RoomManager } from './roomManager.js';
 import { PresenceStore } from './presenceStore.js';
+import { SessionManager, type SessionOptions } from './sessionManager.js';
+import { AuthenticationError, ErrorCodes } from './errors.js';
+import { MemoryAdapter, type AdapterHost, type HubAdapter } from './hubAdapter.js';
+import { MetricsRegistry } from './metrics.js';
+import { composeSync, type OutboundContext, type OutboundMiddleware } from './middleware.js';
+import type { QueueOverflow } from './outboundQueue.js';
+import type { ProtocolAdapter } from './protocol.js';
+import { RateLimiter, type RateLimitOptions, type RateLimitVerdict } from './rateLimiter.js';
+import { RoomHistory, type HistoryOptions } from './roomHistory.js';
 import { Logger } from '../utils/logger.js';
+import type { MemberLeaveReason, MeshMember } from '../cluster/membership.js';
 
 export interface HubEvents {
   'client:connected': (client: TransportClient) => void;
   'client:disconnected': (clientId: string, reason?: string) => void;
+  'client:suspended': (clientId: string, reason?: string) => void;
+  'client:resumed': (client: TransportClient, replayed: number) => void;
+  'client:throttled': (clientId: string, verdict: RateLimitVerdict) => void;
+  'client:slow': (clientId: string, overflow: QueueOverflow) => void;
+  'connection:refused': (refusal: {
+    transport: string;
+    remoteAddress?: string;
+    reason: string;
+  }) => void;
   message: (payload: { message: RealtimeMessage; client: TransportClient }) => void;
+  'node:joined': (member: MeshMember) => void;
+  'node:left': (member: MeshMember, reason: MemberLeaveReason) => void;
+}
+
+export interface HubOptions {
+  sessions?: SessionOptions | boolean;
+  authenticate?: Authenticator;
+  rateLimits?: RateLimitOptions;
+  history?: HistoryOptions | boolean;
 }
 
 export class RealtimeHub extends EventEmitter {
   readonly rooms = new RoomManager();
   readonly presence = new PresenceStore();
+  readonly metrics = new MetricsRegistry();
+  readonly sessions?: SessionManager;
+  readonly rateLimiter?: RateLimiter;
+  readonly history?: RoomHistory;
   private readonly clients = new Map<string, TransportClient>();
+  private readonly authenticate?: Authenticator;
+  private readonly outboundMiddlewares: OutboundMiddleware[] = [];
+  private readonly protocolAdapters = new Map<string, ProtocolAdapter>();
+  private readonly transportOffers = new Map<string, TransportOffer>();
+  private adapter: HubAdapter = new MemoryAdapter();
+  private accepting = true;
 
-  constructor(private readonly logger = new Logger('hub')) {
+  constructor(
+    private readonly logger = new Logger('hub'),
+    options: HubOptions = {}
+  ) {
     super();
+    this.authenticate = options.authenticate;
+    if (options.sessions) {
+      this.sessions = new SessionManager(options.sessions === true ? {} : options.sessions);
+    }
+    if (options.rateLimits) {
+      this.rateLimiter = new RateLimiter(options.rateLimits);
+    }
+    if (options.history) {
+      this.history = new RoomHistory(options.history === true ? {} : options.history);
+    }
+  }
+
+  /**
+   * Runs the kernel `authenticate` hook for an incoming connection.
+   * Rejects with an `AuthenticationError` carrying the status the transport should answer with.
+   */
+  async admit(request: ConnectionRequest): Promise<AuthenticationResult> {
+    if (!this.accepting) throw new AuthenticationError('Server is draining', 503);
+    if (!this.authenticate) return {};
+    let result: AuthenticationResult | false | void;
+    try {
+      result = await this.authenticate(request);
+    } catch (error) {
+      if (error instanceof AuthenticationError) throw error;
+      this.logger.error('Authentication hook failed', error);
+      throw new AuthenticationError('Authentication failed', 500);
+    }
+    if (result === false) {
+      throw new AuthenticationError();
+    }
+    return result ?? {};
+  }
+
+  /**
+   * Returns the client id bound to a session token when that session can be resumed.
+   * Transports call it before building the client so the reconnecting socket keeps its id.
+   */
+  resumeSession(token: string | undefined, user?: ClientIdentity) {
+    const clientId = this.sessions?.resolve(token);
+    if (!clientId) return undefined;
+    // a token never moves a session to a different authenticated user
+    return this.clients.get(clientId)?.user?.id === user?.id ? clientId : undefined;
+  }
+
+  /** Refuses every new connection (503) from now on; connected clients stay. */
+  stopAccepting() {
+    this.accepting = false;
+  }
+
+  /** Asks the connected clients to reconnect, each after a random delay up to `jitterMs`. */
+  requestReconnect(jitterMs: number) {
+    this.connectedClients().forEach((client) =>
+      this.deliver(client, {
+        type: 'system:reconnect',
+        payload: { delayMs: Math.round(Math.random() * jitterMs) },
+        timestamp: Date.now()
+      })
+    );
+  }
+
+  /** Local clients with a live connection, suspended sessions left out. */
+  connectedClients() {
+    return Array.from(this.clients.values()).filter(
+      (client) => !this.sessions?.isSuspended(client.id)
+    );
   }
 
   registerClient(client: TransportClient) {
+    const previous = this.clients.get(client.id);
+    if (this.sessions?.isSuspended(client.id)) {
+      this.restoreClient(client);
+      return;
+    }
+    if (previous) {
+      // a resumed token can arrive before the dead socket is noticed; the new connection wins, and
+      // is registered before the old one closes so that its transport's unregister is ignored
+      this.clients.set(client.id, client);
+      previous.close('session_taken_over');
+      this.syncClient(client, previous);
+      this.announceSession(client, true);
+      this.logger.debug('Client session taken over', client.id);
+      return;
+    }
     this.clients.set(client.id, client);
     this.presence.connect(this.toSnapshot(client));
+    this.publish(client.id);
     this.emit('client:connected', client);
     this.logger.debug('Client connected', client.id, client.transport);
+    this.announceSession(client, false);
   }
 
-  unregisterClient(clientId: string, reason?: string) {
+  /**
+   * Transports pass the client they registered: once its session has been taken over, possibly by
+   * another transport, the call leaves the newer connection alone.
+   */
+  unregisterClient(clientId: string, reason?: string, registered?: TransportClient) {
     const client = this.clients.get(clientId);
-    if (!client) return;
-    this.rooms.leaveAll(clientId);
-    this.clients.delete(clientId);
-    this.presence.disconnect(clientId);
-    this.emit('client:disconnected', clientId, reason);
-    this.logger.debug('Client disconnected', clientId, reason);
+    if (!client || (registered && client !== registered)) return;
+    if (this.sessions && client.resumable && !this.sessions.isSuspended(clientId)) {
+      this.suspendClient(client, reason);
+      return;
+    }
+    this.removeClient(clientId, reason);
   }
 
-  receive(message: RealtimeMessage, clientId: string) {
+  receive(raw: RealtimeMessage, clientId: string) {
     const client = this.clients.get(clientId);
     if (!client) return;
+    const message = this.adapt(client, raw, 'inbound');
+    if (!message) return;
+    const verdict = this.rateLimiter?.consumeMessage(clientId, message);
+    if (verdict) {
+      this.throttle(client, verdict, message.ack);
+      return;
+    }
     this.emit('message', { message, client });
   }
 
+  /**
+   * Charges a room broadcast to its sender. Returns false when the sender is over its room limit; it
+   * has then been warned, ignored or disconnected according to the escalation policy.
+   */
+  allowBroadcast(clientId: string, room: string) {
+    const verdict = this.rateLimiter?.consumeBroadcast(clientId, room);
+    if (!verdict) return true;
+    const client = this.clients.get(clientId);
+    if (client) this.throttle(client, verdict);
+    return false;
+  }
+
+  /**
+   * Called by transports when a connection's outbound queue overflows. `client:slow` fires once per
+   * congestion episode; every discarded message is counted.
+   */
+  reportSlowClient(clientId: string, transport: string, overflow: QueueOverflow) {
+    if (overflow.dropped) {
+      this.metrics.increment(
+        'outbound_dropped_total',
+        { transport, policy: overflow.policy },
+        overflow.dropped
+      );
+    }
+    if (!overflow.first) return;
+    this.metrics.increment('slow_clients_total', { transport, policy: overflow.policy });
+    this.emit('client:slow', clientId, overflow);
+    this.logger.debug('Slow client', clientId, `${overflow.queuedBytes} bytes queued`);
+  }
+
+  /** Exposes a connection's pending outbound bytes as a gauge; 0 removes it. */
+  trackQueuedBytes(clientId: string, transport: string, bytes: number) {
+    if (bytes > 0) {
+      this.metrics.gauge('outbound_queued_bytes', bytes, { client: clientId, transport });
+    } else {
+      this.metrics.removeGauge('outbound_queued_bytes', { client: clientId, transport });
+    }
+  }
+
+  /** Lets transports report connections refused before a client exists (e.g. per-IP limits). */
+  refuseConnection(transport: string, reason: string, remoteAddress?: string) {
+    this.metrics.increment('connections_refused_total', { transport, reason });
+    this.emit('connection:refused', { transport, remoteAddress, reason });
+  }
+
+  /** Lists a started transport in handshakes, so clients can pick one they are able to reach. */
+  offerTransport(offer: TransportOffer) {
+    this.transportOffers.set(offer.name, offer);
+  }
+
+  withdrawTransport(name: string) {
+    this.transportOffers.delete(name);
+  }
+
+  listTransports() {
+    return [...this.transportOffers.values()];
+  }
+
   getClient(clientId: string) {
     return this.clients.get(clientId);
   }
 
+  /** Context of a local client, or presence of a client on another node. */
   snapshot(clientId: string): ClientContext | undefined {
     const client = this.clients.get(clientId);
-    return client ? this.toSnapshot(client) : undefined;
+    if (client) return this.toSnapshot(client);
+    return this.adapter.owner(clientId) ? this.presence.get(clientId) : undefined;
   }
 
   joinRoom(room: string, clientId: string) {
@@ -65,6 +265,7 @@ export class RealtimeHub extends EventEmitter {
       client.rooms = rooms;
     }
     this.presence.syncRooms(clientId, rooms);
+    this.publish(clientId);
   }
 
   leaveRoom(room: string, clientId: string) {
@@ -75,33 +276,264 @@ export class RealtimeHub extends EventEmitter {
       client.rooms = rooms;
     }
     this.presence.syncRooms(clientId, rooms);
+    this.publish(clientId);
+  }
+
+  /** Merges `metadata` into a local client's presence; other nodes see the change. */
+  updatePresence(clientId: string, metadata: ClientMetadata) {
+    this.presence.update(clientId, metadata);
+    this.publish(clientId);
   }
 
+  /**
+   * Shares this hub with other nodes through `adapter` (the mesh, a pub/sub broker): presence and
+   * rooms are shared, and broadcasts and sends reach clients connected to any node. A hub has one
+   * adapter at a time besides the in-memory default.
+   */
+  async useAdapter(adapter: HubAdapter) {
+    if (this.adapter === adapter) return;
+    if (!(this.adapter instanceof MemoryAdapter)) {
+      throw new Error(
+        `The hub already shares its clients through the ${this.adapter.name} adapter, ` +
+          `it cannot also use ${adapter.name}`
+      );
+    }
+    this.adapter = adapter;
+    try {
+      await adapter.attach(this.adapterHost());
+    } catch (error) {
+      this.adapter = new MemoryAdapter();
+      throw error;
+    }
+  }
+
+  /** Detaches `adapter` if it is the current one; clients of other nodes disappear from presence. */
+  async releaseAdapter(adapter: HubAdapter) {
+    if (this.adapter !== adapter) return;
+    this.adapter = new MemoryAdapter();
+    await adapter.detach();
+  }
+
+  /** Translates messages of clients that negotiated `version` to and from the current envelope. */
+  useProtocol(version: string, adapter: ProtocolAdapter) {
+    this.protocolAdapters.set(version, adapter);
+  }
+
+  /** Registers middleware that sees (and may rewrite or drop) every `send` and `broadcast`. */
+  useOutbound(middleware: OutboundMiddleware) {
+    this.outboundMiddlewares.push(middleware);
+  }
+
+  /**
+   * Delivers to local clients, then forwards once to every other node with recipients. Each hub
+   * numbers the room broadcasts it delivers, its own and those of other nodes, in its history.
+   */
   broadcast(message: OutboundMessage, options?: BroadcastOptions) {
-    const payload = { ...message, timestamp: Date.now() };
+    this.runOutbound({ message, kind: 'broadcast', options }, (context) => {
+      const payload = { ...context.message, timestamp: Date.now() };
+      this.fanOut(this.record(payload, context.options), context.options);
+      this.adapter.broadcast(payload, context.options ?? {});
+    });
+  }
+
+  /**
+   * Sends a client the messages of `room` after sequence `since` of `epoch`, in order. Resolves
+   * with what was replayed, or undefined when the room has no history.
+   */
+  async replayHistory(clientId: string, room: string, since: number, epoch?: string) {
+    const key = room.toLowerCase();
+    if (!this.history?.covers(key)) return undefined;
+    const { entries, replay } = await this.history.since(key, since, epoch);
+    const client = this.clients.get(clientId);
+    if (client) {
+      entries.forEach((entry) => this.deliver(client, entry.message));
+    }
+    return replay;
+  }
+
+  /** Clients on other nodes are reached through the node that owns them. */
+  send(clientId: string, message: OutboundMessage) {
+    const client = this.clients.get(clientId);
+    if (!client && !this.adapter.owner(clientId)) return false;
+    let delivered = false;
+    this.runOutbound({ message, kind: 'send', clientId }, (context) => {
+      const payload = { ...context.message, timestamp: Date.now() };
+      delivered = client
+        ? this.deliver(client, payload)
+        : this.adapter.send(clientId, payload);
+    });
+    return delivered;
+  }
+
+  private record(message: OutboundMessage, options?: BroadcastOptions) {
+    const room = options?.room?.toLowerCase();
+    return room && this.history?.covers(room) ? this.history.record(room, message) : message;
+  }
+
+  private fanOut(message: OutboundMessage, options?: BroadcastOptions) {
     const except = new Set(options?.except ?? []);
     const targetRoom = options?.room?.toLowerCase();
     const ids: string[] = targetRoom ? this.rooms.list(targetRoom) : Array.from(this.clients.keys());
     ids.forEach((id: string) => {
       if (except.has(id)) return;
-      this.clients.get(id)?.send(payload);
+      const client = this.clients.get(id);
+      if (client) this.deliver(client, message);
     });
   }
 
-  send(clientId: string, message: OutboundMessage) {
-    const client = this.clients.get(clientId);
-    if (!client) return false;
-    client.send({ ...message, timestamp: Date.now() });
+  /** Sends in the client's protocol version; suspended clients buffer the current envelope. */
+  private deliver(client: TransportClient, message: OutboundMessage) {
+    const adapted = this.sessions?.isSuspended(client.id)
+      ? message
+      : this.adapt(client, message, 'outbound');
+    if (!adapted) return false;
+    client.send(adapted);
     return true;
   }
 
+  private adapt<Message extends RealtimeMessage>(
+    client: TransportClient,
+    message: Message,
+    direction: 'inbound' | 'outbound'
+  ): Message | undefined {
+    const adapter = client.protocolVersion
+      ? this.protocolAdapters.get(client.protocolVersion)?.[direction]
+      : undefined;
+    if (!adapter) return message;
+    try {
+      return adapter(message, client) as Message | undefined;
+    } catch (error) {
+      this.logger.error(`Protocol ${client.protocolVersion} ${direction} adapter failed`, error);
+      return undefined;
+    }
+  }
+
+  private runOutbound(context: OutboundContext, deliver: (context: OutboundContext) => void) {
+    if (!this.outboundMiddlewares.length) {
+      deliver(context);
+      return;
+    }
+    try {
+      composeSync(this.outboundMiddlewares, deliver)(context);
+    } catch (error) {
+      this.logger.error('Outbound middleware failed', error);
+    }
+  }
+
+  private throttle(client: TransportClient, verdict: RateLimitVerdict, ack?: string) {
+    this.metrics.increment('rate_limit_violations_total', {
+      scope: verdict.scope,
+      action: verdict.action
+    });
+    this.emit('client:throttled', client.id, verdict);
+    if (verdict.action === 'error') {
+      this.send(client.id, {
+        type: 'system:error',
+        payload: {
+          message: `Rate limit exceeded for ${verdict.scope === 'client' ? 'client' : verdict.key}`,
+          code: ErrorCodes.RATE_LIMITED,
+          retryAfterMs: verdict.retryAfterMs,
+          ack
+        }
+      });
+    } else if (verdict.action === 'disconnect') {
+      this.logger.info('Disconnecting client for sustained rate limit abuse', client.id);
+      // removed first so the transport's close callback does not suspend a resumable session
+      this.removeClient(client.id, 'rate_limited');
+      client.close('rate_limited');
+    }
+  }
+
+  private suspendClient(client: TransportClient, reason?: string) {
+    const sessions = this.sessions!;
+    sessions.suspend(client.id, () => this.removeClient(client.id, reason));
+    this.clients.set(client.id, {
+      ...this.toSnapshot(client),
+      resumable: true,
+      send: (message) => sessions.buffer(client.id, message),
+      close: () => {
+        sessions.forget(client.id);
+        this.removeClient(client.id, reason);
+      }
+    });
+    this.emit('client:suspended', client.id, reason);
+    this.logger.debug('Client suspended', client.id, reason);
+  }
+
+  private restoreClient(client: TransportClient) {
+    const suspended = this.clients.get(client.id);
+    const { messages, dropped } = this.sessions!.resume(client.id);
+    this.clients.set(client.id, client);
+    this.syncClient(client, suspended);
+    this.announceSession(client, true, dropped);
+    messages.forEach((message) => this.deliver(client, message));
+    this.emit('client:resumed', client, messages.length);
+    this.logger.debug('Client resumed', client.id, `replayed ${messages.length}`);
+  }
+
+  private syncClient(client: TransportClient, previous?: TransportClient) {
+    client.metadata = { ...previous?.metadata, ...client.metadata };
+    client.rooms = this.rooms.roomsFor(client.id);
+    this.presence.connect(this.toSnapshot(client));
+    this.publish(client.id);
+  }
+
+  private removeClient(clientId: string, reason?: string) {
+    if (!this.clients.has(clientId)) return;
+    this.rooms.leaveAll(clientId);
+    this.clients.delete(clientId);
+    this.presence.disconnect(clientId);
+    this.adapter.retract(clientId);
+    this.sessions?.forget(clientId);
+    this.rateLimiter?.forget(clientId);
+    this.emit('client:disconnected', clientId, reason);
+    this.logger.debug('Client disconnected', clientId, reason);
+  }
+
+  /** Presence is the source of truth: it holds the metadata set through `updatePresence`. */
+  private publish(clientId: string) {
+    const snapshot = this.presence.get(clientId);
+    if (snapshot) this.adapter.publish(snapshot);
+  }
+
+  private adapterHost(): AdapterHost {
+    return {
+      presence: this.presence,
+      metrics: this.metrics,
+      logger: this.logger,
+      localClients: () => this.presence.list().filter((snapshot) => !snapshot.node),
+      broadcastLocal: (message, options) => this.fanOut(this.record(message, options), options),
+      sendLocal: (clientId, message) => {
+        const client = this.clients.get(clientId);
+        if (client) this.deliver(client, message);
+      }
+    };
+  }
+
+  private announceSession(client: TransportClient, resumed: boolean, dropped = 0) {
+    if (!this.sessions || !client.resumable) return;
+    this.deliver(client, {
+      type: 'system:session',
+      payload: {
+        clientId: client.id,
+        token: resumed ? this.sessions.rotate(client.id) : this.sessions.issue(client.id),
+        resumed,
+        dropped,
+        graceMs: this.sessions.options.graceMs
+      },
+      timestamp: Date.now()
+    });
+  }
+
   private toSnapshot(client: TransportClient): ClientContext {
     return {
       id: client.id,
       transport: client.transport,
+      user: client.user,
       metadata: client.metadata,
       connectedAt: client.connectedAt,
-      rooms: this.rooms.roomsFor(client.id)
+      rooms: this.rooms.roomsFor(client.id),
+      protocolVersion: client.protocolVersion
     };
   }
 }
@@ -1,7 +1,9 @@
+import { setTimeout as sleep } from 'node:timers/promises';
 import { BaseTransport } from '../transports/base.js';
 import type {
   ClientContext,
   ClientMetadata,
+  DrainOptions,
   EventName,
   HandlerToolkit,
   KernelEventMap,
@@ -12,31 +14,92 @@ import type {
   RealtimeEventMessage,
   RealtimeHandler,
   RealtimeMessage,
+  SystemEventMap,
+  TemplateHandler,
   TransportClient
 } from '../types/index.js';
 import { Logger } from '../utils/logger.js';
-import eventTypeBuilder, { EventTemplate } from './eventTypeBuilder.js';
+import {
+  ErrorCodes,
+  PolicyError,
+  RateLimitError,
+  RealtimeError,
+  ValidationError,
+} from './errors.js';
+import { EventRouter } from './eventRouter.js';
+import type { HubAdapter } from './hubAdapter.js';
+import eventTypeBuilder, { EventTemplate, isEventTemplate } from './eventTypeBuilder.js';
+import {
+  compose,
+  type Middleware,
+  type MiddlewareContext,
+  type OutboundMiddleware,
+} from './middleware.js';
+import { PolicyEngine } from './policyEngine.js';
+import type { ProtocolAdapter } from './protocol.js';
+import {
+  RpcManager,
+  type CallOptions,
+  type ProcedureHandler,
+  type ProcedureMap,
+  type ProcedureName,
+  type ProcedureOptions,
+  type RpcRequest,
+  type RpcResult,
+} from './rpc.js';
 import { RealtimeHub } from './realtimeHub.js';
+import type { SchemaAdapter } from './validation.js';
+
+const DRAIN_POLL_MS = 100;
 
 export class RealtimeKernel<
   Events extends RealtimeEventMap = RealtimeEventMap,
-  EventTemplates extends readonly EventTemplate[] = ['*']
+  EventTemplates extends readonly EventTemplate[] = ['*'],
+  ServerProcedures extends ProcedureMap = ProcedureMap,
+  ClientProcedures extends ProcedureMap = ProcedureMap
 > {
   private readonly hub: RealtimeHub;
   private readonly transports: BaseTransport[] = [];
   private readonly handlers = new Map<EventName<Events>, RealtimeHandler<Events>[]>();
+  private readonly templateHandlers = new EventRouter<RealtimeHandler<Events>>();
   private readonly wildcardHandlers: RealtimeHandler<Events>[] = [];
+  private readonly schemas = new Map<string, SchemaAdapter>();
+  private readonly templateSchemas = new EventRouter<SchemaAdapter>();
+  private readonly middlewares: Middleware<Events>[] = [];
+  private readonly rpc: RpcManager<Events>;
   private readonly logger: Logger;
+  private adapter?: HubAdapter;
+  /** Messages whose middleware and handlers have not settled yet. */
+  private readonly inFlight = new Set<Promise<void>>();
+  readonly policies: PolicyEngine;
 
   private started = false;
 
-  constructor(options: KernelOptions<EventTemplates> = {}) {
+  constructor(options: KernelOptions<EventTemplates, Events> = {}) {
     this.logger = new Logger('kernel', options.logLevel ?? 'info');
-    this.hub = new RealtimeHub(new Logger('hub', options.logLevel ?? 'info'));
-    (options.transports ?? []).forEach((transport: BaseTransport) => this.useTransport(transport));
-    this.hub.on('message', (payload: { message: RealtimeMessage; client: TransportClient }) =>
-      this.dispatch(payload.message, payload.client),
+    this.hub = new RealtimeHub(new Logger('hub', options.logLevel ?? 'info'), {
+      sessions: options.sessions,
+      history: options.history,
+      authenticate: options.authenticate,
+      rateLimits: options.rateLimits,
+    });
+    this.adapter = options.adapter;
+    this.policies = new PolicyEngine(this.hub.metrics, options.policies);
+    this.rpc = new RpcManager(this.hub, this.logger, options.rpcTimeoutMs);
+    Object.entries(options.schemas ?? {}).forEach(([type, schema]) => {
+      if (schema) this.schema(type, schema as SchemaAdapter);
+    });
+    Object.entries(options.protocols ?? {}).forEach(([version, adapter]) =>
+      this.protocol(version, adapter),
     );
+    (options.transports ?? []).forEach((transport: BaseTransport) => this.useTransport(transport));
+    this.hub.on('message', (payload: { message: RealtimeMessage; client: TransportClient }) => {
+      const dispatching = this.dispatch(payload.message, payload.client).finally(() =>
+        this.inFlight.delete(dispatching),
+      );
+      this.inFlight.add(dispatching);
+    });
+    this.registerSystemHandlers();
   }
 
   useTransport(transport: BaseTransport) {
@@ -46,8 +109,23 @@ export class RealtimeKernel<
     }
   }
 
+  /** Shares the hub with other nodes, like the `adapter` option; a kernel has one adapter. */
+  async useAdapter(adapter: HubAdapter) {
+    if (this.adapter && this.adapter !== adapter) {
+      throw new Error(`The kernel already uses the ${this.adapter.name} adapter`);
+    }
+    this.adapter = adapter;
+    if (this.started) await this.hub.useAdapter(adapter);
+  }
+
   on(eventType: '*', handler: RealtimeHandler<Events>): void;
+  on<Type extends EventName<Events>>(eventType: Type, handler: RealtimeHandler<Events, Type>): void;
   on(eventType: EventName<KernelEventMap<Events>>, handler: RealtimeHandler<Events>): void;
+  /** Without `params` the template matches every event of its shape and extracts the params. */
+  on<Template extends EventTemplates[number]>(
+    descriptor: { eventTemplate: Template; params?: undefined },
+    handler: TemplateHandler<Events, Template>
+  ): void;
   on(
     descriptor: { eventTemplate: EventTemplates[number] | '*'; params?: (string | number | boolean)[] },
     handler: RealtimeHandler<Events>
@@ -57,32 +135,133 @@ export class RealtimeKernel<
       | { eventTemplate: EventTemplates[number]; params?: (string | number | boolean)[] }
       | EventName<KernelEventMap<Events>>
       | '*',
-    handler: RealtimeHandler<Events>
+    handler: RealtimeHandler<Events> | TemplateHandler<Events, EventTemplates[number]>
   ) {
     const eventType =
       typeof eventOrDescriptor === 'string'
         ? eventOrDescriptor
-        : eventTypeBuilder(eventOrDescriptor.eventTemplate, ...(eventOrDescriptor.params ?? []));
+        : eventOrDescriptor.params
+          ? eventTypeBuilder(eventOrDescriptor.eventTemplate, ...eventOrDescriptor.params)
+          : eventOrDescriptor.eventTemplate;
 
     if (eventType === '*') {
-      this.wildcardHandlers.push(handler);
+      this.wildcardHandlers.push(handler as RealtimeHandler<Events>);
       return;
     }
 
-    const bucket = this.handlers.get(eventType) ?? [];
-    bucket.push(handler);
+    if (isEventTemplate(eventType)) {
+      this.templateHandlers.add(eventType, handler as RealtimeHandler<Events>);
+      return;
+    }
+
+    const bucket = this.handlers.get(eventType as EventName<Events>) ?? [];
+    bucket.push(handler as RealtimeHandler<Events>);
     this.handlers.set(eventType as EventName<Events>, bucket);
   }
 
+  /**
+   * Adds Koa-style middleware around inbound dispatch. Middleware runs in registration order before
+   * validation, policies and handlers; it may short-circuit by not calling `next()` and sees the
+   * errors they throw.
+   */
+  use(middleware: Middleware<Events>) {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /** Adds middleware around every outbound `send` and `broadcast` of the hub. */
+  useOutbound(middleware: OutboundMiddleware) {
+    this.hub.useOutbound(middleware);
+    return this;
+  }
+
+  /**
+   * Serves a procedure clients can `call`. The return value (or thrown `RealtimeError`) is sent back
+   * as `system:rpc:result` correlated to the request id.
+   */
+  procedure<Name extends ProcedureName<ServerProcedures>>(
+    name: Name,
+    handler: ProcedureHandler<
+      ServerProcedures[Name]['input'],
+      ServerProcedures[Name]['output'],
+      Events
+    >,
+    options?: ProcedureOptions<ServerProcedures[Name]['input']>,
+  ) {
+    this.rpc.register(name, handler, options);
+    return this;
+  }
+
+  /** Calls a procedure exposed by a connected client and resolves with its answer. */
+  call<Name extends ProcedureName<ClientProcedures>>(
+    clientId: string,
+    name: Name,
+    input: ClientProcedures[Name]['input'],
+    options?: CallOptions,
+  ) {
+    return this.rpc.call(clientId, name, input, options) as Promise<
+      ClientProcedures[Name]['output']
+    >;
+  }
+
+  /**
+   * Registers the adapter for clients that negotiated protocol `version`. Inbound messages are
+   * translated before middleware and rate limits, outbound ones after outbound middleware, so
+   * handlers and rooms only ever see the current envelope.
+   */
+  protocol(version: string, adapter: ProtocolAdapter) {
+    this.hub.useProtocol(version, adapter);
+    return this;
+  }
+
+  /** Registers the schema inbound payloads of `eventType` (or of a template) must satisfy. */
+  schema<Type extends EventName<Events>>(eventType: Type, schema: SchemaAdapter<Events[Type]>): void;
+  schema(eventTemplate: EventTemplates[number], schema: SchemaAdapter): void;
+  schema(eventType: string, schema: SchemaAdapter) {
+    if (isEventTemplate(eventType)) {
+      this.templateSchemas.add(eventType, schema);
+    } else {
+      this.schemas.set(eventType, schema);
+    }
+  }
+
   async start() {
     if (this.started) return;
+    await this.hub.history?.open();
+    if (this.adapter) await this.hub.useAdapter(this.adapter);
     await Promise.all(this.transports.map((transport) => transport.start(this.hub)));
     this.started = true;
     this.logger.info('Realtime kernel started with transports:', this.transports.length);
   }
 
+  /**
+   * Prepares the kernel to leave: new connections are refused, the clients are asked to reconnect
+   * (to another node) and, up to `timeoutMs`, in-flight handlers and, by default, the clients
+   * themselves are waited for. `stop` closes whatever remains.
+   */
+  async drain(options: DrainOptions = {}) {
+    const { reconnectJitterMs = 5000, timeoutMs = 15_000, waitFor = 'clients' } = options;
+    this.hub.stopAccepting();
+    await Promise.all(this.transports.map((transport) => transport.stopAccepting()));
+    this.hub.requestReconnect(reconnectJitterMs);
+    const deadline = Date.now() + timeoutMs;
+    while (this.inFlight.size || (waitFor === 'clients' && this.hub.connectedClients().length)) {
+      if (Date.now() >= deadline) {
+        this.logger.info(
+          'Drain timed out with clients and handlers left:',
+          this.hub.connectedClients().length,
+          this.inFlight.size,
+        );
+        return;
+      }
+      await sleep(DRAIN_POLL_MS);
+    }
+  }
+
   async stop() {
     await Promise.all(this.transports.map((transport) => transport.stop()));
+    if (this.adapter) await this.hub.releaseAdapter(this.adapter);
+    await this.hub.history?.close();
     this.started = false;
   }
 
@@ -90,46 +269,178 @@ export class RealtimeKernel<
     return this.hub.presence;
   }
 
+  /** Clients connected to this kernel; those of other nodes are not counted. */
+  get clientCount() {
+    return this.hub.connectedClients().length;
+  }
+
   get rooms() {
     return this.hub.rooms;
   }
 
+  get metrics() {
+    return this.hub.metrics;
+  }
+
   private async dispatch(message: RealtimeMessage, client: TransportClient) {
-    const handlers = [
-      ...(this.handlers.get(message.type as EventName<Events>) ?? []),
-      ...this.wildcardHandlers,
+    const context = this.hub.snapshot(client.id);
+    if (!context) return;
+
+    const state: Record<string, unknown> = {};
+    const middlewareContext: MiddlewareContext<Events> = {
+      message,
+      client: context,
+      toolkit: this.createToolkit(context, state),
+      state,
+    };
+
+    try {
+      await compose(this.middlewares, (ctx: MiddlewareContext<Events>) => this.handle(ctx))(
+        middlewareContext,
+      );
+    } catch (error) {
+      this.sendError(client.id, error, middlewareContext.message.ack);
+      return;
+    }
+
+    const { ack } = middlewareContext.message;
+    if (ack) {
+      this.hub.send(client.id, { type: 'system:ack', payload: { ack } });
+    }
+  }
+
+  private async handle({ message, client: context, toolkit }: MiddlewareContext<Events>) {
+    await this.validate(message);
+    await this.policies.assertEvent(message, context);
+
+    const handlers: Array<{
+      handler: RealtimeHandler<Events>;
+      params: Record<string, string | number>;
+    }> = [
+      ...(this.handlers.get(message.type as EventName<Events>) ?? []).map((handler) => ({
+        handler,
+        params: {},
+      })),
+      ...this.templateHandlers
+        .match(message.type)
+        .map(({ value, params }) => ({ handler: value, params })),
+      ...this.wildcardHandlers.map((handler) => ({ handler, params: {} })),
     ];
     if (!handlers.length) {
       this.logger.debug('No handlers for event', message.type);
-      if (message.ack) {
-        this.hub.send(client.id, { type: 'system:ack', payload: { ack: message.ack } });
-      }
       return;
     }
 
-    const context = this.hub.snapshot(client.id);
-    if (!context) return;
-    const toolkit = this.createToolkit(context);
     const typedMessage = message as RealtimeEventMessage<Events>;
-
-    for (const handler of handlers) {
+    let failure: unknown;
+    for (const { handler, params } of handlers) {
       try {
-        await handler(typedMessage, context, toolkit);
+        await handler(typedMessage, context, toolkit, params);
       } catch (error) {
-        this.logger.error('Handler failed', error);
-        this.hub.send(client.id, {
-          type: 'system:error',
-          payload: { message: 'Internal handler error', details: (error as Error).message },
-        });
+        // remaining handlers still run; the first failure is reported to the client
+        if (failure === undefined) {
+          failure = error;
+        } else {
+          this.logger.error('Handler failed', error);
+        }
       }
     }
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  private async validate(message: RealtimeMessage) {
+    let key = message.type;
+    let schema = this.schemas.get(key);
+    if (!schema) {
+      const match = this.templateSchemas.match(message.type)[0];
+      key = match?.template ?? key;
+      schema = match?.value;
+    }
+    if (!schema) return;
 
-    if (message.ack) {
-      this.hub.send(client.id, { type: 'system:ack', payload: { ack: message.ack } });
+    const result = await schema.validate(message.payload);
+    if (!result.success) {
+      this.hub.metrics.increment('validation_failures_total', { event: key });
+      throw new ValidationError(message.type, result.issues);
     }
+    message.payload = result.value;
   }
 
-  private createToolkit(context: ClientContext): HandlerToolkit<Events> {
+  private sendError(clientId: string, error: unknown, ack?: string) {
+    if (error instanceof RealtimeError) {
+      if (
+        !(error instanceof PolicyError) &&
+        !(error instanceof ValidationError) &&
+        !(error instanceof RateLimitError)
+      ) {
+        this.logger.error('Handler failed', error);
+      }
+      this.hub.send(clientId, {
+        type: 'system:error',
+        payload: {
+          message: error.message,
+          code: error.code,
+          details: error.details,
+          issues: error instanceof ValidationError ? error.issues : undefined,
+          retryAfterMs: error instanceof RateLimitError ? error.retryAfterMs : undefined,
+          ack,
+        },
+      });
+      return;
+    }
+    this.logger.error('Handler failed', error);
+    this.hub.send(clientId, {
+      type: 'system:error',
+      payload: {
+        message: 'Internal handler error',
+        code: ErrorCodes.INTERNAL_ERROR,
+        details: (error as Error).message,
+        ack,
+      },
+    });
+  }
+
+  private registerSystemHandlers() {
+    this.on('system:join', async (message, context, toolkit) => {
+      if (!message.room) {
+        throw new Error('system:join requires a room');
+      }
+      toolkit.rooms.join(message.room);
+      const { since, epoch } = (message.payload as SystemEventMap['system:join']) ?? {};
+      if (typeof since !== 'number') return;
+      const replay = await this.hub.replayHistory(
+        context.id,
+        message.room,
+        since,
+        typeof epoch === 'string' ? epoch : undefined
+      );
+      if (replay) {
+        this.hub.send(context.id, { type: 'system:history', payload: replay });
+      }
+    });
+    this.on('system:leave', (message, _context, toolkit) => {
+      if (!message.room) {
+        throw new Error('system:leave requires a room');
+      }
+      toolkit.rooms.leave(message.room);
+    });
+    this.on('system:rpc', (message, context, toolkit) =>
+      this.rpc.handleRequest(message.payload as RpcRequest, context, toolkit),
+    );
+    this.on('system:rpc:cancel', (message, context) =>
+      this.rpc.handleCancel((message.payload as { id?: string } | undefined)?.id, context.id),
+    );
+    this.on('system:rpc:result', (message, context) =>
+      this.rpc.handleResult(message.payload as RpcResult | undefined, context.id),
+    );
+  }
+
+  private createToolkit(
+    context: ClientContext,
+    state: Record<string, unknown> = {},
+  ): HandlerToolkit<Events> {
     const { id } = context;
     const reply = (
       message: OutboundMessage<KernelEventMap<Events>> | string,
@@ -147,6 +458,7 @@ export class RealtimeKernel<
     return {
       reply,
       send: (targetId: string, message: OutboundMessage<KernelEventMap<Events>>) => {
+        this.policies.assertDirectMessage(context, targetId, this.hub.snapshot(targetId));
         this.hub.send(targetId, message);
       },
       broadcast: (
@@ -164,8 +476,15 @@ export class RealtimeKernel<
         });
       },
       rooms: {
-        join: (room: string) => this.hub.joinRoom(room, id),
+        join: (room: string) => {
+          this.policies.assertJoin(context, room);
+          this.hub.joinRoom(room, id);
+        },
         leave: (room: string) => this.hub.leaveRoom(room, id),
+        invite: (room: string, clientOrUserId: string) => {
+          this.policies.assertInvite({ ...context, rooms: this.hub.rooms.roomsFor(id) }, room);
+          this.policies.invite(room, clientOrUserId);
+        },
         list: () => this.hub.rooms.roomsFor(id),
         broadcast: (
           message: OutboundMessage<KernelEventMap<Events>>,
@@ -173,7 +492,7 @@ export class RealtimeKernel<
           options?: { exceptSelf?: boolean; except?: string[] },
         ) => {
           const targetRoom = roomName ?? message.room;
-          if (!targetRoom) return;
+          if (!targetRoom || !this.hub.allowBroadcast(id, targetRoom)) return;
           const except = new Set(options?.except ?? []);
           if (options?.exceptSelf) {
             except.add(id);
@@ -184,8 +503,9 @@ export class RealtimeKernel<
       presence: {
         list: () => this.hub.presence.list(),
         get: (clientId: string) => this.hub.presence.get(clientId),
-        update: (metadata: ClientMetadata) => this.hub.presence.update(id, metadata),
+        update: (metadata: ClientMetadata) => this.hub.updatePresence(id, metadata),
       },
+      state,
       log: (...args: unknown[]) => this.logger.debug(`client:${id}`, ...args),
     };
   }
@@ -0,0 +1,135 @@
+import type { OutboundMessage, PresenceSnapshot } from '../types/index.js';
+import type { PresenceStore } from './presenceStore.js';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+function isPresenceSnapshot(value: unknown): value is PresenceSnapshot {
+  if (!value || typeof value !== 'object') return false;
+  const client = value as Partial<PresenceSnapshot>;
+  return (
+    isString(client.id) &&
+    isString(client.transport) &&
+    typeof client.connectedAt === 'number' &&
+    isStringArray(client.rooms)
+  );
+}
+
+function isOutboundMessage(value: unknown): value is OutboundMessage {
+  return !!value && typeof value === 'object' && isString((value as OutboundMessage).type);
+}
+
+/**
+ * Whether `body` is a well-formed `sync`, `presence`, `disconnect`, `broadcast` or `send`, the
+ * kinds adapters exchange about clients. What other nodes send is checked, not trusted: a
+ * malformed body would throw in the socket or broker callback that delivered it.
+ */
+export function isClientUpdate(body: Record<string, unknown>) {
+  switch (body.kind) {
+    case 'sync':
+      return Array.isArray(body.clients) && body.clients.every(isPresenceSnapshot);
+    case 'presence':
+      return isPresenceSnapshot(body.client);
+    case 'disconnect':
+      return isString(body.clientId);
+    case 'broadcast':
+      return (
+        isOutboundMessage(body.message) &&
+        (body.room === undefined || isString(body.room)) &&
+        (body.except === undefined || isStringArray(body.except))
+      );
+    case 'send':
+      return isString(body.clientId) && isOutboundMessage(body.message);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Clients connected to other nodes, as reported by an adapter. They are mirrored into the local
+ * presence store with their node, and counted per room so broadcasts skip nodes without members.
+ */
+export class RemoteClients {
+  /** Node owning each remote client. */
+  private readonly owners = new Map<string, string>();
+  private readonly nodes = new Map<string, Set<string>>();
+  /** Remote members per room, counted per node. */
+  private readonly roomNodes = new Map<string, Map<string, number>>();
+
+  constructor(private readonly presence: PresenceStore) {}
+
+  owner(clientId: string) {
+    return this.owners.get(clientId);
+  }
+
+  hasNode(nodeId: string) {
+    return this.nodes.has(nodeId);
+  }
+
+  listNodes() {
+    return [...this.nodes.keys()];
+  }
+
+  /** Nodes with members in `room`, or every known node without a room. */
+  nodesFor(room?: string) {
+    return room ? [...(this.roomNodes.get(room)?.keys() ?? [])] : this.listNodes();
+  }
+
+  /** Replaces what is known of `nodeId` with its full client list. */
+  sync(nodeId: string, clients: PresenceSnapshot[]) {
+    this.forgetNode(nodeId);
+    this.nodes.set(nodeId, new Set());
+    clients.forEach((client) => this.track(nodeId, client));
+  }
+
+  track(nodeId: string, client: PresenceSnapshot) {
+    const previous =
+      this.owners.get(client.id) === nodeId ? this.presence.get(client.id) : undefined;
+    if (!previous) this.untrack(client.id);
+    previous?.rooms.forEach((room) => this.countRoom(room, nodeId, -1));
+    client.rooms.forEach((room) => this.countRoom(room, nodeId, 1));
+    this.owners.set(client.id, nodeId);
+    let clients = this.nodes.get(nodeId);
+    if (!clients) {
+      clients = new Set();
+      this.nodes.set(nodeId, clients);
+    }
+    clients.add(client.id);
+    this.presence.connect({ ...client, node: nodeId });
+  }
+
+  untrack(clientId: string) {
+    const nodeId = this.owners.get(clientId);
+    if (!nodeId) return;
+    this.presence.get(clientId)?.rooms.forEach((room) => this.countRoom(room, nodeId, -1));
+    this.presence.disconnect(clientId);
+    this.owners.delete(clientId);
+    this.nodes.get(nodeId)?.delete(clientId);
+  }
+
+  forgetNode(nodeId: string) {
+    this.nodes.get(nodeId)?.forEach((clientId) => this.untrack(clientId));
+    this.nodes.delete(nodeId);
+  }
+
+  clear() {
+    this.listNodes().forEach((nodeId) => this.forgetNode(nodeId));
+  }
+
+  private countRoom(room: string, nodeId: string, delta: number) {
+    let counts = this.roomNodes.get(room);
+    if (!counts) {
+      counts = new Map();
+      this.roomNodes.set(room, counts);
+    }
+    const count = (counts.get(nodeId) ?? 0) + delta;
+    if (count > 0) {
+      counts.set(nodeId, count);
+    } else {
+      counts.delete(nodeId);
+      if (!counts.size) this.roomNodes.delete(room);
+    }
+  }
+}
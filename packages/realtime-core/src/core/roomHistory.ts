@@ -0,0 +1,247 @@
+import { randomBytes } from 'node:crypto';
+import type { OutboundMessage } from '../types/index.js';
+import { EventRouter } from './eventRouter.js';
+import { isEventTemplate } from './eventTypeBuilder.js';
+
+export interface HistoryOptions {
+  /** Where the messages are kept; a `MemoryHistoryStore` by default. */
+  store?: HistoryStore;
+  /** Rooms with a history, by name or template (`chat:[id]`); every room by default. */
+  rooms?: string[];
+  /** Messages kept per room (100 by default). */
+  maxMessages?: number;
+  /** Messages older than this are dropped (kept regardless of age by default). */
+  maxAgeMs?: number;
+}
+
+export type HistoryRetention = Required<Pick<HistoryOptions, 'maxMessages' | 'maxAgeMs'>>;
+
+export interface HistoryEntry {
+  room: string;
+  seq: number;
+  storedAt: number;
+  /** The message as delivered, carrying `room`, `seq` and `epoch`. */
+  message: OutboundMessage;
+}
+
+/**
+ * Where room history is kept. `append` and `lastSeq` are synchronous so that a broadcast gets its
+ * sequence number on the spot; a store backed by slower storage keeps an index in memory.
+ */
+export interface HistoryStore {
+  /** Called once before use; loads what a previous run left. */
+  open(retention: HistoryRetention): void | Promise<void>;
+  /** Stores `entry`, dropping the oldest entries of its room beyond the retention. */
+  append(entry: HistoryEntry): void;
+  /** Entries of `room` with a sequence above `after`, oldest first. */
+  read(room: string, after: number): HistoryEntry[] | Promise<HistoryEntry[]>;
+  /** Highest sequence given in `room`, 0 if none, including entries already dropped. */
+  lastSeq(room: string): number;
+  /**
+   * Identifies the numbering, once `open` resolved. A store whose numbering survives a restart
+   * keeps its epoch with it; without one, the history takes a new epoch on every start.
+   */
+  readonly epoch?: string;
+  close?(): Promise<void>;
+}
+
+/** A new history epoch, short enough to travel on every recorded message. */
+export function createHistoryEpoch() {
+  return randomBytes(8).toString('hex');
+}
+
+/** What a client missed in a room, as answered to `system:join` with `since`. */
+export interface HistoryReplay {
+  room: string;
+  /** Numbering `seq` belongs to; sent back with `since` on the next join. */
+  epoch: string;
+  /** Sequence of the room's latest message. */
+  seq: number;
+  replayed: number;
+  /** False when messages after `since` were already dropped by the retention, or on a reset. */
+  complete: boolean;
+  /**
+   * True when `since` belongs to another numbering: another node's, or this node's before a
+   * restart that lost its history. The retained messages were replayed from the start and the
+   * client's position is replaced by `seq`.
+   */
+  reset: boolean;
+}
+
+/** Fixed-size buffer overwriting its oldest item once full. */
+class RingBuffer<T> {
+  private readonly items: Array<T | undefined>;
+  private start = 0;
+  size = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array<T | undefined>(capacity);
+  }
+
+  push(item: T) {
+    if (!this.capacity) return;
+    this.items[(this.start + this.size) % this.capacity] = item;
+    if (this.size < this.capacity) {
+      this.size += 1;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  peek() {
+    return this.size ? this.items[this.start] : undefined;
+  }
+
+  shift() {
+    if (!this.size) return undefined;
+    const item = this.items[this.start];
+    this.items[this.start] = undefined;
+    this.start = (this.start + 1) % this.capacity;
+    this.size -= 1;
+    return item;
+  }
+
+  toArray() {
+    return Array.from({ length: this.size }, (_, index) => {
+      return this.items[(this.start + index) % this.capacity] as T;
+    });
+  }
+}
+
+interface RoomBuffer {
+  entries: RingBuffer<HistoryEntry>;
+  lastSeq: number;
+}
+
+/** Keeps each room's latest messages in a ring buffer of `maxMessages` entries. */
+export class MemoryHistoryStore implements HistoryStore {
+  private readonly rooms = new Map<string, RoomBuffer>();
+  private retention: HistoryRetention = { maxMessages: 100, maxAgeMs: Infinity };
+
+  open(retention: HistoryRetention) {
+    this.retention = retention;
+  }
+
+  append(entry: HistoryEntry) {
+    const buffer = this.buffer(entry.room);
+    buffer.entries.push(entry);
+    buffer.lastSeq = Math.max(buffer.lastSeq, entry.seq);
+    this.expire(buffer);
+  }
+
+  read(room: string, after: number) {
+    const buffer = this.rooms.get(room);
+    if (!buffer) return [];
+    this.expire(buffer);
+    return buffer.entries.toArray().filter((entry) => entry.seq > after);
+  }
+
+  lastSeq(room: string) {
+    return this.rooms.get(room)?.lastSeq ?? 0;
+  }
+
+  /** Continues the numbering of `room` after `seq`, e.g. when its entries were all dropped. */
+  resume(room: string, seq: number) {
+    const buffer = this.buffer(room);
+    buffer.lastSeq = Math.max(buffer.lastSeq, seq);
+  }
+
+  /** Every room with its sequence and retained entries. */
+  snapshot() {
+    return Array.from(this.rooms, ([room, buffer]) => {
+      this.expire(buffer);
+      return { room, lastSeq: buffer.lastSeq, entries: buffer.entries.toArray() };
+    });
+  }
+
+  private buffer(room: string) {
+    let buffer = this.rooms.get(room);
+    if (!buffer) {
+      buffer = { entries: new RingBuffer(this.retention.maxMessages), lastSeq: 0 };
+      this.rooms.set(room, buffer);
+    }
+    return buffer;
+  }
+
+  private expire(buffer: RoomBuffer) {
+    const deadline = Date.now() - this.retention.maxAgeMs;
+    while ((buffer.entries.peek()?.storedAt ?? Infinity) < deadline) {
+      buffer.entries.shift();
+    }
+  }
+}
+
+/**
+ * Numbers the broadcasts to the rooms it covers and keeps them in its store, so that a client
+ * joining later can ask for what it missed.
+ */
+export class RoomHistory {
+  readonly store: HistoryStore;
+  private readonly retention: HistoryRetention;
+  private readonly rooms = new Set<string>();
+  private readonly templates = new EventRouter<true>();
+  private readonly everyRoom: boolean;
+  /** Numbering of the sequences given, set by `open`. */
+  epoch = '';
+
+  constructor(options: HistoryOptions = {}) {
+    this.store = options.store ?? new MemoryHistoryStore();
+    this.retention = {
+      maxMessages: options.maxMessages ?? 100,
+      maxAgeMs: options.maxAgeMs ?? Infinity,
+    };
+    this.everyRoom = !options.rooms;
+    options.rooms?.forEach((room) => {
+      const key = room.toLowerCase();
+      if (isEventTemplate(key)) {
+        this.templates.add(key, true);
+      } else {
+        this.rooms.add(key);
+      }
+    });
+  }
+
+  async open() {
+    await this.store.open(this.retention);
+    this.epoch = this.store.epoch ?? createHistoryEpoch();
+  }
+
+  async close() {
+    await this.store.close?.();
+  }
+
+  covers(room: string) {
+    return this.everyRoom || this.rooms.has(room) || this.templates.match(room).length > 0;
+  }
+
+  /** Gives a broadcast to `room` the room's next sequence and stores it. */
+  record(room: string, message: OutboundMessage): OutboundMessage {
+    const seq = this.store.lastSeq(room) + 1;
+    const recorded = { ...message, room, seq, epoch: this.epoch };
+    this.store.append({ room, seq, storedAt: Date.now(), message: recorded });
+    return recorded;
+  }
+
+  /**
+   * Messages of `room` after sequence `since`, with how the replay relates to the room's history.
+   * A `since` from another `epoch`, or ahead of the room, cannot be placed in this numbering: the
+   * replay then starts over.
+   */
+  async since(room: string, since: number, epoch?: string) {
+    const reset = (epoch !== undefined && epoch !== this.epoch) || since > this.store.lastSeq(room);
+    const after = reset ? 0 : since;
+    const entries = await this.store.read(room, after);
+    const seq = this.store.lastSeq(room);
+    const first = entries[0];
+    const complete = !reset && (first ? first.seq <= after + 1 : seq <= after);
+    const replay: HistoryReplay = {
+      room,
+      epoch: this.epoch,
+      seq,
+      replayed: entries.length,
+      complete,
+      reset,
+    };
+    return { entries, replay };
+  }
+}
@@ -0,0 +1,265 @@
+import type {
+  ClientContext,
+  HandlerToolkit,
+  RealtimeEventMap,
+  SystemEventMap,
+} from '../types/index.js';
+import type { Logger } from '../utils/logger.js';
+import { ErrorCodes, RealtimeError, ValidationError } from './errors.js';
+import type { RealtimeHub } from './realtimeHub.js';
+import type { SchemaAdapter } from './validation.js';
+
+/** Procedure names mapped to their input and output types. */
+export type ProcedureMap = Record<string, { input: unknown; output: unknown }>;
+
+export type ProcedureName<Procedures extends ProcedureMap> = keyof Procedures & string;
+
+export interface ProcedureContext<Events extends RealtimeEventMap = RealtimeEventMap> {
+  client: ClientContext;
+  toolkit: HandlerToolkit<Events>;
+  /** Aborted when the caller cancels, disconnects or the call times out. */
+  signal: AbortSignal;
+}
+
+export type ProcedureHandler<
+  Input = unknown,
+  Output = unknown,
+  Events extends RealtimeEventMap = RealtimeEventMap,
+> = (input: Input, context: ProcedureContext<Events>) => Output | Promise<Output>;
+
+export interface ProcedureOptions<Input = unknown> {
+  input?: SchemaAdapter<Input>;
+  /** Upper bound for a single call; the caller may ask for less. */
+  timeoutMs?: number;
+}
+
+export interface CallOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export type RpcRequest = SystemEventMap['system:rpc'];
+export type RpcResult = SystemEventMap['system:rpc:result'];
+
+interface RegisteredProcedure {
+  handler: ProcedureHandler<unknown, unknown, RealtimeEventMap>;
+  options: ProcedureOptions;
+}
+
+interface OutgoingCall {
+  clientId: string;
+  resolve: (output: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+export const toRpcError = (error: unknown): NonNullable<RpcResult['error']> => {
+  if (error instanceof RealtimeError) {
+    return { code: error.code, message: error.message, details: error.details };
+  }
+  return {
+    code: ErrorCodes.INTERNAL_ERROR,
+    message: 'Internal procedure error',
+    details: (error as Error)?.message,
+  };
+};
+
+export class RpcManager<Events extends RealtimeEventMap = RealtimeEventMap> {
+  private readonly procedures = new Map<string, RegisteredProcedure>();
+  private readonly inflight = new Map<string, Map<string, AbortController>>();
+  private readonly outgoing = new Map<string, OutgoingCall>();
+  private callCounter = 0;
+
+  constructor(
+    private readonly hub: RealtimeHub,
+    private readonly logger: Logger,
+    private readonly defaultTimeoutMs = 30_000,
+  ) {
+    hub.on('client:disconnected', (clientId: string) => this.abortClient(clientId));
+  }
+
+  register(name: string, handler: ProcedureHandler<never, unknown, Events>, options = {}) {
+    if (this.procedures.has(name)) {
+      throw new Error(`Procedure ${name} is already registered`);
+    }
+    this.procedures.set(name, {
+      handler: handler as ProcedureHandler<unknown, unknown, RealtimeEventMap>,
+      options,
+    });
+  }
+
+  async handleRequest(request: RpcRequest, client: ClientContext, toolkit: HandlerToolkit<Events>) {
+    if (!request?.id || typeof request.procedure !== 'string') {
+      throw new RealtimeError('Malformed RPC request', ErrorCodes.RPC_MALFORMED);
+    }
+    const requested = request.timeoutMs;
+    if (
+      requested !== undefined &&
+      (typeof requested !== 'number' || !Number.isFinite(requested) || requested <= 0)
+    ) {
+      throw new RealtimeError('RPC timeoutMs must be a positive number', ErrorCodes.RPC_MALFORMED);
+    }
+    if (this.inflight.get(client.id)?.has(request.id)) {
+      throw new RealtimeError(
+        `RPC call ${request.id} is already running`,
+        ErrorCodes.RPC_MALFORMED,
+      );
+    }
+    const procedure = this.procedures.get(request.procedure);
+    if (!procedure) {
+      this.respond(client.id, {
+        id: request.id,
+        error: toRpcError(
+          new RealtimeError(`Unknown procedure ${request.procedure}`, ErrorCodes.RPC_NOT_FOUND),
+        ),
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    const calls = this.inflight.get(client.id) ?? new Map<string, AbortController>();
+    calls.set(request.id, controller);
+    this.inflight.set(client.id, calls);
+
+    const timeoutMs = Math.min(
+      requested ?? Infinity,
+      procedure.options.timeoutMs ?? this.defaultTimeoutMs,
+    );
+    const timer = setTimeout(() => controller.abort(timeoutError(request.procedure)), timeoutMs);
+
+    try {
+      const input = await this.parseInput(procedure, request);
+      const output = await raceAbort(
+        Promise.resolve(
+          procedure.handler(input, {
+            client,
+            toolkit: toolkit as HandlerToolkit<RealtimeEventMap>,
+            signal: controller.signal,
+          }),
+        ),
+        controller.signal,
+      );
+      this.respond(client.id, { id: request.id, output });
+    } catch (error) {
+      if (!this.hub.getClient(client.id)) return;
+      if (!(error instanceof RealtimeError)) {
+        this.logger.error(`Procedure ${request.procedure} failed`, error);
+      }
+      this.respond(client.id, { id: request.id, error: toRpcError(error) });
+    } finally {
+      clearTimeout(timer);
+      calls.delete(request.id);
+      if (!calls.size) this.inflight.delete(client.id);
+    }
+  }
+
+  handleCancel(id: string | undefined, clientId: string) {
+    if (!id) return;
+    this.inflight
+      .get(clientId)
+      ?.get(id)
+      ?.abort(new RealtimeError('Call cancelled by the client', ErrorCodes.RPC_CANCELLED));
+  }
+
+  handleResult(result: RpcResult | undefined, clientId: string) {
+    if (!result?.id) return;
+    const call = this.outgoing.get(result.id);
+    if (!call || call.clientId !== clientId) return;
+    call.cleanup();
+    if (result.error) {
+      call.reject(new RealtimeError(result.error.message, result.error.code, result.error.details));
+    } else {
+      call.resolve(result.output);
+    }
+  }
+
+  /** Calls a procedure registered on a connected client and resolves with its answer. */
+  call(clientId: string, procedure: string, input: unknown, options: CallOptions = {}) {
+    const id = `srv-${++this.callCounter}`;
+    return new Promise<unknown>((resolve, reject) => {
+      const timeoutMs = options.timeoutMs ?? this.defaultTimeoutMs;
+      const onAbort = () => {
+        this.hub.send(clientId, { type: 'system:rpc:cancel', payload: { id } });
+        fail(new RealtimeError(`Call to ${procedure} was cancelled`, ErrorCodes.RPC_CANCELLED));
+      };
+      const timer = setTimeout(() => {
+        this.hub.send(clientId, { type: 'system:rpc:cancel', payload: { id } });
+        fail(timeoutError(procedure));
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.outgoing.delete(id);
+      };
+      const fail = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      if (options.signal?.aborted) {
+        clearTimeout(timer);
+        reject(new RealtimeError(`Call to ${procedure} was cancelled`, ErrorCodes.RPC_CANCELLED));
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.outgoing.set(id, { clientId, resolve, reject, cleanup });
+
+      const sent = this.hub.send(clientId, {
+        type: 'system:rpc',
+        payload: { id, procedure, input, timeoutMs },
+      });
+      if (!sent) {
+        fail(new RealtimeError(`Client ${clientId} is not connected`, ErrorCodes.RPC_CANCELLED));
+      }
+    });
+  }
+
+  private async parseInput(procedure: RegisteredProcedure, request: RpcRequest) {
+    if (!procedure.options.input) return request.input;
+    const result = await procedure.options.input.validate(request.input, 'input');
+    if (!result.success) {
+      this.hub.metrics.increment('validation_failures_total', { event: request.procedure });
+      throw new ValidationError(request.procedure, result.issues);
+    }
+    return result.value;
+  }
+
+  private respond(clientId: string, result: RpcResult) {
+    this.hub.send(clientId, { type: 'system:rpc:result', payload: result });
+  }
+
+  private abortClient(clientId: string) {
+    const calls = this.inflight.get(clientId);
+    calls?.forEach((controller) =>
+      controller.abort(new RealtimeError('Caller disconnected', ErrorCodes.RPC_CANCELLED)),
+    );
+    this.inflight.delete(clientId);
+
+    for (const call of this.outgoing.values()) {
+      if (call.clientId !== clientId) continue;
+      call.cleanup();
+      call.reject(new RealtimeError(`Client ${clientId} disconnected`, ErrorCodes.RPC_CANCELLED));
+    }
+  }
+}
+
+function timeoutError(procedure: string) {
+  return new RealtimeError(`Procedure ${procedure} timed out`, ErrorCodes.RPC_TIMEOUT);
+}
+
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal) {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
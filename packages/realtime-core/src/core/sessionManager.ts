@@ -0,0 +1,100 @@
+import { randomBytes } from 'node:crypto';
+import type { OutboundMessage } from '../types/index.js';
+
+export interface SessionOptions {
+  /** How long a dropped client keeps its id, rooms and metadata. */
+  graceMs?: number;
+  /** Outbound messages kept for replay while the client is away; oldest are dropped first. */
+  maxBufferedMessages?: number;
+}
+
+interface SuspendedSession {
+  buffer: OutboundMessage[];
+  dropped: number;
+  timer: NodeJS.Timeout;
+}
+
+export class SessionManager {
+  readonly options: Required<SessionOptions>;
+  private readonly clientsByToken = new Map<string, string>();
+  private readonly tokensByClient = new Map<string, string>();
+  private readonly suspended = new Map<string, SuspendedSession>();
+
+  constructor(options: SessionOptions = {}) {
+    this.options = {
+      graceMs: options.graceMs ?? 30_000,
+      maxBufferedMessages: options.maxBufferedMessages ?? 500,
+    };
+  }
+
+  issue(clientId: string) {
+    const existing = this.tokensByClient.get(clientId);
+    if (existing) return existing;
+    const token = randomBytes(24).toString('base64url');
+    this.clientsByToken.set(token, clientId);
+    this.tokensByClient.set(clientId, token);
+    return token;
+  }
+
+  /**
+   * Replaces the client's token after a resume: the one just used travelled in a URL and may sit
+   * in proxy or access logs, so it must not open the session again.
+   */
+  rotate(clientId: string) {
+    const previous = this.tokensByClient.get(clientId);
+    if (previous) {
+      this.clientsByToken.delete(previous);
+      this.tokensByClient.delete(clientId);
+    }
+    return this.issue(clientId);
+  }
+
+  resolve(token: string | undefined) {
+    return token ? this.clientsByToken.get(token) : undefined;
+  }
+
+  isSuspended(clientId: string) {
+    return this.suspended.has(clientId);
+  }
+
+  suspend(clientId: string, onExpire: () => void) {
+    if (this.suspended.has(clientId)) return;
+    const timer = setTimeout(() => {
+      this.forget(clientId);
+      onExpire();
+    }, this.options.graceMs);
+    timer.unref();
+    this.suspended.set(clientId, { buffer: [], dropped: 0, timer });
+  }
+
+  buffer(clientId: string, message: OutboundMessage) {
+    const session = this.suspended.get(clientId);
+    if (!session) return;
+    session.buffer.push(message);
+    if (session.buffer.length > this.options.maxBufferedMessages) {
+      session.buffer.shift();
+      session.dropped += 1;
+    }
+  }
+
+  resume(clientId: string) {
+    const session = this.suspended.get(clientId);
+    if (!session) return { messages: [], dropped: 0 };
+    clearTimeout(session.timer);
+    this.suspended.delete(clientId);
+    return { messages: session.buffer, dropped: session.dropped };
+  }
+
+  forget(clientId: string) {
+    const session = this.suspended.get(clientId);
+    if (session) {
+      clearTimeout(session.timer);
+      this.suspended.delete(clientId);
+    }
+    const token = this.tokensByClient.get(clientId);
+    if (token) {
+      this.clientsByToken.delete(token);
+      this.tokensByClient.delete(clientId);
+    }
+  }
+}
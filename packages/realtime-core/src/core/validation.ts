@@ -0,0 +1,263 @@
+export interface ValidationIssue {
+  /** Location of the failure, e.g. `payload.items[2].name`. */
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Anything able to validate a payload. The built-in `v` schemas implement it, and teams can
+ * wrap their own library (or use `fromStandardSchema` for zod, valibot, arktype...).
+ */
+export interface SchemaAdapter<T = unknown> {
+  validate(value: unknown, path?: string): ValidationResult<T> | Promise<ValidationResult<T>>;
+}
+
+export type InferSchema<S> = S extends SchemaAdapter<infer T> ? T : never;
+
+export type EventSchemas = Record<string, SchemaAdapter>;
+
+/** Event map described by a set of schemas, usable as the `Events` parameter of the kernel and client. */
+export type InferEvents<Schemas extends EventSchemas> = {
+  [K in keyof Schemas]: InferSchema<Schemas[K]>;
+};
+
+export const defineEvents = <const Schemas extends EventSchemas>(schemas: Schemas) => schemas;
+
+export interface Schema<T> extends SchemaAdapter<T> {
+  readonly optional: boolean;
+  validate(value: unknown, path?: string): ValidationResult<T>;
+}
+
+type Check<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+const createSchema = <T>(check: Check<T>, optional = false): Schema<T> => ({
+  optional,
+  validate(value, path = 'payload') {
+    const issues: ValidationIssue[] = [];
+    const result = check(value, path, issues);
+    return issues.length ? { success: false, issues } : { success: true, value: result };
+  },
+});
+
+const typeOf = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const expectType =
+  <T>(expected: string): Check<T> =>
+  (value, path, issues) => {
+    if (typeOf(value) !== expected) {
+      issues.push({ path, message: `Expected ${expected}, received ${typeOf(value)}` });
+    }
+    return value as T;
+  };
+
+/** Runs a child schema and collects its issues into the parent's list. */
+const run = <T>(schema: Schema<T>, value: unknown, path: string, issues: ValidationIssue[]) => {
+  const result = schema.validate(value, path);
+  if (!result.success) {
+    issues.push(...result.issues);
+    return value as T;
+  }
+  return result.value;
+};
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOutput<S extends Shape> = Simplify<
+  {
+    [K in keyof S as S[K] extends { optional: true } ? never : K]: InferSchema<S[K]>;
+  } & {
+    [K in keyof S as S[K] extends { optional: true } ? K : never]?: InferSchema<S[K]>;
+  }
+>;
+
+export const v = {
+  string(options: { min?: number; max?: number; pattern?: RegExp } = {}) {
+    return createSchema<string>((value, path, issues) => {
+      const before = issues.length;
+      expectType<string>('string')(value, path, issues);
+      if (issues.length > before) return value as string;
+      const text = value as string;
+      if (options.min !== undefined && text.length < options.min) {
+        issues.push({ path, message: `Expected at least ${options.min} characters` });
+      }
+      if (options.max !== undefined && text.length > options.max) {
+        issues.push({ path, message: `Expected at most ${options.max} characters` });
+      }
+      if (options.pattern && !options.pattern.test(text)) {
+        issues.push({ path, message: `Expected to match ${options.pattern}` });
+      }
+      return text;
+    });
+  },
+
+  number(options: { min?: number; max?: number; integer?: boolean } = {}) {
+    return createSchema<number>((value, path, issues) => {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path, message: `Expected number, received ${typeOf(value)}` });
+        return value as number;
+      }
+      if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: 'Expected an integer' });
+      }
+      if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `Expected a value >= ${options.min}` });
+      }
+      if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `Expected a value <= ${options.max}` });
+      }
+      return value;
+    });
+  },
+
+  boolean() {
+    return createSchema<boolean>(expectType('boolean'));
+  },
+
+  unknown() {
+    return createSchema<unknown>((value) => value);
+  },
+
+  literal<const T extends string | number | boolean | null>(expected: T) {
+    return createSchema<T>((value, path, issues) => {
+      if (value !== expected) {
+        issues.push({ path, message: `Expected ${JSON.stringify(expected)}` });
+      }
+      return value as T;
+    });
+  },
+
+  enum<const T extends readonly (string | number)[]>(values: T) {
+    return createSchema<T[number]>((value, path, issues) => {
+      if (!values.includes(value as T[number])) {
+        issues.push({ path, message: `Expected one of ${values.join(', ')}` });
+      }
+      return value as T[number];
+    });
+  },
+
+  array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}) {
+    return createSchema<T[]>((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `Expected array, received ${typeOf(value)}` });
+        return value as T[];
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ path, message: `Expected at least ${options.min} items` });
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push({ path, message: `Expected at most ${options.max} items` });
+      }
+      return value.map((entry, index) => run(item, entry, `${path}[${index}]`, issues));
+    });
+  },
+
+  /** Unknown keys are stripped, or reported when `strict` is set. */
+  object<S extends Shape>(shape: S, options: { strict?: boolean } = {}) {
+    return createSchema<ObjectOutput<S>>((value, path, issues) => {
+      if (typeOf(value) !== 'object') {
+        issues.push({ path, message: `Expected object, received ${typeOf(value)}` });
+        return value as ObjectOutput<S>;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        if (input[key] === undefined && schema.optional) continue;
+        output[key] = run(schema, input[key], `${path}.${key}`, issues);
+      }
+      if (options.strict) {
+        Object.keys(input)
+          .filter((key) => !(key in shape))
+          .forEach((key) => issues.push({ path: `${path}.${key}`, message: 'Unknown key' }));
+      }
+      return output as ObjectOutput<S>;
+    });
+  },
+
+  record<T>(values: Schema<T>) {
+    return createSchema<Record<string, T>>((value, path, issues) => {
+      if (typeOf(value) !== 'object') {
+        issues.push({ path, message: `Expected object, received ${typeOf(value)}` });
+        return value as Record<string, T>;
+      }
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+          key,
+          run(values, entry, `${path}.${key}`, issues),
+        ]),
+      );
+    });
+  },
+
+  union<const Options extends readonly Schema<unknown>[]>(...options: Options) {
+    return createSchema<InferSchema<Options[number]>>((value, path, issues) => {
+      const attempts: ValidationIssue[] = [];
+      for (const option of options) {
+        const result = option.validate(value, path);
+        if (result.success) return result.value as InferSchema<Options[number]>;
+        attempts.push(...result.issues);
+      }
+      issues.push({
+        path,
+        message: `No union member matched (${attempts.map((issue) => issue.message).join('; ')})`,
+      });
+      return value as InferSchema<Options[number]>;
+    });
+  },
+
+  optional<T>(schema: Schema<T>) {
+    return createSchema<T | undefined>(
+      (value, path, issues) => (value === undefined ? undefined : run(schema, value, path, issues)),
+      true,
+    ) as Schema<T | undefined> & { readonly optional: true };
+  },
+
+  nullable<T>(schema: Schema<T>) {
+    return createSchema<T | null>((value, path, issues) =>
+      value === null ? null : run(schema, value, path, issues),
+    );
+  },
+};
+
+/** Minimal slice of the Standard Schema v1 interface implemented by zod, valibot and arktype. */
+export interface StandardSchemaLike<T = unknown> {
+  readonly '~standard': {
+    validate(value: unknown): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+type StandardSchemaResult<T> =
+  | { value: T; issues?: undefined }
+  | {
+      issues: ReadonlyArray<{
+        message: string;
+        path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+      }>;
+    };
+
+export const fromStandardSchema = <T>(schema: StandardSchemaLike<T>): SchemaAdapter<T> => ({
+  async validate(value, path = 'payload') {
+    const result = await schema['~standard'].validate(value);
+    if (!result.issues) {
+      return { success: true, value: result.value };
+    }
+    return {
+      success: false,
+      issues: result.issues.map((issue) => ({
+        path: [
+          path,
+          ...(issue.path ?? []).map((segment) =>
+            String(typeof segment === 'object' ? segment.key : segment),
+          ),
+        ].join('.'),
+        message: issue.message,
+      })),
+    };
+  },
+});
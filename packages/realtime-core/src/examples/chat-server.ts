@@ -24,9 +24,8 @@ async function main() {
   });
 
   kernel.on(
-    { eventTemplate: "chat:join:[roomId]", params: [1] },
-    (message, context, toolkit) => {
-      const room = (message.room as string) || 'general';
+    { eventTemplate: 'chat:join:[roomId]' },
+    (_message, context, toolkit, { roomId: room }) => {
       toolkit.rooms.join(room);
       toolkit.reply({ type: 'chat:joined', payload: { room } });
       toolkit.rooms.broadcast(
@@ -38,9 +37,8 @@ async function main() {
   );
 
   kernel.on(
-    { eventTemplate: "chat:message:[roomId]", params: [1] },
-    (message, context, toolkit) => {
-      const room = (message.room as string) || 'general';
+    { eventTemplate: 'chat:message:[roomId]' },
+    (message, context, toolkit, { roomId: room }) => {
       toolkit.rooms.broadcast(
         {
           type: 'chat:message',
@@ -1,11 +1,5 @@
 import cluster from 'node:cluster';
-import {
-  ClusterManager,
-  generateMeshPeers,
-  PeerMeshTransport,
-  RealtimeKernel,
-  WebSocketTransport
-} from '../index.js';
+import { ClusterManager, RealtimeKernel, WebSocketTransport } from '../index.js';
 import type { ClientContext, HandlerToolkit, RealtimeMessage } from '../types/index.js';
 
 /**
@@ -13,13 +7,16 @@ import type { ClientContext, HandlerToolkit, RealtimeMessage } from '../types/in
  *
  * Le master fork plusieurs workers (auto-détection du nombre de CPU)
  * Chaque worker écoute sur le même port WebSocket (OS load-balancing)
- * Les workers communiquent via P2P mesh
+ * Le primary route les messages entre workers (envois directs, rooms, présence)
  *
  * Pour tester:
  * 1. npm run example:cluster
  * 2. Connecter des clients WebSocket à ws://localhost:8080/realtime
  * 3. Envoyer: { "type": "echo", "payload": "hello" }
  * 4. Le worker qui répond s'identifie dans la réponse
+ * 5. Envoyer: { "type": "dm", "payload": { "to": "<id d'un autre client>", "text": "salut" } }
+ *    Le message arrive même si le destinataire est connecté à un autre worker
+ * 6. kill -HUP <pid du primary> remplace les workers un par un, sans coupure
  */
 
 async function bootstrap() {
@@ -39,15 +36,6 @@ async function bootstrap() {
     });
     kernel.useTransport(wsTransport);
 
-    // P2P mesh pour communication inter-workers
-    const numWorkers = manager.options.workers;
-    const peers = generateMeshPeers(9090, numWorkers);
-    const meshTransport = new PeerMeshTransport({
-      port: 9090 + cluster.worker!.id,
-      peers: peers
-    });
-    kernel.useTransport(meshTransport);
-
     // Handler echo simple
     kernel.on('echo', (message: RealtimeMessage, context: ClientContext, toolkit: HandlerToolkit) => {
       toolkit.reply({
@@ -73,6 +61,15 @@ async function bootstrap() {
       });
     });
 
+    // Message direct, routé par le primary si le destinataire est sur un autre worker
+    kernel.on('dm', (message: RealtimeMessage, context: ClientContext, toolkit: HandlerToolkit) => {
+      const { to, text } = message.payload as { to: string; text: string };
+      toolkit.send(to, {
+        type: 'dm',
+        payload: { from: context.id, text, workerId: cluster.worker!.id }
+      });
+    });
+
     // Logger pour tous les messages (wildcard)
     kernel.on('*', (message: RealtimeMessage, context: ClientContext, toolkit: HandlerToolkit) => {
       toolkit.log(`Received message type: ${message.type} from client: ${context.id}`);
@@ -80,8 +77,6 @@ async function bootstrap() {
 
     console.log(`Worker ${cluster.worker!.id} (PID: ${process.pid}) ready on:`);
     console.log(`  - WebSocket: ws://localhost:8080/realtime`);
-    console.log(`  - P2P Mesh: localhost:${9090 + cluster.worker!.id}`);
-    console.log(`  - Peers: ${peers.join(', ') || 'none (only worker)'}`);
 
     return kernel;
   });
@@ -94,7 +89,12 @@ async function bootstrap() {
         console.log('\n📊 Cluster Stats:');
         console.log(`  Total workers: ${stats.totalWorkers}`);
         console.log(`  Active workers: ${stats.activeWorkers}`);
-        console.log(`  Workers: ${stats.workers.map(w => `#${w.id} (PID: ${w.pid})`).join(', ')}`);
+        console.log(`  Restarts: ${stats.restarts}${stats.degraded ? ' (degraded)' : ''}`);
+        console.log(
+          `  Workers: ${stats.workers
+            .map((w) => `#${w.id} (PID: ${w.pid}, clients: ${w.clients ?? '?'}, restarts: ${w.restarts})`)
+            .join(', ')}`
+        );
       }
     }, 30000);
 
@@ -2,9 +2,149 @@ export { RealtimeKernel } from './core/realtimeKernel.js';
 export { RealtimeHub } from './core/realtimeHub.js';
 export { RoomManager } from './core/roomManager.js';
 export { PresenceStore } from './core/presenceStore.js';
+export { SessionManager, type SessionOptions } from './core/sessionManager.js';
+export {
+  ErrorCodes,
+  RealtimeError,
+  AuthenticationError,
+  PolicyError,
+  ValidationError,
+  RateLimitError,
+  type RealtimeErrorCode
+} from './core/errors.js';
+export {
+  createHistoryEpoch,
+  MemoryHistoryStore,
+  RoomHistory,
+  type HistoryEntry,
+  type HistoryOptions,
+  type HistoryReplay,
+  type HistoryRetention,
+  type HistoryStore
+} from './core/roomHistory.js';
+export { FileHistoryStore, type FileHistoryStoreOptions } from './core/fileHistoryStore.js';
+export { EventRouter, type RouteMatch } from './core/eventRouter.js';
+export {
+  matchEventTemplate,
+  type EventTemplate,
+  type TemplateEventName,
+  type TemplateParams,
+  type TemplateParamValue
+} from './core/eventTypeBuilder.js';
+export {
+  PolicyEngine,
+  requireMembership,
+  type DirectMessagePolicy,
+  type EventGuard,
+  type EventGuardContext,
+  type PolicyOptions,
+  type RoomPolicy
+} from './core/policyEngine.js';
+export {
+  OutboundQueue,
+  type BackpressureOptions,
+  type BackpressurePolicy,
+  type QueueOverflow
+} from './core/outboundQueue.js';
+export {
+  RateLimiter,
+  TokenBucket,
+  type EscalationOptions,
+  type RateLimit,
+  type RateLimitAction,
+  type RateLimitOptions,
+  type RateLimitScope,
+  type RateLimitVerdict
+} from './core/rateLimiter.js';
+export {
+  v,
+  defineEvents,
+  fromStandardSchema,
+  type EventSchemas,
+  type InferEvents,
+  type InferSchema,
+  type Schema,
+  type SchemaAdapter,
+  type StandardSchemaLike,
+  type ValidationIssue,
+  type ValidationResult
+} from './core/validation.js';
+export {
+  compose,
+  type Middleware,
+  type MiddlewareContext,
+  type OutboundContext,
+  type OutboundMiddleware
+} from './core/middleware.js';
+export {
+  RpcManager,
+  type CallOptions,
+  type ProcedureContext,
+  type ProcedureHandler,
+  type ProcedureMap,
+  type ProcedureName,
+  type ProcedureOptions
+} from './core/rpc.js';
+export { MetricsRegistry, type MetricLabels, type MetricsSnapshot } from './core/metrics.js';
+export {
+  CodecRegistry,
+  codecRegistry,
+  jsonCodec,
+  msgpackCodec,
+  type Codec
+} from './core/codec.js';
+export { formatSubprotocol, parseSubprotocol, type ProtocolAdapter } from './core/protocol.js';
+export { MemoryAdapter, type AdapterHost, type HubAdapter } from './core/hubAdapter.js';
+export { RemoteClients } from './core/remoteClients.js';
+export {
+  PubSubAdapter,
+  type PubSubAdapterOptions,
+  type PubSubClient
+} from './core/pubSubAdapter.js';
+export {
+  Federation,
+  type FederationEnvelope,
+  type FederationLink,
+  type FederationOptions
+} from './core/federation.js';
 export { BaseTransport } from './transports/base.js';
 export { WebSocketTransport, type WebSocketTransportOptions } from './transports/websocket.js';
+export { SseTransport, type SseTransportOptions } from './transports/sse.js';
+export {
+  LongPollingTransport,
+  type LongPollingTransportOptions,
+  type PollResponse
+} from './transports/polling.js';
+export {
+  TcpTransport,
+  type TcpHello,
+  type TcpTransportOptions,
+  type TcpWelcome
+} from './transports/tcp.js';
+export { decodeLengthPrefixed, encodeLengthPrefixed } from './utils/framing.js';
+export type { CompressionOptions } from './utils/permessageDeflate.js';
+export type { PemSource, TlsConfig } from './utils/tls.js';
 export { WebRTCSignalingBridge, type WebRTCSignalingOptions } from './transports/webrtc.js';
 export { PeerMeshTransport, type PeerMeshOptions } from './transports/p2p.js';
-export { ClusterManager, generateMeshPeers, type ClusterOptions } from './cluster/clusterManager.js';
+export {
+  ClusterManager,
+  generateMeshPeers,
+  type ClusterOptions,
+  type ClusterStats,
+  type HealthCheckOptions,
+  type RestartBackoffOptions,
+  type WorkerHealth,
+  type WorkerStats
+} from './cluster/clusterManager.js';
+export { ClusterAdapter, IpcPubSub, type RouterMessage } from './cluster/clusterAdapter.js';
+export { ClusterRouter } from './cluster/clusterRouter.js';
+export {
+  Membership,
+  type MemberLeaveReason,
+  type MemberStatus,
+  type MembershipOptions,
+  type MeshMember
+} from './cluster/membership.js';
+export { MulticastDiscovery, type MulticastDiscoveryOptions } from './cluster/discovery.js';
+export { RedisAdapter, RedisPubSub, type RedisAdapterOptions } from './cluster/redisAdapter.js';
 export * from './types/index.js';
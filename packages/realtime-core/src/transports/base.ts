@@ -1,4 +1,5 @@
 import type { RealtimeHub } from '../core/realtimeHub.js';
+import type { TransportOffer } from '../types/index.js';
 import { Logger, LogLevel } from '../utils/logger.js';
 
 export abstract class BaseTransport {
@@ -12,12 +13,30 @@ export abstract class BaseTransport {
   async start(hub: RealtimeHub) {
     this.hub = hub;
     await this.onStart();
+    const offer = this.describe();
+    if (offer) {
+      hub.offerTransport(offer);
+    }
   }
 
   async stop() {
+    this.hub?.withdrawTransport(this.name);
     await this.onStop();
   }
 
+  /** Stops taking new connections; connected clients stay until `stop`. */
+  async stopAccepting() {
+    await this.onStopAccepting();
+  }
+
+  /** How clients reach this transport; server-side transports (mesh, signaling) return nothing. */
+  describe(): TransportOffer | undefined {
+    return undefined;
+  }
+
   protected abstract onStart(): Promise<void> | void;
   protected abstract onStop(): Promise<void> | void;
+
+  /** Closes the listener; the hub already refuses new clients, so the default does nothing. */
+  protected onStopAccepting(): Promise<void> | void {}
 }
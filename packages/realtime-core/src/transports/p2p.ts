@@ -1,21 +1,68 @@
-import { createServer, Socket, type Server } from 'node:net';
-import { randomUUID } from 'node:crypto';
-import type { OutboundMessage, RealtimeMessage, TransportClient } from '../types/index.js';
+import { connect, createServer, type AddressInfo, type Server, type Socket } from 'node:net';
+import {
+  connect as connectTls,
+  createServer as createTlsServer,
+  type ConnectionOptions,
+  type TlsOptions
+} from 'node:tls';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { OutboundMessage } from '../types/index.js';
 import { BaseTransport } from './base.js';
-import { safeParse } from '../utils/json.js';
+import { codecRegistry, jsonCodec, type Codec } from '../core/codec.js';
+import { Federation, type FederationEnvelope } from '../core/federation.js';
+import {
+  Membership,
+  type MemberLeaveReason,
+  type MeshMember,
+  type MembershipMessage,
+  type MembershipOptions
+} from '../cluster/membership.js';
+import { MulticastDiscovery, type MulticastDiscoveryOptions } from '../cluster/discovery.js';
+import { decodeLengthPrefixed, encodeLengthPrefixed } from '../utils/framing.js';
+import { loadTlsOptions, reloadTlsOnSighup, type TlsConfig } from '../utils/tls.js';
 
 interface MeshEnvelope {
-  kind: 'hello' | 'message';
+  kind: 'hello' | 'auth' | 'federation' | 'membership';
   nodeId?: string;
-  message?: RealtimeMessage;
+  /** Challenge the peer must answer when the mesh has a secret. */
+  nonce?: string;
+  /** Proof of the secret: a MAC of the prover's role, the peer's nonce and both node ids. */
+  auth?: string;
+  /** Codec of the sender; both ends of a link must agree. */
+  codec?: string;
+  federation?: FederationEnvelope;
+  membership?: MembershipMessage;
 }
 
 export interface PeerMeshOptions {
   nodeId?: string;
   host?: string;
   port?: number;
+  /** Seed nodes; the rest of the mesh is learned from the first one reached. */
   peers?: Array<string | { host: string; port: number }>;
+  /**
+   * `host:port` other nodes dial to reach this one; defaults to `host` and the listening port,
+   * with 127.0.0.1 for a wildcard host. Set it when nodes run on different machines.
+   */
+  advertise?: string;
   reconnectIntervalMs?: number;
+  /** Shared cluster secret; peers that cannot answer this node's challenge with it are dropped. */
+  secret?: string;
+  /** Time a new link has to complete its handshake, authentication included (10 s by default). */
+  handshakeTimeoutMs?: number;
+  /** Codec for inter-node traffic, by name from `codecRegistry` or as an instance (`json` by default). */
+  codec?: string | Codec;
+  /**
+   * Mutual TLS between nodes: each node presents `cert` and only accepts peers whose certificate
+   * is signed by the cluster CA in `ca`. Peers are identified by that CA, not by host name.
+   */
+  tls?: TlsConfig;
+  /** Links a federation envelope may cross before it is dropped, for meshes that are not complete (4 by default). */
+  maxHops?: number;
+  /** Probe and suspicion timings of the failure detector. */
+  membership?: MembershipOptions;
+  /** Finds nodes on the LAN by UDP multicast, besides or instead of `peers`. */
+  multicast?: boolean | MulticastDiscoveryOptions;
 }
 
 interface PeerAddress {
@@ -25,27 +72,50 @@ interface PeerAddress {
 
 const addressKey = (address: PeerAddress) => `${address.host}:${address.port}`;
 
+const MAX_FRAME_BYTES = 16 * 1024 * 1024;
+/** Until the peer is authenticated, only the small handshake frames are accepted. */
+const MAX_HANDSHAKE_FRAME_BYTES = 16 * 1024;
+const CLOSE_GRACE_MS = 1000;
+
+/**
+ * Frames are length-prefixed. The handshake frames are always JSON so peers can check each other's
+ * codec; every later frame is encoded with the link's codec.
+ *
+ * With a secret, each side sends a random nonce in its `hello` and proves the secret by MACing the
+ * peer's nonce with both node ids and its role: the accepting node answers in its `hello`, the
+ * dialing node in an `auth` frame once it has checked that answer. A recorded handshake is useless
+ * on a new link, and the role keeps an accepting node's answer from being relayed as a dialer's.
+ * A link that is not ready within the handshake timeout is closed.
+ */
 class MeshConnection {
-  private buffer = '';
+  private buffer: Buffer = Buffer.alloc(0);
   private handshakeSent = false;
+  private readonly nonce = randomBytes(16).toString('hex');
+  /** Peer whose `hello` was accepted, until its `auth` frame arrives. */
+  private pendingId?: string;
   private remoteId?: string;
   private closed = false;
+  private readonly handshakeTimer: NodeJS.Timeout;
 
   constructor(
     private readonly socket: Socket,
     private readonly nodeId: string,
+    private readonly codec: Codec,
     private readonly onReady: (remoteId: string) => void,
-    private readonly onMessage: (message: RealtimeMessage, remoteId: string) => void,
+    private readonly onMessage: (remoteId: string, envelope: MeshEnvelope) => void,
     private readonly onClose: (remoteId?: string) => void,
-    autoHello: boolean
+    private readonly onReject: (reason: string) => void,
+    /** True for links this node dialed; the dialing side speaks first. */
+    readonly dialed: boolean,
+    handshakeTimeoutMs: number,
+    private readonly secret?: string
   ) {
-    socket.setEncoding('utf8');
-    socket.on('data', (chunk: Buffer | string) =>
-      this.handleChunk(typeof chunk === 'string' ? chunk : chunk.toString('utf8'))
-    );
+    socket.on('data', (chunk: Buffer) => this.handleChunk(chunk));
     socket.on('close', () => this.destroy());
     socket.on('error', () => this.destroy());
-    if (autoHello) {
+    this.handshakeTimer = setTimeout(() => this.reject('handshake timeout'), handshakeTimeoutMs);
+    this.handshakeTimer.unref();
+    if (dialed) {
       this.sendHello();
     }
   }
@@ -54,104 +124,345 @@ class MeshConnection {
     return this.remoteId;
   }
 
-  send(message: OutboundMessage) {
+  send(envelope: MeshEnvelope) {
     if (!this.remoteId || this.closed) return;
-    const envelope: MeshEnvelope = { kind: 'message', message };
-    this.socket.write(`${JSON.stringify(envelope)}\n`);
+    this.socket.write(encodeLengthPrefixed(this.codec.encode(envelope)));
   }
 
+  /** Flushes what was written (a leave announcement, say) before the socket goes. */
   close() {
     if (this.closed) return;
     this.closed = true;
-    this.socket.destroy();
+    clearTimeout(this.handshakeTimer);
+    this.socket.end();
+    setTimeout(() => this.socket.destroy(), CLOSE_GRACE_MS).unref();
     this.onClose(this.remoteId);
   }
 
   private destroy() {
     if (this.closed) return;
     this.closed = true;
+    clearTimeout(this.handshakeTimer);
     this.onClose(this.remoteId);
   }
 
-  private handleChunk(chunk: string) {
-    this.buffer += chunk;
-    let newlineIndex = this.buffer.indexOf('\n');
-    while (newlineIndex >= 0) {
-      const raw = this.buffer.slice(0, newlineIndex);
-      this.buffer = this.buffer.slice(newlineIndex + 1);
-      if (raw.trim()) {
-        this.processRaw(raw);
+  private reject(reason: string) {
+    this.onReject(reason);
+    this.close();
+  }
+
+  private handleChunk(chunk: Buffer) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    while (!this.closed) {
+      let frame;
+      try {
+        frame = decodeLengthPrefixed(
+          this.buffer,
+          this.remoteId ? MAX_FRAME_BYTES : MAX_HANDSHAKE_FRAME_BYTES
+        );
+      } catch (error) {
+        this.reject((error as Error).message);
+        return;
       }
-      newlineIndex = this.buffer.indexOf('\n');
+      if (!frame) break;
+      this.buffer = this.buffer.subarray(frame.bytes);
+      this.processFrame(frame.payload);
     }
   }
 
-  private processRaw(raw: string) {
-    const envelope = safeParse<MeshEnvelope>(raw);
-    if (!envelope) return;
-    if (envelope.kind === 'hello') {
-      if (!this.handshakeSent) {
-        this.sendHello();
+  private processFrame(payload: Buffer) {
+    const codec = this.remoteId ? this.codec : jsonCodec;
+    let envelope: MeshEnvelope | undefined;
+    try {
+      envelope = codec.decode(payload) as MeshEnvelope | undefined;
+    } catch {
+      this.reject(`invalid ${codec.name} frame`);
+      return;
+    }
+    if (!this.remoteId) {
+      if (this.pendingId) {
+        this.processAuth(envelope);
+      } else {
+        this.processHello(envelope);
       }
-      if (envelope.nodeId) {
-        this.remoteId = envelope.nodeId;
-        this.onReady(envelope.nodeId);
+      return;
+    }
+    if (envelope && envelope.kind !== 'hello' && envelope.kind !== 'auth') {
+      this.onMessage(this.remoteId, envelope);
+    }
+  }
+
+  private processHello(envelope?: MeshEnvelope) {
+    if (envelope?.kind !== 'hello' || !envelope.nodeId) {
+      this.reject('expected hello');
+      return;
+    }
+    const remoteId = envelope.nodeId;
+    if (this.secret) {
+      if (typeof envelope.nonce !== 'string' || !envelope.nonce) {
+        this.reject('authentication failed, no challenge');
+        return;
+      }
+      // the dialing node checks the answer to its own challenge before answering the peer's
+      const answered = verifyProof(
+        this.secret,
+        envelope.auth,
+        'accept',
+        this.nonce,
+        remoteId,
+        this.nodeId
+      );
+      if (this.dialed && !answered) {
+        this.reject('authentication failed');
+        return;
       }
+    }
+    const codec = envelope.codec ?? jsonCodec.name;
+    if (codec !== this.codec.name) {
+      this.reject(`codec mismatch, peer uses ${codec} and this node ${this.codec.name}`);
+      return;
+    }
+    const role = this.dialed ? 'dial' : 'accept';
+    const proof = this.secret
+      ? signProof(this.secret, role, envelope.nonce!, this.nodeId, remoteId)
+      : undefined;
+    if (!this.handshakeSent) {
+      this.sendHello(proof);
+    } else if (proof) {
+      this.writeHandshake({ kind: 'auth', auth: proof });
+    }
+    if (this.secret && !this.dialed) {
+      this.pendingId = remoteId;
       return;
     }
+    this.ready(remoteId);
+  }
 
-    if (envelope.kind === 'message' && this.remoteId && envelope.message) {
-      this.onMessage(envelope.message, this.remoteId);
+  private processAuth(envelope?: MeshEnvelope) {
+    const remoteId = this.pendingId!;
+    if (
+      envelope?.kind !== 'auth' ||
+      !verifyProof(this.secret!, envelope.auth, 'dial', this.nonce, remoteId, this.nodeId)
+    ) {
+      this.reject('authentication failed');
+      return;
     }
+    this.pendingId = undefined;
+    this.ready(remoteId);
+  }
+
+  private ready(remoteId: string) {
+    clearTimeout(this.handshakeTimer);
+    this.remoteId = remoteId;
+    this.onReady(remoteId);
   }
 
-  private sendHello() {
+  private sendHello(auth?: string) {
     this.handshakeSent = true;
-    const envelope: MeshEnvelope = { kind: 'hello', nodeId: this.nodeId };
-    this.socket.write(`${JSON.stringify(envelope)}\n`);
+    this.writeHandshake({
+      kind: 'hello',
+      nodeId: this.nodeId,
+      nonce: this.secret ? this.nonce : undefined,
+      auth,
+      codec: this.codec.name
+    });
+  }
+
+  private writeHandshake(envelope: MeshEnvelope) {
+    this.socket.write(encodeLengthPrefixed(jsonCodec.encode(envelope)));
   }
 }
 
+/**
+ * TCP links between backend nodes. Nodes learn the full member list from any seed they reach and
+ * link up with every member; a SWIM-style failure detector tells which ones are gone.
+ */
 export class PeerMeshTransport extends BaseTransport {
   private readonly nodeId: string;
   private readonly options: Required<Pick<PeerMeshOptions, 'reconnectIntervalMs'>> & PeerMeshOptions;
+  /** Seed addresses, dialed until they answer and again whenever the link drops. */
   private readonly peers = new Map<string, PeerAddress>();
   private readonly pendingDials = new Set<string>();
   private readonly connections = new Map<string, MeshConnection>();
   private readonly connectionAddresses = new Map<string, string>();
+  private readonly codec: Codec;
   private server?: Server;
+  private federation?: Federation;
+  private membership?: Membership;
+  private discovery?: MulticastDiscovery;
+  private tlsOptions?: TlsOptions;
+  private stopTlsReload?: () => void;
 
   constructor(options: PeerMeshOptions = {}) {
     super('mesh');
     this.nodeId = options.nodeId ?? randomUUID();
     this.options = { reconnectIntervalMs: 5000, ...options };
+    this.codec = codecRegistry.resolve(options.codec ?? jsonCodec.name);
+    if (options.tls && !options.tls.ca) {
+      throw new Error('Mesh TLS needs the cluster CA certificate in `tls.ca`');
+    }
     (options.peers ?? []).map(normalizePeerAddress).forEach((peer) => {
       this.peers.set(addressKey(peer), peer);
     });
   }
 
   protected async onStart() {
-    this.server = createServer((socket) => this.createConnection(socket, false));
+    this.federation = new Federation(
+      this.nodeId,
+      {
+        peers: () => [...this.connections.keys()],
+        send: (nodeId, federation) =>
+          this.connections.get(nodeId)?.send({ kind: 'federation', federation })
+      },
+      { maxHops: this.options.maxHops }
+    );
+    await this.hub.useAdapter(this.federation);
+    this.server = this.options.tls
+      ? await this.createTlsServer(this.options.tls)
+      : createServer((socket) => this.createConnection(socket, false));
     const host = this.options.host ?? '0.0.0.0';
     const port = this.options.port ?? 9090;
     await new Promise<void>((resolve) => this.server!.listen(port, host, resolve));
+    const { port: boundPort } = this.server.address() as AddressInfo;
+    const address =
+      this.options.advertise ??
+      `${host === '0.0.0.0' || host === '::' ? '127.0.0.1' : host}:${boundPort}`;
     this.logger.info(`PeerMesh node ${this.nodeId} listening on ${host}:${port}`);
+    this.membership = new Membership(
+      this.nodeId,
+      address,
+      {
+        peers: () => [...this.connections.keys()],
+        send: (nodeId, membership) =>
+          this.connections.get(nodeId)?.send({ kind: 'membership', membership })
+      },
+      {
+        joined: (member) => this.handleMemberJoined(member),
+        left: (member, reason) => this.handleMemberLeft(member, reason)
+      },
+      this.options.membership
+    );
+    this.membership.start();
+    if (this.options.multicast) {
+      this.discovery = new MulticastDiscovery(
+        this.nodeId,
+        address,
+        (nodeId, discovered) => {
+          if (!this.connections.has(nodeId)) this.dial(normalizePeerAddress(discovered));
+        },
+        this.logger,
+        this.options.multicast === true ? {} : this.options.multicast
+      );
+      await this.discovery.start();
+    }
     this.ensurePeerDials();
   }
 
   protected async onStop() {
-    for (const connection of this.connections.values()) {
-      connection.close();
-    }
+    this.stopTlsReload?.();
+    await this.discovery?.stop();
+    this.discovery = undefined;
+    // the other nodes hear it now rather than after their suspicion timeout
+    this.membership?.leave();
+    this.membership?.stop();
+    this.membership = undefined;
+    if (this.federation) await this.hub.releaseAdapter(this.federation);
+    this.federation = undefined;
+    const server = this.server;
+    // cleared first so closing links does not schedule redials
+    this.server = undefined;
+    const connections = [...this.connections.values()];
     this.connections.clear();
-    if (this.server) {
-      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    connections.forEach((connection) => connection.close());
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
     }
   }
 
+  private async createTlsServer(config: TlsConfig) {
+    this.tlsOptions = await loadTlsOptions(config);
+    const server = createTlsServer(
+      { ...this.tlsOptions, requestCert: true, rejectUnauthorized: true },
+      (socket) => this.createConnection(socket, false)
+    );
+    server.on('tlsClientError', (error) => this.logger.error('Mesh peer rejected:', error.message));
+    this.stopTlsReload = reloadTlsOnSighup(
+      config,
+      (options) => {
+        server.setSecureContext(options);
+        this.tlsOptions = options;
+      },
+      this.logger
+    );
+    return server;
+  }
+
+  /** Delivers `message` to the clients of every other node, but not to this node's. */
   broadcast(message: OutboundMessage) {
-    for (const connection of this.connections.values()) {
-      connection.send(message);
+    this.federation?.broadcast({ ...message, timestamp: Date.now() });
+  }
+
+  /** Adds a seed at runtime; it is dialed right away when the mesh is running. */
+  addPeer(peer: string | { host: string; port: number }) {
+    const address = normalizePeerAddress(peer);
+    this.peers.set(addressKey(address), address);
+    if (this.server) this.dial(address);
+  }
+
+  /**
+   * Stops dialing `peer` and removes the node behind it from the cluster: every member drops it,
+   * and it can only come back by restarting.
+   */
+  removePeer(peer: string | { host: string; port: number }) {
+    const key = addressKey(normalizePeerAddress(peer));
+    this.peers.delete(key);
+    const member = this.membership?.active().find((candidate) => candidate.address === key);
+    if (member) this.membership!.evict(member.nodeId);
+    for (const [nodeId, stored] of this.connectionAddresses) {
+      if (stored === key) this.connections.get(nodeId)?.close();
+    }
+  }
+
+  /** This node first, then every node known, with its state; empty while stopped. */
+  members(): MeshMember[] {
+    return this.membership?.list() ?? [];
+  }
+
+  private handleMemberJoined(member: MeshMember) {
+    this.logger.info('Mesh node joined', member.nodeId, member.address);
+    if (!this.connections.has(member.nodeId)) {
+      this.dial(normalizePeerAddress(member.address));
+    }
+    this.federation?.nodeJoined(member.nodeId);
+    this.hub.emit('node:joined', member);
+  }
+
+  private handleMemberLeft(member: MeshMember, reason: MemberLeaveReason) {
+    if (member.nodeId === this.nodeId) {
+      this.logger.error('This node was removed from the mesh, restart it to rejoin');
+      this.peers.clear();
+      [...this.connections.values()].forEach((connection) => connection.close());
+      this.federation?.clear();
+      this.hub.emit('node:left', member, reason);
+      return;
+    }
+    this.logger.info('Mesh node left', member.nodeId, reason);
+    this.connections.get(member.nodeId)?.close();
+    this.federation?.nodeLeft(member.nodeId);
+    this.hub.emit('node:left', member, reason);
+  }
+
+  private handleEnvelope(remoteId: string, connection: MeshConnection, envelope: MeshEnvelope) {
+    if (this.connections.get(remoteId) !== connection) return;
+    if (envelope.kind === 'federation' && envelope.federation) {
+      this.federation?.receive(envelope.federation);
+    } else if (envelope.kind === 'membership' && envelope.membership) {
+      this.membership?.receive(remoteId, envelope.membership);
+      // a node removed from the cluster is not let back in until it restarts
+      if (envelope.membership.type === 'members' && this.hasLeft(remoteId)) {
+        this.logger.info('Mesh peer refused, it left the cluster', remoteId);
+        connection.close();
+      }
     }
   }
 
@@ -166,17 +477,21 @@ export class PeerMeshTransport extends BaseTransport {
     if (this.pendingDials.has(key)) return;
     if (this.connectionAddressInUse(key)) return;
     this.pendingDials.add(key);
-    const socket = new Socket();
-    socket.once('connect', () => {
+    const socket = this.tlsOptions
+      ? connectTls({ ...meshCredentials(this.tlsOptions), host: address.host, port: address.port })
+      : connect(address.port, address.host);
+    socket.once(this.tlsOptions ? 'secureConnect' : 'connect', () => {
       this.pendingDials.delete(key);
       this.createConnection(socket, true, address);
     });
-    socket.once('error', () => {
+    socket.once('error', (error) => {
+      if (this.tlsOptions) {
+        this.logger.debug('Mesh dial failed', key, error.message);
+      }
       this.pendingDials.delete(key);
       socket.destroy();
       this.scheduleReconnect(address);
     });
-    socket.connect(address.port, address.host);
   }
 
   private createConnection(socket: Socket, autoHello: boolean, address?: PeerAddress) {
@@ -184,62 +499,77 @@ export class PeerMeshTransport extends BaseTransport {
     const connection = new MeshConnection(
       socket,
       this.nodeId,
+      this.codec,
       (remoteId) => this.registerPeer(remoteId, connection, key),
-      (message, remoteId) => this.handleRemoteMessage(remoteId, message),
-      (remoteId) => this.handlePeerClose(remoteId, key),
-      autoHello
+      (remoteId, envelope) => this.handleEnvelope(remoteId, connection, envelope),
+      (remoteId) => this.handlePeerClose(connection, remoteId, key),
+      (reason) => this.logger.error('Mesh peer rejected:', reason),
+      autoHello,
+      this.options.handshakeTimeoutMs ?? 10_000,
+      this.options.secret
     );
   }
 
   private registerPeer(remoteId: string, connection: MeshConnection, addressKeyValue?: string) {
-    const existing = this.connections.get(remoteId);
-    if (existing && existing !== connection) {
+    if (remoteId === this.nodeId) {
+      // a seed list that includes this node
+      if (addressKeyValue) this.peers.delete(addressKeyValue);
       connection.close();
       return;
     }
-    this.connections.set(remoteId, connection);
     if (addressKeyValue) {
       this.connectionAddresses.set(remoteId, addressKeyValue);
     }
-    const clientId = this.peerClientId(remoteId);
-    const client: TransportClient = {
-      id: clientId,
-      transport: 'mesh',
-      connectedAt: Date.now(),
-      metadata: { nodeId: remoteId },
-      rooms: [],
-      send: (message) => connection.send(message),
-      close: () => connection.close()
-    };
-    this.hub.registerClient(client);
+    const existing = this.connections.get(remoteId);
+    if (existing && existing !== connection) {
+      // both nodes dialed each other; both keep the link dialed by the smaller node id
+      const preferred = connection.dialed === (this.nodeId < remoteId) ? connection : existing;
+      const dropped = preferred === connection ? existing : connection;
+      this.connections.set(remoteId, preferred);
+      dropped.close();
+      return;
+    }
+    this.connections.set(remoteId, connection);
+    this.membership?.linkUp(remoteId);
+    this.federation?.linkUp();
     this.logger.info('Mesh peer ready', remoteId);
   }
 
-  private handleRemoteMessage(remoteId: string, message: RealtimeMessage) {
-    const clientId = this.peerClientId(remoteId);
-    this.hub.receive(message, clientId);
-  }
-
-  private handlePeerClose(remoteId?: string, addressKeyValue?: string) {
-    if (remoteId) {
-      const clientId = this.peerClientId(remoteId);
+  private handlePeerClose(connection: MeshConnection, remoteId?: string, addressKeyValue?: string) {
+    if (remoteId === this.nodeId) return;
+    if (remoteId && this.connections.has(remoteId)) {
+      // a duplicate link was dropped; the peer is still connected
+      if (this.connections.get(remoteId) !== connection) return;
       this.connections.delete(remoteId);
       this.connectionAddresses.delete(remoteId);
-      this.hub.unregisterClient(clientId, 'mesh_disconnected');
+      // its clients stay known until the failure detector declares it gone
+      this.logger.info('Mesh peer lost', remoteId);
     }
 
-    if (addressKeyValue) {
-      const address = this.peers.get(addressKeyValue);
-      if (address) {
-        this.scheduleReconnect(address);
-      }
+    const address = addressKeyValue ?? (remoteId && this.membership?.get(remoteId)?.address);
+    if (address) {
+      this.scheduleReconnect(normalizePeerAddress(address));
     }
   }
 
   private scheduleReconnect(address: PeerAddress) {
     const key = addressKey(address);
-    if (this.pendingDials.has(key)) return;
-    setTimeout(() => this.dial(address), this.options.reconnectIntervalMs).unref();
+    if (!this.server || this.pendingDials.has(key)) return;
+    setTimeout(() => {
+      if (this.server && this.wantsLink(key)) this.dial(address);
+    }, this.options.reconnectIntervalMs).unref();
+  }
+
+  /** Seeds are always redialed; other addresses as long as a live member is behind them. */
+  private wantsLink(key: string) {
+    return (
+      this.peers.has(key) ||
+      Boolean(this.membership?.active().some((member) => member.address === key))
+    );
+  }
+
+  private hasLeft(nodeId: string) {
+    return this.membership?.get(nodeId)?.status === 'left';
   }
 
   private connectionAddressInUse(key: string) {
@@ -248,12 +578,47 @@ export class PeerMeshTransport extends BaseTransport {
         return true;
       }
     }
+    for (const nodeId of this.connections.keys()) {
+      if (this.membership?.get(nodeId)?.address === key) {
+        return true;
+      }
+    }
     return false;
   }
+}
 
-  private peerClientId(remoteId: string) {
-    return `mesh:${remoteId}`;
-  }
+type ProverRole = 'dial' | 'accept';
+
+/** `prover`, on the `role` side of the link, answers the challenge `nonce` sent by `verifier`. */
+function signProof(
+  secret: string,
+  role: ProverRole,
+  nonce: string,
+  prover: string,
+  verifier: string
+) {
+  return createHmac('sha256', secret)
+    .update(JSON.stringify(['mesh-auth', role, nonce, prover, verifier]))
+    .digest('hex');
+}
+
+function verifyProof(
+  secret: string,
+  auth: unknown,
+  role: ProverRole,
+  nonce: string,
+  prover: string,
+  verifier: string
+) {
+  if (typeof auth !== 'string') return false;
+  const expected = Buffer.from(signProof(secret, role, nonce, prover, verifier));
+  const received = Buffer.from(auth);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/** The dialing node presents its certificate too; the CA check stands in for host names. */
+function meshCredentials({ key, cert, ca, passphrase }: TlsOptions): ConnectionOptions {
+  return { key, cert, ca, passphrase, checkServerIdentity: () => undefined };
 }
 
 function normalizePeerAddress(value: string | { host: string; port: number }): PeerAddress {
@@ -0,0 +1,340 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { BaseTransport } from './base.js';
+import type {
+  AuthenticationResult,
+  OutboundMessage,
+  RealtimeMessage,
+  TransportClient,
+  TransportOffer,
+} from '../types/index.js';
+import { AuthenticationError } from '../core/errors.js';
+import {
+  HttpError,
+  mountRequestHandler,
+  parseUrl,
+  readBody,
+  sendJson,
+  sendStatus,
+  toConnectionRequest,
+} from '../utils/http.js';
+import { safeParse } from '../utils/json.js';
+
+export interface LongPollingTransportOptions {
+  port?: number;
+  host?: string;
+  /** Base path of the handshake, poll and send endpoints (`/polling` by default). */
+  path?: string;
+  /** Mounts on an existing server; requests for other paths reach its own handlers. */
+  server?: Server;
+  /** How long a poll is held open when nothing is queued (25 s by default). */
+  pollTimeoutMs?: number;
+  /** A session without any poll for this long is closed with `session_expired` (30 s by default). */
+  sessionTimeoutMs?: number;
+  /** Messages handed out per poll (100 by default); the rest wait for the next one. */
+  maxBatchSize?: number;
+  /** Messages held for a client between polls (1000 by default); the oldest are dropped beyond. */
+  maxQueuedMessages?: number;
+  /** Largest POST body accepted (1 MiB by default); larger ones get a 413. */
+  maxPayloadBytes?: number;
+}
+
+type ResolvedPollingOptions = Required<
+  Omit<LongPollingTransportOptions, 'port' | 'host' | 'server'>
+>;
+
+/** Body of every poll response. `closed` is set once the server has ended the session. */
+export interface PollResponse {
+  messages: OutboundMessage[];
+  closed?: string;
+}
+
+/**
+ * A client between polls. Messages queue up here; a pending poll is answered as soon as there is
+ * something to hand out, or empty when `pollTimeoutMs` runs out.
+ */
+class PollingSession {
+  readonly id = randomUUID();
+  private readonly queue: OutboundMessage[] = [];
+  private poll?: { res: ServerResponse; timer: NodeJS.Timeout };
+  private flushScheduled = false;
+  private expiry?: NodeJS.Timeout;
+  private closedReason?: string;
+  private overflowing = false;
+
+  constructor(
+    readonly clientId: string,
+    private readonly options: ResolvedPollingOptions,
+    private readonly onClose: (reason: string) => void,
+    private readonly onDrop: (dropped: number, first: boolean) => void,
+  ) {
+    this.armExpiry();
+  }
+
+  get closed() {
+    return this.closedReason !== undefined;
+  }
+
+  /** Holds `res` until messages are available; a newer poll answers the previous one empty. */
+  attach(res: ServerResponse) {
+    this.respond({ messages: [] });
+    clearTimeout(this.expiry);
+    const timer = setTimeout(() => this.respond({ messages: [] }), this.options.pollTimeoutMs);
+    this.poll = { res, timer };
+    res.on('close', () => {
+      if (this.poll?.res !== res) return;
+      clearTimeout(timer);
+      this.poll = undefined;
+      this.armExpiry();
+    });
+    if (this.queue.length) this.flush();
+  }
+
+  send(message: OutboundMessage) {
+    if (this.closed) return;
+    this.queue.push(message);
+    if (this.queue.length > this.options.maxQueuedMessages) {
+      const dropped = this.queue.length - this.options.maxQueuedMessages;
+      this.queue.splice(0, dropped);
+      this.onDrop(dropped, !this.overflowing);
+      this.overflowing = true;
+    }
+    // messages sent in the same tick leave in one batch
+    if (this.poll && !this.flushScheduled) {
+      this.flushScheduled = true;
+      setImmediate(() => this.flush());
+    }
+  }
+
+  close(reason = 'server_closed') {
+    if (this.closed) return;
+    this.closedReason = reason;
+    clearTimeout(this.expiry);
+    this.respond({ messages: this.queue.splice(0, this.options.maxBatchSize), closed: reason });
+    this.queue.length = 0;
+    this.onClose(reason);
+  }
+
+  private flush() {
+    this.flushScheduled = false;
+    if (!this.poll || !this.queue.length) return;
+    this.respond({ messages: this.queue.splice(0, this.options.maxBatchSize) });
+    if (!this.queue.length) this.overflowing = false;
+  }
+
+  private respond(body: PollResponse) {
+    const { poll } = this;
+    if (!poll) return;
+    this.poll = undefined;
+    clearTimeout(poll.timer);
+    sendJson(poll.res, 200, body);
+    if (!this.closed) this.armExpiry();
+  }
+
+  private armExpiry() {
+    clearTimeout(this.expiry);
+    this.expiry = setTimeout(
+      () => this.close('session_expired'),
+      this.options.sessionTimeoutMs,
+    ).unref();
+  }
+}
+
+/**
+ * Long-polling over plain HTTP request/response:
+ * - `POST <path>/handshake` opens a session and lists the transports the server offers
+ * - `GET <path>/<session>` waits for outbound messages and returns them in batches
+ * - `POST <path>/<session>` sends one message or an array of them
+ * - `DELETE <path>/<session>` closes the session
+ */
+export class LongPollingTransport extends BaseTransport {
+  private readonly server: Server | undefined;
+  private httpServer?: Server;
+  private unmount?: () => void;
+  private readonly sessions = new Map<string, PollingSession>();
+  /** Why recently closed sessions ended, told to the polls that arrive afterwards. */
+  private readonly closedSessions = new Map<string, { reason: string; timer: NodeJS.Timeout }>();
+  private readonly options: ResolvedPollingOptions &
+    Pick<LongPollingTransportOptions, 'port' | 'host'>;
+
+  constructor(options: LongPollingTransportOptions = {}) {
+    super('polling');
+    this.options = {
+      path: '/polling',
+      pollTimeoutMs: 25_000,
+      sessionTimeoutMs: 30_000,
+      maxBatchSize: 100,
+      maxQueuedMessages: 1000,
+      maxPayloadBytes: 1024 * 1024,
+      ...options,
+    };
+    this.server = options.server;
+  }
+
+  describe(): TransportOffer {
+    return {
+      name: this.name,
+      path: this.options.path,
+      port: this.server ? undefined : (this.options.port ?? 7072),
+    };
+  }
+
+  protected async onStart() {
+    if (this.server) {
+      this.httpServer = this.server;
+      this.unmount = mountRequestHandler(this.server, (req, res) => this.handleRequest(req, res));
+      return;
+    }
+    this.httpServer = createServer((req, res) => {
+      if (!this.handleRequest(req, res)) sendStatus(res, 404);
+    });
+    const port = this.options.port ?? 7072;
+    const host = this.options.host ?? '0.0.0.0';
+    await new Promise<void>((resolve) => this.httpServer!.listen(port, host, resolve));
+    this.logger.info(
+      `Long-polling transport listening on http://${host}:${port}${this.options.path}`,
+    );
+  }
+
+  protected async onStop() {
+    for (const session of this.sessions.values()) {
+      session.close('server_shutdown');
+    }
+    this.closedSessions.forEach(({ timer }) => clearTimeout(timer));
+    this.closedSessions.clear();
+    this.unmount?.();
+    if (this.httpServer && !this.server) {
+      const server = this.httpServer;
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeIdleConnections();
+      });
+    }
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = parseUrl(req.url);
+    if (!url) {
+      sendStatus(res, 400);
+      return true;
+    }
+    const prefix = `${this.options.path}/`;
+    if (!url.pathname.startsWith(prefix)) return false;
+    const segment = url.pathname.slice(prefix.length);
+
+    if (segment === 'handshake') {
+      if (req.method === 'POST') {
+        void this.handshake(req, res);
+      } else {
+        sendStatus(res, 405, { Allow: 'POST' });
+      }
+      return true;
+    }
+
+    const session = this.sessions.get(segment);
+    if (!session) {
+      const closed = this.closedSessions.get(segment);
+      if (closed && req.method === 'GET') {
+        sendJson(res, 200, { messages: [], closed: closed.reason } satisfies PollResponse);
+      } else {
+        // clients answer a 404 or 410 with a new handshake
+        sendStatus(res, closed ? 410 : 404);
+      }
+      return true;
+    }
+    switch (req.method) {
+      case 'GET':
+        session.attach(res);
+        break;
+      case 'POST':
+        void this.receive(session, req, res);
+        break;
+      case 'DELETE':
+        session.close('client_closed');
+        sendStatus(res, 204);
+        break;
+      default:
+        sendStatus(res, 405, { Allow: 'GET, POST, DELETE' });
+    }
+    return true;
+  }
+
+  private async handshake(req: IncomingMessage, res: ServerResponse) {
+    const request = toConnectionRequest(req, 'polling');
+    let admission: AuthenticationResult;
+    try {
+      admission = await this.hub.admit(request);
+    } catch (error) {
+      const status = error instanceof AuthenticationError ? error.status : 500;
+      this.logger.debug('Connection refused', request.remoteAddress, status);
+      sendStatus(res, status);
+      return;
+    }
+
+    const clientId = randomUUID();
+    const session: PollingSession = new PollingSession(
+      clientId,
+      this.options,
+      (reason) => this.handleClose(session, reason),
+      (dropped, first) =>
+        this.hub.reportSlowClient(clientId, 'polling', {
+          policy: 'drop-oldest',
+          queuedBytes: 0,
+          dropped,
+          first,
+        }),
+    );
+    this.sessions.set(session.id, session);
+    sendJson(res, 200, {
+      session: session.id,
+      clientId,
+      pollTimeoutMs: this.options.pollTimeoutMs,
+      sessionTimeoutMs: this.options.sessionTimeoutMs,
+      transports: this.hub.listTransports(),
+    });
+    const client: TransportClient = {
+      id: clientId,
+      transport: 'polling',
+      connectedAt: Date.now(),
+      user: admission.user,
+      metadata: { ...admission.metadata },
+      rooms: [],
+      send: (message) => session.send(message),
+      close: (reason) => session.close(reason),
+    };
+    this.hub.registerClient(client);
+  }
+
+  private async receive(session: PollingSession, req: IncomingMessage, res: ServerResponse) {
+    let body: Buffer;
+    try {
+      body = await readBody(req, this.options.maxPayloadBytes);
+    } catch (error) {
+      sendStatus(res, error instanceof HttpError ? error.status : 400, { Connection: 'close' });
+      return;
+    }
+    const parsed = safeParse<RealtimeMessage | RealtimeMessage[]>(body.toString('utf8'));
+    const messages = Array.isArray(parsed) ? parsed : parsed ? [parsed] : [];
+    if (!messages.length || messages.some((message) => typeof message?.type !== 'string')) {
+      this.logger.error('Received invalid payload', body.toString('utf8'));
+      sendStatus(res, 400);
+      return;
+    }
+    if (session.closed) {
+      sendStatus(res, 410);
+      return;
+    }
+    sendStatus(res, 204);
+    messages.forEach((message) => this.hub.receive(message, session.clientId));
+  }
+
+  private handleClose(session: PollingSession, reason: string) {
+    this.sessions.delete(session.id);
+    const timer = setTimeout(
+      () => this.closedSessions.delete(session.id),
+      this.options.sessionTimeoutMs,
+    ).unref();
+    this.closedSessions.set(session.id, { reason, timer });
+    this.hub.unregisterClient(session.clientId, reason);
+  }
+}
@@ -0,0 +1,401 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type OutgoingHttpHeaders,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { BaseTransport } from './base.js';
+import type {
+  AuthenticationResult,
+  OutboundMessage,
+  RealtimeMessage,
+  TransportClient,
+  TransportOffer,
+} from '../types/index.js';
+import { AuthenticationError } from '../core/errors.js';
+import {
+  OutboundQueue,
+  resolveBackpressure,
+  type ResolvedBackpressure,
+  type BackpressureOptions,
+  type QueueOverflow,
+} from '../core/outboundQueue.js';
+import {
+  HttpError,
+  mountRequestHandler,
+  parseQuery,
+  parseUrl,
+  readBody,
+  sendStatus,
+  toConnectionRequest,
+} from '../utils/http.js';
+import { safeParse, safeStringify } from '../utils/json.js';
+
+export interface SseTransportOptions {
+  port?: number;
+  host?: string;
+  /** Serves the event stream on GET and takes inbound messages on POST (`/sse` by default). */
+  path?: string;
+  /** Mounts on an existing server; requests for other paths reach its own handlers. */
+  server?: Server;
+  /** Comment lines keeping proxies from timing out idle streams (every 15 s by default). */
+  heartbeatIntervalMs?: number;
+  /** Events kept per client for replay after a reconnect with `Last-Event-ID` (256 by default). */
+  replayBufferSize?: number;
+  /** How long a client whose stream dropped stays registered, waiting for it to reconnect (30 s). */
+  reconnectGraceMs?: number;
+  /** Reconnection delay suggested to `EventSource` through the `retry` field (2 s). */
+  retryMs?: number;
+  /** Largest POST body accepted (1 MiB by default); larger ones get a 413. */
+  maxPayloadBytes?: number;
+  /** Bounds what is buffered for a slow reader; see `BackpressurePolicy`. */
+  backpressure?: BackpressureOptions;
+}
+
+type ResolvedSseOptions = Required<Omit<SseTransportOptions, 'port' | 'host' | 'server'>>;
+
+interface SentEvent {
+  seq: number;
+  message: OutboundMessage;
+  chunk: Buffer;
+}
+
+const STREAM_HEADERS: OutgoingHttpHeaders = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // disables response buffering in nginx
+  'X-Accel-Buffering': 'no',
+};
+
+/** Event ids are `<stream token>:<sequence>`, so `Last-Event-ID` names both the stream and the position. */
+const parseEventId = (value: string | undefined) => {
+  const match = /^([0-9a-f-]{36}):(\d+)$/.exec(value ?? '');
+  return match ? { token: match[1]!, seq: Number(match[2]) } : undefined;
+};
+
+/**
+ * One client's event stream. It outlives individual responses: when `EventSource` reconnects, the
+ * new response picks up after the last event the browser saw.
+ */
+class SseStream {
+  readonly token = randomUUID();
+  private seq = 0;
+  private readonly history: SentEvent[] = [];
+  private response?: ServerResponse;
+  private queue?: OutboundQueue;
+  private expiry?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(
+    readonly clientId: string,
+    readonly userId: string | undefined,
+    private readonly options: ResolvedSseOptions,
+    private readonly backpressure: ResolvedBackpressure,
+    private readonly onClose: (reason: string, deliberate: boolean) => void,
+    private readonly onOverflow: (overflow: QueueOverflow) => void,
+    private readonly onQueued: (bytes: number) => void,
+  ) {}
+
+  /**
+   * Serves the stream on `res`, replaying the events after `lastSeq`. Returns false, leaving `res`
+   * untouched, when some of them have already left the replay buffer.
+   */
+  attach(res: ServerResponse, lastSeq?: number) {
+    if (lastSeq !== undefined && !this.canReplayFrom(lastSeq)) return false;
+    this.release();
+    clearTimeout(this.expiry);
+
+    const queue = new OutboundQueue(this.backpressure, (chunk) => res.write(chunk));
+    this.response = res;
+    this.queue = queue;
+    res.on('drain', () => {
+      queue.flush();
+      this.onQueued(this.queuedBytes);
+    });
+    res.on('close', () => {
+      if (this.response !== res) return;
+      this.release();
+      this.expiry = setTimeout(
+        () => this.shutdown('connection_lost', false),
+        this.options.reconnectGraceMs,
+      ).unref();
+    });
+
+    res.writeHead(200, STREAM_HEADERS);
+    res.write(`retry: ${this.options.retryMs}\n\n`);
+    if (lastSeq === undefined) {
+      // the browser needs the token to POST and resumes from this id if nothing else arrives
+      const hello = safeStringify({ token: this.token, clientId: this.clientId });
+      res.write(`id: ${this.token}:${this.seq}\nevent: stream\ndata: ${hello}\n\n`);
+    } else {
+      this.history
+        .filter((event) => event.seq > lastSeq)
+        .forEach((event) => this.enqueue(event.message, event.chunk));
+    }
+    return true;
+  }
+
+  get queuedBytes() {
+    return (this.queue?.bytes ?? 0) + (this.response?.writableLength ?? 0);
+  }
+
+  send(message: OutboundMessage) {
+    if (this.closed) return;
+    this.seq += 1;
+    const chunk = Buffer.from(`id: ${this.token}:${this.seq}\ndata: ${safeStringify(message)}\n\n`);
+    this.history.push({ seq: this.seq, message, chunk });
+    if (this.history.length > this.options.replayBufferSize) {
+      this.history.shift();
+    }
+    if (this.queue) this.enqueue(message, chunk);
+  }
+
+  /** Keeps idle connections open through proxies; skipped while the client lags behind. */
+  ping() {
+    if (this.response && !this.queue?.length) {
+      this.response.write(': ping\n\n');
+    }
+  }
+
+  /** Ends the stream; the `close` event tells the browser not to reconnect. */
+  close(reason = 'server_closed') {
+    if (this.closed) return;
+    this.response?.write(`event: close\ndata: ${safeStringify({ reason })}\n\n`);
+    this.shutdown(reason, true);
+  }
+
+  private shutdown(reason: string, deliberate: boolean) {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.expiry);
+    this.release();
+    this.history.length = 0;
+    this.onClose(reason, deliberate);
+  }
+
+  private canReplayFrom(lastSeq: number) {
+    if (lastSeq > this.seq) return false;
+    const oldest = this.history[0]?.seq ?? this.seq + 1;
+    return oldest <= lastSeq + 1;
+  }
+
+  private enqueue(message: OutboundMessage, chunk: Buffer) {
+    const queue = this.queue!;
+    const overflow = queue.push(message, chunk);
+    if (queue.length) {
+      this.onQueued(this.queuedBytes);
+    }
+    if (!overflow) return;
+    this.onOverflow(overflow);
+    if (overflow.policy === 'disconnect') {
+      this.close('slow_consumer');
+    }
+  }
+
+  /** Lets go of the current response, if any, ending it when it is still open. */
+  private release() {
+    const { response } = this;
+    if (!response) return;
+    this.response = undefined;
+    this.queue?.clear();
+    this.queue = undefined;
+    this.onQueued(0);
+    if (!response.writableEnded) response.end();
+  }
+}
+
+export class SseTransport extends BaseTransport {
+  private readonly server: Server | undefined;
+  private httpServer?: Server;
+  private unmount?: () => void;
+  private heartbeat?: NodeJS.Timeout;
+  private readonly streams = new Map<string, SseStream>();
+  /** Tokens of streams the server closed on purpose; reconnects get a 204 so browsers give up. */
+  private readonly closedTokens = new Map<string, NodeJS.Timeout>();
+  private readonly options: ResolvedSseOptions & Pick<SseTransportOptions, 'port' | 'host'>;
+  private readonly backpressure: ResolvedBackpressure;
+
+  constructor(options: SseTransportOptions = {}) {
+    super('sse');
+    this.options = {
+      path: '/sse',
+      heartbeatIntervalMs: 15_000,
+      replayBufferSize: 256,
+      reconnectGraceMs: 30_000,
+      retryMs: 2_000,
+      maxPayloadBytes: 1024 * 1024,
+      backpressure: {},
+      ...options,
+    };
+    this.backpressure = resolveBackpressure(options.backpressure);
+    this.server = options.server;
+  }
+
+  protected async onStart() {
+    if (this.server) {
+      this.httpServer = this.server;
+      this.unmount = mountRequestHandler(this.server, (req, res) => this.handleRequest(req, res));
+    } else {
+      this.httpServer = createServer((req, res) => {
+        if (!this.handleRequest(req, res)) sendStatus(res, 404);
+      });
+      const port = this.options.port ?? 7071;
+      const host = this.options.host ?? '0.0.0.0';
+      await new Promise<void>((resolve) => this.httpServer!.listen(port, host, resolve));
+      this.logger.info(`SSE transport listening on http://${host}:${port}${this.options.path}`);
+    }
+    if (this.options.heartbeatIntervalMs > 0) {
+      this.heartbeat = setInterval(() => {
+        this.streams.forEach((stream) => stream.ping());
+      }, this.options.heartbeatIntervalMs).unref();
+    }
+  }
+
+  protected async onStop() {
+    clearInterval(this.heartbeat);
+    for (const stream of this.streams.values()) {
+      stream.close('server_shutdown');
+    }
+    this.closedTokens.forEach((timer) => clearTimeout(timer));
+    this.closedTokens.clear();
+    this.unmount?.();
+    if (this.httpServer && !this.server) {
+      const server = this.httpServer;
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeIdleConnections();
+      });
+    }
+  }
+
+  describe(): TransportOffer {
+    return {
+      name: this.name,
+      path: this.options.path,
+      port: this.server ? undefined : (this.options.port ?? 7071),
+    };
+  }
+
+  private handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = parseUrl(req.url);
+    if (!url) {
+      sendStatus(res, 400);
+      return true;
+    }
+    if (url.pathname !== this.options.path) return false;
+    if (req.method === 'GET') {
+      void this.openStream(req, res);
+    } else if (req.method === 'POST') {
+      void this.receive(req, res);
+    } else {
+      sendStatus(res, 405, { Allow: 'GET, POST' });
+    }
+    return true;
+  }
+
+  private async openStream(req: IncomingMessage, res: ServerResponse) {
+    const request = toConnectionRequest(req, 'sse');
+    let admission: AuthenticationResult;
+    try {
+      admission = await this.hub.admit(request);
+    } catch (error) {
+      const status = error instanceof AuthenticationError ? error.status : 500;
+      this.logger.debug('Connection refused', request.remoteAddress, status);
+      sendStatus(res, status);
+      return;
+    }
+    if (res.destroyed) return;
+
+    const lastEventId = req.headers['last-event-id'];
+    const resume = parseEventId(
+      typeof lastEventId === 'string' ? lastEventId : request.query.lastEventId,
+    );
+    if (resume) {
+      if (this.closedTokens.has(resume.token)) {
+        sendStatus(res, 204);
+        return;
+      }
+      const stream = this.streams.get(resume.token);
+      // a stream never moves to a different authenticated user
+      if (stream && stream.userId === admission.user?.id) {
+        if (stream.attach(res, resume.seq)) return;
+        this.logger.debug('Replay buffer exhausted, starting a new stream', stream.clientId);
+        stream.close('replay_gap');
+      }
+    }
+    this.createStream(res, admission);
+  }
+
+  private createStream(res: ServerResponse, admission: AuthenticationResult) {
+    const id = randomUUID();
+    const stream: SseStream = new SseStream(
+      id,
+      admission.user?.id,
+      this.options,
+      this.backpressure,
+      (reason, deliberate) => this.handleClose(stream, reason, deliberate),
+      (overflow) => this.hub.reportSlowClient(id, 'sse', overflow),
+      (bytes) => this.hub.trackQueuedBytes(id, 'sse', bytes),
+    );
+    this.streams.set(stream.token, stream);
+    stream.attach(res);
+    const client: TransportClient = {
+      id,
+      transport: 'sse',
+      connectedAt: Date.now(),
+      user: admission.user,
+      metadata: { ...admission.metadata },
+      rooms: [],
+      send: (message) => stream.send(message),
+      close: (reason) => stream.close(reason),
+    };
+    this.hub.registerClient(client);
+  }
+
+  /** Inbound messages: one envelope or an array of them, tied to a stream by its token. */
+  private async receive(req: IncomingMessage, res: ServerResponse) {
+    const header = req.headers['x-realtime-stream'];
+    const token = typeof header === 'string' ? header : parseQuery(req.url).stream;
+    const stream = token ? this.streams.get(token) : undefined;
+    if (!stream) {
+      sendStatus(res, 404);
+      return;
+    }
+
+    let body: Buffer;
+    try {
+      body = await readBody(req, this.options.maxPayloadBytes);
+    } catch (error) {
+      sendStatus(res, error instanceof HttpError ? error.status : 400, { Connection: 'close' });
+      return;
+    }
+    const parsed = safeParse<RealtimeMessage | RealtimeMessage[]>(body.toString('utf8'));
+    const messages = Array.isArray(parsed) ? parsed : parsed ? [parsed] : [];
+    if (!messages.length || messages.some((message) => typeof message?.type !== 'string')) {
+      this.logger.error('Received invalid payload', body.toString('utf8'));
+      sendStatus(res, 400);
+      return;
+    }
+    if (this.streams.get(token!) !== stream) {
+      sendStatus(res, 404);
+      return;
+    }
+    sendStatus(res, 204);
+    messages.forEach((message) => this.hub.receive(message, stream.clientId));
+  }
+
+  private handleClose(stream: SseStream, reason: string, deliberate: boolean) {
+    this.streams.delete(stream.token);
+    if (deliberate) {
+      const timer = setTimeout(
+        () => this.closedTokens.delete(stream.token),
+        this.options.reconnectGraceMs,
+      ).unref();
+      this.closedTokens.set(stream.token, timer);
+    }
+    this.hub.unregisterClient(stream.clientId, reason);
+  }
+}
@@ -0,0 +1,452 @@
+import { createServer, type Server, type Socket } from 'node:net';
+import { createServer as createTlsServer } from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import { BaseTransport } from './base.js';
+import type {
+  AuthenticationResult,
+  ConnectionRequest,
+  OutboundMessage,
+  RealtimeMessage,
+  TransportClient,
+  TransportOffer,
+} from '../types/index.js';
+import { AuthenticationError } from '../core/errors.js';
+import { codecRegistry, jsonCodec, type Codec } from '../core/codec.js';
+import {
+  OutboundQueue,
+  resolveBackpressure,
+  type ResolvedBackpressure,
+  type BackpressureOptions,
+  type QueueOverflow,
+} from '../core/outboundQueue.js';
+import { isProtocolVersion, negotiateSubprotocol } from '../core/protocol.js';
+import { decodeLengthPrefixed, encodeLengthPrefixed } from '../utils/framing.js';
+import { loadTlsOptions, reloadTlsOnSighup, type TlsConfig } from '../utils/tls.js';
+
+export interface TcpTransportOptions {
+  port?: number;
+  host?: string;
+  /** Listens on a Unix domain socket at this path instead of a TCP port. */
+  socketPath?: string;
+  /** Serves TLS instead of plain TCP; the credentials are reloaded on SIGHUP. */
+  tls?: TlsConfig;
+  /**
+   * Empty frames sent this often (30 s by default); a client that sends nothing for a whole
+   * interval is closed with `heartbeat_timeout`. `0` disables them.
+   */
+  heartbeatIntervalMs?: number;
+  /** Time allowed for the hello frame and authentication (10 s by default). */
+  handshakeTimeoutMs?: number;
+  /** Largest frame accepted (1 MiB by default); larger ones close the connection. */
+  maxPayloadBytes?: number;
+  /** Bounds what is buffered for a slow reader; see `BackpressurePolicy`. */
+  backpressure?: BackpressureOptions;
+  /** Codecs clients may pick, by name from `codecRegistry` or as instances. The first one is the default. */
+  codecs?: Array<string | Codec>;
+  /** Protocol versions spoken (`['v1']` by default). The first one is the default. */
+  protocolVersions?: string[];
+}
+
+/** First frame sent by a client, always JSON. */
+export interface TcpHello {
+  /** `realtime.<version>.<codec>` tokens in order of preference, as in `Sec-WebSocket-Protocol`. */
+  protocols?: string[];
+  /** Handed to `authenticate` as the request headers, e.g. `authorization`. */
+  headers?: Record<string, string>;
+  /** Token from a previous `system:session` message, to resume that session. */
+  session?: string;
+}
+
+/**
+ * Server answer to the hello, always JSON. Every later frame uses the negotiated codec. A refused
+ * hello carries the HTTP status the WebSocket transport would answer with, and a `reason` such as
+ * `unauthorized` (401), `forbidden` (403), `internal_error` (500) or `unavailable` (503, e.g. while
+ * the server drains).
+ */
+export type TcpWelcome =
+  | { clientId: string; version: string; codec: string }
+  | { error: number; reason: string };
+
+/** Frames with no payload are heartbeats; they never reach the hub. */
+const HEARTBEAT = Buffer.alloc(4);
+
+/** Time a refused client has to read the answer and close before the socket is destroyed. */
+const REFUSAL_GRACE_MS = 1000;
+
+const REFUSAL_REASONS: Record<number, string> = {
+  401: 'unauthorized',
+  403: 'forbidden',
+  500: 'internal_error',
+  503: 'unavailable',
+};
+
+/** `reason` of a refused hello, for an admission status. */
+function refusalReason(status: number) {
+  return REFUSAL_REASONS[status] ?? (status >= 500 ? 'internal_error' : 'unauthorized');
+}
+
+/**
+ * Reading stops after the hello until it is answered; frames the client pipelined behind it are
+ * decoded once the codec is known.
+ */
+class TcpConnection {
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly queue: OutboundQueue;
+  private heartbeat?: NodeJS.Timeout;
+  private refusalTimer?: NodeJS.Timeout;
+  private state: 'hello' | 'pending' | 'open' | 'refused' = 'hello';
+  private alive = true;
+  private closed = false;
+  private closeReason?: string;
+  private codec: Codec = jsonCodec;
+  /** Set once the hello is accepted. */
+  clientId?: string;
+
+  constructor(
+    private readonly socket: Socket,
+    private readonly maxPayloadBytes: number,
+    backpressure: ResolvedBackpressure,
+    private readonly onHello: (hello: TcpHello) => void,
+    private readonly onMessage: (payload: Buffer, codec: Codec) => void,
+    private readonly onClose: (reason: string) => void,
+    private readonly onOverflow: (overflow: QueueOverflow) => void,
+    private readonly onQueued: (bytes: number) => void,
+  ) {
+    this.queue = new OutboundQueue(backpressure, (frame) => socket.write(frame));
+    socket.on('data', (chunk: Buffer) => this.handleChunk(chunk));
+    socket.on('drain', () => {
+      this.queue.flush();
+      this.onQueued(this.queuedBytes);
+    });
+    socket.on('close', () => this.destroy());
+    socket.on('error', () => this.destroy());
+  }
+
+  /** The hello was answered with an error; nothing the client sends is read any more. */
+  get refused() {
+    return this.state === 'refused';
+  }
+
+  get queuedBytes() {
+    return this.queue.bytes + this.socket.writableLength;
+  }
+
+  /** Answers the hello; from here on frames are encoded with `codec` in both directions. */
+  accept(clientId: string, version: string, codec: Codec, heartbeatInterval: number) {
+    const welcome: TcpWelcome = { clientId, version, codec: codec.name };
+    this.socket.write(encodeLengthPrefixed(jsonCodec.encode(welcome)));
+    this.clientId = clientId;
+    this.codec = codec;
+    if (heartbeatInterval > 0) {
+      this.heartbeat = setInterval(() => this.ping(), heartbeatInterval).unref();
+    }
+  }
+
+  /** Starts reading again after `accept`, beginning with the frames already buffered. */
+  open() {
+    if (this.closed) return;
+    this.state = 'open';
+    this.processBuffer();
+    this.socket.resume();
+  }
+
+  /**
+   * Answers the hello with an error and ends the connection, destroying it after a grace period
+   * if the client does not close its side.
+   */
+  refuse(status: number, reason: string) {
+    if (this.closed || this.state === 'refused') return;
+    this.state = 'refused';
+    const welcome: TcpWelcome = { error: status, reason };
+    this.closeReason = reason;
+    this.socket.end(encodeLengthPrefixed(jsonCodec.encode(welcome)));
+    this.refusalTimer = setTimeout(() => this.socket.destroy(), REFUSAL_GRACE_MS).unref();
+  }
+
+  send(message: OutboundMessage) {
+    if (this.closed || !this.clientId) return;
+    const overflow = this.queue.push(message, encodeLengthPrefixed(this.codec.encode(message)));
+    if (this.queue.length) {
+      this.onQueued(this.queuedBytes);
+    }
+    if (!overflow) return;
+    this.onOverflow(overflow);
+    if (overflow.policy === 'disconnect') {
+      this.close('slow_consumer');
+    }
+  }
+
+  /** Ends the connection once what the socket already accepted is written. */
+  close(reason = 'server_closed') {
+    if (this.closed) return;
+    this.closeReason ??= reason;
+    this.queue.clear();
+    this.socket.end();
+    this.destroy();
+  }
+
+  private ping() {
+    if (!this.alive) {
+      this.closeReason ??= 'heartbeat_timeout';
+      this.socket.destroy();
+      return;
+    }
+    this.alive = false;
+    this.socket.write(HEARTBEAT);
+  }
+
+  private destroy() {
+    if (this.closed) return;
+    this.closed = true;
+    clearInterval(this.heartbeat);
+    clearTimeout(this.refusalTimer);
+    this.queue.clear();
+    this.onClose(this.closeReason ?? 'connection_lost');
+  }
+
+  private handleChunk(chunk: Buffer) {
+    if (this.state === 'refused') return;
+    this.alive = true;
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    this.processBuffer();
+  }
+
+  private processBuffer() {
+    while (!this.closed && (this.state === 'hello' || this.state === 'open')) {
+      let frame;
+      try {
+        frame = decodeLengthPrefixed(this.buffer, this.maxPayloadBytes);
+      } catch {
+        this.closeReason ??= 'message_too_big';
+        this.socket.destroy();
+        return;
+      }
+      if (!frame) break;
+      this.buffer = this.buffer.subarray(frame.bytes);
+      if (frame.payload.length) {
+        this.processFrame(frame.payload);
+      }
+    }
+  }
+
+  private processFrame(payload: Buffer) {
+    if (this.state === 'open') {
+      this.onMessage(payload, this.codec);
+      return;
+    }
+    this.state = 'pending';
+    this.socket.pause();
+    let hello: TcpHello | undefined;
+    try {
+      hello = jsonCodec.decode(payload) as TcpHello | undefined;
+    } catch {
+      hello = undefined;
+    }
+    if (!hello || typeof hello !== 'object' || Array.isArray(hello)) {
+      this.refuse(400, 'invalid_hello');
+      return;
+    }
+    this.onHello(hello);
+  }
+}
+
+/**
+ * Length-prefixed frames over TCP, a Unix domain socket or TLS, for backend services that do not
+ * want a WebSocket stack. Each connection opens with a JSON hello, is authenticated through
+ * `authenticate` and is registered as an ordinary client: rooms, acks, RPC and sessions work as
+ * they do for browsers.
+ */
+export class TcpTransport extends BaseTransport {
+  private server?: Server;
+  /** Settles once the listener is closed and its last connection is gone. */
+  private listenerClosed?: Promise<void>;
+  private stopTlsReload?: () => void;
+  private readonly connections = new Map<string, TcpConnection>();
+  /** Client registered for each accepted connection. */
+  private readonly clients = new WeakMap<TcpConnection, TransportClient>();
+  private readonly options: Required<
+    Pick<TcpTransportOptions, 'heartbeatIntervalMs' | 'handshakeTimeoutMs' | 'maxPayloadBytes'>
+  > &
+    TcpTransportOptions;
+  private readonly backpressure: ResolvedBackpressure;
+  private readonly codecs: Codec[];
+  private readonly protocolVersions: string[];
+
+  constructor(options: TcpTransportOptions = {}) {
+    super('tcp');
+    this.options = {
+      heartbeatIntervalMs: 30_000,
+      handshakeTimeoutMs: 10_000,
+      maxPayloadBytes: 1024 * 1024,
+      ...options,
+    };
+    this.backpressure = resolveBackpressure(options.backpressure);
+    this.codecs = (options.codecs ?? ['json', 'msgpack']).map((codec) =>
+      codecRegistry.resolve(codec),
+    );
+    this.protocolVersions = options.protocolVersions ?? ['v1'];
+    const invalid = this.protocolVersions.find((version) => !isProtocolVersion(version));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid protocol version "${invalid}", expected v<number>`);
+    }
+  }
+
+  describe(): TransportOffer {
+    return {
+      name: this.name,
+      port: this.options.socketPath ? undefined : (this.options.port ?? 7073),
+      path: this.options.socketPath,
+      secure: this.options.tls ? true : undefined,
+      versions: this.protocolVersions,
+      codecs: this.codecs.map((codec) => codec.name),
+    };
+  }
+
+  protected async onStart() {
+    const { tls } = this.options;
+    let server: Server;
+    if (tls) {
+      const tlsServer = createTlsServer(await loadTlsOptions(tls), (socket) =>
+        this.handleSocket(socket),
+      );
+      this.stopTlsReload = reloadTlsOnSighup(
+        tls,
+        (options) => tlsServer.setSecureContext(options),
+        this.logger,
+      );
+      server = tlsServer;
+    } else {
+      server = createServer((socket) => this.handleSocket(socket));
+    }
+    this.server = server;
+    this.listenerClosed = undefined;
+    const { socketPath } = this.options;
+    if (socketPath) {
+      await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+      this.logger.info(`TCP transport listening on ${socketPath}${tls ? ' (TLS)' : ''}`);
+      return;
+    }
+    const port = this.options.port ?? 7073;
+    const host = this.options.host ?? '0.0.0.0';
+    await new Promise<void>((resolve) => server.listen(port, host, resolve));
+    this.logger.info(`TCP transport listening on ${host}:${port}${tls ? ' (TLS)' : ''}`);
+  }
+
+  protected async onStop() {
+    this.stopTlsReload?.();
+    for (const connection of this.connections.values()) {
+      connection.close('server_shutdown');
+    }
+    await this.closeListener();
+  }
+
+  protected onStopAccepting() {
+    // the connections keep running; `stop` waits for the close to complete
+    void this.closeListener();
+  }
+
+  private closeListener() {
+    const { server } = this;
+    if (server) {
+      this.listenerClosed ??= new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    return this.listenerClosed;
+  }
+
+  private handleSocket(socket: Socket) {
+    socket.setNoDelay(true);
+    const handshakeTimer = setTimeout(
+      () => connection.refuse(408, 'handshake_timeout'),
+      this.options.handshakeTimeoutMs,
+    ).unref();
+    const connection: TcpConnection = new TcpConnection(
+      socket,
+      this.options.maxPayloadBytes,
+      this.backpressure,
+      (hello) =>
+        void this.handshake(connection, socket, hello).finally(() => clearTimeout(handshakeTimer)),
+      (payload, codec) => this.handleRawPayload(connection.clientId!, payload, codec),
+      (reason) => {
+        clearTimeout(handshakeTimer);
+        const client = this.clients.get(connection);
+        if (client) this.handleDisconnect(client, connection, reason);
+      },
+      (overflow) => this.hub.reportSlowClient(connection.clientId!, 'tcp', overflow),
+      (bytes) => this.hub.trackQueuedBytes(connection.clientId!, 'tcp', bytes),
+    );
+  }
+
+  /** Authenticates the hello, then registers the connection as a client. */
+  private async handshake(connection: TcpConnection, socket: Socket, hello: TcpHello) {
+    const request: ConnectionRequest = {
+      transport: 'tcp',
+      url: '/',
+      headers: { ...hello.headers },
+      query: {},
+      cookies: {},
+      remoteAddress: socket.remoteAddress ?? this.options.socketPath,
+    };
+    let admission: AuthenticationResult;
+    try {
+      admission = await this.hub.admit(request);
+    } catch (error) {
+      const status = error instanceof AuthenticationError ? error.status : 500;
+      this.logger.debug('Connection refused', request.remoteAddress, status);
+      connection.refuse(status, refusalReason(status));
+      return;
+    }
+    // the handshake may have timed out while `authenticate` ran
+    if (socket.destroyed || connection.refused) return;
+
+    const { version, codec } = negotiateSubprotocol(
+      Array.isArray(hello.protocols) ? hello.protocols.join(',') : undefined,
+      this.protocolVersions,
+      this.codecs,
+      // the welcome names the codec, so the configured default is safe here
+      this.codecs[0],
+    );
+    const id = this.hub.resumeSession(hello.session, admission.user) ?? randomUUID();
+    connection.accept(id, version, codec, this.options.heartbeatIntervalMs);
+    this.connections.set(id, connection);
+    const client: TransportClient = {
+      id,
+      transport: 'tcp',
+      connectedAt: Date.now(),
+      user: admission.user,
+      metadata: { ...admission.metadata },
+      rooms: [],
+      protocolVersion: version,
+      resumable: true,
+      send: (message) => connection.send(message),
+      close: (reason) => connection.close(reason),
+    };
+    this.clients.set(connection, client);
+    this.hub.registerClient(client);
+    connection.open();
+  }
+
+  private handleRawPayload(clientId: string, data: Buffer, codec: Codec) {
+    let message: RealtimeMessage | undefined;
+    try {
+      message = codec.decode(data) as RealtimeMessage | undefined;
+    } catch {
+      message = undefined;
+    }
+    if (!message || typeof message.type !== 'string') {
+      this.logger.error(
+        'Received invalid payload',
+        codec.binary ? `${data.length} bytes of ${codec.name}` : data.toString('utf8'),
+      );
+      return;
+    }
+    this.hub.receive(message, clientId);
+  }
+
+  private handleDisconnect(client: TransportClient, connection: TcpConnection, reason: string) {
+    // a resumed session may already be served by a newer connection, here or on another transport
+    if (this.connections.get(client.id) !== connection) return;
+    this.connections.delete(client.id);
+    this.hub.trackQueuedBytes(client.id, 'tcp', 0);
+    this.hub.unregisterClient(client.id, reason, client);
+  }
+}
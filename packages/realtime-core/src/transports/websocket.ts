@@ -1,9 +1,43 @@
-import { createServer, type Server, type IncomingMessage } from 'node:http';
+import { createServer, STATUS_CODES, type Server, type IncomingMessage } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
 import { Socket } from 'node:net';
+import { isUtf8 } from 'node:buffer';
 import { createHash, randomUUID } from 'node:crypto';
 import { BaseTransport } from './base.js';
-import type { RealtimeMessage, TransportClient, OutboundMessage } from '../types/index.js';
-import { safeParse, safeStringify } from '../utils/json.js';
+import type {
+  AuthenticationResult,
+  RealtimeMessage,
+  TransportClient,
+  TransportOffer,
+  OutboundMessage
+} from '../types/index.js';
+import { AuthenticationError } from '../core/errors.js';
+import { codecRegistry, type Codec } from '../core/codec.js';
+import {
+  OutboundQueue,
+  resolveBackpressure,
+  type ResolvedBackpressure,
+  type BackpressureOptions,
+  type QueueOverflow
+} from '../core/outboundQueue.js';
+import { isProtocolVersion, negotiateSubprotocol } from '../core/protocol.js';
+import { parseQuery, parseUrl, toConnectionRequest } from '../utils/http.js';
+import { loadTlsOptions, reloadTlsOnSighup, type TlsConfig } from '../utils/tls.js';
+import {
+  negotiateDeflate,
+  PerMessageDeflate,
+  type CompressionOptions
+} from '../utils/permessageDeflate.js';
+import {
+  CloseCodes,
+  decodeFrame,
+  encodeCloseFrame,
+  encodeFrame,
+  Opcodes,
+  parseClosePayload,
+  WebSocketProtocolError,
+  type Frame
+} from '../utils/websocketFrames.js';
 
 const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
 
@@ -13,29 +47,97 @@ export interface WebSocketTransportOptions {
   path?: string;
   server?: Server;
   heartbeatIntervalMs?: number;
+  /** Concurrent connections allowed from one remote address; further upgrades get a 429. */
+  maxConnectionsPerIp?: number;
+  /** Bounds what is buffered for a slow reader; see `BackpressurePolicy`. */
+  backpressure?: BackpressureOptions;
+  /** Largest message accepted, after reassembly of fragments (1 MiB by default); larger ones close with 1009. */
+  maxPayloadBytes?: number;
+  /** permessage-deflate (RFC 7692), negotiated with clients that offer it. */
+  compression?: boolean | CompressionOptions;
+  /**
+   * Codecs offered through `Sec-WebSocket-Protocol`, by name from `codecRegistry` or as instances.
+   * Clients that negotiate none of them are served JSON.
+   */
+  codecs?: Array<string | Codec>;
+  /**
+   * Protocol versions spoken (`['v1']` by default), negotiated together with the codec as
+   * `realtime.<version>.<codec>`. The first one serves clients that ask for none.
+   */
+  protocolVersions?: string[];
+  /**
+   * Serves HTTPS/WSS with this key and certificate, reloaded on SIGHUP. Ignored with `server`,
+   * which is then expected to be an `https.Server` already.
+   */
+  tls?: TlsConfig;
 }
 
-interface Frame {
-  opcode: number;
-  payload: Buffer;
-  length: number;
-  bytes: number;
-}
+const CLOSE_TIMEOUT_MS = 5_000;
+
+/** Close codes for the reasons the hub and transport close connections with. */
+const closeCodeFor = (reason?: string) => {
+  switch (reason) {
+    case 'server_shutdown':
+      return CloseCodes.GOING_AWAY;
+    case 'rate_limited':
+    case 'slow_consumer':
+      return CloseCodes.POLICY_VIOLATION;
+    default:
+      return CloseCodes.NORMAL;
+  }
+};
+
+const reasonForError = (error: WebSocketProtocolError) => {
+  switch (error.closeCode) {
+    case CloseCodes.INVALID_PAYLOAD:
+      return 'invalid_payload';
+    case CloseCodes.MESSAGE_TOO_BIG:
+      return 'message_too_big';
+    default:
+      return 'protocol_error';
+  }
+};
 
 class WebSocketConnection {
-  private buffer = Buffer.alloc(0);
+  private buffer: Buffer = Buffer.alloc(0);
   private readonly heartbeat?: NodeJS.Timeout;
+  private readonly queue: OutboundQueue;
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private fragmentOpcode?: number;
+  private fragmentCompressed = false;
+  /** Compression is asynchronous; these chains keep messages in order in each direction. */
+  private outbound: Promise<void> = Promise.resolve();
+  private inbound: Promise<void> = Promise.resolve();
   private alive = true;
   private closed = false;
+  private closeSent = false;
+  private closeTimer?: NodeJS.Timeout;
+  private closeReason?: string;
 
   constructor(
     private readonly socket: Socket,
     private readonly heartbeatInterval: number,
-    private readonly onMessage: (payload: string) => void,
-    private readonly onClose: () => void
+    private readonly maxPayloadBytes: number,
+    backpressure: ResolvedBackpressure,
+    private readonly onMessage: (payload: Buffer, binary: boolean) => void,
+    private readonly onClose: (reason?: string) => void,
+    private readonly onOverflow: (overflow: QueueOverflow) => void,
+    private readonly onQueued: (bytes: number) => void,
+    private readonly codec: Codec,
+    private readonly deflate?: PerMessageDeflate
   ) {
+    this.queue = new OutboundQueue(backpressure, (frame) => socket.write(frame));
     socket.on('data', (chunk) => this.handleChunk(chunk));
-    socket.on('end', () => this.destroy());
+    socket.on('drain', () => {
+      this.queue.flush();
+      this.onQueued(this.queuedBytes);
+    });
+    socket.on('end', () => {
+      // upgraded sockets are half-open capable; without this the server side would linger
+      socket.end();
+      this.destroy();
+    });
     socket.on('close', () => this.destroy());
     socket.on('error', () => this.destroy());
 
@@ -44,23 +146,72 @@ class WebSocketConnection {
     }
   }
 
+  /** Bytes waiting for the peer: our queue plus what the socket already accepted. */
+  get queuedBytes() {
+    return this.queue.bytes + this.socket.writableLength;
+  }
+
   send(message: OutboundMessage) {
-    const payload = Buffer.from(safeStringify(message));
-    this.socket.write(encodeFrame(payload));
+    if (this.closed || this.closeSent) return;
+    const encoded = this.codec.encode(message);
+    const payload =
+      typeof encoded === 'string'
+        ? Buffer.from(encoded)
+        : Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+    const opcode = this.codec.binary ? Opcodes.BINARY : Opcodes.TEXT;
+    const { deflate } = this;
+    if (!deflate) {
+      this.enqueue(message, encodeFrame(payload, opcode));
+      return;
+    }
+    this.outbound = this.outbound
+      .then(async () =>
+        payload.length < deflate.threshold
+          ? encodeFrame(payload, opcode)
+          : encodeFrame(await deflate.compress(payload), opcode, true)
+      )
+      .then((frame) => {
+        if (!this.closed && !this.closeSent) this.enqueue(message, frame);
+      })
+      .catch(() =>
+        this.fail(new WebSocketProtocolError('Compression failed', CloseCodes.INTERNAL_ERROR))
+      );
   }
 
-  close() {
-    this.socket.end();
-    this.destroy();
+  private enqueue(message: OutboundMessage, frame: Buffer) {
+    const overflow = this.queue.push(message, frame);
+    if (this.queue.length) {
+      this.onQueued(this.queuedBytes);
+    }
+    if (!overflow) return;
+    this.onOverflow(overflow);
+    if (overflow.policy === 'disconnect') {
+      this.close('slow_consumer');
+    }
+  }
+
+  /** Starts the closing handshake; the socket ends once the peer answers or after a timeout. */
+  close(reason?: string, code = closeCodeFor(reason)) {
+    if (this.closed || this.closeSent) return;
+    this.closeReason ??= reason;
+    this.queue.clear();
+    this.sendClose(code, reason);
+    this.closeTimer = setTimeout(() => this.socket.destroy(), CLOSE_TIMEOUT_MS).unref();
+  }
+
+  private sendClose(code: number, reason?: string) {
+    this.closeSent = true;
+    this.socket.write(encodeCloseFrame(code, reason));
   }
 
   private ping() {
     if (!this.alive) {
-      this.close();
+      this.closeReason ??= 'heartbeat_timeout';
+      this.socket.destroy();
       return;
     }
     this.alive = false;
-    this.socket.write(Buffer.from([0x89, 0x00]));
+    this.socket.write(encodeFrame(Buffer.alloc(0), Opcodes.PING));
   }
 
   private destroy() {
@@ -69,147 +220,226 @@ class WebSocketConnection {
     if (this.heartbeat) {
       clearInterval(this.heartbeat);
     }
-    this.onClose();
+    clearTimeout(this.closeTimer);
+    this.queue.clear();
+    this.deflate?.close();
+    this.fragments = [];
+    this.onClose(this.closeReason ?? 'connection_lost');
+  }
+
+  /** Fails the connection as RFC 6455 section 7.1.7 describes: close frame, then TCP close. */
+  private fail(error: WebSocketProtocolError) {
+    if (this.closed) return;
+    this.closeReason ??= reasonForError(error);
+    this.buffer = Buffer.alloc(0);
+    if (!this.closeSent) {
+      this.sendClose(error.closeCode, error.message);
+    }
+    this.socket.end();
+    this.destroy();
   }
 
   private handleChunk(chunk: Buffer) {
-    this.buffer = Buffer.concat([this.buffer, chunk]);
-    while (this.buffer.length) {
-      const frame = decodeFrame(this.buffer);
-      if (!frame) break;
-      this.buffer = this.buffer.subarray(frame.bytes);
-      switch (frame.opcode) {
-        case 0x1: {
-          this.alive = true;
-          this.onMessage(frame.payload.toString('utf8'));
-          break;
-        }
-        case 0x8: {
-          this.close();
-          return;
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    try {
+      while (this.buffer.length && !this.closed) {
+        const frame = decodeFrame(this.buffer, this.maxPayloadBytes, Boolean(this.deflate));
+        if (!frame) break;
+        this.buffer = this.buffer.subarray(frame.bytes);
+        this.handleFrame(frame);
+      }
+    } catch (error) {
+      if (!(error instanceof WebSocketProtocolError)) throw error;
+      this.fail(error);
+    }
+  }
+
+  private handleFrame(frame: Frame) {
+    this.alive = true;
+    switch (frame.opcode) {
+      case Opcodes.CONTINUATION:
+        if (this.fragmentOpcode === undefined) {
+          throw new WebSocketProtocolError('Continuation frame without a message to continue');
         }
-        case 0x9: {
-          // respond with pong
-          this.socket.write(encodeFrame(frame.payload, 0x0a));
-          break;
+        this.appendFragment(frame);
+        break;
+      case Opcodes.TEXT:
+      case Opcodes.BINARY:
+        if (this.fragmentOpcode !== undefined) {
+          throw new WebSocketProtocolError('New data frame before the previous message ended');
         }
-        case 0x0a: {
-          this.alive = true;
-          break;
+        this.fragmentOpcode = frame.opcode;
+        this.fragmentCompressed = frame.rsv1;
+        this.appendFragment(frame);
+        break;
+      case Opcodes.CLOSE:
+        this.handleClose(frame.payload);
+        break;
+      case Opcodes.PING:
+        if (!this.closeSent) {
+          this.socket.write(encodeFrame(frame.payload, Opcodes.PONG));
         }
-        default:
-          break;
-      }
+        break;
+      default:
+        break;
     }
   }
-}
 
-function decodeFrame(buffer: Buffer): Frame | null {
-  if (buffer.length < 2) return null;
-  const firstByte = buffer[0]!;
-  const opcode = firstByte & 0x0f;
-  const secondByte = buffer[1]!;
-  const masked = Boolean(secondByte & 0x80);
-  let payloadLength = secondByte & 0x7f;
-  let offset = 2;
-
-  if (payloadLength === 126) {
-    if (buffer.length < offset + 2) return null;
-    payloadLength = buffer.readUInt16BE(offset);
-    offset += 2;
-  } else if (payloadLength === 127) {
-    if (buffer.length < offset + 8) return null;
-    const big = buffer.readBigUInt64BE(offset);
-    payloadLength = Number(big);
-    offset += 8;
-  }
+  private appendFragment(frame: Frame) {
+    this.fragmentBytes += frame.payload.length;
+    if (this.fragmentBytes > this.maxPayloadBytes) {
+      throw new WebSocketProtocolError(
+        `Message exceeds ${this.maxPayloadBytes} bytes`,
+        CloseCodes.MESSAGE_TOO_BIG
+      );
+    }
+    this.fragments.push(frame.payload);
+    if (!frame.fin) return;
 
-  const maskLength = masked ? 4 : 0;
-  if (buffer.length < offset + maskLength + payloadLength) return null;
-  const mask = masked ? buffer.subarray(offset, offset + 4) : undefined;
-  offset += maskLength;
-  const payload = buffer.subarray(offset, offset + payloadLength);
-  const unmasked = Buffer.alloc(payloadLength);
-
-  if (masked && mask) {
-    const actualMask = mask;
-    for (let i = 0; i < payloadLength; i += 1) {
-      const maskedByte = payload.readUInt8(i) ^ actualMask.readUInt8(i % 4);
-      unmasked[i] = maskedByte;
+    const binary = this.fragmentOpcode === Opcodes.BINARY;
+    const compressed = this.fragmentCompressed;
+    const payload =
+      this.fragments.length === 1 ? this.fragments[0]! : Buffer.concat(this.fragments);
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.fragmentOpcode = undefined;
+    const { deflate } = this;
+    if (!deflate) {
+      this.deliver(payload, binary);
+      return;
     }
-  } else {
-    payload.copy(unmasked);
+    this.inbound = this.inbound
+      .then(() => (compressed ? deflate.decompress(payload, this.maxPayloadBytes) : payload))
+      .then((data) => {
+        if (!this.closed) this.deliver(data, binary);
+      })
+      .catch((error: unknown) =>
+        this.fail(
+          error instanceof WebSocketProtocolError
+            ? error
+            : new WebSocketProtocolError('Failed to process message', CloseCodes.INTERNAL_ERROR)
+        )
+      );
   }
 
-  return {
-    opcode,
-    payload: unmasked,
-    length: payloadLength,
-    bytes: offset + payloadLength
-  };
-}
-
-function encodeFrame(payload: Buffer, opcode = 0x01) {
-  const payloadLength = payload.length;
-  let headerLength = 2;
-  if (payloadLength >= 126 && payloadLength < 65536) {
-    headerLength += 2;
-  } else if (payloadLength >= 65536) {
-    headerLength += 8;
+  private deliver(payload: Buffer, binary: boolean) {
+    if (!binary && !isUtf8(payload)) {
+      throw new WebSocketProtocolError('Text message is not valid UTF-8', CloseCodes.INVALID_PAYLOAD);
+    }
+    // data arriving after our close frame is discarded, as the handshake allows
+    if (!this.closeSent) {
+      this.onMessage(payload, binary);
+    }
   }
-  const buffer = Buffer.alloc(headerLength + payloadLength);
-  buffer[0] = 0x80 | (opcode & 0x0f);
-  let offset = 2;
-  if (payloadLength < 126) {
-    buffer[1] = payloadLength;
-  } else if (payloadLength < 65536) {
-    buffer[1] = 126;
-    buffer.writeUInt16BE(payloadLength, offset);
-    offset += 2;
-  } else {
-    buffer[1] = 127;
-    buffer.writeBigUInt64BE(BigInt(payloadLength), offset);
-    offset += 8;
+
+  private handleClose(payload: Buffer) {
+    const { code, reason } = parseClosePayload(payload);
+    this.closeReason ??= `client_closed:${code}${reason ? ` ${reason}` : ''}`;
+    if (!this.closeSent) {
+      this.sendClose(code === CloseCodes.NO_STATUS ? CloseCodes.NORMAL : code);
+    }
+    this.socket.end();
+    this.destroy();
   }
-  payload.copy(buffer, headerLength);
-  return buffer;
 }
 
 export class WebSocketTransport extends BaseTransport {
   private readonly server: Server | undefined;
   private httpServer?: Server;
+  /** Settles once the listener is closed and its last connection is gone. */
+  private listenerClosed?: Promise<void>;
+  private stopTlsReload?: () => void;
   private readonly connections = new Map<string, WebSocketConnection>();
-  private readonly options: Required<Pick<WebSocketTransportOptions, 'heartbeatIntervalMs'>> &
-    Omit<WebSocketTransportOptions, 'heartbeatIntervalMs'>;
+  private readonly connectionsPerIp = new Map<string, number>();
+  private readonly options: Required<
+    Pick<WebSocketTransportOptions, 'heartbeatIntervalMs' | 'maxPayloadBytes'>
+  > &
+    Omit<WebSocketTransportOptions, 'heartbeatIntervalMs' | 'maxPayloadBytes'>;
+  private readonly backpressure: ResolvedBackpressure;
+  private readonly codecs: Codec[];
+  private readonly protocolVersions: string[];
 
   constructor(options: WebSocketTransportOptions = {}) {
     super('websocket');
-    this.options = { heartbeatIntervalMs: 30_000, ...options };
+    this.options = { heartbeatIntervalMs: 30_000, maxPayloadBytes: 1024 * 1024, ...options };
+    this.backpressure = resolveBackpressure(options.backpressure);
+    this.codecs = (options.codecs ?? ['json', 'msgpack']).map((codec) =>
+      codecRegistry.resolve(codec)
+    );
+    this.protocolVersions = options.protocolVersions ?? ['v1'];
+    const invalid = this.protocolVersions.find((version) => !isProtocolVersion(version));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid protocol version "${invalid}", expected v<number>`);
+    }
     this.server = options.server;
   }
 
   protected async onStart() {
-    this.httpServer = this.server ?? createServer();
-    this.httpServer.on('upgrade', (req, socket) => this.handleUpgrade(req, socket as Socket));
+    this.httpServer = this.server ?? (await this.createServer());
+    this.listenerClosed = undefined;
+    this.httpServer.on('upgrade', (req, socket: Socket) => {
+      this.handleUpgrade(req, socket).catch((error) => {
+        this.logger.error('Upgrade failed', error);
+        socket.destroy();
+      });
+    });
     if (!this.server) {
       const port = this.options.port ?? 7070;
       const host = this.options.host ?? '0.0.0.0';
+      const scheme = this.options.tls ? 'wss' : 'ws';
       await new Promise<void>((resolve) => this.httpServer!.listen(port, host, resolve));
-      this.logger.info(`WebSocket transport listening on ws://${host}:${port}${this.options.path ?? ''}`);
+      this.logger.info(
+        `WebSocket transport listening on ${scheme}://${host}:${port}${this.options.path ?? ''}`
+      );
     }
   }
 
+  private async createServer(): Promise<Server> {
+    const { tls } = this.options;
+    if (!tls) return createServer();
+    const server = createHttpsServer(await loadTlsOptions(tls));
+    this.stopTlsReload = reloadTlsOnSighup(
+      tls,
+      (options) => server.setSecureContext(options),
+      this.logger
+    );
+    return server;
+  }
+
   protected async onStop() {
+    this.stopTlsReload?.();
+    // each connection leaves the map once its closing handshake completes or times out
     for (const connection of this.connections.values()) {
-      connection.close();
+      connection.close('server_shutdown');
     }
-    this.connections.clear();
+    await this.closeListener();
+  }
+
+  protected onStopAccepting() {
+    // the connections keep running; `stop` waits for the close to complete
+    void this.closeListener();
+  }
+
+  private closeListener() {
     if (this.httpServer && !this.server) {
-      await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+      const server = this.httpServer;
+      this.listenerClosed ??= new Promise<void>((resolve) => server.close(() => resolve()));
     }
+    return this.listenerClosed;
   }
 
-  private handleUpgrade(req: IncomingMessage, socket: Socket) {
+  describe(): TransportOffer {
+    return {
+      name: this.name,
+      path: this.options.path ?? '/',
+      port: this.server ? undefined : (this.options.port ?? 7070),
+      secure: this.options.tls && !this.server ? true : undefined,
+      versions: this.protocolVersions,
+      codecs: this.codecs.map((codec) => codec.name)
+    };
+  }
+
+  private async handleUpgrade(req: IncomingMessage, socket: Socket) {
     if (req.headers.upgrade?.toLowerCase() !== 'websocket') {
       socket.destroy();
       return;
@@ -226,51 +456,174 @@ export class WebSocketTransport extends BaseTransport {
       return;
     }
 
+    if (req.headers['sec-websocket-version'] !== '13') {
+      rejectUpgrade(socket, 426, ['Sec-WebSocket-Version: 13']);
+      return;
+    }
+
+    if (!parseUrl(req.url)) {
+      rejectUpgrade(socket, 400);
+      return;
+    }
+
+    const request = toConnectionRequest(req, 'websocket');
+    const ip = request.remoteAddress ?? 'unknown';
+    const limit = this.options.maxConnectionsPerIp;
+    if (limit !== undefined && (this.connectionsPerIp.get(ip) ?? 0) >= limit) {
+      this.logger.debug('Connection refused, too many connections from', ip);
+      this.hub.refuseConnection('websocket', 'ip_limit', request.remoteAddress);
+      rejectUpgrade(socket, 429);
+      return;
+    }
+    // counted while authentication runs so a burst of upgrades cannot slip past the limit
+    this.trackIp(ip, 1);
+
+    let admission: AuthenticationResult;
+    try {
+      admission = await this.hub.admit(request);
+    } catch (error) {
+      this.trackIp(ip, -1);
+      const status = error instanceof AuthenticationError ? error.status : 500;
+      this.logger.debug('Connection refused', request.remoteAddress, status);
+      rejectUpgrade(socket, status);
+      return;
+    }
+    if (socket.destroyed) {
+      this.trackIp(ip, -1);
+      return;
+    }
+
+    const compression =
+      this.options.compression === true ? {} : this.options.compression || undefined;
+    const deflate = compression
+      ? negotiateDeflate(req.headers['sec-websocket-extensions'], compression)
+      : undefined;
+
+    const { version, codec, protocol } = negotiateSubprotocol(
+      req.headers['sec-websocket-protocol'],
+      this.protocolVersions,
+      this.codecs
+    );
     const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
     const headers = [
       'HTTP/1.1 101 Switching Protocols',
       'Upgrade: websocket',
       'Connection: Upgrade',
       `Sec-WebSocket-Accept: ${accept}`,
+      ...(protocol ? [`Sec-WebSocket-Protocol: ${protocol}`] : []),
+      ...(deflate ? [`Sec-WebSocket-Extensions: ${deflate.response}`] : []),
       '\r\n'
     ];
     socket.write(headers.join('\r\n'));
 
-    this.createConnection(socket);
-  }
-
-  private createConnection(socket: Socket) {
-    const id = randomUUID();
-    const connection = new WebSocketConnection(
+    const perMessageDeflate = deflate && new PerMessageDeflate(deflate.params, compression);
+    this.createConnection(
       socket,
-      this.options.heartbeatIntervalMs,
-      (payload) => this.handleRawPayload(id, payload),
-      () => this.handleDisconnect(id)
+      admission,
+      ip,
+      { version, codec },
+      readSessionToken(req),
+      perMessageDeflate
     );
-    this.connections.set(id, connection);
+  }
+
+  private createConnection(
+    socket: Socket,
+    admission: AuthenticationResult,
+    ip: string,
+    { version, codec }: { version: string; codec: Codec },
+    sessionToken?: string,
+    deflate?: PerMessageDeflate
+  ) {
+    const id = this.hub.resumeSession(sessionToken, admission.user) ?? randomUUID();
     const client: TransportClient = {
       id,
       transport: 'websocket',
       connectedAt: Date.now(),
-      metadata: {},
+      user: admission.user,
+      metadata: { ...admission.metadata },
       rooms: [],
+      protocolVersion: version,
+      resumable: true,
       send: (message) => connection.send(message),
-      close: () => connection.close()
+      close: (reason) => connection.close(reason)
     };
+    const connection: WebSocketConnection = new WebSocketConnection(
+      socket,
+      this.options.heartbeatIntervalMs,
+      this.options.maxPayloadBytes,
+      this.backpressure,
+      (payload) => this.handleRawPayload(id, payload, codec),
+      (reason) => {
+        this.trackIp(ip, -1);
+        this.handleDisconnect(client, connection, reason);
+      },
+      (overflow) => this.hub.reportSlowClient(id, 'websocket', overflow),
+      (bytes) => this.hub.trackQueuedBytes(id, 'websocket', bytes),
+      codec,
+      deflate
+    );
+    this.connections.set(id, connection);
     this.hub.registerClient(client);
   }
 
-  private handleRawPayload(clientId: string, payload: string) {
-    const message = safeParse<RealtimeMessage>(payload);
-    if (!message || !message.type) {
-      this.logger.error('Received invalid payload', payload);
+  /** Messages are decoded with the connection's codec, whatever the frame type. */
+  private handleRawPayload(clientId: string, data: Buffer, codec: Codec) {
+    let message: RealtimeMessage | undefined;
+    try {
+      message = codec.decode(data) as RealtimeMessage | undefined;
+    } catch {
+      message = undefined;
+    }
+    if (!message || typeof message.type !== 'string') {
+      this.logger.error(
+        'Received invalid payload',
+        codec.binary ? `${data.length} bytes of ${codec.name}` : data.toString('utf8')
+      );
       return;
     }
     this.hub.receive(message, clientId);
   }
 
-  private handleDisconnect(clientId: string) {
-    this.connections.delete(clientId);
-    this.hub.unregisterClient(clientId);
+  private trackIp(ip: string, delta: number) {
+    const count = (this.connectionsPerIp.get(ip) ?? 0) + delta;
+    if (count > 0) {
+      this.connectionsPerIp.set(ip, count);
+    } else {
+      this.connectionsPerIp.delete(ip);
+    }
   }
+
+  private handleDisconnect(
+    client: TransportClient,
+    connection: WebSocketConnection,
+    reason?: string
+  ) {
+    // a resumed session may already be served by a newer connection, here or on another transport
+    if (this.connections.get(client.id) !== connection) return;
+    this.connections.delete(client.id);
+    this.hub.trackQueuedBytes(client.id, 'websocket', 0);
+    this.hub.unregisterClient(client.id, reason, client);
+  }
+}
+
+function rejectUpgrade(socket: Socket, status: number, headers: string[] = []) {
+  const body = STATUS_CODES[status] ?? 'Error';
+  socket.end(
+    [
+      `HTTP/1.1 ${status} ${body}`,
+      'Connection: close',
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      `Content-Length: ${Buffer.byteLength(body)}`,
+      '',
+      body
+    ].join('\r\n')
+  );
+}
+
+function readSessionToken(req: IncomingMessage) {
+  const header = req.headers['x-realtime-session'];
+  if (typeof header === 'string' && header) return header;
+  return parseQuery(req.url).session;
 }
@@ -1,4 +1,17 @@
-import { EventTemplate } from '../core/eventTypeBuilder.js';
+import type {
+  EventTemplate,
+  TemplateEventName,
+  TemplateParams,
+  TemplateParamValue
+} from '../core/eventTypeBuilder.js';
+import type { RealtimeErrorCode } from '../core/errors.js';
+import type { HubAdapter } from '../core/hubAdapter.js';
+import type { PolicyOptions } from '../core/policyEngine.js';
+import type { ProtocolAdapter } from '../core/protocol.js';
+import type { RateLimitOptions } from '../core/rateLimiter.js';
+import type { HistoryOptions, HistoryReplay } from '../core/roomHistory.js';
+import type { SessionOptions } from '../core/sessionManager.js';
+import type { SchemaAdapter, ValidationIssue } from '../core/validation.js';
 import type { BaseTransport } from '../transports/base.js';
 
 export type RealtimeEventMap = Record<string, unknown>;
@@ -19,8 +32,39 @@ export type RealtimeEventMessage<
 
 export type SystemEventMap = {
   'system:ack': { ack: string };
-  'system:error': { message: string; details?: string };
+  'system:error': {
+    message: string;
+    code?: RealtimeErrorCode | (string & {});
+    details?: string;
+    issues?: ValidationIssue[];
+    /** Set on `RATE_LIMITED` errors. */
+    retryAfterMs?: number;
+    ack?: string;
+  };
   'system:reply': { message: string };
+  'system:session': {
+    clientId: string;
+    token: string;
+    resumed: boolean;
+    dropped: number;
+    graceMs: number;
+  };
+  'system:rpc': { id: string; procedure: string; input?: unknown; timeoutMs?: number };
+  'system:rpc:result': {
+    id: string;
+    output?: unknown;
+    error?: { code: string; message: string; details?: string };
+  };
+  'system:rpc:cancel': { id: string };
+  /**
+   * With `since`, the room's messages after that sequence of `epoch` are replayed, then
+   * `system:history`.
+   */
+  'system:join': { since?: number; epoch?: string } | undefined;
+  'system:leave': undefined;
+  /** The node is going away: reconnect after `delayMs`, the new connection lands on another one. */
+  'system:reconnect': { delayMs: number };
+  'system:history': HistoryReplay;
 };
 
 export type KernelEventMap<Events extends RealtimeEventMap = RealtimeEventMap> = Events & SystemEventMap;
@@ -30,21 +74,35 @@ export type OutboundMessage<
   Type extends EventName<Events> = EventName<Events>
 > = RealtimeEventMessage<Events, Type> & {
   timestamp?: number;
+  /** Position in the room's history, on room broadcasts when the hub keeps one. */
+  seq?: number;
+  /** Numbering `seq` belongs to: one per node, and per run without a persistent store. */
+  epoch?: string;
 };
 
 export interface ClientMetadata {
   [key: string]: unknown;
 }
 
+export interface ClientIdentity {
+  id: string;
+  [key: string]: unknown;
+}
+
 export interface ClientContext {
   id: string;
   transport: string;
+  user?: ClientIdentity;
   metadata?: ClientMetadata;
   connectedAt: number;
   rooms: string[];
+  /** Protocol version negotiated by transports that support several (e.g. `v2`). */
+  protocolVersion?: string;
 }
 
 export interface TransportClient<Events extends RealtimeEventMap = RealtimeEventMap> extends ClientContext {
+  /** Set by transports whose clients can reconnect with a session token. */
+  resumable?: boolean;
   send(message: OutboundMessage<KernelEventMap<Events>>): void;
   close(reason?: string): void;
 }
@@ -54,15 +112,21 @@ export interface BroadcastOptions {
   except?: string[];
 }
 
-export interface PresenceSnapshot extends ClientContext {}
+export interface PresenceSnapshot extends ClientContext {
+  /** Mesh node the client is connected to; unset for clients of this node. */
+  node?: string;
+}
 
 export interface HandlerToolkit<Events extends RealtimeEventMap = RealtimeEventMap> {
   reply(message: OutboundMessage<KernelEventMap<Events>> | string, overrides?: Partial<OutboundMessage<KernelEventMap<Events>>>): void;
   send(targetId: string, message: OutboundMessage<KernelEventMap<Events>>): void;
   broadcast(message: OutboundMessage<KernelEventMap<Events>>, filter?: (context: ClientContext) => boolean): void;
   rooms: {
+    /** Throws a `PolicyError` when the room policy refuses the client. */
     join(name: string): void;
     leave(name: string): void;
+    /** Lets a client (or user id) into an invite-only room; the caller must be a member. */
+    invite(name: string, clientOrUserId: string): void;
     list(): string[];
     broadcast(
       message: OutboundMessage<KernelEventMap<Events>>,
@@ -75,6 +139,8 @@ export interface HandlerToolkit<Events extends RealtimeEventMap = RealtimeEventM
     get(clientId: string): PresenceSnapshot | undefined;
     update(metadata: ClientMetadata): void;
   };
+  /** Per-message state shared with middleware (`context.state`). */
+  state: Record<string, unknown>;
   log: (...args: unknown[]) => void;
 }
 
@@ -84,11 +150,92 @@ export type RealtimeHandler<
 > = (
   message: RealtimeEventMessage<Events, Type>,
   context: ClientContext,
-  toolkit: HandlerToolkit<Events>
+  toolkit: HandlerToolkit<Events>,
+  params: Record<string, TemplateParamValue>
+) => Promise<void> | void;
+
+/** Handler registered on a template; `params` holds the typed placeholder values. */
+export type TemplateHandler<
+  Events extends RealtimeEventMap = RealtimeEventMap,
+  Template extends EventTemplate = EventTemplate
+> = (
+  message: RealtimeMessage<
+    TemplateEventName<Template>,
+    Template extends keyof Events ? Events[Template] : unknown
+  >,
+  context: ClientContext,
+  toolkit: HandlerToolkit<Events>,
+  params: TemplateParams<Template>
 ) => Promise<void> | void;
 
-export interface KernelOptions<EventTemplates extends readonly EventTemplate[] = readonly EventTemplate[]> {
+export interface ConnectionRequest {
+  transport: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, string>;
+  cookies: Record<string, string>;
+  remoteAddress?: string;
+}
+
+/** How clients reach a transport, as listed by handshake endpoints. */
+export interface TransportOffer {
+  name: string;
+  /** Path on the server, e.g. `/realtime`. */
+  path?: string;
+  /** Set when the transport listens on its own port. */
+  port?: number;
+  /** Set when that port serves TLS (`wss://`, `https://`). */
+  secure?: boolean;
+  /** Protocol versions and codecs it negotiates, when it negotiates any. */
+  versions?: string[];
+  codecs?: string[];
+}
+
+export interface AuthenticationResult {
+  user?: ClientIdentity;
+  metadata?: ClientMetadata;
+}
+
+/**
+ * Connection admission hook. Return `false` or throw an `AuthenticationError` to refuse the
+ * connection; the transport answers with the error status (401 by default).
+ */
+export type Authenticator = (
+  request: ConnectionRequest
+) => Promise<AuthenticationResult | false | void> | AuthenticationResult | false | void;
+
+export interface KernelOptions<
+  EventTemplates extends readonly EventTemplate[] = readonly EventTemplate[],
+  Events extends RealtimeEventMap = RealtimeEventMap
+> {
   templates?: EventTemplates;
+  /** Payload schemas keyed by event name (or template); the kernel's `Events` type is inferred from them. */
+  schemas?: { [Type in keyof Events]?: SchemaAdapter<Events[Type]> };
   transports?: BaseTransport[];
+  sessions?: SessionOptions | boolean;
+  /** Keeps and numbers room broadcasts so that joining clients can catch up. */
+  history?: HistoryOptions | boolean;
+  authenticate?: Authenticator;
+  policies?: PolicyOptions;
+  /** Token-bucket limits on inbound messages and room broadcasts, with escalation on abuse. */
+  rateLimits?: RateLimitOptions;
+  /** Adapters keyed by protocol version, translating older envelopes to and from the current one. */
+  protocols?: Record<string, ProtocolAdapter>;
+  /** Default timeout for procedures and server-to-client calls. */
+  rpcTimeoutMs?: number;
+  /** Shares rooms, presence and sends with the kernels of other machines, e.g. a `RedisAdapter`. */
+  adapter?: HubAdapter;
   logLevel?: 'silent' | 'error' | 'info' | 'debug';
 }
+
+export interface DrainOptions {
+  /** Clients reconnect after a random delay up to this, so they do not all come back at once (5 s by default). */
+  reconnectJitterMs?: number;
+  /** Longest wait before the remaining clients and handlers are left to `stop` (15 s by default). */
+  timeoutMs?: number;
+  /**
+   * `clients` (default) waits for the clients to reconnect elsewhere and for in-flight handlers;
+   * `handlers` only for the handlers, the clients still connected are then closed by `stop`.
+   */
+  waitFor?: 'clients' | 'handlers';
+}
@@ -0,0 +1,35 @@
+/** Stream framing shared by socket transports: a 32-bit big-endian length, then the payload. */
+
+export interface LengthPrefixedFrame {
+  payload: Buffer;
+  /** Bytes consumed from the input, prefix included. */
+  bytes: number;
+}
+
+export function encodeLengthPrefixed(payload: string | Uint8Array) {
+  const body =
+    typeof payload === 'string'
+      ? Buffer.from(payload, 'utf8')
+      : Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength);
+  const frame = Buffer.allocUnsafe(4 + body.length);
+  frame.writeUInt32BE(body.length, 0);
+  body.copy(frame, 4);
+  return frame;
+}
+
+/**
+ * Decodes one frame from the start of `buffer`, or returns null until it is complete. Throws as
+ * soon as the prefix announces more than `maxFrameBytes`, before the payload is buffered.
+ */
+export function decodeLengthPrefixed(
+  buffer: Buffer,
+  maxFrameBytes: number,
+): LengthPrefixedFrame | null {
+  if (buffer.length < 4) return null;
+  const length = buffer.readUInt32BE(0);
+  if (length > maxFrameBytes) {
+    throw new RangeError(`Frame of ${length} bytes exceeds ${maxFrameBytes} bytes`);
+  }
+  if (buffer.length < 4 + length) return null;
+  return { payload: buffer.subarray(4, 4 + length), bytes: 4 + length };
+}
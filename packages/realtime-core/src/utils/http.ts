@@ -0,0 +1,164 @@
+import {
+  STATUS_CODES,
+  type IncomingMessage,
+  type OutgoingHttpHeaders,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { ConnectionRequest } from '../types/index.js';
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index < 0) continue;
+    const name = part.slice(0, index).trim();
+    if (!name) continue;
+    const raw = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(raw);
+    } catch {
+      cookies[name] = raw;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Parses a request target, which Node hands over unchecked: `//[` is a valid one that `URL`
+ * refuses. Returns undefined for those, which transports answer with 400.
+ */
+export function parseUrl(url: string | undefined): URL | undefined {
+  try {
+    return new URL(url ?? '/', 'http://localhost');
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseQuery(url: string | undefined): Record<string, string> {
+  return Object.fromEntries(parseUrl(url)?.searchParams ?? []);
+}
+
+export function toConnectionRequest(req: IncomingMessage, transport: string): ConnectionRequest {
+  return {
+    transport,
+    url: req.url ?? '/',
+    headers: req.headers,
+    query: parseQuery(req.url),
+    cookies: parseCookies(req.headers.cookie),
+    remoteAddress: req.socket.remoteAddress,
+  };
+}
+
+/** A request the transport answers with `status` instead of handling it. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message = STATUS_CODES[status] ?? 'Error',
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** Answers with a bare status; the body is the status text except for 204. */
+export function sendStatus(
+  res: ServerResponse,
+  status: number,
+  headers: OutgoingHttpHeaders = {},
+  body = STATUS_CODES[status] ?? 'Error',
+) {
+  if (status === 204) {
+    res.writeHead(status, headers).end();
+    return;
+  }
+  res
+    .writeHead(status, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Length': Buffer.byteLength(body),
+      ...headers,
+    })
+    .end(body);
+}
+
+export function sendJson(res: ServerResponse, status: number, value: unknown) {
+  const body = JSON.stringify(value);
+  res
+    .writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(body),
+      'Cache-Control': 'no-store',
+    })
+    .end(body);
+}
+
+/** Buffers a request body; rejects with a 413 `HttpError` as soon as it exceeds `maxBytes`. */
+export function readBody(req: IncomingMessage, maxBytes: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let total = 0;
+    const onData = (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        req.off('data', onData);
+        // the rest is read and discarded so the 413 can still be delivered
+        req.resume();
+        reject(new HttpError(413));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.once('end', () => resolve(Buffer.concat(chunks, total)));
+    req.once('error', reject);
+  });
+}
+
+type RequestListener = (req: IncomingMessage, res: ServerResponse) => void;
+
+/** Listeners installed by `mountRequestHandler`, with the listeners they stand in front of. */
+const mounts = new WeakMap<RequestListener, { previous: RequestListener[]; active: boolean }>();
+
+/** Replaces the unmounted handlers in `listeners` by the listeners they stood in front of. */
+function liveListeners(listeners: RequestListener[]): RequestListener[] {
+  return listeners.flatMap((listener) => {
+    const mount = mounts.get(listener);
+    return mount && !mount.active ? liveListeners(mount.previous) : [listener];
+  });
+}
+
+/**
+ * Routes the requests `handler` accepts (by returning true) to it and lets the server's existing
+ * `request` listeners serve the others. Returns a function removing the handler again.
+ *
+ * Several handlers may share a server and unmount in any order: a handler that is still on top
+ * puts back the listeners it replaced, while one that a later handler sits in front of only turns
+ * into a pass-through, so the chain never calls a stopped handler or a listener twice.
+ */
+export function mountRequestHandler(
+  server: Server,
+  handler: (req: IncomingMessage, res: ServerResponse) => boolean,
+) {
+  const mount = { previous: server.listeners('request') as RequestListener[], active: true };
+  const listener: RequestListener = (req, res) => {
+    if (mount.active && handler(req, res)) return;
+    const fallbacks = liveListeners(mount.previous);
+    if (!fallbacks.length) {
+      sendStatus(res, 404);
+      return;
+    }
+    fallbacks.forEach((fallback) => fallback.call(server, req, res));
+  };
+  mounts.set(listener, mount);
+  server.removeAllListeners('request');
+  server.on('request', listener);
+  return () => {
+    if (!mount.active) return;
+    mount.active = false;
+    if (!server.listeners('request').includes(listener)) return;
+    server.off('request', listener);
+    liveListeners(mount.previous).forEach((fallback) => server.on('request', fallback));
+  };
+}
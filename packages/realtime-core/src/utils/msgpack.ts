@@ -0,0 +1,300 @@
+/**
+ * MessagePack encoder and decoder (https://msgpack.org/), platform neutral so the browser client
+ * shares it. Values follow JSON semantics where MessagePack has no better answer: `toJSON` is
+ * honoured and undefined object members are skipped. Byte arrays travel as `bin` and decode to
+ * `Uint8Array`; extension types are refused.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+class Encoder {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private offset = 0;
+
+  encode(value: unknown) {
+    this.write(value, 0);
+    return this.bytes.slice(0, this.offset);
+  }
+
+  private write(value: unknown, depth: number) {
+    if (depth > 512) {
+      throw new RangeError('MessagePack value is nested too deeply');
+    }
+    if (value === null || value === undefined) {
+      this.uint8(0xc0);
+    } else if (typeof value === 'boolean') {
+      this.uint8(value ? 0xc3 : 0xc2);
+    } else if (typeof value === 'number') {
+      this.number(value);
+    } else if (typeof value === 'bigint') {
+      this.bigint(value);
+    } else if (typeof value === 'string') {
+      this.string(value);
+    } else if (value instanceof Uint8Array) {
+      this.binary(value);
+    } else if (ArrayBuffer.isView(value)) {
+      this.binary(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+    } else if (value instanceof ArrayBuffer) {
+      this.binary(new Uint8Array(value));
+    } else if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      this.write((value as { toJSON(): unknown }).toJSON(), depth + 1);
+    } else if (Array.isArray(value)) {
+      this.header(value.length, 0x90, 0xdc);
+      value.forEach((item) => this.write(item, depth + 1));
+    } else if (typeof value === 'object') {
+      const entries = Object.entries(value).filter(
+        ([, item]) => item !== undefined && typeof item !== 'function' && typeof item !== 'symbol',
+      );
+      this.header(entries.length, 0x80, 0xde);
+      for (const [key, item] of entries) {
+        this.string(key);
+        this.write(item, depth + 1);
+      }
+    } else {
+      // functions and symbols, which JSON drops as well
+      this.uint8(0xc0);
+    }
+  }
+
+  private number(value: number) {
+    if (!Number.isSafeInteger(value)) {
+      this.ensure(9);
+      this.bytes[this.offset] = 0xcb;
+      this.view.setFloat64(this.offset + 1, value);
+      this.offset += 9;
+    } else if (value >= 0) {
+      if (value < 0x80) this.uint8(value);
+      else if (value < 0x100) this.typed(0xcc, 1, (at) => this.view.setUint8(at, value));
+      else if (value < 0x10000) this.typed(0xcd, 2, (at) => this.view.setUint16(at, value));
+      else if (value < 0x100000000) this.typed(0xce, 4, (at) => this.view.setUint32(at, value));
+      else this.typed(0xcf, 8, (at) => this.view.setBigUint64(at, BigInt(value)));
+    } else if (value >= -32) {
+      this.uint8(value & 0xff);
+    } else if (value >= -0x80) {
+      this.typed(0xd0, 1, (at) => this.view.setInt8(at, value));
+    } else if (value >= -0x8000) {
+      this.typed(0xd1, 2, (at) => this.view.setInt16(at, value));
+    } else if (value >= -0x80000000) {
+      this.typed(0xd2, 4, (at) => this.view.setInt32(at, value));
+    } else {
+      this.typed(0xd3, 8, (at) => this.view.setBigInt64(at, BigInt(value)));
+    }
+  }
+
+  private bigint(value: bigint) {
+    if (value >= 0n && value < 1n << 64n) {
+      this.typed(0xcf, 8, (at) => this.view.setBigUint64(at, value));
+    } else if (value < 0n && value >= -(1n << 63n)) {
+      this.typed(0xd3, 8, (at) => this.view.setBigInt64(at, value));
+    } else {
+      throw new RangeError('BigInt does not fit in 64 bits');
+    }
+  }
+
+  private string(value: string) {
+    const encoded = textEncoder.encode(value);
+    const { length } = encoded;
+    if (length < 32) this.uint8(0xa0 | length);
+    else if (length < 0x100) this.typed(0xd9, 1, (at) => this.view.setUint8(at, length));
+    else if (length < 0x10000) this.typed(0xda, 2, (at) => this.view.setUint16(at, length));
+    else this.typed(0xdb, 4, (at) => this.view.setUint32(at, length));
+    this.raw(encoded);
+  }
+
+  private binary(value: Uint8Array) {
+    const { length } = value;
+    if (length < 0x100) this.typed(0xc4, 1, (at) => this.view.setUint8(at, length));
+    else if (length < 0x10000) this.typed(0xc5, 2, (at) => this.view.setUint16(at, length));
+    else this.typed(0xc6, 4, (at) => this.view.setUint32(at, length));
+    this.raw(value);
+  }
+
+  /** Array and map headers: a fix form for up to 15 items, then 16 and 32-bit lengths. */
+  private header(length: number, fix: number, sized: number) {
+    if (length < 16) this.uint8(fix | length);
+    else if (length < 0x10000) this.typed(sized, 2, (at) => this.view.setUint16(at, length));
+    else this.typed(sized + 1, 4, (at) => this.view.setUint32(at, length));
+  }
+
+  private typed(type: number, size: number, write: (at: number) => void) {
+    this.ensure(1 + size);
+    this.bytes[this.offset] = type;
+    write(this.offset + 1);
+    this.offset += 1 + size;
+  }
+
+  private uint8(value: number) {
+    this.ensure(1);
+    this.bytes[this.offset] = value;
+    this.offset += 1;
+  }
+
+  private raw(value: Uint8Array) {
+    this.ensure(value.length);
+    this.bytes.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  private ensure(size: number) {
+    if (this.offset + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.offset));
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+}
+
+class Decoder {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  decode() {
+    const value = this.read(0);
+    if (this.offset !== this.bytes.length) {
+      throw new RangeError('Unexpected bytes after the MessagePack value');
+    }
+    return value;
+  }
+
+  private read(depth: number): unknown {
+    if (depth > 512) {
+      throw new RangeError('MessagePack value is nested too deeply');
+    }
+    const type = this.uint(1);
+    if (type < 0x80) return type;
+    if (type < 0x90) return this.map(type & 0x0f, depth);
+    if (type < 0xa0) return this.array(type & 0x0f, depth);
+    if (type < 0xc0) return this.string(type & 0x1f);
+    if (type >= 0xe0) return type - 0x100;
+
+    switch (type) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+      case 0xc5:
+      case 0xc6:
+        return new Uint8Array(this.take(this.uint(1 << (type - 0xc4))));
+      case 0xca:
+        return this.view.getFloat32(this.advance(4));
+      case 0xcb:
+        return this.view.getFloat64(this.advance(8));
+      case 0xcc:
+      case 0xcd:
+      case 0xce:
+        return this.uint(1 << (type - 0xcc));
+      case 0xcf:
+        return toNumber(this.view.getBigUint64(this.advance(8)));
+      case 0xd0:
+        return this.view.getInt8(this.advance(1));
+      case 0xd1:
+        return this.view.getInt16(this.advance(2));
+      case 0xd2:
+        return this.view.getInt32(this.advance(4));
+      case 0xd3:
+        return toNumber(this.view.getBigInt64(this.advance(8)));
+      case 0xd9:
+      case 0xda:
+      case 0xdb:
+        return this.string(this.uint(1 << (type - 0xd9)));
+      case 0xdc:
+      case 0xdd:
+        return this.array(this.uint(type === 0xdc ? 2 : 4), depth);
+      case 0xde:
+      case 0xdf:
+        return this.map(this.uint(type === 0xde ? 2 : 4), depth);
+      default:
+        throw new RangeError(`Unsupported MessagePack type 0x${type.toString(16)}`);
+    }
+  }
+
+  private array(length: number, depth: number) {
+    // every item takes at least one byte, which bounds what a forged length can allocate
+    this.expect(length);
+    const items: unknown[] = new Array(length);
+    for (let i = 0; i < length; i += 1) {
+      items[i] = this.read(depth + 1);
+    }
+    return items;
+  }
+
+  private map(length: number, depth: number) {
+    this.expect(length * 2);
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i += 1) {
+      const key = this.read(depth + 1);
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        throw new RangeError('MessagePack map keys must be strings or numbers');
+      }
+      const value = this.read(depth + 1);
+      // as with JSON.parse, `__proto__` becomes an own property rather than the prototype
+      Object.defineProperty(result, String(key), {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+
+  private string(length: number) {
+    return textDecoder.decode(this.take(length));
+  }
+
+  private uint(size: number) {
+    const at = this.advance(size);
+    switch (size) {
+      case 1:
+        return this.view.getUint8(at);
+      case 2:
+        return this.view.getUint16(at);
+      default:
+        return this.view.getUint32(at);
+    }
+  }
+
+  private take(length: number) {
+    const at = this.advance(length);
+    return this.bytes.subarray(at, at + length);
+  }
+
+  private advance(size: number) {
+    this.expect(size);
+    const at = this.offset;
+    this.offset += size;
+    return at;
+  }
+
+  private expect(size: number) {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError('Truncated MessagePack data');
+    }
+  }
+}
+
+/** 64-bit integers come back as numbers when exact, as bigint otherwise. */
+const toNumber = (value: bigint) =>
+  value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+
+export function encodeMsgpack(value: unknown): Uint8Array {
+  return new Encoder().encode(value);
+}
+
+/** Decodes exactly one value; throws on truncated, trailing or unsupported data. */
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  return new Decoder(bytes).decode();
+}
@@ -0,0 +1,227 @@
+import {
+  constants,
+  createDeflateRaw,
+  createInflateRaw,
+  type DeflateRaw,
+  type InflateRaw,
+} from 'node:zlib';
+import { CloseCodes, WebSocketProtocolError } from './websocketFrames.js';
+
+export interface CompressionOptions {
+  /** Messages smaller than this many bytes are sent uncompressed (1 KiB by default). */
+  threshold?: number;
+  /** Reset the server compressor after every message: less memory, lower ratio. */
+  serverNoContextTakeover?: boolean;
+  /** Ask clients to reset their compressor after every message, so we keep no inflate window. */
+  clientNoContextTakeover?: boolean;
+  /** LZ77 window of the server compressor, 9 to 15; the dominant per-connection memory cost. */
+  serverMaxWindowBits?: number;
+  /** Window clients may use, 9 to 15, applied when their offer allows it. */
+  clientMaxWindowBits?: number;
+  /** zlib compression level, 0 to 9. */
+  level?: number;
+  /** zlib memory level, 1 to 9. */
+  memLevel?: number;
+}
+
+/** Parameters agreed with one client. */
+export interface DeflateParams {
+  serverNoContextTakeover: boolean;
+  clientNoContextTakeover: boolean;
+  serverMaxWindowBits: number;
+  clientMaxWindowBits: number;
+}
+
+const EXTENSION = 'permessage-deflate';
+const TRAILER = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+
+const parseWindowBits = (value: string | true) => {
+  if (value === true) return undefined;
+  const bits = Number(value);
+  // zlib cannot deflate with an 8-bit window, so such offers are declined
+  return /^\d+$/.test(value) && bits >= 9 && bits <= 15 ? bits : NaN;
+};
+
+/** Splits a `Sec-WebSocket-Extensions` header into offers and their parameters. */
+const parseOffers = (header: string) =>
+  header.split(',').map((offer) => {
+    const [name = '', ...params] = offer.split(';').map((part) => part.trim());
+    return {
+      name,
+      params: params.map((param) => {
+        const [key = '', value] = param.split('=').map((part) => part.trim());
+        return { key, value: value === undefined ? (true as const) : value.replace(/^"|"$/g, '') };
+      }),
+    };
+  });
+
+/**
+ * Picks the first acceptable permessage-deflate offer (RFC 7692 section 7.1) and returns the
+ * agreed parameters with the matching response header value.
+ */
+export function negotiateDeflate(
+  header: string | undefined,
+  options: CompressionOptions,
+): { params: DeflateParams; response: string } | undefined {
+  if (!header) return undefined;
+  for (const offer of parseOffers(header)) {
+    if (offer.name !== EXTENSION) continue;
+    const seen = new Set<string>();
+    let valid = true;
+    let serverBits: number | undefined;
+    let clientBits: number | true | undefined;
+    let serverNoContextTakeover = options.serverNoContextTakeover ?? false;
+
+    for (const { key, value } of offer.params) {
+      if (seen.has(key)) valid = false;
+      seen.add(key);
+      if (key === 'server_no_context_takeover' && value === true) {
+        serverNoContextTakeover = true;
+      } else if (key === 'client_no_context_takeover' && value === true) {
+        // the client announces it can; we only hold it to that when configured to
+      } else if (key === 'server_max_window_bits' && value !== true) {
+        serverBits = parseWindowBits(value);
+        if (Number.isNaN(serverBits)) valid = false;
+      } else if (key === 'client_max_window_bits') {
+        const bits = parseWindowBits(value);
+        if (Number.isNaN(bits)) valid = false;
+        clientBits = bits ?? true;
+      } else {
+        valid = false;
+      }
+    }
+    if (!valid) continue;
+
+    const serverMaxWindowBits = Math.min(serverBits ?? 15, options.serverMaxWindowBits ?? 15);
+    const clientMaxWindowBits =
+      clientBits === undefined
+        ? 15
+        : Math.min(clientBits === true ? 15 : clientBits, options.clientMaxWindowBits ?? 15);
+    const clientNoContextTakeover = options.clientNoContextTakeover ?? false;
+
+    const response = [EXTENSION];
+    if (serverNoContextTakeover) response.push('server_no_context_takeover');
+    if (clientNoContextTakeover) response.push('client_no_context_takeover');
+    if (serverBits !== undefined || options.serverMaxWindowBits !== undefined) {
+      response.push(`server_max_window_bits=${serverMaxWindowBits}`);
+    }
+    if (clientBits !== undefined && (clientBits !== true || options.clientMaxWindowBits)) {
+      response.push(`client_max_window_bits=${clientMaxWindowBits}`);
+    }
+    return {
+      params: {
+        serverNoContextTakeover,
+        clientNoContextTakeover,
+        serverMaxWindowBits,
+        clientMaxWindowBits,
+      },
+      response: response.join('; '),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Per-connection compressor and decompressor. Calls must not overlap: the connection serializes
+ * them so messages keep their order.
+ */
+export class PerMessageDeflate {
+  private deflate?: DeflateRaw;
+  private inflate?: InflateRaw;
+
+  constructor(
+    readonly params: DeflateParams,
+    private readonly options: CompressionOptions = {},
+  ) {}
+
+  get threshold() {
+    return this.options.threshold ?? 1024;
+  }
+
+  compress(data: Buffer) {
+    const deflate = (this.deflate ??= createDeflateRaw({
+      level: this.options.level ?? constants.Z_DEFAULT_COMPRESSION,
+      memLevel: this.options.memLevel ?? 8,
+      windowBits: this.params.serverMaxWindowBits,
+    }));
+    return this.run(deflate, data, Infinity).then((output) => {
+      if (this.params.serverNoContextTakeover) this.resetDeflate();
+      // RFC 7692 section 7.2.1: the sync flush trailer is not sent
+      return output.subarray(
+        0,
+        output.length - (output.subarray(-4).equals(TRAILER) ? TRAILER.length : 0),
+      );
+    });
+  }
+
+  /** Inflates a message, failing with 1009 as soon as the output exceeds `maxBytes`. */
+  decompress(data: Buffer, maxBytes: number) {
+    const inflate = (this.inflate ??= createInflateRaw({
+      windowBits: this.params.clientMaxWindowBits,
+    }));
+    return this.run(inflate, Buffer.concat([data, TRAILER]), maxBytes).then(
+      (output) => {
+        if (this.params.clientNoContextTakeover) this.resetInflate();
+        return output;
+      },
+      (error: unknown) => {
+        this.resetInflate();
+        throw error instanceof WebSocketProtocolError
+          ? error
+          : new WebSocketProtocolError('Invalid compressed data', CloseCodes.INVALID_PAYLOAD);
+      },
+    );
+  }
+
+  close() {
+    this.resetDeflate();
+    this.resetInflate();
+  }
+
+  private run(stream: DeflateRaw | InflateRaw, input: Buffer, maxBytes: number) {
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let total = 0;
+      const cleanup = () => {
+        stream.off('data', onData);
+        stream.off('error', onError);
+      };
+      const onData = (chunk: Buffer) => {
+        total += chunk.length;
+        if (total > maxBytes) {
+          cleanup();
+          reject(
+            new WebSocketProtocolError(
+              `Inflated message exceeds ${maxBytes} bytes`,
+              CloseCodes.MESSAGE_TOO_BIG,
+            ),
+          );
+          return;
+        }
+        chunks.push(chunk);
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      stream.on('data', onData);
+      stream.on('error', onError);
+      stream.write(input);
+      stream.flush(constants.Z_SYNC_FLUSH, () => {
+        if (total > maxBytes) return;
+        cleanup();
+        resolve(Buffer.concat(chunks, total));
+      });
+    });
+  }
+
+  private resetDeflate() {
+    this.deflate?.close();
+    this.deflate = undefined;
+  }
+
+  private resetInflate() {
+    this.inflate?.close();
+    this.inflate = undefined;
+  }
+}
@@ -0,0 +1,67 @@
+/** RESP2, the wire protocol of Redis and of the brokers compatible with it. */
+
+/** An error reply (`-ERR ...`) sent by the server. */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+/** Simple strings decode to strings, bulk strings to buffers, nil to null. */
+export type RespValue = string | number | Buffer | null | RespError | RespValue[];
+
+export interface RespReply {
+  value: RespValue;
+  /** Bytes consumed from the input. */
+  bytes: number;
+}
+
+/** Encodes a command as an array of bulk strings, the form servers accept from clients. */
+export function encodeCommand(args: Array<string | Buffer>) {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const body = typeof arg === 'string' ? Buffer.from(arg, 'utf8') : arg;
+    parts.push(Buffer.from(`$${body.length}\r\n`), body, Buffer.from('\r\n'));
+  }
+  return Buffer.concat(parts);
+}
+
+/** Decodes one reply from `offset` in `buffer`, or returns null until it is complete. */
+export function decodeReply(buffer: Buffer, offset = 0): RespReply | null {
+  const end = buffer.indexOf('\r\n', offset);
+  if (end < 0) return null;
+  const line = buffer.toString('utf8', offset + 1, end);
+  const next = end + 2;
+  switch (buffer[offset]) {
+    case 0x2b: // +
+      return { value: line, bytes: next - offset };
+    case 0x2d: // -
+      return { value: new RespError(line), bytes: next - offset };
+    case 0x3a: // :
+      return { value: Number(line), bytes: next - offset };
+    case 0x24: {
+      // $
+      const length = Number(line);
+      if (length < 0) return { value: null, bytes: next - offset };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.subarray(next, next + length), bytes: next + length + 2 - offset };
+    }
+    case 0x2a: {
+      // *
+      const count = Number(line);
+      if (count < 0) return { value: null, bytes: next - offset };
+      const items: RespValue[] = [];
+      let position = next;
+      for (let index = 0; index < count; index++) {
+        const item = decodeReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position += item.bytes;
+      }
+      return { value: items, bytes: position - offset };
+    }
+    default:
+      throw new RangeError(`Invalid RESP reply type ${String.fromCharCode(buffer[offset] ?? 0)}`);
+  }
+}
@@ -0,0 +1,61 @@
+import { readFile } from 'node:fs/promises';
+import type { TlsOptions } from 'node:tls';
+import type { Logger } from './logger.js';
+
+/** PEM contents, or the path of a PEM file read at start and on every reload. */
+export type PemSource = string | Buffer;
+
+/** Options of `node:tls` servers, with key, certificate and CA given as PEM or as file paths. */
+export interface TlsConfig extends Omit<TlsOptions, 'key' | 'cert' | 'ca'> {
+  key: PemSource;
+  cert: PemSource;
+  /** CA certificates trusted for the certificates clients or peers present. */
+  ca?: PemSource | PemSource[];
+  /**
+   * Re-reads the files and swaps the credentials on SIGHUP (true by default). Under a
+   * `ClusterManager`, the primary answers SIGHUP with a rolling reload whose new workers read the
+   * files as they start; workers only see the signal when it is sent to the whole process group,
+   * and would then reload credentials they are about to drop. Set it to `false` there to leave
+   * SIGHUP to the reload.
+   */
+  reloadOnSighup?: boolean;
+}
+
+const readPem = async (source: PemSource) =>
+  typeof source !== 'string' || source.includes('-----BEGIN') ? source : readFile(source);
+
+/** Resolves the PEM sources of `config` into options for `tls.createServer` or `tls.connect`. */
+export async function loadTlsOptions(config: TlsConfig): Promise<TlsOptions> {
+  const { key, cert, ca, reloadOnSighup: _reload, ...options } = config;
+  const authorities = ca === undefined ? undefined : Array.isArray(ca) ? ca : [ca];
+  return {
+    ...options,
+    key: await readPem(key),
+    cert: await readPem(cert),
+    ca: authorities && (await Promise.all(authorities.map(readPem))),
+  };
+}
+
+/**
+ * Reloads `config` on SIGHUP and hands the result to `apply`. A reload that fails, or that `apply`
+ * rejects, keeps the previous credentials. Returns a function that stops listening.
+ */
+export function reloadTlsOnSighup(
+  config: TlsConfig,
+  apply: (options: TlsOptions) => void,
+  logger: Logger,
+): () => void {
+  if (config.reloadOnSighup === false) return () => {};
+  const reload = () => {
+    loadTlsOptions(config)
+      .then((options) => {
+        apply(options);
+        logger.info('TLS credentials reloaded');
+      })
+      .catch((error: unknown) =>
+        logger.error('TLS reload failed, keeping the previous credentials', error),
+      );
+  };
+  process.on('SIGHUP', reload);
+  return () => process.off('SIGHUP', reload);
+}
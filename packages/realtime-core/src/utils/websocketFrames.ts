@@ -0,0 +1,177 @@
+import { isUtf8 } from 'node:buffer';
+
+export const Opcodes = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+/** Close status codes from RFC 6455 section 7.4.1. */
+export const CloseCodes = {
+  NORMAL: 1000,
+  GOING_AWAY: 1001,
+  PROTOCOL_ERROR: 1002,
+  UNSUPPORTED_DATA: 1003,
+  NO_STATUS: 1005,
+  ABNORMAL: 1006,
+  INVALID_PAYLOAD: 1007,
+  POLICY_VIOLATION: 1008,
+  MESSAGE_TOO_BIG: 1009,
+  INTERNAL_ERROR: 1011,
+} as const;
+
+const KNOWN_OPCODES = new Set<number>(Object.values(Opcodes));
+
+export interface Frame {
+  fin: boolean;
+  /** Set on the first frame of a message compressed with permessage-deflate. */
+  rsv1: boolean;
+  opcode: number;
+  payload: Buffer;
+  /** Bytes consumed from the input, header included. */
+  bytes: number;
+}
+
+/** A peer broke the protocol; the connection must be failed with `closeCode`. */
+export class WebSocketProtocolError extends Error {
+  constructor(
+    message: string,
+    readonly closeCode: number = CloseCodes.PROTOCOL_ERROR,
+  ) {
+    super(message);
+    this.name = 'WebSocketProtocolError';
+  }
+}
+
+/**
+ * Decodes one client frame from the start of `buffer`, or returns null until it is complete.
+ * Header checks run before the payload is buffered, so oversized frames are refused early.
+ */
+export function decodeFrame(
+  buffer: Buffer,
+  maxPayloadBytes: number,
+  allowRsv1 = false,
+): Frame | null {
+  if (buffer.length < 2) return null;
+  const firstByte = buffer[0]!;
+  const secondByte = buffer[1]!;
+  const fin = Boolean(firstByte & 0x80);
+  const rsv1 = Boolean(firstByte & 0x40);
+  const opcode = firstByte & 0x0f;
+  const masked = Boolean(secondByte & 0x80);
+  let payloadLength = secondByte & 0x7f;
+  let offset = 2;
+
+  if (!KNOWN_OPCODES.has(opcode)) {
+    throw new WebSocketProtocolError(`Unknown opcode ${opcode}`);
+  }
+  const dataStart = opcode === Opcodes.TEXT || opcode === Opcodes.BINARY;
+  if (firstByte & 0x30 || (rsv1 && !(allowRsv1 && dataStart))) {
+    throw new WebSocketProtocolError('Reserved bits set without a negotiated extension');
+  }
+  if (opcode >= Opcodes.CLOSE && (!fin || payloadLength > 125)) {
+    throw new WebSocketProtocolError('Control frames must be final and at most 125 bytes');
+  }
+  if (!masked) {
+    throw new WebSocketProtocolError('Client frames must be masked');
+  }
+
+  if (payloadLength === 126) {
+    if (buffer.length < offset + 2) return null;
+    payloadLength = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (payloadLength === 127) {
+    if (buffer.length < offset + 8) return null;
+    const big = buffer.readBigUInt64BE(offset);
+    if (big >> 63n) {
+      throw new WebSocketProtocolError('Payload length has its most significant bit set');
+    }
+    payloadLength = big > BigInt(maxPayloadBytes) ? Infinity : Number(big);
+    offset += 8;
+  }
+  if (payloadLength > maxPayloadBytes) {
+    throw new WebSocketProtocolError(
+      `Frame exceeds ${maxPayloadBytes} bytes`,
+      CloseCodes.MESSAGE_TOO_BIG,
+    );
+  }
+
+  if (buffer.length < offset + 4 + payloadLength) return null;
+  const mask = buffer.subarray(offset, offset + 4);
+  offset += 4;
+  const payload = Buffer.alloc(payloadLength);
+  for (let i = 0; i < payloadLength; i += 1) {
+    payload[i] = buffer[offset + i]! ^ mask[i & 3]!;
+  }
+
+  return { fin, rsv1, opcode, payload, bytes: offset + payloadLength };
+}
+
+/** Encodes an unmasked, final server frame; `rsv1` marks a compressed message. */
+export function encodeFrame(payload: Buffer, opcode: number = Opcodes.TEXT, rsv1 = false) {
+  const payloadLength = payload.length;
+  let headerLength = 2;
+  if (payloadLength >= 126 && payloadLength < 65536) {
+    headerLength += 2;
+  } else if (payloadLength >= 65536) {
+    headerLength += 8;
+  }
+  const buffer = Buffer.alloc(headerLength + payloadLength);
+  buffer[0] = 0x80 | (rsv1 ? 0x40 : 0) | (opcode & 0x0f);
+  let offset = 2;
+  if (payloadLength < 126) {
+    buffer[1] = payloadLength;
+  } else if (payloadLength < 65536) {
+    buffer[1] = 126;
+    buffer.writeUInt16BE(payloadLength, offset);
+    offset += 2;
+  } else {
+    buffer[1] = 127;
+    buffer.writeBigUInt64BE(BigInt(payloadLength), offset);
+    offset += 8;
+  }
+  payload.copy(buffer, headerLength);
+  return buffer;
+}
+
+export function encodeCloseFrame(code: number, reason = '') {
+  // the whole control frame payload is capped at 125 bytes, two of which hold the code
+  let text = Buffer.from(reason, 'utf8');
+  if (text.length > 123) {
+    text = Buffer.from(
+      text
+        .subarray(0, 123)
+        .toString('utf8')
+        .replace(/\uFFFD+$/, ''),
+      'utf8',
+    );
+  }
+  const payload = Buffer.alloc(2 + text.length);
+  payload.writeUInt16BE(code, 0);
+  text.copy(payload, 2);
+  return encodeFrame(payload, Opcodes.CLOSE);
+}
+
+export const isValidCloseCode = (code: number) =>
+  (code >= 1000 && code <= 1014 && code !== 1004 && code !== 1005 && code !== 1006) ||
+  (code >= 3000 && code <= 4999);
+
+/** Reads the status code and reason of a close frame, validating both. */
+export function parseClosePayload(payload: Buffer) {
+  if (!payload.length) return { code: CloseCodes.NO_STATUS as number, reason: '' };
+  if (payload.length === 1) {
+    throw new WebSocketProtocolError('Close frame payload of one byte');
+  }
+  const code = payload.readUInt16BE(0);
+  if (!isValidCloseCode(code)) {
+    throw new WebSocketProtocolError(`Invalid close code ${code}`);
+  }
+  const reason = payload.subarray(2);
+  if (!isUtf8(reason)) {
+    throw new WebSocketProtocolError('Close reason is not valid UTF-8', CloseCodes.INVALID_PAYLOAD);
+  }
+  return { code, reason: reason.toString('utf8') };
+}
@@ -0,0 +1,354 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { RealtimeClient, RealtimeRequestError } from '../src/client/realtimeClient.js';
+import { msgpackCodec } from '../src/core/codec.js';
+import { NodeWebSocket, ScriptedWebSocket } from './support/clientSockets.js';
+import { startEchoKernel } from './support/servers.js';
+
+type ChatEvents = {
+  echo: string;
+  'chat:message': { text: string };
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('RealtimeClient', () => {
+  beforeEach(() => ScriptedWebSocket.reset());
+
+  const scripted = (options: Partial<ConstructorParameters<typeof RealtimeClient>[0]> = {}) =>
+    new RealtimeClient<ChatEvents>({
+      url: 'ws://realtime.test/',
+      WebSocket: ScriptedWebSocket,
+      ...options,
+    });
+
+  describe('connect', () => {
+    it('returns the attempt in flight instead of opening another socket', async () => {
+      const client = scripted();
+      const first = client.connect();
+      const second = client.connect();
+      assert.equal(ScriptedWebSocket.instances.length, 1);
+      assert.equal(client.connectionState, 'connecting');
+      ScriptedWebSocket.last.open();
+      await Promise.all([first, second]);
+      assert.equal(client.connectionState, 'open');
+      await client.connect();
+      assert.equal(ScriptedWebSocket.instances.length, 1);
+    });
+
+    it('joins the pending attempt while reconnecting', async () => {
+      const client = scripted({ reconnect: { initialDelayMs: 10_000 } });
+      const connected = client.connect();
+      ScriptedWebSocket.last.open();
+      await connected;
+      ScriptedWebSocket.last.fail();
+      assert.equal(client.connectionState, 'reconnecting');
+
+      const manual = client.connect();
+      const again = client.connect();
+      assert.equal(ScriptedWebSocket.instances.length, 2);
+      ScriptedWebSocket.last.open();
+      await Promise.all([manual, again]);
+      assert.equal(client.connectionState, 'open');
+      client.close();
+    });
+
+    it('rejects when the socket fails, and lets a later call try again', async () => {
+      const client = scripted();
+      const failed = client.connect();
+      ScriptedWebSocket.last.fail();
+      await assert.rejects(failed, /Unable to connect/);
+      assert.equal(client.connectionState, 'closed');
+
+      const retried = client.connect();
+      assert.equal(ScriptedWebSocket.instances.length, 2);
+      ScriptedWebSocket.last.open();
+      await retried;
+    });
+
+    it('settles an attempt closed before it opened', async () => {
+      const client = scripted();
+      const connecting = client.connect();
+      client.close();
+      await assert.rejects(connecting, /Unable to connect/);
+      assert.deepEqual(ScriptedWebSocket.last.closedWith, { code: 1000, reason: undefined });
+    });
+  });
+
+  describe('acks', () => {
+    const open = async (options?: Parameters<typeof scripted>[0]) => {
+      const client = scripted(options);
+      const connected = client.connect();
+      ScriptedWebSocket.last.open();
+      await connected;
+      return { client, socket: ScriptedWebSocket.last };
+    };
+
+    it('resolves emit once the server acknowledges it', async () => {
+      const { client, socket } = await open();
+      const sent = client.emit('chat:message', { text: 'hi' }, { room: 'lobby' });
+      const [message] = socket.messages();
+      assert.deepEqual(
+        { ...message, ack: undefined },
+        { type: 'chat:message', payload: { text: 'hi' }, room: 'lobby', ack: undefined },
+      );
+      socket.receive({ type: 'system:ack', payload: { ack: message!.ack } });
+      await sent;
+    });
+
+    it('rejects emit with the error the server answered', async () => {
+      const { client, socket } = await open();
+      const sent = client.emit('chat:message', { text: 'spam' });
+      const { ack } = socket.messages()[0]!;
+      socket.receive({
+        type: 'system:error',
+        payload: { message: 'Slow down', code: 'RATE_LIMITED', retryAfterMs: 250, ack },
+      });
+      await assert.rejects(sent, (error) => {
+        assert.ok(error instanceof RealtimeRequestError);
+        assert.deepEqual([error.code, error.retryAfterMs], ['RATE_LIMITED', 250]);
+        return true;
+      });
+    });
+
+    it('rejects emit after the ack timeout', async () => {
+      const { client } = await open();
+      await assert.rejects(
+        client.emit('echo', 'lost', { timeoutMs: 20 }),
+        (error) => error instanceof RealtimeRequestError && error.code === 'ACK_TIMEOUT',
+      );
+    });
+
+    it('refuses to emit when not connected', async () => {
+      await assert.rejects(
+        scripted().emit('echo', 'nowhere'),
+        (error) => error instanceof RealtimeRequestError && error.code === 'NOT_CONNECTED',
+      );
+    });
+
+    it('passes messages to their handlers and to wildcard handlers', async () => {
+      const { client, socket } = await open();
+      const typed: Array<string | undefined> = [];
+      const all: string[] = [];
+      const off = client.on('echo', (message) => typed.push(message.payload));
+      client.on('*', (message) => all.push(message.type));
+      socket.receive({ type: 'echo', payload: 'one' });
+      off();
+      socket.receive({ type: 'echo', payload: 'two' });
+      assert.deepEqual(typed, ['one']);
+      assert.deepEqual(all, ['echo', 'echo']);
+    });
+  });
+
+  describe('codecs', () => {
+    it('asks for the codec and speaks it once the server selected it', async () => {
+      const client = scripted({ codec: msgpackCodec, protocolVersion: 'v2' });
+      const connected = client.connect();
+      const socket = ScriptedWebSocket.last;
+      assert.deepEqual(socket.protocols, ['realtime.v2.msgpack']);
+      socket.open('realtime.v2.msgpack');
+      await connected;
+      assert.equal(client.protocolVersion, 'v2');
+      void client.emit('echo', 'packed').catch(() => undefined);
+      assert.ok(socket.sent[0] instanceof Uint8Array);
+      assert.equal(socket.messages(msgpackCodec)[0]!.payload, 'packed');
+      client.close();
+    });
+
+    it('falls back to JSON when the server selected nothing', async () => {
+      const client = scripted({ codec: msgpackCodec });
+      const connected = client.connect();
+      const socket = ScriptedWebSocket.last;
+      socket.open();
+      await connected;
+      void client.emit('echo', 'plain').catch(() => undefined);
+      assert.equal(typeof socket.sent[0], 'string');
+      assert.equal(client.protocolVersion, undefined);
+      client.close();
+    });
+  });
+
+  describe('reconnection', () => {
+    beforeEach(() => {
+      mock.timers.enable({ apis: ['setTimeout'] });
+      // no jitter: every delay is the full backoff
+      mock.method(Math, 'random', () => 1);
+    });
+
+    afterEach(() => {
+      mock.timers.reset();
+      mock.restoreAll();
+    });
+
+    const connected = async (options: Parameters<typeof scripted>[0]) => {
+      const client = scripted(options);
+      const connecting = client.connect();
+      ScriptedWebSocket.last.open();
+      await connecting;
+      return client;
+    };
+
+    it('backs off exponentially up to maxDelayMs, and starts over once connected', async () => {
+      const client = await connected({
+        reconnect: { initialDelayMs: 100, maxDelayMs: 300 },
+      });
+      ScriptedWebSocket.last.fail();
+      for (const delay of [100, 200, 300, 300]) {
+        const sockets = ScriptedWebSocket.instances.length;
+        mock.timers.tick(delay - 1);
+        assert.equal(ScriptedWebSocket.instances.length, sockets, `not before ${delay}ms`);
+        mock.timers.tick(1);
+        assert.equal(ScriptedWebSocket.instances.length, sockets + 1, `after ${delay}ms`);
+        ScriptedWebSocket.last.fail();
+        await flush();
+      }
+
+      mock.timers.tick(300);
+      ScriptedWebSocket.last.open();
+      await flush();
+      ScriptedWebSocket.last.fail();
+      const sockets = ScriptedWebSocket.instances.length;
+      mock.timers.tick(100);
+      assert.equal(ScriptedWebSocket.instances.length, sockets + 1);
+      client.close();
+    });
+
+    it('gives up after maxAttempts and fails what is pending', async () => {
+      const client = await connected({
+        reconnect: { initialDelayMs: 10, maxAttempts: 2 },
+        ackTimeoutMs: 60_000,
+      });
+      ScriptedWebSocket.last.fail();
+      const queued = assert.rejects(
+        client.emit('echo', 'never'),
+        (error) => error instanceof RealtimeRequestError && error.code === 'CONNECTION_CLOSED',
+      );
+      for (const delay of [10, 20]) {
+        mock.timers.tick(delay);
+        ScriptedWebSocket.last.fail();
+        await flush();
+      }
+      assert.equal(client.connectionState, 'closed');
+      await queued;
+    });
+
+    it('drops the queued messages it failed on giving up instead of sending them on the next connect', async () => {
+      const client = await connected({ reconnect: { initialDelayMs: 10, maxAttempts: 1 } });
+      ScriptedWebSocket.last.fail();
+      const queued = client
+        .emit('echo', 'failed')
+        .catch((error: RealtimeRequestError) => error.code);
+      mock.timers.tick(10);
+      ScriptedWebSocket.last.fail();
+      await flush();
+      assert.equal(await queued, 'CONNECTION_CLOSED');
+
+      const connecting = client.connect();
+      const socket = ScriptedWebSocket.last;
+      socket.open();
+      await connecting;
+      assert.deepEqual(socket.sent, []);
+      client.close();
+    });
+
+    it('queues messages while reconnecting and sends them in order once resumed', async () => {
+      const client = await connected({ reconnect: { initialDelayMs: 10 } });
+      ScriptedWebSocket.last.receive({
+        type: 'system:session',
+        payload: { clientId: 'c1', token: 't/1', resumed: false, dropped: 0, graceMs: 1000 },
+      });
+      ScriptedWebSocket.last.fail();
+      void client.emit('echo', 'first').catch(() => undefined);
+      void client.emit('echo', 'second').catch(() => undefined);
+
+      mock.timers.tick(10);
+      const socket = ScriptedWebSocket.last;
+      assert.equal(socket.url, 'ws://realtime.test/?session=t%2F1');
+      assert.equal(socket.sent.length, 0);
+      socket.open();
+      await flush();
+      assert.deepEqual(
+        socket.messages().map(({ payload }) => payload),
+        ['first', 'second'],
+      );
+      assert.equal(client.clientId, 'c1');
+      client.close();
+    });
+
+    it('hands over to a new connection on system:reconnect once its acks are in', async () => {
+      const client = await connected({ reconnect: true, ackTimeoutMs: 60_000 });
+      const draining = ScriptedWebSocket.last;
+      const sent = client.emit('echo', 'in flight');
+      draining.receive({ type: 'system:reconnect', payload: { delayMs: 50 } });
+
+      mock.timers.tick(50);
+      assert.equal(draining.closedWith, undefined, 'waits for the pending ack');
+      draining.receive({ type: 'system:ack', payload: { ack: draining.messages()[0]!.ack } });
+      await sent;
+      mock.timers.tick(100);
+      assert.deepEqual(draining.closedWith, { code: 1000, reason: 'reconnect' });
+      assert.equal(ScriptedWebSocket.instances.length, 2);
+      assert.equal(client.connectionState, 'reconnecting');
+      ScriptedWebSocket.last.open();
+      await flush();
+      assert.equal(client.connectionState, 'open');
+      client.close();
+    });
+
+    it('only reports system:reconnect without reconnect', async () => {
+      const client = await connected({});
+      const hints: unknown[] = [];
+      client.on('system:reconnect', (message) => hints.push(message.payload));
+      ScriptedWebSocket.last.receive({ type: 'system:reconnect', payload: { delayMs: 0 } });
+      mock.timers.tick(1000);
+      assert.deepEqual(hints, [{ delayMs: 0 }]);
+      assert.equal(ScriptedWebSocket.last.closedWith, undefined);
+      client.close();
+    });
+  });
+
+  describe('against a kernel', () => {
+    let server: Awaited<ReturnType<typeof startEchoKernel>>;
+    let client: RealtimeClient<ChatEvents>;
+
+    afterEach(async () => {
+      client.close();
+      await server.stop();
+    });
+
+    const connect = async (options: Partial<ConstructorParameters<typeof RealtimeClient>[0]>) => {
+      client = new RealtimeClient<ChatEvents>({
+        url: `ws://127.0.0.1:${server.port}/`,
+        WebSocket: NodeWebSocket,
+        ...options,
+      });
+      await client.connect();
+    };
+
+    it('emits, is acknowledged and receives the echo', async () => {
+      server = await startEchoKernel();
+      await connect({});
+      const echoes: Array<string | undefined> = [];
+      client.on('echo', (message) => echoes.push(message.payload));
+      await client.emit('echo', 'round trip');
+      assert.deepEqual(echoes, ['round trip']);
+    });
+
+    it('speaks MessagePack when both sides agree on it', async () => {
+      server = await startEchoKernel({ codecs: ['json', 'msgpack'] });
+      await connect({ codec: msgpackCodec });
+      const echoes: unknown[] = [];
+      client.on('echo', (message) => echoes.push(message.payload));
+      await client.emit('echo', 'packed');
+      assert.deepEqual(echoes, ['packed']);
+    });
+
+    it('leaves a draining kernel when asked to reconnect', async () => {
+      server = await startEchoKernel({}, { sessions: true });
+      await connect({ reconnect: { initialDelayMs: 10_000 } });
+      await server.kernel.drain({ reconnectJitterMs: 0, timeoutMs: 2000 });
+      assert.equal(server.kernel.clientCount, 0);
+      assert.equal(client.connectionState, 'reconnecting');
+    });
+  });
+});
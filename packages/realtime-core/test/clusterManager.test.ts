@@ -0,0 +1,313 @@
+import assert from 'node:assert/strict';
+import cluster from 'node:cluster';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { ClusterManager, type ClusterOptions } from '../src/cluster/clusterManager.js';
+import { mockFork, type FakeWorker } from './support/clusterWorkers.js';
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const SIGNALS = ['SIGTERM', 'SIGINT', 'SIGHUP'] as const;
+
+describe('ClusterManager', () => {
+  let forked: FakeWorker[];
+  let manager: ClusterManager;
+  let listeners: Map<string, NodeJS.SignalsListener[]>;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'setInterval', 'Date'], now: 1_000_000 });
+    forked = mockFork();
+    listeners = new Map(SIGNALS.map((signal) => [signal, process.listeners(signal)]));
+  });
+
+  afterEach(() => {
+    // the primary's signal handlers would outlive the test
+    for (const signal of SIGNALS) {
+      process
+        .listeners(signal)
+        .filter((listener) => !listeners.get(signal)!.includes(listener))
+        .forEach((listener) => process.off(signal, listener));
+    }
+    cluster.removeAllListeners('exit');
+    forked.forEach((worker) => worker.exit(0));
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  const ready = async (...workers: FakeWorker[]) => {
+    workers.forEach((worker) => worker.post({ type: 'ready' }));
+    await settle();
+  };
+
+  /** Starts a primary whose workers are all ready. */
+  const start = async (options: ClusterOptions = {}) => {
+    manager = new ClusterManager({
+      workers: 2,
+      logLevel: 'silent',
+      routing: false,
+      healthCheck: false,
+      ...options,
+    });
+    await manager.start(() => {
+      throw new Error('Only workers run the setup');
+    });
+    await ready(...forked);
+  };
+
+  const workerIds = () => manager.getStats()!.workers.map(({ id }) => id);
+
+  describe('reload', () => {
+    it('replaces the workers one at a time, each once its replacement is ready', async () => {
+      await start();
+      const [first, second] = forked;
+      const reloading = manager.reload();
+      assert.equal(manager.reload(), reloading, 'a reload in progress is returned as is');
+
+      await settle();
+      assert.equal(forked.length, 3);
+      assert.deepEqual(first!.received('shutdown'), [], 'not before its replacement is ready');
+      await ready(forked[2]!);
+      assert.deepEqual(first!.received('shutdown'), [{ type: 'shutdown' }]);
+      assert.equal(forked.length, 3, 'one worker at a time');
+
+      first!.exit(0);
+      await settle();
+      assert.equal(forked.length, 4);
+      await ready(forked[3]!);
+      assert.equal(second!.received('shutdown').length, 1);
+      second!.exit(0);
+      await reloading;
+
+      assert.deepEqual(workerIds(), [3, 4]);
+      assert.equal(forked.length, 4, 'retired workers are not restarted');
+      assert.equal(manager.getStats()!.restarts, 0);
+    });
+
+    it('stops at a replacement that dies, leaving the remaining workers in place', async () => {
+      await start();
+      const [first, second] = forked;
+      const reloading = manager.reload();
+      await settle();
+      await ready(forked[2]!);
+      first!.exit(0);
+      await settle();
+
+      forked[3]!.exit(1);
+      await assert.rejects(reloading, /exited before being ready/);
+      assert.deepEqual(second!.received('shutdown'), []);
+      assert.deepEqual(workerIds(), [2, 3]);
+      await settle();
+      assert.equal(forked.length, 4, 'the failed replacement is not restarted');
+    });
+
+    it('kills a replacement that is not ready in time', async () => {
+      await start({ workers: 1, readyTimeoutMs: 5000 });
+      const reloading = manager.reload();
+      await settle();
+      mock.timers.tick(5000);
+      await assert.rejects(reloading, /not ready after 5000 ms/);
+      await settle();
+      assert.deepEqual(forked[1]!.signals, ['SIGTERM']);
+      assert.deepEqual(forked[0]!.received('shutdown'), []);
+      assert.deepEqual(workerIds(), [1]);
+    });
+
+    it('kills a worker that does not stop within shutdownTimeoutMs', async () => {
+      await start({ workers: 1, shutdownTimeoutMs: 3000 });
+      const reloading = manager.reload();
+      await settle();
+      await ready(forked[1]!);
+      mock.timers.tick(2999);
+      assert.deepEqual(forked[0]!.signals, []);
+      mock.timers.tick(1);
+      assert.deepEqual(forked[0]!.signals, ['SIGKILL']);
+      await reloading;
+      assert.deepEqual(workerIds(), [2]);
+    });
+
+    it('runs on SIGHUP', async () => {
+      await start({ workers: 1 });
+      process.emit('SIGHUP');
+      await settle();
+      assert.equal(forked.length, 2);
+    });
+
+    it('is refused before the primary started', async () => {
+      await assert.rejects(new ClusterManager().reload(), /Only a started primary/);
+    });
+  });
+
+  describe('restarts', () => {
+    it('backs off exponentially up to maxDelayMs, and starts over once the window passed', async () => {
+      await start({
+        workers: 1,
+        restartBackoff: { initialDelayMs: 100, maxDelayMs: 350 },
+        restartWindowMs: 10_000,
+      });
+      for (const delay of [100, 200, 350]) {
+        forked.at(-1)!.exit(1);
+        const count = forked.length;
+        mock.timers.tick(delay - 1);
+        assert.equal(forked.length, count, `not before ${delay} ms`);
+        mock.timers.tick(1);
+        assert.equal(forked.length, count + 1, `after ${delay} ms`);
+        await ready(forked.at(-1)!);
+      }
+
+      // stable for a whole window: the earlier crashes no longer count
+      mock.timers.tick(10_000);
+      forked.at(-1)!.exit(null, 'SIGSEGV');
+      const count = forked.length;
+      mock.timers.tick(100);
+      assert.equal(forked.length, count + 1);
+
+      const [worker] = manager.getStats()!.workers;
+      assert.equal(worker!.restarts, 4, 'counted on the slot');
+      assert.equal(worker!.lastExitSignal, 'SIGSEGV');
+      assert.equal(manager.getStats()!.restarts, 4);
+    });
+
+    it('gives up after maxRestarts within the window, until the next reload', async () => {
+      await start({
+        workers: 1,
+        restartBackoff: { initialDelayMs: 10 },
+        maxRestarts: 2,
+      });
+      for (const delay of [10, 20]) {
+        forked.at(-1)!.exit(1);
+        mock.timers.tick(delay);
+        await ready(forked.at(-1)!);
+      }
+      forked.at(-1)!.exit(1);
+      mock.timers.tick(60_000);
+      assert.equal(forked.length, 3);
+      assert.equal(manager.getStats()!.degraded, true);
+      assert.equal(manager.getStats()!.activeWorkers, 0);
+
+      const reloading = manager.reload();
+      await settle();
+      assert.equal(forked.length, 4, 'the abandoned slot is started again');
+      await ready(forked[3]!);
+      await reloading;
+      assert.equal(manager.getStats()!.degraded, false);
+    });
+
+    it('does not restart crashed workers with restartOnExit: false', async () => {
+      await start({ workers: 1, restartOnExit: false });
+      forked[0]!.exit(1);
+      mock.timers.tick(60_000);
+      assert.equal(forked.length, 1);
+      assert.equal(manager.getStats()!.restarts, 0);
+    });
+  });
+
+  describe('health checks', () => {
+    const healthCheck = { intervalMs: 1000, timeoutMs: 500 };
+
+    it('records what a worker reports, and kills one that does not answer in time', async () => {
+      await start({ healthCheck, restartBackoff: { initialDelayMs: 100 } });
+      const [healthy, stuck] = forked;
+      mock.timers.tick(1000);
+      const [check] = healthy!.received('health');
+      assert.ok(check?.id);
+      assert.equal(stuck!.received('health').length, 1);
+      healthy!.post({
+        type: 'health',
+        id: check.id,
+        clients: 3,
+        memory: { rss: 2048, heapUsed: 1024 },
+      });
+      await settle();
+
+      mock.timers.tick(500);
+      assert.deepEqual(healthy!.signals, []);
+      assert.deepEqual(stuck!.signals, ['SIGKILL']);
+      await settle();
+      mock.timers.tick(100);
+      assert.equal(forked.length, 3, 'restarted as after a crash');
+
+      const stats = manager.getStats()!;
+      assert.deepEqual(
+        stats.workers.map(({ id, clients, memory, lastHealthCheckAt }) => ({
+          id,
+          clients,
+          memory,
+          lastHealthCheckAt,
+        })),
+        [
+          {
+            id: 1,
+            clients: 3,
+            memory: { rss: 2048, heapUsed: 1024 },
+            lastHealthCheckAt: 1_001_000,
+          },
+          { id: 3, clients: undefined, memory: undefined, lastHealthCheckAt: undefined },
+        ],
+      );
+      assert.equal(stats.workers[1]!.lastExitSignal, 'SIGKILL');
+    });
+
+    it('ignores an answer to another check', async () => {
+      await start({ workers: 1, healthCheck });
+      mock.timers.tick(1000);
+      const [check] = forked[0]!.received('health');
+      forked[0]!.post({
+        type: 'health',
+        id: check!.id! + 1,
+        clients: 1,
+        memory: { rss: 1, heapUsed: 1 },
+      });
+      await settle();
+      mock.timers.tick(500);
+      assert.deepEqual(forked[0]!.signals, ['SIGKILL']);
+    });
+
+    it('skips workers that are not ready yet or retiring', async () => {
+      await start({ workers: 1, healthCheck, shutdownTimeoutMs: 60_000 });
+      const [retiring] = forked;
+      const reloading = manager.reload();
+      await settle();
+      mock.timers.tick(1000);
+      assert.equal(forked[1]!.received('health').length, 0, 'not ready');
+      assert.equal(retiring!.received('health').length, 1);
+      forked[0]!.post({
+        type: 'health',
+        id: retiring!.received('health')[0]!.id,
+        clients: 0,
+        memory: { rss: 0, heapUsed: 0 },
+      });
+      await ready(forked[1]!);
+      assert.equal(retiring!.received('shutdown').length, 1);
+
+      mock.timers.tick(1000);
+      assert.equal(retiring!.received('health').length, 1, 'retiring');
+      assert.equal(forked[1]!.received('health').length, 1);
+      retiring!.exit(0);
+      await reloading;
+    });
+  });
+
+  it('reports the workers and the uptime of the cluster', async () => {
+    await start();
+    mock.timers.tick(5000);
+    assert.deepEqual(manager.getStats(), {
+      totalWorkers: 2,
+      activeWorkers: 2,
+      degraded: false,
+      restarts: 0,
+      uptimeMs: 5000,
+      workers: [1, 2].map((id) => ({
+        id,
+        pid: 10_000 + id,
+        isDead: false,
+        ready: true,
+        uptimeMs: 5000,
+        restarts: 0,
+        lastExitCode: undefined,
+        lastExitSignal: undefined,
+        memory: undefined,
+        clients: undefined,
+        lastHealthCheckAt: undefined,
+      })),
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import type { Worker } from 'node:cluster';
+import { afterEach, describe, it } from 'node:test';
+import { ClusterRouter } from '../src/cluster/clusterRouter.js';
+import { FakeWorker, startWorkers, type ClusterWorker } from './support/clusterWorkers.js';
+import { snapshot } from './support/federationMesh.js';
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ClusterRouter', () => {
+  let router: ClusterRouter;
+  let workers: ClusterWorker[];
+
+  afterEach(async () => {
+    await Promise.all(
+      workers
+        .filter(({ worker }) => worker.connected)
+        .map(({ adapter }) => adapter.detach().catch(() => undefined)),
+    );
+  });
+
+  const start = async (count: number) => {
+    router = new ClusterRouter();
+    workers = await startWorkers(router, count);
+    await settle();
+    return workers;
+  };
+
+  const counts = () => Object.fromEntries(router.clientCounts());
+
+  describe('registry', () => {
+    it('learns the clients of each worker from their sync and presence', async () => {
+      const [first, second] = await start(2);
+      assert.deepEqual(counts(), { 1: 0, 2: 0 });
+      first!.adapter.publish(snapshot('alice', ['lobby']));
+      first!.adapter.publish(snapshot('bob'));
+      await settle();
+      assert.deepEqual(counts(), { 1: 2, 2: 0 });
+      assert.equal(second!.host.presence.get('alice')?.node, 'worker-1');
+
+      // a sync replaces what the worker registered before
+      first!.worker.post({
+        type: 'router:publish',
+        channel: 'realtime:nodes',
+        payload: JSON.stringify({ origin: 'worker-1', kind: 'sync', clients: [snapshot('carol')] }),
+      });
+      await settle();
+      assert.deepEqual(counts(), { 1: 1, 2: 0 });
+    });
+
+    it('forgets a disconnected client, unless another worker took it over', async () => {
+      const [first, second] = await start(2);
+      first!.adapter.publish(snapshot('alice', ['lobby']));
+      first!.adapter.publish(snapshot('bob'));
+      await settle();
+
+      // alice resumed on the second worker: the first one's disconnect comes late
+      second!.adapter.publish(snapshot('alice', ['lobby']));
+      await settle();
+      assert.deepEqual(counts(), { 1: 1, 2: 1 });
+      first!.adapter.retract('alice');
+      first!.adapter.retract('bob');
+      await settle();
+      assert.deepEqual(counts(), { 1: 0, 2: 1 });
+      assert.deepEqual([...router.workersIn('lobby')], [2]);
+    });
+
+    it('forgets every client of a worker that leaves', async () => {
+      const [first, second] = await start(2);
+      first!.adapter.publish(snapshot('alice', ['lobby']));
+      await settle();
+      await first!.adapter.detach();
+      await settle();
+      assert.deepEqual(counts(), { 2: 0 });
+      assert.equal(second!.host.presence.get('alice'), undefined);
+    });
+  });
+
+  describe('broadcasts', () => {
+    it('routes a room broadcast to the workers with members only', async () => {
+      const [first, second, third] = await start(3);
+      first!.adapter.publish(snapshot('alice', ['lobby']));
+      third!.adapter.publish(snapshot('carol', ['lobby', 'game']));
+      second!.adapter.publish(snapshot('bob', ['game']));
+      await settle();
+      assert.deepEqual([...router.workersIn('lobby')].sort(), [1, 3]);
+      assert.deepEqual([...router.workersIn('game')].sort(), [2, 3]);
+      assert.deepEqual([...router.workersIn('empty')], []);
+
+      first!.adapter.broadcast({ type: 'chat', payload: 'hi' }, { room: 'lobby' });
+      await settle();
+      const broadcasts = (worker: ClusterWorker) =>
+        worker.worker.delivered().filter(({ kind }) => kind === 'broadcast');
+      assert.equal(broadcasts(second!).length, 0);
+      assert.equal(broadcasts(third!).length, 1);
+      assert.equal(broadcasts(first!).length, 0, 'not back to the sender');
+      assert.deepEqual(third!.host.broadcasts[0]?.options.room, 'lobby');
+    });
+
+    it('routes a broadcast without a room to every other worker', async () => {
+      const [first, second, third] = await start(3);
+      second!.adapter.publish(snapshot('bob'));
+      third!.adapter.publish(snapshot('carol'));
+      await settle();
+      first!.adapter.broadcast({ type: 'announcement' });
+      await settle();
+      assert.deepEqual(
+        [first!, second!, third!].map(({ host }) => host.broadcasts.length),
+        [0, 1, 1],
+      );
+    });
+  });
+
+  describe('a worker that exits', () => {
+    it('is announced as gone to the others, once each', async () => {
+      const [first, second, third] = await start(3);
+      first!.adapter.publish(snapshot('alice', ['lobby']));
+      await settle();
+      assert.equal(third!.host.presence.get('alice')?.node, 'worker-1');
+
+      first!.worker.exit();
+      await settle();
+      assert.deepEqual(counts(), { 2: 0, 3: 0 });
+      assert.deepEqual([...router.workersIn('lobby')], []);
+      for (const { worker, host } of [second!, third!]) {
+        const leaves = worker.delivered().filter(({ kind }) => kind === 'leave');
+        assert.deepEqual(leaves, [{ origin: 'worker-1', kind: 'leave' }]);
+        assert.equal(host.presence.get('alice'), undefined);
+      }
+    });
+
+    it('is not announced when it never published', async () => {
+      const [first] = await start(1);
+      // subscribed, but killed before its first sync reached the router
+      const silent = new FakeWorker(2);
+      router.attach(silent as unknown as Worker);
+      silent.post({ type: 'router:subscribe', channels: ['realtime:nodes'] });
+      await settle();
+      silent.exit();
+      await settle();
+      assert.deepEqual(
+        first!.worker.delivered().filter(({ kind }) => kind === 'leave'),
+        [],
+      );
+    });
+
+    it('receives nothing once it is disconnected', async () => {
+      const [first, second] = await start(2);
+      second!.worker.connected = false;
+      const sent = second!.worker.sent.length;
+      first!.adapter.publish(snapshot('alice'));
+      await settle();
+      assert.equal(second!.worker.sent.length, sent);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import type { SystemEventMap } from '../src/types/index.js';
+import { RawWebSocket, UpgradeError } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+type ReconnectHint = SystemEventMap['system:reconnect'];
+
+describe('RealtimeKernel.drain', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  const sockets: RawWebSocket[] = [];
+
+  const connect = async () => {
+    const ws = await RawWebSocket.connect(server.port);
+    sockets.push(ws);
+    // the kernel only drains clients it has registered
+    ws.sendMessage({ type: 'echo', payload: 'ready' });
+    assert.equal((await ws.message()).payload, 'ready');
+    return ws;
+  };
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((ws) => ws.destroy());
+    await server.stop();
+  });
+
+  it('asks every client to reconnect within the jitter and refuses new connections', async () => {
+    server = await startEchoKernel();
+    const clients = [await connect(), await connect()];
+    const drained = server.kernel.drain({ reconnectJitterMs: 1000, timeoutMs: 5000 });
+
+    for (const ws of clients) {
+      const hint = await ws.message();
+      assert.equal(hint.type, 'system:reconnect');
+      const { delayMs } = hint.payload as ReconnectHint;
+      assert.ok(Number.isInteger(delayMs) && delayMs >= 0 && delayMs <= 1000, `${delayMs}`);
+    }
+    await assert.rejects(
+      RawWebSocket.connect(server.port),
+      (error) => error instanceof UpgradeError && error.status === 503,
+    );
+
+    clients.forEach((ws) => ws.destroy());
+    await drained;
+    assert.equal(server.kernel.clientCount, 0);
+  });
+
+  it('gives up waiting for the clients after timeoutMs', async () => {
+    server = await startEchoKernel();
+    await connect();
+    const startedAt = Date.now();
+    await server.kernel.drain({ reconnectJitterMs: 0, timeoutMs: 200 });
+    assert.ok(Date.now() - startedAt >= 200);
+    assert.equal(server.kernel.clientCount, 1, 'left to stop');
+  });
+
+  it('only waits for in-flight handlers with waitFor: handlers', async () => {
+    server = await startEchoKernel();
+    let release!: () => void;
+    const handled = new Promise<void>((resolve) => (release = resolve));
+    let finished = false;
+    server.kernel.on('slow', async () => {
+      await handled;
+      finished = true;
+    });
+    const ws = await connect();
+    ws.sendMessage({ type: 'slow' });
+    ws.sendMessage({ type: 'echo', payload: 'sent' });
+    await ws.message();
+
+    const drained = server.kernel.drain({ waitFor: 'handlers', timeoutMs: 5000 });
+    setTimeout(release, 100);
+    await drained;
+    assert.equal(finished, true);
+    assert.equal(server.kernel.clientCount, 1);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { EventRouter } from '../src/core/eventRouter.js';
+import eventTypeBuilder, {
+  matchEventTemplate,
+  parseTemplate,
+} from '../src/core/eventTypeBuilder.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+describe('Event templates', () => {
+  it('builds an event name from its params', () => {
+    assert.equal(eventTypeBuilder('chat:[roomId]:[n:int]', 'lobby', 3), 'chat:lobby:3');
+    assert.throws(() => eventTypeBuilder('chat:[roomId]'), /does not match/);
+  });
+
+  it('refuses a segment with two placeholders, or an unnamed one', () => {
+    assert.throws(() => parseTemplate('chat:[a]-[b]'), /more than one placeholder/);
+    assert.throws(() => parseTemplate('chat:[:int]'), /unnamed placeholder/);
+  });
+
+  it('extracts typed params', () => {
+    assert.deepEqual(
+      matchEventTemplate('game:[mode:solo|team]:[level:int]:[ratio:number]', 'game:team:-3:0.5'),
+      { mode: 'team', level: -3, ratio: 0.5 },
+    );
+    assert.deepEqual(matchEventTemplate('room:[name]', 'room:Lobby'), { name: 'Lobby' });
+  });
+
+  it('matches a placeholder between a prefix and a suffix', () => {
+    assert.deepEqual(matchEventTemplate('room:r-[id:int].log', 'room:r-12.log'), { id: 12 });
+    assert.equal(matchEventTemplate('room:r-[id:int].log', 'room:r-.log'), undefined);
+    assert.equal(matchEventTemplate('room:r-[id:int].log', 'room:x-12.log'), undefined);
+  });
+
+  describe('non-matches', () => {
+    const cases: Array<[string, string[], string[]]> = [
+      [
+        'number',
+        ['0', '42', '-7', '3.25'],
+        ['0x1f', '1e3', ' 42', '42 ', '1.', '.5', '+1', 'Infinity', 'NaN', '1_000'],
+      ],
+      ['int', ['0', '-12', '007'], ['1.0', '0x10', '1e2', ' 1', '']],
+      ['solo|team', ['solo', 'team'], ['Solo', 'duo', 'solo|team']],
+    ];
+
+    for (const [constraint, valid, invalid] of cases) {
+      it(`takes only what fits ${constraint}`, () => {
+        const template = `level:[value:${constraint}]`;
+        for (const value of valid) {
+          assert.ok(matchEventTemplate(template, `level:${value}`), `${value} fits`);
+        }
+        for (const value of invalid) {
+          assert.equal(
+            matchEventTemplate(template, `level:${value}`),
+            undefined,
+            `${value} does not fit`,
+          );
+        }
+      });
+    }
+
+    it('needs as many segments as the template', () => {
+      assert.equal(matchEventTemplate('chat:[roomId]', 'chat'), undefined);
+      assert.equal(matchEventTemplate('chat:[roomId]', 'chat:lobby:extra'), undefined);
+      assert.equal(matchEventTemplate('chat:[roomId]', 'news:lobby'), undefined);
+    });
+  });
+});
+
+describe('EventRouter', () => {
+  it('returns every matching route in registration order, whatever branch it sits on', () => {
+    const router = new EventRouter<string>();
+    router.add('chat:[roomId]:[n:int]', 'any room');
+    router.add('chat:lobby:[n:int]', 'lobby');
+    router.add('chat:[roomId]:[n:number]', 'any number');
+    router.add('chat:[roomId]:[n:int]', 'any room again');
+    router.add('news:[id]', 'news');
+    assert.equal(router.size, 5);
+    assert.deepEqual(
+      router.match('chat:lobby:3').map(({ value, params }) => [value, params]),
+      [
+        ['any room', { roomId: 'lobby', n: 3 }],
+        ['lobby', { n: 3 }],
+        ['any number', { roomId: 'lobby', n: 3 }],
+        ['any room again', { roomId: 'lobby', n: 3 }],
+      ],
+    );
+    assert.deepEqual(
+      router.match('chat:lobby:0x3').map(({ value }) => value),
+      [],
+    );
+    assert.deepEqual(
+      router.match('chat:staff:2.5').map(({ value }) => value),
+      ['any number'],
+    );
+  });
+
+  it('matches nothing on unknown or partial names', () => {
+    const router = new EventRouter<string>();
+    router.add('chat:[roomId]', 'chat');
+    assert.deepEqual(router.match('chat'), []);
+    assert.deepEqual(router.match('chat:a:b'), []);
+    assert.deepEqual(router.match('other:a'), []);
+  });
+});
+
+describe('Template handlers', () => {
+  it('run after exact handlers and before wildcard ones, with typed params', async () => {
+    const server = await startEchoKernel();
+    const calls: unknown[] = [];
+    server.kernel.on('*', () => void calls.push('*'));
+    server.kernel.on(
+      { eventTemplate: 'score:[team]:[points:number]' },
+      (_message, _context, _toolkit, params) => {
+        calls.push(['template', params]);
+      },
+    );
+    server.kernel.on('score:red:1.5', () => void calls.push('exact'));
+    server.kernel.on(
+      { eventTemplate: 'score:[team]:[points:number]', params: ['blue', 2] },
+      () => void calls.push('built'),
+    );
+    server.kernel.on('done', (_message, _context, toolkit) => toolkit.reply({ type: 'done' }));
+
+    const ws = await RawWebSocket.connect(server.port);
+    ws.sendMessage({ type: 'score:red:1.5' });
+    ws.sendMessage({ type: 'score:red:1e3' });
+    ws.sendMessage({ type: 'done' });
+    assert.equal((await ws.message()).type, 'done');
+    assert.deepEqual(calls, ['exact', ['template', { team: 'red', points: 1.5 }], '*', '*', '*']);
+    ws.destroy();
+    await server.stop();
+  });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { FederationEnvelope } from '../src/core/federation.js';
+import { createMesh, snapshot } from './support/federationMesh.js';
+
+describe('Federation', () => {
+  describe('malformed envelopes', () => {
+    const header = { id: 'x:1', origin: 'x', hops: 1, via: ['x'] };
+    const malformed: Array<[string, unknown]> = [
+      ['not an object', 'sync'],
+      ['no header', { kind: 'sync', clients: [] }],
+      ['a via that is not a list', { ...header, via: 'x', kind: 'disconnect', clientId: 'c' }],
+      ['an unknown kind', { ...header, kind: 'explode' }],
+      ['a sync without clients', { ...header, kind: 'sync' }],
+      ['a sync with a broken client', { ...header, kind: 'sync', clients: [{ id: 'c' }] }],
+      ['a presence without rooms', { ...header, kind: 'presence', client: { id: 'c' } }],
+      ['a broadcast without a message', { ...header, kind: 'broadcast', room: 'r' }],
+      ['a send without a client id', { ...header, kind: 'send', message: { type: 't' } }],
+    ];
+
+    for (const [name, envelope] of malformed) {
+      it(`drops ${name}`, () => {
+        const mesh = createMesh(['a', 'b'], [['a', 'b']]);
+        const { federation, host } = mesh.node('a');
+        assert.doesNotThrow(() => federation.receive(envelope as FederationEnvelope));
+        assert.equal(host.presence.list().length, 0);
+        assert.equal(host.broadcasts.length + host.sends.length, 0);
+        // nothing was relayed either
+        assert.equal(mesh.node('b').received.length, 0);
+      });
+    }
+
+    it('still applies well-formed envelopes', () => {
+      const mesh = createMesh(['a', 'b'], [['a', 'b']]);
+      const { federation, host } = mesh.node('a');
+      federation.receive({ ...header, kind: 'presence', client: snapshot('c', ['lobby']) });
+      assert.equal(host.presence.get('c')?.node, 'x');
+    });
+  });
+
+  describe('routing', () => {
+    it('relays presence across a node that links the others', () => {
+      const mesh = createMesh(
+        ['a', 'b', 'c'],
+        [
+          ['a', 'b'],
+          ['b', 'c'],
+        ],
+      );
+      mesh.node('a').federation.publish(snapshot('alice', ['lobby']));
+      assert.equal(mesh.node('c').host.presence.get('alice')?.node, 'a');
+      assert.deepEqual(mesh.node('c').federation.listNodes(), ['a']);
+    });
+
+    it('handles an envelope once when it arrives by several paths', () => {
+      const mesh = createMesh(
+        ['a', 'b', 'c', 'd'],
+        [
+          ['a', 'b'],
+          ['a', 'c'],
+          ['b', 'd'],
+          ['c', 'd'],
+        ],
+      );
+      mesh.node('a').federation.publish(snapshot('alice', ['lobby']));
+      mesh.node('a').federation.broadcast({ type: 'note', payload: 1 }, { room: 'lobby' });
+      assert.equal(mesh.node('d').host.broadcasts.length, 0);
+      mesh.node('d').federation.publish(snapshot('dave', ['lobby']));
+      mesh.node('a').federation.broadcast({ type: 'note', payload: 2 }, { room: 'lobby' });
+      assert.equal(mesh.node('d').host.broadcasts.length, 1);
+      assert.equal(mesh.node('b').host.broadcasts.length, 0);
+    });
+
+    it('stops relaying at the hop limit', () => {
+      const mesh = createMesh(
+        ['a', 'b', 'c'],
+        [
+          ['a', 'b'],
+          ['b', 'c'],
+        ],
+        1,
+      );
+      mesh.node('a').federation.publish(snapshot('alice'));
+      assert.ok(mesh.node('b').host.presence.get('alice'));
+      assert.equal(mesh.node('c').received.length, 0);
+    });
+
+    it('sends direct messages only to the owner', () => {
+      const mesh = createMesh(
+        ['a', 'b', 'c'],
+        [
+          ['a', 'b'],
+          ['a', 'c'],
+        ],
+      );
+      mesh.node('b').federation.publish(snapshot('bob'));
+      assert.equal(mesh.node('a').federation.send('bob', { type: 'hi', payload: null }), true);
+      assert.deepEqual(mesh.node('b').host.sends, [
+        { clientId: 'bob', message: { type: 'hi', payload: null } },
+      ]);
+      assert.equal(mesh.node('c').host.sends.length, 0);
+      assert.equal(mesh.node('a').federation.send('nobody', { type: 'hi', payload: null }), false);
+    });
+
+    it('exchanges clients both ways when a link comes up', () => {
+      const mesh = createMesh(['a', 'b'], []);
+      mesh.node('a').host.clients.push(snapshot('alice'));
+      mesh.node('b').host.clients.push(snapshot('bob'));
+      mesh.link('a', 'b');
+      assert.equal(mesh.node('a').host.presence.get('bob')?.node, 'b');
+      assert.equal(mesh.node('b').host.presence.get('alice')?.node, 'a');
+    });
+
+    it('forgets the clients of a node that left', () => {
+      const mesh = createMesh(['a', 'b'], [['a', 'b']]);
+      mesh.node('b').federation.publish(snapshot('bob'));
+      mesh.unlink('a', 'b');
+      mesh.node('a').federation.nodeLeft('b');
+      assert.equal(mesh.node('a').host.presence.get('bob'), undefined);
+      assert.equal(mesh.node('a').federation.owner('bob'), undefined);
+    });
+  });
+});
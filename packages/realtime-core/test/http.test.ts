@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { RealtimeKernel } from '../src/core/realtimeKernel.js';
+import { LongPollingTransport } from '../src/transports/polling.js';
+import { SseTransport } from '../src/transports/sse.js';
+import { mountRequestHandler, sendStatus } from '../src/utils/http.js';
+import { closeServer, listen } from './support/servers.js';
+
+describe('mountRequestHandler', () => {
+  let server: Server;
+  let port: number;
+  let appCalls: number;
+
+  beforeEach(async () => {
+    appCalls = 0;
+    server = createServer((_req, res) => {
+      appCalls += 1;
+      sendStatus(res, 200);
+    });
+    port = await listen(server);
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await closeServer(server);
+  });
+
+  const status = async (path: string) => (await fetch(`http://127.0.0.1:${port}${path}`)).status;
+
+  const mountPrefix = (prefix: string) =>
+    mountRequestHandler(server, (req, res) => {
+      if (!req.url?.startsWith(prefix)) return false;
+      sendStatus(res, 204);
+      return true;
+    });
+
+  it('serves its own paths and hands the others to the existing listeners', async () => {
+    const unmount = mountPrefix('/a');
+    assert.equal(await status('/a'), 204);
+    assert.equal(await status('/other'), 200);
+    assert.equal(appCalls, 1);
+    unmount();
+    assert.equal(await status('/a'), 200);
+    assert.equal(server.listenerCount('request'), 1);
+  });
+
+  it('answers 404 when the server had no listener', async () => {
+    server.removeAllListeners('request');
+    const unmount = mountPrefix('/a');
+    assert.equal(await status('/other'), 404);
+    unmount();
+    assert.equal(server.listenerCount('request'), 0);
+  });
+
+  for (const order of ['first', 'last'] as const) {
+    it(`restores the application listener once when the ${order} handler unmounts first`, async () => {
+      const unmountA = mountPrefix('/a');
+      const unmountB = mountPrefix('/b');
+      const [early, late] = order === 'first' ? [unmountA, unmountB] : [unmountB, unmountA];
+      const stopped = order === 'first' ? '/a' : '/b';
+      const running = order === 'first' ? '/b' : '/a';
+
+      early();
+      assert.equal(await status(stopped), 200);
+      assert.equal(await status(running), 204);
+      assert.equal(appCalls, 1);
+
+      late();
+      assert.equal(server.listenerCount('request'), 1);
+      assert.equal(await status(running), 200);
+      assert.equal(await status('/other'), 200);
+      assert.equal(appCalls, 3);
+    });
+  }
+
+  it('is idempotent', async () => {
+    const unmountA = mountPrefix('/a');
+    const unmountB = mountPrefix('/b');
+    unmountA();
+    unmountA();
+    unmountB();
+    unmountB();
+    assert.equal(server.listenerCount('request'), 1);
+    assert.equal(await status('/a'), 200);
+    assert.equal(appCalls, 1);
+  });
+
+  it('lets SSE and long-polling transports share a server and stop in any order', async () => {
+    const sse = new RealtimeKernel({
+      logLevel: 'error',
+      transports: [new SseTransport({ server, heartbeatIntervalMs: 0 })],
+    });
+    const polling = new RealtimeKernel({
+      logLevel: 'error',
+      transports: [new LongPollingTransport({ server })],
+    });
+    await sse.start();
+    await polling.start();
+
+    await sse.stop();
+    assert.equal(await status('/sse'), 200);
+    assert.equal(appCalls, 1);
+
+    await polling.stop();
+    assert.equal(server.listenerCount('request'), 1);
+    assert.equal(await status('/polling'), 200);
+    assert.equal(appCalls, 2);
+  });
+});
@@ -0,0 +1,260 @@
+import assert from 'node:assert/strict';
+import { createSocket } from 'node:dgram';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { MulticastDiscovery } from '../src/cluster/discovery.js';
+import type { MeshMember } from '../src/cluster/membership.js';
+import { Logger } from '../src/utils/logger.js';
+import { createMembershipMesh } from './support/membershipMesh.js';
+import { freePort } from './support/servers.js';
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/** Moves the mocked clock forward, letting the probes react between two steps. */
+async function advance(ms: number) {
+  for (let elapsed = 0; elapsed < ms; elapsed += 100) {
+    mock.timers.tick(100);
+    await settle();
+  }
+}
+
+const fullMesh: Array<[string, string]> = [
+  ['a', 'b'],
+  ['a', 'c'],
+  ['b', 'c'],
+];
+
+describe('Membership', () => {
+  let mesh: ReturnType<typeof createMembershipMesh>;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'setInterval', 'Date'], now: 1_000 });
+    // no shuffling: members are probed in the order they joined
+    mock.method(Math, 'random', () => 0.5);
+  });
+
+  afterEach(() => {
+    mesh.stop();
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  const messages = (nodeId: string, type: string) =>
+    mesh.node(nodeId).received.filter(({ message }) => message.type === type);
+
+  it('learns of every member from the lists exchanged when links come up', async () => {
+    mesh = createMembershipMesh(
+      ['a', 'b', 'c'],
+      [
+        ['a', 'b'],
+        ['b', 'c'],
+      ],
+    );
+    await settle();
+    for (const nodeId of ['a', 'b', 'c']) {
+      const others = ['a', 'b', 'c'].filter((other) => other !== nodeId);
+      assert.deepEqual(
+        mesh
+          .node(nodeId)
+          .membership.active()
+          .map((member) => member.nodeId)
+          .sort(),
+        others,
+      );
+      assert.deepEqual([...mesh.node(nodeId).joined].sort(), others);
+    }
+  });
+
+  it('pings a linked member every round and keeps it alive while it acks', async () => {
+    mesh = createMembershipMesh(['a', 'b'], [['a', 'b']]);
+    await settle();
+    mesh.node('a').membership.start();
+    await advance(3_000);
+    assert.equal(messages('b', 'ping').length, 3);
+    assert.equal(messages('a', 'ack').length, 3);
+    assert.equal(mesh.status('a', 'b'), 'alive');
+  });
+
+  it('asks a linked member to ping-req one it has no link to, and takes the relayed ack', async () => {
+    mesh = createMembershipMesh(
+      ['a', 'b', 'c'],
+      [
+        ['a', 'b'],
+        ['b', 'c'],
+      ],
+    );
+    await settle();
+    mesh.node('a').membership.start();
+    // the first round probes b, the second c
+    await advance(2_000);
+    const [request] = messages('b', 'ping-req');
+    assert.equal(request?.from, 'a');
+    assert.equal((request?.message as { target: string }).target, 'c');
+    assert.deepEqual(
+      messages('c', 'ping').map(({ from }) => from),
+      ['b'],
+    );
+    assert.deepEqual(
+      messages('a', 'ack').map(({ from }) => from),
+      ['b', 'b'],
+    );
+    assert.equal(mesh.status('a', 'c'), 'alive');
+  });
+
+  it('suspects a member that answers neither directly nor through others, then fails it', async () => {
+    mesh = createMembershipMesh(['a', 'b', 'c'], fullMesh, { suspicionTimeoutMs: 3_000 });
+    await settle();
+    mesh.node('a').membership.start();
+    mesh.silence('c');
+    // rounds start at 2 000 with b; 3 000: ping to c, 3 500: ping-req through b, 4 500: no ack
+    await advance(3_400);
+    assert.equal(mesh.status('a', 'c'), 'alive');
+    assert.equal(messages('b', 'ping-req').length, 1);
+    await advance(100);
+    assert.equal(mesh.status('a', 'c'), 'suspect');
+    assert.equal(mesh.status('b', 'c'), 'suspect', 'the suspicion is gossiped');
+
+    await advance(2_900);
+    assert.equal(mesh.status('a', 'c'), 'suspect');
+    await advance(100);
+    assert.equal(mesh.status('a', 'c'), 'dead');
+    assert.equal(mesh.status('b', 'c'), 'dead');
+    assert.deepEqual(mesh.node('a').left, [['c', 'failed']]);
+    assert.deepEqual(mesh.node('b').left, [['c', 'failed']]);
+  });
+
+  it('lets a suspected member refute with a newer incarnation', async () => {
+    mesh = createMembershipMesh(['a', 'b', 'c'], fullMesh, { suspicionTimeoutMs: 3_000 });
+    await settle();
+    const c = mesh.node('a').membership.get('c')!;
+    mesh.node('a').membership.receive('b', {
+      type: 'update',
+      member: { ...c, status: 'suspect' },
+    });
+    await settle();
+    for (const observer of ['a', 'b']) {
+      assert.deepEqual(
+        { ...mesh.node(observer).membership.get('c') },
+        { ...c, incarnation: c.incarnation + 1 },
+      );
+    }
+
+    // the suspicion timer was cleared, and stale gossip does not bring it back
+    mesh.node('a').membership.receive('b', {
+      type: 'update',
+      member: { ...c, status: 'suspect' },
+    });
+    await advance(3_000);
+    assert.equal(mesh.status('a', 'c'), 'alive');
+    assert.deepEqual(mesh.node('a').left, []);
+  });
+
+  it('does not revive a failed member on stale gossip, only once it restarted', async () => {
+    mesh = createMembershipMesh(['a', 'b'], [['a', 'b']]);
+    await settle();
+    const b = mesh.node('a').membership.get('b')!;
+    // b would refute the gossip about it otherwise
+    mesh.silence('b');
+    const gossip = (member: MeshMember) =>
+      mesh.node('a').membership.receive('b', { type: 'update', member });
+    gossip({ ...b, status: 'dead' });
+    gossip({ ...b, status: 'alive' });
+    assert.equal(mesh.status('a', 'b'), 'dead');
+
+    gossip({ ...b, status: 'alive', incarnation: b.incarnation + 1 });
+    assert.equal(mesh.status('a', 'b'), 'alive');
+    assert.deepEqual(mesh.node('a').joined, ['b', 'b']);
+    assert.deepEqual(mesh.node('a').left, [['b', 'failed']]);
+  });
+
+  it('tells the others when a member leaves', async () => {
+    mesh = createMembershipMesh(['a', 'b', 'c'], fullMesh);
+    await settle();
+    mesh.node('c').membership.leave();
+    await settle();
+    for (const observer of ['a', 'b']) {
+      assert.equal(mesh.status(observer, 'c'), 'left');
+      assert.deepEqual(mesh.node(observer).left, [['c', 'left']]);
+    }
+  });
+
+  it('stops a member evicted by the others', async () => {
+    mesh = createMembershipMesh(['a', 'b', 'c'], fullMesh);
+    await settle();
+    mesh.node('a').membership.evict('c');
+    await settle();
+    assert.equal(mesh.status('b', 'c'), 'left');
+    assert.deepEqual(mesh.node('c').left, [['c', 'left']]);
+    assert.equal(mesh.node('c').membership.active().length, 0);
+  });
+});
+
+describe('MulticastDiscovery', () => {
+  const logger = new Logger('discovery', 'silent');
+  const discoveries: MulticastDiscovery[] = [];
+
+  afterEach(async () => {
+    await Promise.all(discoveries.splice(0).map((discovery) => discovery.stop()));
+  });
+
+  const start = async (nodeId: string, port: number, found: string[][], cluster = 'test') => {
+    const discovery = new MulticastDiscovery(
+      nodeId,
+      `${nodeId}.test:7000`,
+      (...node) => found.push(node),
+      logger,
+      { port, cluster, intervalMs: 50 },
+    );
+    discoveries.push(discovery);
+    await discovery.start();
+    return discovery;
+  };
+
+  async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() >= deadline) throw new Error('Condition not met in time');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  it('reports the nodes of its cluster announced on the group', async () => {
+    const port = await freePort();
+    const seenByA: string[][] = [];
+    const seenByB: string[][] = [];
+    const seenByOther: string[][] = [];
+    await start('a', port, seenByA);
+    await start('b', port, seenByB);
+    await start('x', port, seenByOther, 'other');
+    await waitFor(() => seenByA.length > 0 && seenByB.length > 0);
+    assert.deepEqual(seenByA[0], ['b', 'b.test:7000']);
+    assert.deepEqual(seenByB[0], ['a', 'a.test:7000']);
+    assert.ok(
+      seenByA.every(([nodeId]) => nodeId === 'b'),
+      'neither itself nor another cluster',
+    );
+    assert.deepEqual(seenByOther, []);
+  });
+
+  it('ignores datagrams that are not announcements of its cluster', async () => {
+    const port = await freePort();
+    const found: string[][] = [];
+    await start('a', port, found);
+    const announcement = { service: 'realtime-mesh', cluster: 'test', address: 'z.test:7000' };
+    const datagrams = [
+      'not json',
+      JSON.stringify({ ...announcement, service: 'other', nodeId: 'z' }),
+      JSON.stringify({ ...announcement, cluster: 'other', nodeId: 'z' }),
+      JSON.stringify({ ...announcement, nodeId: 42 }),
+      JSON.stringify({ ...announcement, nodeId: 'z', address: null }),
+      JSON.stringify({ ...announcement, nodeId: 'a' }),
+      JSON.stringify({ ...announcement, nodeId: 'z' }),
+    ];
+    const sender = createSocket('udp4');
+    for (const datagram of datagrams) {
+      await new Promise((resolve) => sender.send(datagram, port, '127.0.0.1', resolve));
+    }
+    await waitFor(() => found.length > 0);
+    sender.close();
+    assert.deepEqual(found, [['z', 'z.test:7000']]);
+  });
+});
@@ -0,0 +1,236 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ErrorCodes, RealtimeError } from '../src/core/errors.js';
+import { compose, composeSync, type OutboundContext } from '../src/core/middleware.js';
+import { v } from '../src/core/validation.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+describe('compose', () => {
+  it('runs middleware as an onion around the final step', async () => {
+    const calls: string[] = [];
+    const layer = (name: string) => async (log: string[], next: () => Promise<void>) => {
+      log.push(`${name} in`);
+      await next();
+      log.push(`${name} out`);
+    };
+    await compose([layer('a'), layer('b')], (log: string[]) => void log.push('final'))(calls);
+    assert.deepEqual(calls, ['a in', 'b in', 'final', 'b out', 'a out']);
+  });
+
+  it('refuses a second call to next()', async () => {
+    await assert.rejects(
+      compose<null>(
+        [
+          async (_context, next) => {
+            await next();
+            await next();
+          },
+        ],
+        () => undefined,
+      )(null),
+      /next\(\) called multiple times/,
+    );
+    assert.throws(
+      () =>
+        composeSync<null>(
+          [
+            (_context, next) => {
+              next();
+              next();
+            },
+          ],
+          () => undefined,
+        )(null),
+      /next\(\) called multiple times/,
+    );
+  });
+});
+
+describe('Inbound middleware', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  let ws: RawWebSocket;
+  let calls: string[];
+
+  beforeEach(async () => {
+    server = await startEchoKernel();
+    calls = [];
+  });
+
+  afterEach(async () => {
+    ws.destroy();
+    await server.stop();
+  });
+
+  const connect = async () => {
+    ws = await RawWebSocket.connect(server.port);
+  };
+
+  it('wraps validation and handlers in registration order, sharing its state with them', async () => {
+    server.kernel.schema('greet', v.string());
+    server.kernel.use(async ({ message, state }, next) => {
+      calls.push(`outer in ${message.type}`);
+      state.user = 'ada';
+      await next();
+      calls.push('outer out');
+    });
+    server.kernel.use(async (context, next) => {
+      calls.push('inner in');
+      context.message = { ...context.message, type: 'greet', payload: 'hello' };
+      await next();
+      calls.push('inner out');
+    });
+    server.kernel.on('greet', (message, _context, toolkit) => {
+      calls.push(`${message.payload} ${toolkit.state.user}`);
+    });
+
+    await connect();
+    ws.sendMessage({ type: 'hi', payload: 42, ack: 'a1' });
+    assert.deepEqual((await ws.message()).payload, { ack: 'a1' });
+    assert.deepEqual(calls, ['outer in hi', 'inner in', 'hello ada', 'inner out', 'outer out']);
+  });
+
+  it('skips the handlers, but still acknowledges, when middleware does not call next()', async () => {
+    server.kernel.use(async ({ message }, next) => {
+      if (message.type !== 'blocked') await next();
+    });
+    server.kernel.on('blocked', () => void calls.push('handler'));
+
+    await connect();
+    ws.sendMessage({ type: 'blocked', ack: 'a1' });
+    ws.sendMessage({ type: 'echo', payload: 'after' });
+    const ack = await ws.message();
+    assert.equal(ack.type, 'system:ack');
+    assert.deepEqual(ack.payload, { ack: 'a1' });
+    assert.equal((await ws.message()).payload, 'after');
+    assert.deepEqual(calls, []);
+  });
+
+  it('sees what handlers throw, and may rethrow it or answer it', async () => {
+    server.kernel.use(async ({ message }, next) => {
+      try {
+        await next();
+      } catch (error) {
+        calls.push(`caught ${(error as Error).message}`);
+        if (message.type !== 'swallowed') throw error;
+      }
+    });
+    server.kernel.on('failing', () => {
+      throw new RealtimeError('Out of stock', 'OUT_OF_STOCK');
+    });
+    server.kernel.on('swallowed', () => {
+      throw new Error('Handled upstream');
+    });
+
+    await connect();
+    ws.sendMessage({ type: 'failing', ack: 'a1' });
+    const error = await ws.message();
+    assert.equal(error.type, 'system:error');
+    assert.deepEqual(error.payload, { message: 'Out of stock', code: 'OUT_OF_STOCK', ack: 'a1' });
+
+    ws.sendMessage({ type: 'swallowed', ack: 'a2' });
+    const ack = await ws.message();
+    assert.equal(ack.type, 'system:ack');
+    assert.deepEqual(ack.payload, { ack: 'a2' });
+    assert.deepEqual(calls, ['caught Out of stock', 'caught Handled upstream']);
+  });
+
+  it('reports a middleware that throws as an internal error, without running the handlers', async () => {
+    server.kernel.use(() => {
+      throw new Error('Tracer unavailable');
+    });
+    server.kernel.on('echo', () => void calls.push('handler'));
+
+    await connect();
+    ws.sendMessage({ type: 'echo', payload: 'lost', ack: 'a1' });
+    const error = await ws.message();
+    assert.equal(error.type, 'system:error');
+    assert.deepEqual(error.payload, {
+      message: 'Internal handler error',
+      code: ErrorCodes.INTERNAL_ERROR,
+      details: 'Tracer unavailable',
+      ack: 'a1',
+    });
+    assert.deepEqual(calls, []);
+  });
+});
+
+describe('Outbound middleware', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  let sockets: RawWebSocket[];
+
+  beforeEach(async () => {
+    server = await startEchoKernel();
+    sockets = [];
+  });
+
+  afterEach(async () => {
+    sockets.forEach((socket) => socket.destroy());
+    await server.stop();
+  });
+
+  const connect = async () => {
+    const socket = await RawWebSocket.connect(server.port);
+    sockets.push(socket);
+    return socket;
+  };
+
+  it('sees every send and broadcast, in registration order', async () => {
+    const seen: Array<Omit<OutboundContext, 'message'> & { type: string; by: string }> = [];
+    const record =
+      (by: string) =>
+      ({ message, ...context }: OutboundContext, next: () => void) => {
+        seen.push({ by, type: message.type, ...context });
+        next();
+      };
+    server.kernel.useOutbound(record('first'));
+    server.kernel.useOutbound(record('second'));
+    server.kernel.on('shout', (message, _context, toolkit) => {
+      toolkit.broadcast({ type: 'shout', payload: message.payload });
+    });
+
+    const ws = await connect();
+    ws.sendMessage({ type: 'echo', payload: 'one', ack: 'a1' });
+    await ws.message();
+    await ws.message();
+    ws.sendMessage({ type: 'shout', payload: 'all' });
+    await ws.message();
+
+    const [clientId] = server.kernel.presence.list().map(({ id }) => id);
+    assert.deepEqual(seen, [
+      { by: 'first', type: 'echo', kind: 'send', clientId },
+      { by: 'second', type: 'echo', kind: 'send', clientId },
+      { by: 'first', type: 'system:ack', kind: 'send', clientId },
+      { by: 'second', type: 'system:ack', kind: 'send', clientId },
+      { by: 'first', type: 'shout', kind: 'broadcast', options: undefined },
+      { by: 'second', type: 'shout', kind: 'broadcast', options: undefined },
+    ]);
+  });
+
+  it('rewrites or drops messages before any client receives them', async () => {
+    server.kernel.useOutbound((context, next) => {
+      if (context.message.payload === 'secret') return;
+      if (context.message.type === 'echo') {
+        context.message = { ...context.message, payload: `${context.message.payload}!` };
+      }
+      next();
+    });
+
+    const ws = await connect();
+    ws.sendMessage({ type: 'echo', payload: 'secret' });
+    ws.sendMessage({ type: 'echo', payload: 'public' });
+    assert.equal((await ws.message()).payload, 'public!');
+  });
+
+  it('drops the message of a middleware that throws, and keeps serving the others', async () => {
+    server.kernel.useOutbound((context, next) => {
+      if (context.message.payload === 'boom') throw new Error('Encoder failed');
+      next();
+    });
+
+    const ws = await connect();
+    ws.sendMessage({ type: 'echo', payload: 'boom' });
+    ws.sendMessage({ type: 'echo', payload: 'fine' });
+    assert.equal((await ws.message()).payload, 'fine');
+  });
+});
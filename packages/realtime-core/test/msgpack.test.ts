@@ -0,0 +1,209 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeMsgpack, encodeMsgpack } from '../src/utils/msgpack.js';
+
+const bytes = (...values: Array<number | string>) =>
+  Uint8Array.from(
+    values.flatMap((value) => (typeof value === 'string' ? [...Buffer.from(value)] : [value])),
+  );
+
+/** Encodes `value`, checks the type byte it was given, and returns what decoding gives back. */
+const roundTrip = (value: unknown, type: number) => {
+  const encoded = encodeMsgpack(value);
+  assert.equal(
+    encoded[0],
+    type,
+    `type 0x${encoded[0]!.toString(16)} instead of 0x${type.toString(16)}`,
+  );
+  return decodeMsgpack(encoded);
+};
+
+const nested = (depth: number): unknown => (depth ? [nested(depth - 1)] : 0);
+
+describe('MessagePack', () => {
+  describe('round trips', () => {
+    it('keeps nil, booleans and floats', () => {
+      assert.equal(roundTrip(null, 0xc0), null);
+      assert.equal(roundTrip(true, 0xc3), true);
+      assert.equal(roundTrip(false, 0xc2), false);
+      for (const value of [1.5, -0.25, 2 ** 53, -(2 ** 60), Infinity, NaN]) {
+        assert.deepEqual(roundTrip(value, 0xcb), value);
+      }
+      assert.equal(decodeMsgpack(bytes(0xca, 0x3f, 0xc0, 0, 0)), 1.5, 'float32');
+    });
+
+    for (const [label, values, type] of [
+      ['positive fixint', [0, 127], 0x7f],
+      ['uint8', [128, 255], 0xcc],
+      ['uint16', [256, 65535], 0xcd],
+      ['uint32', [65536, 2 ** 32 - 1], 0xce],
+      ['uint64', [2 ** 32, Number.MAX_SAFE_INTEGER], 0xcf],
+      ['negative fixint', [-1, -32], 0xe0],
+      ['int8', [-33, -128], 0xd0],
+      ['int16', [-129, -32768], 0xd1],
+      ['int32', [-32769, -(2 ** 31)], 0xd2],
+      ['int64', [-(2 ** 31) - 1, Number.MIN_SAFE_INTEGER], 0xd3],
+    ] as const) {
+      it(`keeps integers at the edges of ${label}`, () => {
+        const [first, last] = values;
+        // fixints carry the value in their type byte
+        const typeOf = (value: number) => (label.endsWith('fixint') ? value & 0xff : type);
+        assert.equal(roundTrip(first, typeOf(first)), first);
+        assert.equal(roundTrip(last, typeOf(last)), last);
+      });
+    }
+
+    it('keeps 64-bit bigints, returning numbers when they are exact', () => {
+      assert.equal(roundTrip(2n ** 64n - 1n, 0xcf), 2n ** 64n - 1n);
+      assert.equal(roundTrip(-(2n ** 63n), 0xd3), -(2n ** 63n));
+      assert.equal(roundTrip(42n, 0xcf), 42);
+      assert.throws(() => encodeMsgpack(2n ** 64n), /does not fit in 64 bits/);
+      assert.throws(() => encodeMsgpack(-(2n ** 63n) - 1n), RangeError);
+    });
+
+    for (const [label, length, type] of [
+      ['fixstr', 0, 0xa0],
+      ['fixstr', 31, 0xbf],
+      ['str8', 32, 0xd9],
+      ['str8', 255, 0xd9],
+      ['str16', 256, 0xda],
+      ['str16', 65535, 0xda],
+      ['str32', 65536, 0xdb],
+    ] as const) {
+      it(`keeps a ${length}-byte string as ${label}`, () => {
+        const value = 'x'.repeat(length);
+        assert.equal(roundTrip(value, type), value);
+      });
+    }
+
+    it('counts string lengths in UTF-8 bytes', () => {
+      const value = 'é'.repeat(16);
+      assert.equal(roundTrip(value, 0xd9), value);
+      assert.equal(roundTrip('😀', 0xa4), '😀');
+    });
+
+    for (const [label, length, type] of [
+      ['fixarray', 15, 0x9f],
+      ['array16', 16, 0xdc],
+      ['array16', 65535, 0xdc],
+      ['array32', 65536, 0xdd],
+    ] as const) {
+      it(`keeps an array of ${length} items as ${label}`, () => {
+        const value = Array.from({ length }, (_, index) => index % 7);
+        assert.deepEqual(roundTrip(value, type), value);
+      });
+    }
+
+    for (const [label, size, type] of [
+      ['fixmap', 15, 0x8f],
+      ['map16', 16, 0xde],
+      ['map32', 65536, 0xdf],
+    ] as const) {
+      it(`keeps a map of ${size} entries as ${label}`, () => {
+        const value = Object.fromEntries(
+          Array.from({ length: size }, (_, index) => [`k${index}`, index]),
+        );
+        assert.deepEqual(roundTrip(value, type), value);
+      });
+    }
+
+    for (const [label, length, type] of [
+      ['bin8', 255, 0xc4],
+      ['bin16', 256, 0xc5],
+      ['bin32', 65536, 0xc6],
+    ] as const) {
+      it(`keeps ${length} bytes as ${label}`, () => {
+        const value = Uint8Array.from({ length }, (_, index) => index & 0xff);
+        assert.deepEqual(roundTrip(value, type), value);
+      });
+    }
+
+    it('sends typed arrays and buffers as their bytes', () => {
+      assert.deepEqual(roundTrip(new Uint16Array([1, 0x0203]).subarray(1), 0xc4), bytes(3, 2));
+      assert.deepEqual(roundTrip(new Uint8Array([9, 8]).buffer, 0xc4), bytes(9, 8));
+    });
+
+    it('follows JSON for undefined members, functions and toJSON', () => {
+      const date = new Date(0);
+      assert.deepEqual(
+        decodeMsgpack(encodeMsgpack({ a: undefined, b: () => 1, c: [undefined], date })),
+        { c: [null], date: '1970-01-01T00:00:00.000Z' },
+      );
+    });
+  });
+
+  describe('malformed input', () => {
+    it('refuses every truncation of a value', () => {
+      const encoded = encodeMsgpack({
+        text: 'hello',
+        list: [1, 300, 70_000, 1.5],
+        bin: bytes(1, 2),
+      });
+      for (let length = 0; length < encoded.length; length += 1) {
+        assert.throws(
+          () => decodeMsgpack(encoded.subarray(0, length)),
+          /Truncated/,
+          `${length} bytes`,
+        );
+      }
+    });
+
+    it('refuses bytes after the value', () => {
+      assert.throws(() => decodeMsgpack(bytes(0xc0, 0xc0)), /Unexpected bytes after/);
+    });
+
+    it('refuses forged lengths before allocating for them', () => {
+      for (const forged of [
+        bytes(0xdd, 0xff, 0xff, 0xff, 0xff, 0x01),
+        bytes(0xdf, 0xff, 0xff, 0xff, 0xff, 0xa1, 'a', 0x01),
+        bytes(0xdb, 0xff, 0xff, 0xff, 0xff, 'abc'),
+        bytes(0xc6, 0xff, 0xff, 0xff, 0xff, 0x00),
+        bytes(0x9f, 0x01),
+      ]) {
+        assert.throws(() => decodeMsgpack(forged), /Truncated/);
+      }
+    });
+
+    it('refuses extension and reserved types, odd map keys and invalid UTF-8', () => {
+      assert.throws(() => decodeMsgpack(bytes(0xc1)), /Unsupported MessagePack type 0xc1/);
+      assert.throws(
+        () => decodeMsgpack(bytes(0xd4, 0x01, 0x00)),
+        /Unsupported MessagePack type 0xd4/,
+      );
+      assert.throws(
+        () => decodeMsgpack(bytes(0x81, 0xc3, 0x01)),
+        /map keys must be strings or numbers/,
+      );
+      assert.throws(() => decodeMsgpack(bytes(0xa1, 0xff)), TypeError);
+    });
+  });
+
+  describe('limits', () => {
+    it('refuses values nested more than 512 levels deep, both ways', () => {
+      assert.deepEqual(decodeMsgpack(encodeMsgpack(nested(512))), nested(512));
+      assert.throws(() => encodeMsgpack(nested(513)), /nested too deeply/);
+      const deep = new Uint8Array(514).fill(0x91);
+      deep[513] = 0x00;
+      assert.throws(() => decodeMsgpack(deep), /nested too deeply/);
+    });
+
+    it('decodes `__proto__` as an own key, leaving prototypes alone', () => {
+      const decoded = decodeMsgpack(
+        bytes(0x81, 0xa9, '__proto__', 0x81, 0xa8, 'polluted', 0xc3),
+      ) as Record<string, unknown>;
+      assert.equal(Object.getPrototypeOf(decoded), Object.prototype);
+      assert.deepEqual(Object.keys(decoded), ['__proto__']);
+      assert.deepEqual(Object.getOwnPropertyDescriptor(decoded, '__proto__')?.value, {
+        polluted: true,
+      });
+      assert.equal(({} as Record<string, unknown>).polluted, undefined);
+    });
+
+    it('turns numeric map keys into strings', () => {
+      assert.deepEqual(decodeMsgpack(bytes(0x82, 0x01, 0xa1, 'a', 0xff, 0xc3)), {
+        1: 'a',
+        '-1': true,
+      });
+    });
+  });
+});
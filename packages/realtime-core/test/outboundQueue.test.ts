@@ -0,0 +1,323 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  OutboundQueue,
+  resolveBackpressure,
+  type BackpressureOptions,
+  type QueueOverflow,
+} from '../src/core/outboundQueue.js';
+import { RealtimeHub } from '../src/core/realtimeHub.js';
+import type { OutboundMessage } from '../src/types/index.js';
+import { Logger } from '../src/utils/logger.js';
+import { CloseCodes, Opcodes } from '../src/utils/websocketFrames.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+/** A sink that accepts writes until `congested` is set, like a socket past its own buffer. */
+function createSink() {
+  const sink = {
+    written: [] as string[],
+    congested: false,
+    write: (chunk: Buffer) => {
+      sink.written.push(chunk.toString());
+      return !sink.congested;
+    },
+  };
+  return sink;
+}
+
+/** Messages whose chunk is their label, so sizes are easy to count. */
+const message = (label: string, key?: string): [OutboundMessage, Buffer] => [
+  { type: 'tick', payload: { key } },
+  Buffer.from(label),
+];
+
+/** A queue whose sink already pushed back once, so that everything pushed next is held. */
+function congestedQueue(options: BackpressureOptions) {
+  const sink = createSink();
+  const queue = new OutboundQueue(resolveBackpressure(options), sink.write);
+  sink.congested = true;
+  queue.push(...message('first'));
+  sink.written.length = 0;
+  return { queue, sink };
+}
+
+const labels = (queue: OutboundQueue, sink: ReturnType<typeof createSink>) => {
+  sink.congested = false;
+  queue.flush();
+  return sink.written;
+};
+
+describe('OutboundQueue', () => {
+  it('writes straight through while the sink keeps up', () => {
+    const sink = createSink();
+    const queue = new OutboundQueue(resolveBackpressure({ highWaterMark: 4 }), sink.write);
+    for (const label of ['aaaa', 'bbbb', 'cccc']) {
+      assert.equal(queue.push(...message(label)), undefined);
+    }
+    assert.deepEqual(sink.written, ['aaaa', 'bbbb', 'cccc']);
+    assert.equal(queue.length, 0);
+  });
+
+  it('holds chunks once the sink pushes back, and flushes them in order on drain', () => {
+    const { queue, sink } = congestedQueue({ highWaterMark: 100 });
+    queue.push(...message('a'));
+    queue.push(...message('bb'));
+    assert.deepEqual([queue.length, queue.bytes], [2, 3]);
+    assert.deepEqual(sink.written, []);
+    assert.deepEqual(labels(queue, sink), ['a', 'bb']);
+    assert.deepEqual([queue.length, queue.bytes], [0, 0]);
+  });
+
+  it('stops flushing when the sink pushes back again', () => {
+    const written: string[] = [];
+    const queue = new OutboundQueue(resolveBackpressure(), (chunk) => {
+      written.push(chunk.toString());
+      return written.length === 2;
+    });
+    ['first', 'a', 'b', 'c'].forEach((label) => queue.push(...message(label)));
+    queue.flush();
+    assert.deepEqual(written, ['first', 'a', 'b']);
+    assert.equal(queue.length, 1);
+  });
+
+  it('counts the high-water mark in bytes, not in messages', () => {
+    const { queue } = congestedQueue({ highWaterMark: 4, policy: 'drop-newest' });
+    assert.equal(queue.push(...message('aa')), undefined);
+    assert.equal(queue.push(...message('bb')), undefined);
+    assert.equal(queue.push(...message('c'))?.dropped, 1);
+  });
+
+  describe('drop-oldest', () => {
+    it('discards from the front until the new chunk fits', () => {
+      const { queue, sink } = congestedQueue({ highWaterMark: 4, policy: 'drop-oldest' });
+      queue.push(...message('aa'));
+      queue.push(...message('b'));
+      queue.push(...message('c'));
+      const overflow = queue.push(...message('dd'));
+      assert.deepEqual(overflow, {
+        policy: 'drop-oldest',
+        queuedBytes: 4,
+        dropped: 1,
+        first: true,
+      });
+      assert.deepEqual(labels(queue, sink), ['b', 'c', 'dd']);
+    });
+  });
+
+  describe('drop-newest', () => {
+    it('discards the incoming chunk', () => {
+      const { queue, sink } = congestedQueue({ highWaterMark: 4, policy: 'drop-newest' });
+      queue.push(...message('aaaa'));
+      const overflow = queue.push(...message('b'));
+      assert.deepEqual(overflow, {
+        policy: 'drop-newest',
+        queuedBytes: 4,
+        dropped: 1,
+        first: true,
+      });
+      assert.deepEqual(labels(queue, sink), ['aaaa']);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('reports the overflow without dropping anything itself', () => {
+      const { queue } = congestedQueue({ highWaterMark: 4, policy: 'disconnect' });
+      queue.push(...message('aaaa'));
+      assert.deepEqual(queue.push(...message('b')), {
+        policy: 'disconnect',
+        queuedBytes: 4,
+        dropped: 0,
+        first: true,
+      });
+    });
+  });
+
+  describe('coalesce', () => {
+    const coalesceKey = (outbound: OutboundMessage) => (outbound.payload as { key?: string }).key;
+
+    it('requires a key', () => {
+      assert.throws(() => resolveBackpressure({ policy: 'coalesce' }), /coalesceKey/);
+    });
+
+    it('replaces nothing below the high-water mark', () => {
+      const { queue, sink } = congestedQueue({
+        highWaterMark: 100,
+        policy: 'coalesce',
+        coalesceKey,
+      });
+      queue.push(...message('x1', 'x'));
+      queue.push(...message('x2', 'x'));
+      assert.deepEqual(labels(queue, sink), ['x1', 'x2']);
+    });
+
+    it('replaces the latest message with the same key where it stands', () => {
+      const { queue, sink } = congestedQueue({ highWaterMark: 6, policy: 'coalesce', coalesceKey });
+      queue.push(...message('x1', 'x'));
+      queue.push(...message('y1', 'y'));
+      queue.push(...message('z1'));
+      const overflow = queue.push(...message('x2', 'x'));
+      assert.deepEqual(overflow, { policy: 'coalesce', queuedBytes: 6, dropped: 1, first: true });
+      assert.deepEqual(labels(queue, sink), ['x2', 'y1', 'z1']);
+    });
+
+    it('drops the oldest messages when nothing shares the key', () => {
+      const { queue, sink } = congestedQueue({ highWaterMark: 6, policy: 'coalesce', coalesceKey });
+      queue.push(...message('x1', 'x'));
+      queue.push(...message('y1', 'y'));
+      queue.push(...message('n1'));
+      const overflow = queue.push(...message('n2'));
+      assert.equal(overflow?.dropped, 1);
+      assert.deepEqual(labels(queue, sink), ['y1', 'n1', 'n2']);
+    });
+
+    it('drops older messages as well when the replacement is larger', () => {
+      const { queue, sink } = congestedQueue({ highWaterMark: 6, policy: 'coalesce', coalesceKey });
+      queue.push(...message('n1'));
+      queue.push(...message('y1', 'y'));
+      queue.push(...message('x1', 'x'));
+      const overflow = queue.push(...message('x222', 'x'));
+      assert.equal(overflow?.dropped, 2);
+      assert.deepEqual(labels(queue, sink), ['y1', 'x222']);
+    });
+
+    it('keeps a larger replacement standing first, dropping the messages behind it instead', () => {
+      const { queue, sink } = congestedQueue({ highWaterMark: 6, policy: 'coalesce', coalesceKey });
+      queue.push(...message('x1', 'x'));
+      queue.push(...message('y1', 'y'));
+      queue.push(...message('n1'));
+      const overflow = queue.push(...message('x2222', 'x'));
+      assert.deepEqual(overflow, { policy: 'coalesce', queuedBytes: 5, dropped: 3, first: true });
+      assert.deepEqual(labels(queue, sink), ['x2222']);
+    });
+  });
+
+  describe('a chunk larger than the high-water mark', () => {
+    for (const policy of ['drop-oldest', 'coalesce'] as const) {
+      it(`is kept alone under ${policy}, once everything else is dropped`, () => {
+        const { queue, sink } = congestedQueue({
+          highWaterMark: 4,
+          policy,
+          coalesceKey: () => undefined,
+        });
+        queue.push(...message('aa'));
+        queue.push(...message('bb'));
+        const overflow = queue.push(...message('huge!!'));
+        assert.deepEqual(overflow, { policy, queuedBytes: 6, dropped: 2, first: true });
+        assert.deepEqual(labels(queue, sink), ['huge!!']);
+      });
+    }
+
+    it('is discarded under drop-newest', () => {
+      const { queue, sink } = congestedQueue({ highWaterMark: 4, policy: 'drop-newest' });
+      assert.equal(queue.push(...message('huge!!'))?.dropped, 1);
+      assert.deepEqual(labels(queue, sink), []);
+    });
+  });
+
+  it('reports the first crossing once per congestion episode', () => {
+    const { queue, sink } = congestedQueue({ highWaterMark: 2, policy: 'drop-oldest' });
+    queue.push(...message('aa'));
+    assert.equal(queue.push(...message('bb'))?.first, true);
+    assert.equal(queue.push(...message('cc'))?.first, false);
+    labels(queue, sink);
+
+    sink.congested = true;
+    queue.push(...message('dd'));
+    queue.push(...message('ee'));
+    assert.equal(queue.push(...message('ff'))?.first, true);
+  });
+});
+
+describe('RealtimeHub slow clients', () => {
+  const overflow = (first: boolean, dropped: number): QueueOverflow => ({
+    policy: 'drop-oldest',
+    queuedBytes: 2048,
+    dropped,
+    first,
+  });
+
+  it('emits client:slow once per episode and counts every dropped message', () => {
+    const hub = new RealtimeHub(new Logger('hub', 'silent'));
+    const slow: Array<[string, QueueOverflow]> = [];
+    hub.on('client:slow', (clientId: string, details: QueueOverflow) =>
+      slow.push([clientId, details]),
+    );
+    hub.reportSlowClient('c1', 'websocket', overflow(true, 1));
+    hub.reportSlowClient('c1', 'websocket', overflow(false, 3));
+    assert.deepEqual(slow, [['c1', overflow(true, 1)]]);
+    const labels = { transport: 'websocket', policy: 'drop-oldest' };
+    assert.equal(hub.metrics.counter('outbound_dropped_total', labels), 4);
+    assert.equal(hub.metrics.counter('slow_clients_total', labels), 1);
+  });
+
+  it('exposes queued bytes as a gauge until they are back to zero', () => {
+    const hub = new RealtimeHub(new Logger('hub', 'silent'));
+    hub.trackQueuedBytes('c1', 'tcp', 512);
+    assert.deepEqual(hub.metrics.snapshot().gauges, {
+      'outbound_queued_bytes{client="c1",transport="tcp"}': 512,
+    });
+    hub.trackQueuedBytes('c1', 'tcp', 0);
+    assert.deepEqual(hub.metrics.snapshot().gauges, {});
+  });
+});
+
+describe('WebSocket transport backpressure', () => {
+  // far more than loopback buffers hold for a reader that stopped reading
+  const FLOOD = 256;
+  const PADDING = 'x'.repeat(64 * 1024);
+
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  let ws: RawWebSocket;
+
+  /** Connects a reader that stops reading, then has the kernel answer it FLOOD times at once. */
+  const flood = async (backpressure: BackpressureOptions) => {
+    server = await startEchoKernel({ backpressure });
+    server.kernel.on('flood', (_message, _context, toolkit) => {
+      for (let seq = 0; seq < FLOOD; seq += 1) {
+        toolkit.reply({ type: 'flood', payload: { seq, padding: PADDING } });
+      }
+    });
+    ws = await RawWebSocket.connect(server.port);
+    ws.socket.pause();
+    ws.sendMessage({ type: 'flood' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    ws.socket.resume();
+  };
+
+  afterEach(async () => {
+    ws.destroy();
+    await server.stop();
+  });
+
+  it('drops the oldest messages past the high-water mark and delivers the latest', async () => {
+    await flood({ highWaterMark: 256 * 1024, policy: 'drop-oldest' });
+    const received: number[] = [];
+    while (received.at(-1) !== FLOOD - 1) {
+      const { payload } = await ws.message();
+      received.push((payload as { seq: number }).seq);
+    }
+    assert.ok(received.length < FLOOD, `${received.length} messages delivered`);
+    assert.deepEqual(
+      received,
+      [...received].sort((a, b) => a - b),
+      'in order',
+    );
+    const labels = { transport: 'websocket', policy: 'drop-oldest' };
+    assert.equal(
+      server.kernel.metrics.counter('outbound_dropped_total', labels),
+      FLOOD - received.length,
+    );
+    assert.equal(server.kernel.metrics.counter('slow_clients_total', labels), 1);
+  });
+
+  it('closes a slow consumer with 1008 under the disconnect policy', async () => {
+    await flood({ highWaterMark: 256 * 1024, policy: 'disconnect' });
+    const close = await ws.nextOf(Opcodes.CLOSE);
+    assert.equal(close.payload.readUInt16BE(0), CloseCodes.POLICY_VIOLATION);
+    assert.equal(close.payload.subarray(2).toString(), 'slow_consumer');
+    ws.send(Opcodes.CLOSE, close.payload);
+    await ws.closed;
+    assert.equal(server.kernel.clientCount, 0);
+  });
+});
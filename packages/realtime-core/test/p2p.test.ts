@@ -0,0 +1,220 @@
+import assert from 'node:assert/strict';
+import { createHmac, randomBytes } from 'node:crypto';
+import { once } from 'node:events';
+import { createServer, type Socket } from 'node:net';
+import { afterEach, describe, it } from 'node:test';
+import { RealtimeKernel } from '../src/core/realtimeKernel.js';
+import { PeerMeshTransport, type PeerMeshOptions } from '../src/transports/p2p.js';
+import { encodeLengthPrefixed } from '../src/utils/framing.js';
+import { closeServer, freePort } from './support/servers.js';
+import { TcpClient } from './support/tcpClient.js';
+
+/**
+ * The mesh handshake, driven from raw sockets that play a peer: with a secret, a link is only
+ * ready once both sides proved it on this very link.
+ */
+
+const SECRET = 'cluster-secret';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** The proof a peer holding `secret` sends, mirroring the transport. */
+const prove = (
+  secret: string,
+  role: 'dial' | 'accept',
+  nonce: string,
+  prover: string,
+  verifier: string,
+) =>
+  createHmac('sha256', secret)
+    .update(JSON.stringify(['mesh-auth', role, nonce, prover, verifier]))
+    .digest('hex');
+
+interface Hello {
+  kind: string;
+  nodeId: string;
+  nonce?: string;
+  auth?: string;
+}
+
+/** Whether the node closed `client` within `ms`. */
+const closedWithin = (client: TcpClient, ms = 1000) =>
+  Promise.race([client.closed.then(() => true), sleep(ms).then(() => false)]);
+
+describe('PeerMeshTransport handshake', () => {
+  const kernels: RealtimeKernel[] = [];
+  const clients: TcpClient[] = [];
+
+  afterEach(async () => {
+    clients.splice(0).forEach((client) => client.destroy());
+    await Promise.all(kernels.splice(0).map((kernel) => kernel.stop()));
+  });
+
+  const node = async (nodeId: string, options: PeerMeshOptions = {}) => {
+    const port = await freePort();
+    const transport = new PeerMeshTransport({
+      nodeId,
+      host: '127.0.0.1',
+      port,
+      secret: SECRET,
+      reconnectIntervalMs: 50,
+      membership: { probeIntervalMs: 100, probeTimeoutMs: 100 },
+      ...options,
+    });
+    const kernel = new RealtimeKernel({ logLevel: 'silent', transports: [transport] });
+    kernels.push(kernel);
+    await kernel.start();
+    return { transport, port, address: `127.0.0.1:${port}` };
+  };
+
+  const open = async (port: number) => {
+    const client = await TcpClient.open(port);
+    clients.push(client);
+    return client;
+  };
+
+  /** Sends a hello as `nodeId` and returns the node's answer. */
+  const hello = async (client: TcpClient, nodeId: string, nonce?: string) => {
+    client.send({ kind: 'hello', nodeId, nonce, codec: 'json' });
+    return (await client.next()) as Hello;
+  };
+
+  const alive = (transport: PeerMeshTransport) =>
+    transport
+      .members()
+      .filter((member) => member.status === 'alive')
+      .map((member) => member.nodeId)
+      .sort()
+      .join();
+
+  it('links nodes sharing the secret and refuses one with another secret', async () => {
+    const a = await node('a');
+    const b = await node('b', { peers: [a.address] });
+    const c = await node('c', { peers: [a.address], secret: 'wrong' });
+    const deadline = Date.now() + 3000;
+    while (alive(a.transport) !== 'a,b' && Date.now() < deadline) await sleep(20);
+    await sleep(300);
+    assert.equal(alive(a.transport), 'a,b');
+    assert.equal(alive(b.transport), 'a,b');
+    assert.equal(alive(c.transport), 'c');
+  });
+
+  it('answers a peer that proves the secret on this link', async () => {
+    const a = await node('a');
+    const client = await open(a.port);
+    const nonce = randomBytes(16).toString('hex');
+    const answer = await hello(client, 'x', nonce);
+    assert.equal(answer.auth, prove(SECRET, 'accept', nonce, 'a', 'x'));
+    client.send({ kind: 'auth', auth: prove(SECRET, 'dial', answer.nonce!, 'x', 'a') });
+    assert.equal(await closedWithin(client, 300), false);
+  });
+
+  it('refuses a hello without a challenge', async () => {
+    const a = await node('a');
+    const client = await open(a.port);
+    client.send({ kind: 'hello', nodeId: 'x', codec: 'json' });
+    assert.equal(await closedWithin(client), true);
+  });
+
+  it('refuses a dialer whose proof uses another secret', async () => {
+    const a = await node('a');
+    const client = await open(a.port);
+    const answer = await hello(client, 'x', randomBytes(16).toString('hex'));
+    client.send({ kind: 'auth', auth: prove('wrong', 'dial', answer.nonce!, 'x', 'a') });
+    assert.equal(await closedWithin(client), true);
+  });
+
+  it('refuses an accepting node’s proof relayed as a dialer’s auth', async () => {
+    const a = await node('a');
+    const b = await node('b');
+    // claim to be b towards a, and get a's challenge
+    const towardsA = await open(a.port);
+    const challenge = (await hello(towardsA, 'b', randomBytes(16).toString('hex'))).nonce!;
+    // claim to be a towards b, with a's challenge as our own: b answers it
+    const towardsB = await open(b.port);
+    const relayed = (await hello(towardsB, 'a', challenge)).auth;
+    assert.equal(relayed, prove(SECRET, 'accept', challenge, 'b', 'a'));
+
+    towardsA.send({ kind: 'auth', auth: relayed });
+    assert.equal(await closedWithin(towardsA), true);
+    assert.equal(alive(a.transport), 'a');
+  });
+
+  it('refuses a dialer’s hello and auth replayed on a new link', async () => {
+    const a = await node('a');
+    const nonce = randomBytes(16).toString('hex');
+    const first = await open(a.port);
+    const answer = await hello(first, 'x', nonce);
+    const auth = prove(SECRET, 'dial', answer.nonce!, 'x', 'a');
+    first.send({ kind: 'auth', auth });
+    assert.equal(await closedWithin(first, 300), false);
+    first.destroy();
+
+    const replay = await open(a.port);
+    await hello(replay, 'x', nonce);
+    replay.send({ kind: 'auth', auth });
+    assert.equal(await closedWithin(replay), true);
+  });
+
+  it('refuses an accepting node’s hello replayed to a dialing node', async () => {
+    // record b's answer to a challenge of ours
+    const b = await node('b');
+    const recorder = await open(b.port);
+    const recorded = await hello(recorder, 'a', randomBytes(16).toString('hex'));
+
+    // a fake b replays it to a, which dials it with a fresh challenge
+    const fake = createServer();
+    const port = await freePort();
+    await new Promise<void>((resolve) => fake.listen(port, '127.0.0.1', resolve));
+    const dialed = once(fake, 'connection') as Promise<[Socket]>;
+    await node('a', { peers: [`127.0.0.1:${port}`] });
+    const [socket] = await dialed;
+    await once(socket, 'data');
+    socket.write(encodeLengthPrefixed(JSON.stringify({ ...recorded, codec: 'json' })));
+    const closed = await Promise.race([
+      once(socket, 'close').then(() => true),
+      sleep(1000).then(() => false),
+    ]);
+    socket.destroy();
+    await closeServer(fake);
+    assert.equal(closed, true);
+  });
+
+  it('refuses a peer with another codec', async () => {
+    const a = await node('a', { secret: undefined });
+    const client = await open(a.port);
+    client.send({ kind: 'hello', nodeId: 'x', codec: 'msgpack' });
+    assert.equal(await closedWithin(client), true);
+  });
+
+  it('links peers without a secret', async () => {
+    const a = await node('a', { secret: undefined });
+    const client = await open(a.port);
+    const answer = await hello(client, 'x');
+    assert.equal(answer.nodeId, 'a');
+    assert.equal(answer.nonce, undefined);
+    assert.equal(await closedWithin(client, 300), false);
+  });
+
+  it('closes a link that sends no hello in time', async () => {
+    const a = await node('a', { handshakeTimeoutMs: 100 });
+    const client = await open(a.port);
+    assert.equal(await closedWithin(client), true);
+  });
+
+  it('closes a link whose auth does not come in time', async () => {
+    const a = await node('a', { handshakeTimeoutMs: 200 });
+    const client = await open(a.port);
+    await hello(client, 'x', randomBytes(16).toString('hex'));
+    assert.equal(await closedWithin(client), true);
+  });
+
+  it('refuses a large frame before the peer is authenticated', async () => {
+    const a = await node('a');
+    const client = await open(a.port);
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(1024 * 1024);
+    client.socket.write(header);
+    assert.equal(await closedWithin(client), true);
+  });
+});
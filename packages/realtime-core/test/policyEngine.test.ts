@@ -0,0 +1,205 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { ErrorCodes, PolicyError } from '../src/core/errors.js';
+import { MetricsRegistry } from '../src/core/metrics.js';
+import {
+  PolicyEngine,
+  requireMembership,
+  type EventGuardContext,
+  type PolicyOptions,
+} from '../src/core/policyEngine.js';
+import type { ClientContext } from '../src/types/index.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+const client = (id: string, rooms: string[] = [], userId?: string): ClientContext => ({
+  id,
+  transport: 'test',
+  connectedAt: 0,
+  rooms,
+  user: userId ? { id: userId } : undefined,
+});
+
+const forbidden = (code: string) => (error: unknown) =>
+  error instanceof PolicyError && error.code === code;
+
+describe('PolicyEngine', () => {
+  const engine = (options?: PolicyOptions) => {
+    const metrics = new MetricsRegistry();
+    return { policies: new PolicyEngine(metrics, options), metrics };
+  };
+
+  describe('events', () => {
+    it('runs the guards of the event, of its templates and of `*`, with the template params', async () => {
+      const seen: Array<[string, EventGuardContext['params']]> = [];
+      const record =
+        (name: string) =>
+        ({ params }: EventGuardContext) => {
+          seen.push([name, params]);
+          return true;
+        };
+      const { policies } = engine({
+        events: {
+          'chat:message:[roomId]': record('template'),
+          'chat:message:lobby': [record('exact'), record('exact again')],
+          '*': record('any'),
+        },
+      });
+      await policies.assertEvent({ type: 'chat:message:lobby' }, client('c1'));
+      assert.deepEqual(seen, [
+        ['any', {}],
+        ['exact', {}],
+        ['exact again', {}],
+        ['template', { roomId: 'lobby' }],
+      ]);
+    });
+
+    it('refuses the event when any guard says no, and counts the denial', async () => {
+      const { policies, metrics } = engine({
+        events: { 'admin:[action]': async ({ context }) => context.user?.id === 'root' },
+      });
+      await policies.assertEvent({ type: 'admin:purge' }, client('c1', [], 'root'));
+      await assert.rejects(
+        policies.assertEvent({ type: 'admin:purge' }, client('c2', [], 'guest')),
+        forbidden(ErrorCodes.EVENT_FORBIDDEN),
+      );
+      assert.equal(
+        metrics.counter('policy_denials_total', { code: ErrorCodes.EVENT_FORBIDDEN }),
+        1,
+      );
+    });
+
+    it('lets requireMembership check the room named by a placeholder', async () => {
+      const { policies } = engine({
+        events: { 'chat:message:[roomId]': requireMembership('roomId') },
+      });
+      await policies.assertEvent({ type: 'chat:message:Lobby' }, client('c1', ['lobby']));
+      await assert.rejects(
+        policies.assertEvent({ type: 'chat:message:staff' }, client('c1', ['lobby'])),
+        forbidden(ErrorCodes.EVENT_FORBIDDEN),
+      );
+    });
+  });
+
+  describe('rooms', () => {
+    it('lets anyone join by default', () => {
+      const { policies } = engine();
+      assert.doesNotThrow(() => policies.assertJoin(client('c1'), 'anywhere'));
+    });
+
+    it('admits invited clients and users to an invite-only room, until the invite is revoked', () => {
+      const { policies } = engine({ rooms: { Staff: 'invite-only' } });
+      assert.throws(
+        () => policies.assertJoin(client('c1'), 'staff'),
+        forbidden(ErrorCodes.ROOM_FORBIDDEN),
+      );
+      policies.invite('STAFF', 'c1');
+      policies.invite('staff', 'user-42');
+      policies.assertJoin(client('c1'), 'Staff');
+      policies.assertJoin(client('c2', [], 'user-42'), 'staff');
+      policies.revokeInvite('staff', 'c1');
+      assert.throws(() => policies.assertJoin(client('c1'), 'staff'), PolicyError);
+    });
+
+    it('prefers an exact room over a template, and a template over the default', () => {
+      const { policies } = engine({
+        defaultRoomPolicy: 'invite-only',
+        rooms: {
+          'team:[teamId]': (context) => context.user?.id === 'member',
+          'team:open': 'public',
+        },
+      });
+      policies.assertJoin(client('c1'), 'team:open');
+      policies.assertJoin(client('c1', [], 'member'), 'team:red');
+      assert.throws(() => policies.assertJoin(client('c1'), 'team:red'), PolicyError);
+      assert.throws(() => policies.assertJoin(client('c1'), 'elsewhere'), PolicyError);
+    });
+
+    it('matches enum constraints whatever their case, as room names are', () => {
+      const { policies } = engine({ rooms: { 'tier:[level:Gold|SILVER]': 'invite-only' } });
+      for (const room of ['tier:gold', 'tier:GOLD', 'tier:Silver']) {
+        assert.throws(() => policies.assertJoin(client('c1'), room), PolicyError, room);
+      }
+      policies.assertJoin(client('c1'), 'tier:bronze');
+    });
+
+    it('only lets members invite to a room', () => {
+      const { policies } = engine();
+      policies.assertInvite(client('c1', ['staff']), 'Staff');
+      assert.throws(
+        () => policies.assertInvite(client('c2', ['lobby']), 'staff'),
+        forbidden(ErrorCodes.ROOM_FORBIDDEN),
+      );
+    });
+  });
+
+  describe('direct messages', () => {
+    const alice = client('alice', ['lobby']);
+    const bob = client('bob', ['lobby']);
+    const carol = client('carol', ['staff']);
+
+    it('allows everything by default, unknown targets included', () => {
+      const { policies } = engine();
+      policies.assertDirectMessage(alice, 'carol', carol);
+      policies.assertDirectMessage(alice, 'nobody', undefined);
+    });
+
+    it('refuses every message but to oneself with deny', () => {
+      const { policies } = engine({ directMessages: 'deny' });
+      policies.assertDirectMessage(alice, 'alice', alice);
+      assert.throws(
+        () => policies.assertDirectMessage(alice, 'bob', bob),
+        forbidden(ErrorCodes.DIRECT_MESSAGE_FORBIDDEN),
+      );
+    });
+
+    it('requires a room in common with shared-room', () => {
+      const { policies } = engine({ directMessages: 'shared-room' });
+      policies.assertDirectMessage(alice, 'bob', bob);
+      assert.throws(() => policies.assertDirectMessage(alice, 'carol', carol), PolicyError);
+    });
+
+    it('leaves the decision to a predicate, which may be swapped later', () => {
+      const { policies } = engine({ directMessages: (_from, to) => to.id === 'carol' });
+      policies.assertDirectMessage(alice, 'carol', carol);
+      assert.throws(() => policies.assertDirectMessage(alice, 'bob', bob), PolicyError);
+      policies.directMessages('allow');
+      policies.assertDirectMessage(alice, 'bob', bob);
+    });
+
+    for (const policy of ['shared-room', () => true] as const) {
+      it(`refuses an unresolved target under ${typeof policy === 'string' ? policy : 'a predicate'}`, () => {
+        const { policies, metrics } = engine({ directMessages: policy });
+        assert.throws(
+          () => policies.assertDirectMessage(alice, 'nobody', undefined),
+          forbidden(ErrorCodes.DIRECT_MESSAGE_FORBIDDEN),
+        );
+        assert.equal(
+          metrics.counter('policy_denials_total', { code: ErrorCodes.DIRECT_MESSAGE_FORBIDDEN }),
+          1,
+        );
+      });
+    }
+  });
+
+  describe('in the kernel', () => {
+    let server: Awaited<ReturnType<typeof startEchoKernel>>;
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('answers a send to an unknown client with DIRECT_MESSAGE_FORBIDDEN', async () => {
+      server = await startEchoKernel({}, { policies: { directMessages: 'shared-room' } });
+      server.kernel.on('dm', (message, _context, toolkit) => {
+        toolkit.send(message.payload as string, { type: 'dm', payload: 'hello' });
+      });
+      const ws = await RawWebSocket.connect(server.port);
+      ws.sendMessage({ type: 'dm', payload: 'nobody' });
+      const error = await ws.message();
+      assert.equal(error.type, 'system:error');
+      assert.equal((error.payload as { code: string }).code, ErrorCodes.DIRECT_MESSAGE_FORBIDDEN);
+      ws.destroy();
+    });
+  });
+});
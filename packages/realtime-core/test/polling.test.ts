@@ -0,0 +1,205 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  LongPollingTransport,
+  type LongPollingTransportOptions,
+  type PollResponse,
+} from '../src/transports/polling.js';
+import { SseTransport } from '../src/transports/sse.js';
+import { WebSocketTransport } from '../src/transports/websocket.js';
+import { startHttpKernel, statusOf } from './support/servers.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Waits for `condition`, checking every few milliseconds. */
+const until = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await sleep(5);
+  }
+};
+
+interface Handshake {
+  session: string;
+  clientId: string;
+  pollTimeoutMs: number;
+  sessionTimeoutMs: number;
+  transports: Array<{ name: string; path?: string; port?: number }>;
+}
+
+describe('Long-polling transport', () => {
+  let server: Awaited<ReturnType<typeof startHttpKernel>>;
+
+  const start = async (options: Omit<LongPollingTransportOptions, 'server'> = {}) => {
+    server = await startHttpKernel((http) => [
+      new LongPollingTransport({ ...options, server: http }),
+    ]);
+  };
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const request = (path: string, init?: RequestInit) =>
+    fetch(`http://127.0.0.1:${server.port}/polling/${path}`, init);
+
+  const handshake = async () => {
+    const response = await request('handshake', { method: 'POST' });
+    assert.equal(response.status, 200);
+    return (await response.json()) as Handshake;
+  };
+
+  const poll = async (session: string) => {
+    const response = await request(session);
+    assert.equal(response.status, 200);
+    return (await response.json()) as PollResponse;
+  };
+
+  const send = (session: string, body: unknown) =>
+    request(session, { method: 'POST', body: JSON.stringify(body) });
+
+  const payloads = ({ messages }: PollResponse) => messages.map(({ payload }) => payload);
+
+  it('opens a session with a handshake listing the transports the server offers', async () => {
+    server = await startHttpKernel((http) => [
+      new WebSocketTransport({ heartbeatIntervalMs: 0, server: http, path: '/ws' }),
+      new SseTransport({ heartbeatIntervalMs: 0, server: http }),
+      new LongPollingTransport({ server: http, pollTimeoutMs: 1000, sessionTimeoutMs: 5000 }),
+    ]);
+    const { session, clientId, pollTimeoutMs, sessionTimeoutMs, transports } = await handshake();
+    assert.ok(session);
+    assert.equal(pollTimeoutMs, 1000);
+    assert.equal(sessionTimeoutMs, 5000);
+    assert.deepEqual(
+      transports.map(({ name, path, port }) => ({ name, path, port })),
+      [
+        { name: 'websocket', path: '/ws', port: undefined },
+        { name: 'sse', path: '/sse', port: undefined },
+        { name: 'polling', path: '/polling', port: undefined },
+      ],
+    );
+    assert.deepEqual(
+      server.kernel.presence.list().map(({ id, transport }) => ({ id, transport })),
+      [{ id: clientId, transport: 'polling' }],
+    );
+    assert.equal((await request('handshake')).status, 405);
+  });
+
+  it('holds a poll until messages arrive, and hands out those sent together in one batch', async () => {
+    await start();
+    const { session } = await handshake();
+    const pending = poll(session);
+    await sleep(30);
+    assert.equal(
+      (
+        await send(session, [
+          { type: 'echo', payload: 'one' },
+          { type: 'echo', payload: 'two' },
+        ])
+      ).status,
+      204,
+    );
+    assert.deepEqual(payloads(await pending), ['one', 'two']);
+  });
+
+  it('answers an idle poll empty once pollTimeoutMs ran out', async () => {
+    await start({ pollTimeoutMs: 50 });
+    const { session } = await handshake();
+    const started = Date.now();
+    assert.deepEqual(await poll(session), { messages: [] });
+    assert.ok(Date.now() - started >= 45);
+  });
+
+  it('hands out at most maxBatchSize messages per poll, in order', async () => {
+    await start({ maxBatchSize: 2 });
+    const { session } = await handshake();
+    await send(
+      session,
+      ['a', 'b', 'c'].map((payload) => ({ type: 'echo', payload })),
+    );
+    await sleep(20);
+    assert.deepEqual(payloads(await poll(session)), ['a', 'b']);
+    assert.deepEqual(payloads(await poll(session)), ['c']);
+  });
+
+  it('answers the previous poll empty when a newer one arrives', async () => {
+    await start();
+    const { session } = await handshake();
+    const first = poll(session);
+    await sleep(20);
+    const second = poll(session);
+    assert.deepEqual(await first, { messages: [] });
+    await send(session, { type: 'echo', payload: 'latest' });
+    assert.deepEqual(payloads(await second), ['latest']);
+  });
+
+  it('drops the oldest messages beyond maxQueuedMessages', async () => {
+    await start({ maxQueuedMessages: 2 });
+    const { session } = await handshake();
+    await send(
+      session,
+      ['a', 'b', 'c'].map((payload) => ({ type: 'echo', payload })),
+    );
+    await sleep(20);
+    assert.deepEqual(payloads(await poll(session)), ['b', 'c']);
+    assert.equal(
+      server.kernel.metrics.counter('outbound_dropped_total', {
+        transport: 'polling',
+        policy: 'drop-oldest',
+      }),
+      1,
+    );
+  });
+
+  it('expires a session without polls, and tells the late poll why', async () => {
+    await start({ sessionTimeoutMs: 150 });
+    const { session } = await handshake();
+    await sleep(60);
+    assert.equal(server.kernel.clientCount, 1);
+    await until(() => server.kernel.clientCount === 0);
+    // the closed session is remembered for another sessionTimeoutMs
+    const [late, post] = await Promise.all([poll(session), send(session, { type: 'echo' })]);
+    assert.deepEqual(late, { messages: [], closed: 'session_expired' });
+    assert.equal(post.status, 410);
+  });
+
+  it('keeps a session alive while a poll is held', async () => {
+    await start({ sessionTimeoutMs: 50, pollTimeoutMs: 200 });
+    const { session } = await handshake();
+    const pending = poll(session);
+    await sleep(120);
+    assert.equal(server.kernel.clientCount, 1);
+    await send(session, { type: 'echo', payload: 'still here' });
+    assert.deepEqual(payloads(await pending), ['still here']);
+  });
+
+  it('closes a session on DELETE, and refuses what comes for it afterwards', async () => {
+    await start();
+    const { session } = await handshake();
+    const pending = poll(session);
+    await sleep(20);
+    assert.equal((await request(session, { method: 'DELETE' })).status, 204);
+    assert.deepEqual(await pending, { messages: [], closed: 'client_closed' });
+    assert.equal(server.kernel.clientCount, 0);
+    assert.equal((await request(session, { method: 'DELETE' })).status, 410);
+    assert.equal((await request('unknown-session')).status, 404);
+  });
+
+  it('refuses malformed and oversized messages and other methods', async () => {
+    await start({ maxPayloadBytes: 64 });
+    const { session } = await handshake();
+    assert.equal((await request(session, { method: 'POST', body: '{"type":' })).status, 400);
+    assert.equal((await send(session, [{ payload: 1 }])).status, 400);
+    assert.equal((await send(session, { type: 'echo', payload: 'x'.repeat(100) })).status, 413);
+    const put = await request(session, { method: 'PUT' });
+    assert.equal(put.status, 405);
+    assert.equal(put.headers.get('allow'), 'GET, POST, DELETE');
+  });
+
+  it('answers a request target URL cannot parse with 400 and keeps serving', async () => {
+    await start();
+    assert.equal(await statusOf(server.port, '//['), 400);
+    await handshake();
+  });
+});
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { jsonCodec, msgpackCodec } from '../src/core/codec.js';
+import { formatSubprotocol, negotiateSubprotocol, parseSubprotocol } from '../src/core/protocol.js';
+import { decodeMsgpack, encodeMsgpack } from '../src/utils/msgpack.js';
+import { Opcodes } from '../src/utils/websocketFrames.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+describe('Subprotocols', () => {
+  it('formats and parses version and codec', () => {
+    assert.equal(formatSubprotocol('v2', msgpackCodec), 'realtime.v2.msgpack');
+    assert.equal(formatSubprotocol(undefined, 'msgpack'), 'realtime.msgpack');
+    assert.equal(formatSubprotocol('v2'), 'realtime.v2');
+    assert.deepEqual(parseSubprotocol(' realtime.v2.msgpack '), {
+      version: 'v2',
+      codec: 'msgpack',
+    });
+    assert.deepEqual(parseSubprotocol('realtime.msgpack'), {
+      version: undefined,
+      codec: 'msgpack',
+    });
+    assert.deepEqual(parseSubprotocol('realtime'), { version: undefined, codec: undefined });
+    assert.equal(parseSubprotocol('chat.v1'), undefined);
+    assert.equal(parseSubprotocol('realtime.v1.msgpack.extra'), undefined);
+    assert.equal(parseSubprotocol('realtime.json.msgpack'), undefined);
+  });
+
+  describe('negotiation', () => {
+    const versions = ['v2', 'v1'];
+    const codecs = [msgpackCodec, jsonCodec];
+
+    it('serves JSON and the first version without a header, echoing nothing', () => {
+      assert.deepEqual(negotiateSubprotocol(undefined, versions, codecs), {
+        version: 'v2',
+        codec: jsonCodec,
+      });
+      assert.deepEqual(negotiateSubprotocol('', versions, codecs), {
+        version: 'v2',
+        codec: jsonCodec,
+      });
+    });
+
+    it('ignores offers with an unknown version', () => {
+      assert.deepEqual(negotiateSubprotocol('realtime.v9.msgpack', versions, codecs), {
+        version: 'v2',
+        codec: jsonCodec,
+      });
+    });
+
+    it('ignores offers with an unknown codec', () => {
+      assert.deepEqual(negotiateSubprotocol('realtime.v1.cbor, chat', versions, codecs), {
+        version: 'v2',
+        codec: jsonCodec,
+      });
+    });
+
+    it('picks the first acceptable offer of several', () => {
+      assert.deepEqual(
+        negotiateSubprotocol(
+          'realtime.v9.msgpack, realtime.v1.msgpack, realtime.v2',
+          versions,
+          codecs,
+        ),
+        { version: 'v1', codec: msgpackCodec, protocol: 'realtime.v1.msgpack' },
+      );
+      assert.deepEqual(negotiateSubprotocol('chat,realtime.v1', versions, codecs), {
+        version: 'v1',
+        codec: jsonCodec,
+        protocol: 'realtime.v1',
+      });
+    });
+
+    it('takes the default version for an offer without one', () => {
+      assert.deepEqual(negotiateSubprotocol('realtime.msgpack', versions, codecs), {
+        version: 'v2',
+        codec: msgpackCodec,
+        protocol: 'realtime.msgpack',
+      });
+    });
+
+    it('falls back to JSON even when it is not among the codecs', () => {
+      assert.deepEqual(negotiateSubprotocol('realtime.v1', versions, [msgpackCodec]), {
+        version: 'v2',
+        codec: jsonCodec,
+      });
+    });
+
+    it('falls back to the codec it is given', () => {
+      assert.deepEqual(negotiateSubprotocol(undefined, versions, codecs, msgpackCodec), {
+        version: 'v2',
+        codec: msgpackCodec,
+      });
+    });
+  });
+
+  describe('over WebSocket', () => {
+    let server: Awaited<ReturnType<typeof startEchoKernel>>;
+
+    before(async () => {
+      server = await startEchoKernel({ codecs: ['msgpack', 'json'] });
+    });
+
+    after(async () => {
+      await server.stop();
+    });
+
+    it('speaks JSON to a client that offers no subprotocol', async () => {
+      const ws = await RawWebSocket.connect(server.port);
+      ws.sendMessage({ type: 'echo', payload: 'plain' });
+      const frame = await ws.next();
+      assert.equal(frame.opcode, Opcodes.TEXT);
+      assert.equal(JSON.parse(frame.payload.toString('utf8')).payload, 'plain');
+      ws.destroy();
+    });
+
+    it('speaks MessagePack to a client that negotiated it', async () => {
+      const ws = await RawWebSocket.connect(server.port, {
+        headers: { 'Sec-WebSocket-Protocol': 'realtime.v1.msgpack' },
+      });
+      ws.send(Opcodes.BINARY, Buffer.from(encodeMsgpack({ type: 'echo', payload: 'packed' })));
+      const frame = await ws.next();
+      assert.equal(frame.opcode, Opcodes.BINARY);
+      assert.equal((decodeMsgpack(frame.payload) as { payload: string }).payload, 'packed');
+      ws.destroy();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { RateLimiter, TokenBucket } from '../src/core/rateLimiter.js';
+import { RawWebSocket, UpgradeError } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+const message = (type: string) => ({ type, payload: null });
+
+describe('TokenBucket', () => {
+  it('starts full and refills with time', () => {
+    const bucket = new TokenBucket({ points: 2, intervalMs: 1000 }, 0);
+    assert.equal(bucket.take(1, 0), 0);
+    assert.equal(bucket.take(1, 0), 0);
+    assert.equal(bucket.take(1, 0), 500);
+    assert.equal(bucket.take(1, 250), 250);
+    assert.equal(bucket.take(1, 500), 0);
+    assert.equal(bucket.take(1, 500), 500);
+  });
+
+  it('never holds more than its burst', () => {
+    const bucket = new TokenBucket({ points: 1, intervalMs: 100, burst: 3 }, 0);
+    for (let i = 0; i < 3; i++) assert.equal(bucket.take(1, 10_000), 0);
+    assert.equal(bucket.take(1, 10_000), 100);
+  });
+
+  it('reports the delay for the whole cost', () => {
+    const bucket = new TokenBucket({ points: 4, intervalMs: 1000 }, 0);
+    assert.equal(bucket.take(6, 0), 500);
+    assert.equal(bucket.take(4, 0), 0);
+  });
+});
+
+describe('RateLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    mock.method(Date, 'now', () => now);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  const flood = (limiter: RateLimiter, clientId: string, count: number) =>
+    Array.from({ length: count }, () => limiter.consumeMessage(clientId, message('chat'))?.action);
+
+  it('charges every message to the client bucket', () => {
+    const limiter = new RateLimiter({ client: { points: 2, intervalMs: 1000 } });
+    assert.equal(limiter.consumeMessage('c', message('a')), undefined);
+    assert.equal(limiter.consumeMessage('c', message('b')), undefined);
+    assert.deepEqual(limiter.consumeMessage('c', message('a')), {
+      scope: 'client',
+      key: '*',
+      action: 'error',
+      retryAfterMs: 500,
+    });
+    // other clients have their own bucket
+    assert.equal(limiter.consumeMessage('d', message('a')), undefined);
+    now = 500;
+    assert.equal(limiter.consumeMessage('c', message('a')), undefined);
+  });
+
+  it('limits events by name or by template', () => {
+    const limiter = new RateLimiter({
+      events: {
+        typing: { points: 1, intervalMs: 1000 },
+        'chat:message:[roomId]': { points: 1, intervalMs: 1000 },
+      },
+    });
+    assert.equal(limiter.consumeMessage('c', message('typing')), undefined);
+    assert.equal(limiter.consumeMessage('c', message('typing'))?.key, 'typing');
+    assert.equal(limiter.consumeMessage('c', message('chat:message:a')), undefined);
+    assert.deepEqual(limiter.consumeMessage('c', message('chat:message:b')), {
+      scope: 'event',
+      key: 'chat:message:[roomId]',
+      action: 'error',
+      retryAfterMs: 1000,
+    });
+    assert.equal(limiter.consumeMessage('c', message('other')), undefined);
+  });
+
+  it('escalates from error to drop to disconnect', () => {
+    const limiter = new RateLimiter({
+      client: { points: 1, intervalMs: 60_000 },
+      escalation: { windowMs: 1000, dropAfter: 2, disconnectAfter: 4 },
+    });
+    assert.deepEqual(flood(limiter, 'c', 6), [
+      undefined,
+      'error',
+      'error',
+      'drop',
+      'drop',
+      'disconnect',
+    ]);
+  });
+
+  it('counts violations only within the window', () => {
+    const limiter = new RateLimiter({
+      client: { points: 1, intervalMs: 60_000 },
+      escalation: { windowMs: 1000, dropAfter: 2, disconnectAfter: 4 },
+    });
+    assert.deepEqual(flood(limiter, 'c', 4), [undefined, 'error', 'error', 'drop']);
+    now = 1000;
+    assert.deepEqual(flood(limiter, 'c', 1), ['drop']);
+    now = 2001;
+    assert.deepEqual(flood(limiter, 'c', 3), ['error', 'error', 'drop']);
+  });
+
+  it('starts over for a client it forgot', () => {
+    const limiter = new RateLimiter({
+      client: { points: 1, intervalMs: 60_000 },
+      escalation: { dropAfter: 1 },
+    });
+    assert.deepEqual(flood(limiter, 'c', 3), [undefined, 'error', 'drop']);
+    limiter.forget('c');
+    assert.deepEqual(flood(limiter, 'c', 2), [undefined, 'error']);
+  });
+
+  it('escalates only the sender that floods a room', () => {
+    const limiter = new RateLimiter({
+      rooms: { points: 2, intervalMs: 1000 },
+      escalation: { dropAfter: 1, disconnectAfter: 2 },
+    });
+    const actions = Array.from(
+      { length: 5 },
+      () => limiter.consumeBroadcast('flooder', 'Lobby')?.action,
+    );
+    assert.deepEqual(actions, [undefined, undefined, 'error', 'drop', 'disconnect']);
+    assert.equal(limiter.consumeBroadcast('member', 'lobby'), undefined);
+    assert.equal(limiter.consumeBroadcast('member', 'lobby'), undefined);
+    assert.deepEqual(limiter.consumeBroadcast('member', 'lobby'), {
+      scope: 'room',
+      key: 'lobby',
+      action: 'error',
+      retryAfterMs: 500,
+    });
+  });
+});
+
+describe('WebSocket rate limiting', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  const sockets: RawWebSocket[] = [];
+
+  const open = async () => {
+    const ws = await RawWebSocket.connect(server.port);
+    sockets.push(ws);
+    return ws;
+  };
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((ws) => ws.destroy());
+    await server.stop();
+  });
+
+  it('answers a throttled message with a system:error carrying retryAfterMs', async () => {
+    server = await startEchoKernel(
+      {},
+      { rateLimits: { client: { points: 1, intervalMs: 60_000 } } },
+    );
+    const ws = await open();
+    ws.sendMessage({ type: 'echo', payload: 1 });
+    assert.equal((await ws.message()).payload, 1);
+    ws.sendMessage({ type: 'echo', payload: 2, ack: 'a1' });
+    const error = await ws.message();
+    assert.equal(error.type, 'system:error');
+    const { code, ack, retryAfterMs } = error.payload as Record<string, unknown>;
+    assert.deepEqual({ code, ack }, { code: 'RATE_LIMITED', ack: 'a1' });
+    assert.ok(typeof retryAfterMs === 'number' && retryAfterMs > 59_000 && retryAfterMs <= 60_000);
+  });
+
+  it('refuses upgrades beyond the per-IP limit with 429', async () => {
+    server = await startEchoKernel({ maxConnectionsPerIp: 2 });
+    const first = await open();
+    await open();
+    await assert.rejects(open(), (error) => error instanceof UpgradeError && error.status === 429);
+    assert.equal(
+      server.kernel.metrics.counter('connections_refused_total', {
+        transport: 'websocket',
+        reason: 'ip_limit',
+      }),
+      1,
+    );
+
+    first.destroy();
+    await first.closed;
+    // the slot is released once the server sees the connection close
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await open();
+        break;
+      } catch (error) {
+        if (attempt === 20) throw error;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    }
+  });
+});
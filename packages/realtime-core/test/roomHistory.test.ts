@@ -0,0 +1,184 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { FileHistoryStore } from '../src/core/fileHistoryStore.js';
+import { RoomHistory, type HistoryReplay } from '../src/core/roomHistory.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+const say = (text: string) => ({ type: 'say', payload: text });
+
+async function historyOf(...texts: string[]) {
+  const history = new RoomHistory();
+  await history.open();
+  texts.forEach((text) => history.record('lobby', say(text)));
+  return history;
+}
+
+describe('RoomHistory', () => {
+  it('numbers the messages of each room and tags them with its epoch', async () => {
+    const history = await historyOf('a', 'b');
+    const recorded = history.record('lobby', say('c'));
+    assert.equal(recorded.seq, 3);
+    assert.equal(recorded.epoch, history.epoch);
+    assert.match(history.epoch, /^[0-9a-f]{16}$/);
+    assert.equal(history.record('other', say('x')).seq, 1);
+  });
+
+  it('replays what came after `since` in the same epoch', async () => {
+    const history = await historyOf('a', 'b', 'c');
+    const { entries, replay } = await history.since('lobby', 1, history.epoch);
+    assert.deepEqual(
+      entries.map((entry) => entry.message.payload),
+      ['b', 'c'],
+    );
+    assert.deepEqual(replay, {
+      room: 'lobby',
+      epoch: history.epoch,
+      seq: 3,
+      replayed: 2,
+      complete: true,
+      reset: false,
+    });
+  });
+
+  it('reports the messages dropped by the retention', async () => {
+    const history = new RoomHistory({ maxMessages: 2 });
+    await history.open();
+    ['a', 'b', 'c', 'd'].forEach((text) => history.record('lobby', say(text)));
+    const { replay } = await history.since('lobby', 1);
+    assert.equal(replay.replayed, 2);
+    assert.equal(replay.complete, false);
+    assert.equal(replay.reset, false);
+    assert.equal((await history.since('lobby', 2)).replay.complete, true);
+  });
+
+  it('starts over when `since` is ahead of the room', async () => {
+    // e.g. the node restarted without a persistent store and numbers from 1 again
+    const history = await historyOf('a', 'b');
+    const { entries, replay } = await history.since('lobby', 40);
+    assert.deepEqual(
+      entries.map((entry) => entry.seq),
+      [1, 2],
+    );
+    assert.equal(replay.reset, true);
+    assert.equal(replay.complete, false);
+    assert.equal(replay.seq, 2);
+  });
+
+  it('starts over when `since` comes from another epoch', async () => {
+    // e.g. the client moved from another node, whose numbering happens to be behind
+    const other = await historyOf('x');
+    const history = await historyOf('a', 'b', 'c');
+    assert.notEqual(other.epoch, history.epoch);
+    const { entries, replay } = await history.since('lobby', 1, other.epoch);
+    assert.equal(entries.length, 3);
+    assert.equal(replay.reset, true);
+    assert.equal(replay.complete, false);
+  });
+
+  it('takes a new epoch on every start of a memory store', async () => {
+    const first = await historyOf();
+    const second = await historyOf();
+    assert.notEqual(first.epoch, second.epoch);
+  });
+});
+
+describe('FileHistoryStore', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'realtime-history-'));
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = async (path: string) => {
+    const history = new RoomHistory({ store: new FileHistoryStore(path, { logLevel: 'silent' }) });
+    await history.open();
+    return history;
+  };
+
+  it('keeps the numbering and its epoch across restarts', async () => {
+    const path = join(dir, 'restart.jsonl');
+    const before = await open(path);
+    before.record('lobby', say('a'));
+    before.record('lobby', say('b'));
+    await before.close();
+
+    const restarted = await open(path);
+    assert.equal(restarted.epoch, before.epoch);
+    assert.equal(restarted.record('lobby', say('c')).seq, 3);
+    const { entries, replay } = await restarted.since('lobby', 1, before.epoch);
+    assert.deepEqual(
+      entries.map((entry) => entry.message.payload),
+      ['b', 'c'],
+    );
+    assert.equal(replay.reset, false);
+    assert.equal(replay.complete, true);
+    await restarted.close();
+  });
+
+  it('gives a file written without an epoch a new one, kept from then on', async () => {
+    const path = join(dir, 'legacy.jsonl');
+    const legacy = await open(path);
+    legacy.record('lobby', say('a'));
+    await legacy.close();
+    // rewrite the file as it was before epochs were stored
+    const lines = readFileSync(path, 'utf8')
+      .split('\n')
+      .filter((line) => line && !line.startsWith('{"epoch"'));
+    writeFileSync(path, `${lines.join('\n')}\n`);
+
+    const upgraded = await open(path);
+    assert.notEqual(upgraded.epoch, legacy.epoch);
+    assert.equal(upgraded.record('lobby', say('b')).seq, 2);
+    await upgraded.close();
+    const reopened = await open(path);
+    assert.equal(reopened.epoch, upgraded.epoch);
+    await reopened.close();
+  });
+});
+
+describe('system:join with since', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  let ws: RawWebSocket;
+
+  before(async () => {
+    server = await startEchoKernel({}, { history: true });
+    server.kernel.on('say', (message, _context, toolkit) => {
+      toolkit.rooms.broadcast({ type: 'said', payload: message.payload }, 'lobby');
+    });
+    ws = await RawWebSocket.connect(server.port);
+  });
+
+  after(async () => {
+    ws.destroy();
+    await server.stop();
+  });
+
+  const join = async (payload: { since: number; epoch?: string }) => {
+    ws.sendMessage({ type: 'system:join', room: 'lobby', payload });
+    for (;;) {
+      const message = await ws.message();
+      if (message.type === 'system:history') return message.payload as HistoryReplay;
+    }
+  };
+
+  it('answers with the epoch, and resets a position from another epoch', async () => {
+    const first = await join({ since: 0 });
+    assert.equal(first.seq, 0);
+    ws.sendMessage({ type: 'say', payload: 'a' });
+    const said = (await ws.message()) as { seq?: number; epoch?: string };
+    assert.equal(said.seq, 1);
+    assert.equal(said.epoch, first.epoch);
+
+    const replay = await join({ since: 1, epoch: said.epoch });
+    assert.equal(replay.reset, false);
+    assert.equal(replay.replayed, 0);
+
+    const moved = await join({ since: 0, epoch: 'another-node' });
+    assert.equal(moved.reset, true);
+    assert.equal(moved.replayed, 1);
+  });
+});
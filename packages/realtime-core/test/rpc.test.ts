@@ -0,0 +1,293 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { RealtimeClient, RealtimeRequestError } from '../src/client/realtimeClient.js';
+import { ErrorCodes, RealtimeError } from '../src/core/errors.js';
+import { v } from '../src/core/validation.js';
+import { NodeWebSocket } from './support/clientSockets.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+type ServerProcedures = {
+  'user.get': { input: { id: number }; output: { id: number; name: string } };
+  'user.slow': { input: undefined; output: never };
+};
+
+type ClientProcedures = {
+  'screen.size': { input: { unit: 'px' }; output: { width: number } };
+  'screen.wait': { input: undefined; output: never };
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+/** Resolves once `signal` aborts, with its reason. */
+const aborted = (signal: AbortSignal) =>
+  new Promise<unknown>((resolve) => {
+    if (signal.aborted) resolve(signal.reason);
+    signal.addEventListener('abort', () => resolve(signal.reason), { once: true });
+  });
+
+describe('RPC', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('procedures served by the kernel', () => {
+    let ws: RawWebSocket;
+    let signals: AbortSignal[];
+
+    beforeEach(async () => {
+      server = await startEchoKernel({}, { rpcTimeoutMs: 1000 });
+      signals = [];
+      server.kernel.procedure(
+        'user.get',
+        (input) => {
+          const { id } = input as { id: number };
+          if (id === 0) throw new RealtimeError('No such user', 'USER_NOT_FOUND', 'id 0');
+          if (id < 0) throw new Error('Database down');
+          return { id, name: `user ${id}` };
+        },
+        { input: v.object({ id: v.number({ integer: true }) }) },
+      );
+      server.kernel.procedure(
+        'user.slow',
+        (_input, { signal }) => {
+          signals.push(signal);
+          return new Promise<never>(() => undefined);
+        },
+        { timeoutMs: 200 },
+      );
+      ws = await RawWebSocket.connect(server.port);
+    });
+
+    afterEach(() => ws.destroy());
+
+    const call = async (payload: Record<string, unknown>) => {
+      ws.sendMessage({ type: 'system:rpc', payload });
+      const result = await ws.message();
+      assert.equal(result.type, 'system:rpc:result');
+      return result.payload;
+    };
+
+    it('answers with the output, correlated to the request id', async () => {
+      assert.deepEqual(await call({ id: 'r1', procedure: 'user.get', input: { id: 7 } }), {
+        id: 'r1',
+        output: { id: 7, name: 'user 7' },
+      });
+    });
+
+    it('answers with the error the procedure threw', async () => {
+      assert.deepEqual(await call({ id: 'r1', procedure: 'user.get', input: { id: 0 } }), {
+        id: 'r1',
+        error: { code: 'USER_NOT_FOUND', message: 'No such user', details: 'id 0' },
+      });
+      assert.deepEqual(await call({ id: 'r2', procedure: 'user.get', input: { id: -1 } }), {
+        id: 'r2',
+        error: {
+          code: ErrorCodes.INTERNAL_ERROR,
+          message: 'Internal procedure error',
+          details: 'Database down',
+        },
+      });
+    });
+
+    it('refuses unknown procedures and invalid input', async () => {
+      assert.deepEqual(await call({ id: 'r1', procedure: 'user.delete' }), {
+        id: 'r1',
+        error: { code: ErrorCodes.RPC_NOT_FOUND, message: 'Unknown procedure user.delete' },
+      });
+      assert.deepEqual(await call({ id: 'r2', procedure: 'user.get', input: { id: 'x' } }), {
+        id: 'r2',
+        error: {
+          code: ErrorCodes.VALIDATION_FAILED,
+          message: 'Invalid payload for user.get',
+          details: 'input.id: Expected number, received string',
+        },
+      });
+    });
+
+    it('times out at the shorter of the caller and procedure timeouts, aborting the handler', async () => {
+      const started = Date.now();
+      assert.deepEqual(await call({ id: 'r1', procedure: 'user.slow', timeoutMs: 50 }), {
+        id: 'r1',
+        error: { code: ErrorCodes.RPC_TIMEOUT, message: 'Procedure user.slow timed out' },
+      });
+      assert.ok(Date.now() - started < 200);
+      assert.equal(signals[0]!.aborted, true);
+
+      assert.deepEqual(await call({ id: 'r2', procedure: 'user.slow', timeoutMs: 60_000 }), {
+        id: 'r2',
+        error: { code: ErrorCodes.RPC_TIMEOUT, message: 'Procedure user.slow timed out' },
+      });
+    });
+
+    it('aborts a call the client cancels', async () => {
+      ws.sendMessage({ type: 'system:rpc', payload: { id: 'r1', procedure: 'user.slow' } });
+      await flush();
+      await flush();
+      ws.sendMessage({ type: 'system:rpc:cancel', payload: { id: 'r1' } });
+      const result = await ws.message();
+      assert.deepEqual(result.payload, {
+        id: 'r1',
+        error: { code: ErrorCodes.RPC_CANCELLED, message: 'Call cancelled by the client' },
+      });
+      assert.equal(signals[0]!.aborted, true);
+    });
+
+    it('aborts the calls of a client that disconnects', async () => {
+      ws.sendMessage({ type: 'system:rpc', payload: { id: 'r1', procedure: 'user.slow' } });
+      await flush();
+      await flush();
+      const reason = aborted(signals[0]!);
+      ws.destroy();
+      assert.equal(((await reason) as RealtimeError).code, ErrorCodes.RPC_CANCELLED);
+    });
+
+    for (const timeoutMs of [0, -5, 'soon', null]) {
+      it(`refuses a request with timeoutMs ${JSON.stringify(timeoutMs)}`, async () => {
+        ws.sendMessage({
+          type: 'system:rpc',
+          payload: { id: 'r1', procedure: 'user.get', input: { id: 1 }, timeoutMs },
+          ack: 'a1',
+        });
+        const error = await ws.message();
+        assert.equal(error.type, 'system:error');
+        assert.deepEqual(error.payload, {
+          message: 'RPC timeoutMs must be a positive number',
+          code: ErrorCodes.RPC_MALFORMED,
+          ack: 'a1',
+        });
+      });
+    }
+
+    it('refuses a request reusing the id of a call still running, which carries on', async () => {
+      ws.sendMessage({ type: 'system:rpc', payload: { id: 'r1', procedure: 'user.slow' } });
+      ws.sendMessage({ type: 'system:rpc', payload: { id: 'r1', procedure: 'user.get' } });
+      const error = await ws.message();
+      assert.equal(error.type, 'system:error');
+      assert.deepEqual(error.payload, {
+        message: 'RPC call r1 is already running',
+        code: ErrorCodes.RPC_MALFORMED,
+      });
+      assert.equal(signals.length, 1);
+      assert.equal(signals[0]!.aborted, false);
+
+      const result = await ws.message();
+      assert.equal((result.payload as { error: { code: string } }).error.code, 'RPC_TIMEOUT');
+      assert.deepEqual(
+        await call({ id: 'r1', procedure: 'user.get', input: { id: 1 } }),
+        { id: 'r1', output: { id: 1, name: 'user 1' } },
+        'the id is free again once the call settled',
+      );
+    });
+
+    it('refuses a request without an id or a procedure', async () => {
+      ws.sendMessage({ type: 'system:rpc', payload: { procedure: 'user.get' } });
+      const error = await ws.message();
+      assert.equal(error.type, 'system:error');
+      assert.equal((error.payload as { code: string }).code, ErrorCodes.RPC_MALFORMED);
+    });
+  });
+
+  describe('between a client and the kernel', () => {
+    let client: RealtimeClient<{}, readonly [], ServerProcedures, ClientProcedures>;
+    let clientId: string;
+
+    beforeEach(async () => {
+      server = await startEchoKernel();
+      client = new RealtimeClient({
+        url: `ws://127.0.0.1:${server.port}/`,
+        WebSocket: NodeWebSocket,
+      });
+      await client.connect();
+      clientId = server.kernel.presence.list()[0]!.id;
+    });
+
+    afterEach(() => client.close());
+
+    it('lets the client call a procedure and await its output or error', async () => {
+      server.kernel.procedure('user.get', (input) => {
+        const { id } = input as { id: number };
+        if (!id) throw new RealtimeError('No such user', 'USER_NOT_FOUND');
+        return { id, name: 'ada' };
+      });
+      assert.deepEqual(await client.call('user.get', { id: 1 }), { id: 1, name: 'ada' });
+      await assert.rejects(
+        client.call('user.get', { id: 0 }),
+        (error) => error instanceof RealtimeRequestError && error.code === 'USER_NOT_FOUND',
+      );
+    });
+
+    it('stops the server side when the client call times out or is aborted', async () => {
+      const signals: AbortSignal[] = [];
+      server.kernel.procedure('user.slow', (_input, { signal }) => {
+        signals.push(signal);
+        return new Promise<never>(() => undefined);
+      });
+      await assert.rejects(
+        client.call('user.slow', undefined, { timeoutMs: 50 }),
+        (error) => error instanceof RealtimeRequestError && error.code === 'RPC_TIMEOUT',
+      );
+      // the client sent its timeout along: the kernel gives up on its own or on the cancel,
+      // whichever comes first
+      const { code } = (await aborted(signals[0]!)) as RealtimeError;
+      assert.ok(code === ErrorCodes.RPC_TIMEOUT || code === ErrorCodes.RPC_CANCELLED, code);
+
+      const controller = new AbortController();
+      const cancelled = client.call('user.slow', undefined, { signal: controller.signal });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      controller.abort();
+      await assert.rejects(
+        cancelled,
+        (error) => error instanceof RealtimeRequestError && error.code === 'RPC_CANCELLED',
+      );
+      assert.equal(((await aborted(signals[1]!)) as RealtimeError).code, ErrorCodes.RPC_CANCELLED);
+    });
+
+    it('lets the kernel call a procedure of the client', async () => {
+      client.procedure('screen.size', ({ unit }) => ({ width: unit === 'px' ? 1280 : 0 }));
+      assert.deepEqual(await server.kernel.call(clientId, 'screen.size', { unit: 'px' }), {
+        width: 1280,
+      });
+      await assert.rejects(
+        server.kernel.call(clientId, 'screen.wait', undefined),
+        (error) => error instanceof RealtimeError && error.code === ErrorCodes.RPC_NOT_FOUND,
+      );
+    });
+
+    it('cancels a kernel call on timeout, on abort and when the client leaves', async () => {
+      const signals: AbortSignal[] = [];
+      client.procedure('screen.wait', (_input, { signal }) => {
+        signals.push(signal);
+        return new Promise<never>(() => undefined);
+      });
+
+      await assert.rejects(
+        server.kernel.call(clientId, 'screen.wait', undefined, { timeoutMs: 50 }),
+        (error) => error instanceof RealtimeError && error.code === ErrorCodes.RPC_TIMEOUT,
+      );
+      await aborted(signals[0]!);
+
+      const controller = new AbortController();
+      const cancelled = server.kernel.call(clientId, 'screen.wait', undefined, {
+        signal: controller.signal,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      controller.abort();
+      await assert.rejects(
+        cancelled,
+        (error) => error instanceof RealtimeError && error.code === ErrorCodes.RPC_CANCELLED,
+      );
+      await aborted(signals[1]!);
+
+      const orphaned = server.kernel.call(clientId, 'screen.wait', undefined);
+      client.close();
+      await assert.rejects(orphaned, /disconnected/);
+      await assert.rejects(
+        server.kernel.call(clientId, 'screen.wait', undefined),
+        /is not connected/,
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import type { SystemEventMap } from '../src/types/index.js';
+import { Opcodes } from '../src/utils/websocketFrames.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+type Session = SystemEventMap['system:session'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() >= deadline) throw new Error('Condition not met in time');
+    await sleep(10);
+  }
+}
+
+describe('Session resumption', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  const sockets: RawWebSocket[] = [];
+
+  /**
+   * A kernel keeping sessions, whose `notify` handler sends `{ type: 'note', payload: n }` to
+   * client `to`, suspended or not.
+   */
+  const start = async (graceMs = 2000, maxBufferedMessages?: number) => {
+    server = await startEchoKernel({}, { sessions: { graceMs, maxBufferedMessages } });
+    server.kernel.on('notify', (message, _context, toolkit) => {
+      const { to, n } = message.payload as { to: string; n: number };
+      toolkit.send(to, { type: 'note', payload: n });
+    });
+  };
+
+  /** Connects, resuming `token` when given, and returns the `system:session` announcement. */
+  const connect = async (token?: string) => {
+    const ws = await RawWebSocket.connect(server.port, {
+      path: token ? `/?session=${encodeURIComponent(token)}` : '/',
+    });
+    sockets.push(ws);
+    const message = await ws.message();
+    assert.equal(message.type, 'system:session');
+    return { ws, session: message.payload as Session };
+  };
+
+  /** Sends notes 1..count to `to`, and returns once the kernel handled them. */
+  const notify = async (sender: RawWebSocket, to: string, count: number) => {
+    for (let n = 1; n <= count; n++) sender.sendMessage({ type: 'notify', payload: { to, n } });
+    sender.sendMessage({ type: 'echo', payload: 'done' });
+    assert.equal((await sender.message()).payload, 'done');
+  };
+
+  /** Drops the connection without a close handshake and waits for the kernel to suspend it. */
+  const drop = async (ws: RawWebSocket) => {
+    const before = server.kernel.clientCount;
+    ws.destroy();
+    await waitFor(() => server.kernel.clientCount === before - 1);
+  };
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((ws) => ws.destroy());
+    await server.stop();
+  });
+
+  it('resumes a dropped client with its id and replays what it missed, in order', async () => {
+    await start();
+    const { ws: alice, session } = await connect();
+    const { ws: bob } = await connect();
+    assert.equal(session.resumed, false);
+    await drop(alice);
+    assert.ok(server.kernel.presence.get(session.clientId), 'kept while suspended');
+
+    await notify(bob, session.clientId, 3);
+    const resumed = await connect(session.token);
+    assert.equal(resumed.session.clientId, session.clientId);
+    assert.equal(resumed.session.resumed, true);
+    assert.equal(resumed.session.dropped, 0);
+    for (const n of [1, 2, 3]) assert.deepEqual((await resumed.ws.message()).payload, n);
+
+    // live again: later messages are delivered, not buffered
+    await notify(bob, session.clientId, 1);
+    assert.equal((await resumed.ws.message()).payload, 1);
+  });
+
+  it('keeps only the newest buffered messages and reports how many were dropped', async () => {
+    await start(2000, 3);
+    const { ws: alice, session } = await connect();
+    const { ws: bob } = await connect();
+    await drop(alice);
+
+    await notify(bob, session.clientId, 5);
+    const resumed = await connect(session.token);
+    assert.equal(resumed.session.dropped, 2);
+    for (const n of [3, 4, 5]) assert.equal((await resumed.ws.message()).payload, n);
+  });
+
+  it('forgets the session once the grace period is over', async () => {
+    await start(100);
+    const { ws: alice, session } = await connect();
+    await drop(alice);
+    await waitFor(() => !server.kernel.presence.get(session.clientId));
+
+    const fresh = await connect(session.token);
+    assert.notEqual(fresh.session.clientId, session.clientId);
+    assert.equal(fresh.session.resumed, false);
+  });
+
+  it('rotates the token on every resume', async () => {
+    await start();
+    const first = await connect();
+    await drop(first.ws);
+    const second = await connect(first.session.token);
+    assert.equal(second.session.clientId, first.session.clientId);
+    assert.notEqual(second.session.token, first.session.token);
+
+    await drop(second.ws);
+    const replayed = await connect(first.session.token);
+    assert.notEqual(replayed.session.clientId, first.session.clientId);
+    const third = await connect(second.session.token);
+    assert.equal(third.session.clientId, first.session.clientId);
+    assert.equal(third.session.resumed, true);
+  });
+
+  it('lets a resumed connection take over a live one, which then closes harmlessly', async () => {
+    await start();
+    const { ws: stale, session } = await connect();
+    const { ws: bob } = await connect();
+    const fresh = await connect(session.token);
+    assert.equal(fresh.session.clientId, session.clientId);
+    assert.equal(fresh.session.resumed, true);
+
+    const close = await stale.nextOf(Opcodes.CLOSE);
+    assert.equal(close.payload.subarray(2).toString('utf8'), 'session_taken_over');
+    stale.send(Opcodes.CLOSE, close.payload);
+    await stale.closed;
+
+    // the stale connection's close neither suspended nor removed the session
+    await notify(bob, session.clientId, 2);
+    for (const n of [1, 2]) assert.equal((await fresh.ws.message()).payload, n);
+    assert.equal(server.kernel.clientCount, 2);
+  });
+});
@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { SseTransport, type SseTransportOptions } from '../src/transports/sse.js';
+import { SseClient } from './support/sseClient.js';
+import { startHttpKernel, statusOf } from './support/servers.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Waits for `condition`, checking every few milliseconds. */
+const until = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await sleep(5);
+  }
+};
+
+describe('SSE transport', () => {
+  let server: Awaited<ReturnType<typeof startHttpKernel>>;
+  let streams: SseClient[];
+
+  const start = async (options: Omit<SseTransportOptions, 'server'> = {}) => {
+    streams = [];
+    server = await startHttpKernel((http) => [
+      new SseTransport({ heartbeatIntervalMs: 0, ...options, server: http }),
+    ]);
+  };
+
+  afterEach(async () => {
+    streams.forEach((stream) => stream.destroy());
+    await server.stop();
+  });
+
+  const connect = async (headers: Record<string, string> = {}) => {
+    const stream = await SseClient.connect(server.port, '/sse', headers);
+    streams.push(stream);
+    return stream;
+  };
+
+  /** Opens a stream and reads its `stream` event. */
+  const open = async () => {
+    const stream = await connect();
+    const hello = await stream.message();
+    assert.equal(hello.event, 'stream');
+    return { stream, token: hello.data.token as string, clientId: hello.data.clientId as string };
+  };
+
+  const post = (body: unknown, token?: string, path = '/sse') =>
+    fetch(`http://127.0.0.1:${server.port}${path}`, {
+      method: 'POST',
+      headers: token ? { 'X-Realtime-Stream': token } : {},
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  /** Type, payload and event id of the next message on `stream`. */
+  const received = async (stream: SseClient) => {
+    const { id, data } = await stream.message();
+    return { id, type: data.type, payload: data.payload };
+  };
+
+  it('opens a stream with a retry hint and the token to post with', async () => {
+    await start({ retryMs: 1500 });
+    const stream = await connect();
+    assert.equal(stream.status, 200);
+    assert.equal(stream.response.headers['content-type'], 'text/event-stream; charset=utf-8');
+    assert.equal(stream.response.headers['cache-control'], 'no-cache, no-transform');
+    assert.equal((await stream.next()).retry, 1500);
+
+    const hello = await stream.next();
+    assert.equal(hello.event, 'stream');
+    const { token, clientId } = JSON.parse(hello.data!) as { token: string; clientId: string };
+    assert.equal(hello.id, `${token}:0`);
+    assert.deepEqual(
+      server.kernel.presence.list().map(({ id, transport }) => ({ id, transport })),
+      [{ id: clientId, transport: 'sse' }],
+    );
+  });
+
+  it('keeps idle streams alive with comment lines', async () => {
+    await start({ heartbeatIntervalMs: 20 });
+    const { stream } = await open();
+    assert.deepEqual(await stream.next(), { comments: ['ping'] });
+  });
+
+  it('takes inbound messages over POST, one or a batch, and streams the answers', async () => {
+    await start();
+    const { stream, token } = await open();
+
+    assert.equal((await post({ type: 'echo', payload: 'one' }, token)).status, 204);
+    assert.deepEqual(await received(stream), { id: `${token}:1`, type: 'echo', payload: 'one' });
+
+    const batch = [
+      { type: 'echo', payload: 'two' },
+      { type: 'echo', payload: 'three' },
+    ];
+    assert.equal((await post(batch, undefined, `/sse?stream=${token}`)).status, 204);
+    assert.deepEqual(await received(stream), { id: `${token}:2`, type: 'echo', payload: 'two' });
+    assert.deepEqual(await received(stream), { id: `${token}:3`, type: 'echo', payload: 'three' });
+  });
+
+  it('refuses posts without a known stream, malformed or too large, and other methods', async () => {
+    await start({ maxPayloadBytes: 64 });
+    const { token } = await open();
+    assert.equal((await post({ type: 'echo' })).status, 404);
+    assert.equal((await post({ type: 'echo' }, 'not-a-stream')).status, 404);
+    assert.equal((await post('{"type":', token)).status, 400);
+    assert.equal((await post([{ type: 'echo' }, { payload: 1 }], token)).status, 400);
+    assert.equal((await post([], token)).status, 400);
+    assert.equal((await post({ type: 'echo', payload: 'x'.repeat(100) }, token)).status, 413);
+    const put = await fetch(`http://127.0.0.1:${server.port}/sse`, { method: 'PUT' });
+    assert.equal(put.status, 405);
+    assert.equal(put.headers.get('allow'), 'GET, POST');
+  });
+
+  it('answers a request target URL cannot parse with 400 and keeps serving', async () => {
+    await start();
+    assert.equal(await statusOf(server.port, '//['), 400);
+    assert.equal((await connect()).status, 200);
+  });
+
+  it('replays what a reconnecting client missed after its Last-Event-ID', async () => {
+    await start();
+    const { stream, token, clientId } = await open();
+    await post({ type: 'echo', payload: 'seen' }, token);
+    const seen = await received(stream);
+
+    stream.destroy();
+    await stream.closed;
+    await post({ type: 'echo', payload: 'missed' }, token);
+    await post({ type: 'echo', payload: 'missed too' }, token);
+
+    const resumed = await connect({ 'Last-Event-ID': seen.id! });
+    assert.equal((await resumed.next()).retry, 2000);
+    assert.deepEqual(await received(resumed), {
+      id: `${token}:2`,
+      type: 'echo',
+      payload: 'missed',
+    });
+    assert.deepEqual(await received(resumed), {
+      id: `${token}:3`,
+      type: 'echo',
+      payload: 'missed too',
+    });
+    assert.deepEqual(
+      server.kernel.presence.list().map(({ id }) => id),
+      [clientId],
+      'still the same client',
+    );
+  });
+
+  it('starts over with a new client when the missed events left the replay buffer', async () => {
+    await start({ replayBufferSize: 1 });
+    const { stream, token, clientId } = await open();
+    stream.destroy();
+    await stream.closed;
+    await post({ type: 'echo', payload: 'gone' }, token);
+    await post({ type: 'echo', payload: 'kept' }, token);
+
+    const fresh = await connect({ 'Last-Event-ID': `${token}:0` });
+    const hello = await fresh.message();
+    assert.equal(hello.event, 'stream');
+    assert.notEqual(hello.data.token, token);
+    await until(() => server.kernel.clientCount === 1);
+    assert.notEqual(server.kernel.presence.list()[0]!.id, clientId);
+  });
+
+  it('unregisters a client that does not come back within reconnectGraceMs', async () => {
+    await start({ reconnectGraceMs: 50 });
+    const { stream, token } = await open();
+    stream.destroy();
+    await sleep(20);
+    assert.equal(server.kernel.clientCount, 1, 'still waiting for the reconnect');
+    await until(() => server.kernel.clientCount === 0);
+    assert.equal((await post({ type: 'echo' }, token)).status, 404);
+  });
+
+  it('ends the streams with a close event when the transport stops', async () => {
+    await start();
+    const { stream } = await open();
+    await server.kernel.stop();
+    const close = await stream.next();
+    assert.equal(close.event, 'close');
+    assert.deepEqual(JSON.parse(close.data!), { reason: 'server_shutdown' });
+    await stream.closed;
+    assert.equal(server.kernel.clientCount, 0);
+  });
+});
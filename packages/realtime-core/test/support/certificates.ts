@@ -0,0 +1,78 @@
+import { execFileSync } from 'node:child_process';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/** Paths of a PEM key and certificate written by `createAuthority` or `issueCertificate`. */
+export interface Credentials {
+  key: string;
+  cert: string;
+}
+
+const openssl = (...args: string[]) => execFileSync('openssl', args, { stdio: 'pipe' });
+
+const EC_KEY = ['-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes'];
+
+/** Whether the `openssl` command is available to generate throwaway certificates. */
+export function hasOpenssl() {
+  try {
+    openssl('version');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Creates a self-signed CA named `name` in `dir`. */
+export function createAuthority(dir: string, name: string): Credentials {
+  const credentials = { key: join(dir, `${name}-key.pem`), cert: join(dir, `${name}.pem`) };
+  openssl(
+    'req',
+    '-x509',
+    ...EC_KEY,
+    '-keyout',
+    credentials.key,
+    '-out',
+    credentials.cert,
+    '-days',
+    '1',
+    '-subj',
+    `/CN=${name}`,
+  );
+  return credentials;
+}
+
+/**
+ * Issues a certificate for 127.0.0.1 and localhost signed by `authority`, with a fresh key, into
+ * `<name>-key.pem` and `<name>.pem` (overwriting a previous one).
+ */
+export function issueCertificate(
+  dir: string,
+  authority: Credentials,
+  name: string,
+  serial: number,
+): Credentials {
+  const credentials = { key: join(dir, `${name}-key.pem`), cert: join(dir, `${name}.pem`) };
+  const request = join(dir, `${name}.csr`);
+  const extensions = join(dir, `${name}.ext`);
+  writeFileSync(extensions, 'subjectAltName=IP:127.0.0.1,DNS:localhost\n');
+  openssl('req', ...EC_KEY, '-keyout', credentials.key, '-out', request, '-subj', `/CN=${name}`);
+  openssl(
+    'x509',
+    '-req',
+    '-in',
+    request,
+    '-CA',
+    authority.cert,
+    '-CAkey',
+    authority.key,
+    '-set_serial',
+    String(serial),
+    '-days',
+    '1',
+    '-extfile',
+    extensions,
+    '-out',
+    credentials.cert,
+  );
+  return credentials;
+}
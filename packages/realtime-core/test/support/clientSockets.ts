@@ -0,0 +1,153 @@
+import type { WebSocketLike } from '../../src/client/realtimeClient.js';
+import { jsonCodec, type Codec } from '../../src/core/codec.js';
+import type { RealtimeMessage } from '../../src/types/index.js';
+import { Opcodes } from '../../src/utils/websocketFrames.js';
+import { RawWebSocket } from './rawWebSocket.js';
+
+type Handlers = Pick<WebSocketLike, 'onopen' | 'onclose' | 'onerror' | 'onmessage'>;
+
+/**
+ * A `WebSocketLike` the test plays the server of: nothing happens until it calls `open`,
+ * `receive` or `fail`. Every instance is recorded in `ScriptedWebSocket.instances`.
+ */
+export class ScriptedWebSocket implements WebSocketLike, Handlers {
+  static instances: ScriptedWebSocket[] = [];
+
+  readyState = 0;
+  protocol?: string;
+  binaryType?: string;
+  onopen: WebSocketLike['onopen'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+  /** What the client sent, as written to the socket. */
+  readonly sent: Array<string | Uint8Array> = [];
+  closedWith?: { code?: number; reason?: string };
+
+  constructor(
+    readonly url: string,
+    readonly protocols?: string | string[],
+  ) {
+    ScriptedWebSocket.instances.push(this);
+  }
+
+  static reset() {
+    ScriptedWebSocket.instances = [];
+  }
+
+  static get last() {
+    return ScriptedWebSocket.instances.at(-1)!;
+  }
+
+  /** Completes the handshake, selecting `protocol`. */
+  open(protocol?: string) {
+    this.protocol = protocol;
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  /** Delivers a message from the server, encoded with `codec`. */
+  receive(message: unknown, codec: Codec = jsonCodec) {
+    this.onmessage?.({ data: codec.encode(message) });
+  }
+
+  /** The connection fails or drops, as a browser reports it. */
+  fail() {
+    this.readyState = 3;
+    this.onerror?.({});
+    this.onclose?.({ code: 1006 });
+  }
+
+  /** Messages the client sent, decoded with `codec`. */
+  messages(codec: Codec = jsonCodec) {
+    return this.sent.map((data) => codec.decode(data) as RealtimeMessage);
+  }
+
+  send(data: string | Uint8Array) {
+    if (this.readyState !== 1) throw new Error('Socket is not open');
+    this.sent.push(data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.closedWith = { code, reason };
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    queueMicrotask(() => this.onclose?.({ code, reason }));
+  }
+}
+
+/**
+ * A `WebSocketLike` over a real connection, for running `RealtimeClient` against a kernel on
+ * Node versions without a global `WebSocket`.
+ */
+export class NodeWebSocket implements WebSocketLike, Handlers {
+  readyState = 0;
+  protocol?: string;
+  binaryType?: string;
+  onopen: WebSocketLike['onopen'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+  private raw?: RawWebSocket;
+
+  constructor(url: string, protocols?: string | string[]) {
+    const { port, pathname, search } = new URL(url);
+    const offered = typeof protocols === 'string' ? [protocols] : (protocols ?? []);
+    RawWebSocket.connect(Number(port), {
+      path: `${pathname}${search}`,
+      headers: offered.length ? { 'Sec-WebSocket-Protocol': offered.join(', ') } : {},
+    }).then(
+      (raw) => {
+        this.raw = raw;
+        this.protocol = raw.protocol;
+        this.readyState = 1;
+        this.onopen?.({});
+        void this.read(raw);
+      },
+      () => {
+        this.readyState = 3;
+        this.onerror?.({});
+        this.onclose?.({ code: 1006 });
+      },
+    );
+  }
+
+  send(data: string | Uint8Array) {
+    if (typeof data === 'string') this.raw?.send(Opcodes.TEXT, data);
+    else this.raw?.send(Opcodes.BINARY, Buffer.from(data));
+  }
+
+  close(code = 1000, reason = '') {
+    if (!this.raw || this.readyState !== 1) return;
+    this.readyState = 2;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code);
+    payload.write(reason, 2);
+    this.raw.send(Opcodes.CLOSE, payload);
+  }
+
+  private async read(raw: RawWebSocket) {
+    let code: number | undefined;
+    for (;;) {
+      let frame;
+      try {
+        frame = await raw.next(60_000);
+      } catch {
+        break;
+      }
+      if (frame.opcode === Opcodes.TEXT) {
+        this.onmessage?.({ data: frame.payload.toString('utf8') });
+      } else if (frame.opcode === Opcodes.BINARY) {
+        this.onmessage?.({ data: new Uint8Array(frame.payload) });
+      } else if (frame.opcode === Opcodes.CLOSE) {
+        code = frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : undefined;
+        if (this.readyState === 1) raw.send(Opcodes.CLOSE, frame.payload);
+        await raw.closed;
+        break;
+      }
+    }
+    raw.destroy();
+    this.readyState = 3;
+    this.onclose?.({ code });
+  }
+}
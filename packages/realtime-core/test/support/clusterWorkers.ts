@@ -0,0 +1,143 @@
+import cluster, { type Worker } from 'node:cluster';
+import { EventEmitter } from 'node:events';
+import { mock } from 'node:test';
+import { isRouterMessage } from '../../src/cluster/clusterAdapter.js';
+import type { ClusterRouter } from '../../src/cluster/clusterRouter.js';
+import { PubSubAdapter, type PubSubClient } from '../../src/core/pubSubAdapter.js';
+import { FakeHost } from './federationMesh.js';
+
+/**
+ * The primary's side of a worker: what the primary sends is recorded and handed to `onSend`, the
+ * worker's side; `post` plays a message from the worker process. Both directions are delivered in
+ * a microtask, as IPC would. Exiting is announced on the worker and on `cluster`, as Node does.
+ */
+export class FakeWorker extends EventEmitter {
+  readonly sent: unknown[] = [];
+  /** Signals the primary sent to the process. */
+  readonly signals: string[] = [];
+  readonly process: { pid: number; kill(signal?: string): boolean };
+  connected = true;
+  private dead = false;
+  onSend?: (message: unknown) => void;
+
+  constructor(readonly id: number) {
+    super();
+    this.process = {
+      pid: 10_000 + id,
+      kill: (signal = 'SIGTERM') => {
+        this.signals.push(signal);
+        queueMicrotask(() => this.exit(null, signal));
+        return true;
+      },
+    };
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  isDead() {
+    return this.dead;
+  }
+
+  send(message: unknown) {
+    this.sent.push(message);
+    queueMicrotask(() => this.onSend?.(message));
+    return true;
+  }
+
+  kill(signal?: string) {
+    this.process.kill(signal);
+  }
+
+  post(message: unknown) {
+    queueMicrotask(() => this.emit('message', message));
+  }
+
+  /** The process exits; by default it crashed without having said anything. */
+  exit(code: number | null = 1, signal: string | null = null) {
+    if (this.dead) return;
+    this.connected = false;
+    this.dead = true;
+    delete cluster.workers?.[this.id];
+    this.emit('exit', code, signal);
+    cluster.emit('exit', this, code, signal);
+  }
+
+  /** Messages of `type` the primary sent. */
+  received(type: string) {
+    return this.sent.filter(
+      (message) => (message as { type?: string } | undefined)?.type === type,
+    ) as Array<{ type: string; id?: number }>;
+  }
+
+  /** Payloads the router delivered to this worker, parsed. */
+  delivered() {
+    return this.sent.flatMap((message) =>
+      isRouterMessage(message) && message.type === 'router:message'
+        ? [JSON.parse(message.payload) as { origin: string; kind: string; room?: string }]
+        : [],
+    );
+  }
+}
+
+/**
+ * Replaces `cluster.fork` with a fake that registers a `FakeWorker` in `cluster.workers`, so that
+ * a `ClusterManager` runs its primary without forking. Restore with `mock.restoreAll()`.
+ */
+export function mockFork() {
+  const forked: FakeWorker[] = [];
+  mock.method(cluster, 'fork', () => {
+    const worker = new FakeWorker(forked.length + 1);
+    forked.push(worker);
+    cluster.workers![worker.id] = worker as unknown as Worker;
+    return worker;
+  });
+  return forked;
+}
+
+/** `IpcPubSub` in the worker process, over a `FakeWorker` instead of `process`. */
+class WorkerPubSub implements PubSubClient {
+  constructor(private readonly worker: FakeWorker) {}
+
+  async subscribe(channels: string[], onMessage: (channel: string, payload: string) => void) {
+    this.worker.onSend = (message) => {
+      if (isRouterMessage(message) && message.type === 'router:message') {
+        onMessage(message.channel, message.payload);
+      }
+    };
+    this.worker.post({ type: 'router:subscribe', channels });
+  }
+
+  async publish(channel: string, payload: string) {
+    this.worker.post({ type: 'router:publish', channel, payload });
+  }
+
+  async close() {
+    this.worker.onSend = undefined;
+    this.worker.post({ type: 'router:unsubscribe' });
+  }
+}
+
+export interface ClusterWorker {
+  worker: FakeWorker;
+  adapter: PubSubAdapter;
+  host: FakeHost;
+}
+
+/**
+ * Forks nothing: attaches `count` fake workers to `router`, each running the `PubSubAdapter` a
+ * `ClusterAdapter` would, under the node id `worker-<id>`.
+ */
+export async function startWorkers(router: ClusterRouter, count: number) {
+  const workers: ClusterWorker[] = [];
+  for (let id = 1; id <= count; id++) {
+    const worker = new FakeWorker(id);
+    router.attach(worker as unknown as Worker);
+    const adapter = new PubSubAdapter(new WorkerPubSub(worker), { nodeId: `worker-${id}` });
+    const host = new FakeHost();
+    await adapter.attach(host);
+    workers.push({ worker, adapter, host });
+  }
+  return workers;
+}
@@ -0,0 +1,79 @@
+import { Federation, type FederationEnvelope } from '../../src/core/federation.js';
+import type { AdapterHost } from '../../src/core/hubAdapter.js';
+import { MetricsRegistry } from '../../src/core/metrics.js';
+import { PresenceStore } from '../../src/core/presenceStore.js';
+import type { BroadcastOptions, OutboundMessage, PresenceSnapshot } from '../../src/types/index.js';
+import { Logger } from '../../src/utils/logger.js';
+
+/** A hub reduced to what an adapter sees, recording what reaches its local clients. */
+export class FakeHost implements AdapterHost {
+  readonly presence = new PresenceStore();
+  readonly metrics = new MetricsRegistry();
+  readonly logger = new Logger('test', 'silent');
+  readonly clients: PresenceSnapshot[] = [];
+  readonly broadcasts: Array<{ message: OutboundMessage; options: BroadcastOptions }> = [];
+  readonly sends: Array<{ clientId: string; message: OutboundMessage }> = [];
+
+  localClients() {
+    return this.clients;
+  }
+
+  broadcastLocal(message: OutboundMessage, options: BroadcastOptions) {
+    this.broadcasts.push({ message, options });
+  }
+
+  sendLocal(clientId: string, message: OutboundMessage) {
+    this.sends.push({ clientId, message });
+  }
+}
+
+export function snapshot(id: string, rooms: string[] = []): PresenceSnapshot {
+  return { id, transport: 'test', connectedAt: 0, rooms };
+}
+
+export interface MeshNode {
+  federation: Federation;
+  host: FakeHost;
+  /** Envelopes this node was handed, duplicates included. */
+  received: FederationEnvelope[];
+}
+
+/**
+ * Nodes joined by the undirected `links`, delivering envelopes synchronously through a JSON round
+ * trip as the mesh would. `link` and `unlink` change the topology afterwards.
+ */
+export function createMesh(nodeIds: string[], links: Array<[string, string]>, maxHops?: number) {
+  const edges = new Set<string>();
+  const edge = (a: string, b: string) => [a, b].sort().join('|');
+  const nodes = new Map<string, MeshNode>();
+  for (const nodeId of nodeIds) {
+    const federation = new Federation(
+      nodeId,
+      {
+        peers: () => nodeIds.filter((peer) => peer !== nodeId && edges.has(edge(nodeId, peer))),
+        send: (peer, envelope) => {
+          const target = nodes.get(peer)!;
+          const copy = JSON.parse(JSON.stringify(envelope)) as FederationEnvelope;
+          target.received.push(copy);
+          target.federation.receive(copy);
+        },
+      },
+      { maxHops },
+    );
+    const host = new FakeHost();
+    federation.attach(host);
+    nodes.set(nodeId, { federation, host, received: [] });
+  }
+  links.forEach(([a, b]) => edges.add(edge(a, b)));
+  return {
+    node: (nodeId: string) => nodes.get(nodeId)!,
+    link(a: string, b: string) {
+      edges.add(edge(a, b));
+      nodes.get(a)!.federation.linkUp();
+      nodes.get(b)!.federation.linkUp();
+    },
+    unlink(a: string, b: string) {
+      edges.delete(edge(a, b));
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import {
+  Membership,
+  type MemberLeaveReason,
+  type MembershipMessage,
+  type MembershipOptions,
+  type MeshMember,
+} from '../../src/cluster/membership.js';
+
+export interface MembershipNode {
+  membership: Membership;
+  joined: string[];
+  left: Array<[string, MemberLeaveReason]>;
+  /** Messages this node was handed, by sender. */
+  received: Array<{ from: string; message: MembershipMessage }>;
+}
+
+/**
+ * Nodes running `Membership` over the undirected `links`, delivering messages in a microtask
+ * through a JSON round trip, so that a reply never arrives before its request was sent. Nodes start without probing: call `start` once the
+ * test controls the timers. `link` and `unlink` change the topology; a `silence`d node neither
+ * receives nor sends, like a process that hangs with its links still open.
+ */
+export function createMembershipMesh(
+  nodeIds: string[],
+  links: Array<[string, string]>,
+  options: MembershipOptions = {},
+) {
+  const edges = new Set<string>();
+  const silenced = new Set<string>();
+  const edge = (a: string, b: string) => [a, b].sort().join('|');
+  const nodes = new Map<string, MembershipNode>();
+  for (const nodeId of nodeIds) {
+    const joined: string[] = [];
+    const left: Array<[string, MemberLeaveReason]> = [];
+    const membership = new Membership(
+      nodeId,
+      `${nodeId}.test:7000`,
+      {
+        peers: () => nodeIds.filter((peer) => peer !== nodeId && edges.has(edge(nodeId, peer))),
+        send: (peer, message) => {
+          if (silenced.has(nodeId)) return;
+          const copy = JSON.parse(JSON.stringify(message)) as MembershipMessage;
+          queueMicrotask(() => {
+            if (silenced.has(peer)) return;
+            const target = nodes.get(peer)!;
+            target.received.push({ from: nodeId, message: copy });
+            target.membership.receive(nodeId, copy);
+          });
+        },
+      },
+      {
+        joined: (member: MeshMember) => joined.push(member.nodeId),
+        left: (member: MeshMember, reason) => left.push([member.nodeId, reason]),
+      },
+      options,
+    );
+    nodes.set(nodeId, { membership, joined, left, received: [] });
+  }
+  const link = (a: string, b: string) => {
+    edges.add(edge(a, b));
+    nodes.get(a)!.membership.linkUp(b);
+    nodes.get(b)!.membership.linkUp(a);
+  };
+  links.forEach(([a, b]) => link(a, b));
+  return {
+    node: (nodeId: string) => nodes.get(nodeId)!,
+    /** How `observer` currently sees `nodeId`. */
+    status: (observer: string, nodeId: string) =>
+      nodes.get(observer)!.membership.get(nodeId)?.status,
+    start: () => nodes.forEach(({ membership }) => membership.start()),
+    stop: () => nodes.forEach(({ membership }) => membership.stop()),
+    link,
+    unlink(a: string, b: string) {
+      edges.delete(edge(a, b));
+    },
+    silence(nodeId: string) {
+      silenced.add(nodeId);
+    },
+    revive(nodeId: string) {
+      silenced.delete(nodeId);
+    },
+  };
+}
@@ -0,0 +1,230 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { once } from 'node:events';
+import { connect, type Socket } from 'node:net';
+import { connect as connectTls, type ConnectionOptions } from 'node:tls';
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+export interface ServerFrame {
+  fin: boolean;
+  rsv1: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+export interface ClientFrameOptions {
+  fin?: boolean;
+  /** RSV1-3 bits as they sit in the first byte (`0x40`, `0x20`, `0x10`). */
+  rsv?: number;
+  masked?: boolean;
+}
+
+export interface RawConnectOptions {
+  path?: string;
+  headers?: Record<string, string>;
+  /** Connects over TLS with these options. */
+  tls?: ConnectionOptions;
+}
+
+/** The server answered the upgrade with something other than 101. */
+export class UpgradeError extends Error {
+  constructor(readonly status: number) {
+    super(`Upgrade refused with ${status}`);
+    this.name = 'UpgradeError';
+  }
+}
+
+/** Encodes a client frame; unlike a real client it can break every rule of RFC 6455. */
+export function encodeClientFrame(
+  opcode: number,
+  payload: Buffer | string = Buffer.alloc(0),
+  { fin = true, rsv = 0, masked = true }: ClientFrameOptions = {},
+) {
+  const data = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  const header = [(fin ? 0x80 : 0) | rsv | opcode];
+  const maskBit = masked ? 0x80 : 0;
+  const length = Buffer.alloc(data.length < 126 ? 0 : data.length < 65536 ? 2 : 8);
+  if (data.length < 126) {
+    header.push(maskBit | data.length);
+  } else if (data.length < 65536) {
+    header.push(maskBit | 126);
+    length.writeUInt16BE(data.length);
+  } else {
+    header.push(maskBit | 127);
+    length.writeBigUInt64BE(BigInt(data.length));
+  }
+  if (!masked) return Buffer.concat([Buffer.from(header), length, data]);
+  const mask = randomBytes(4);
+  const body = Buffer.from(data.map((byte, index) => byte ^ mask[index & 3]!));
+  return Buffer.concat([Buffer.from(header), length, mask, body]);
+}
+
+export function decodeServerFrame(buffer: Buffer): { frame: ServerFrame; bytes: number } | null {
+  if (buffer.length < 2) return null;
+  let length = buffer[1]! & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (buffer.length < offset + length) return null;
+  const frame = {
+    fin: Boolean(buffer[0]! & 0x80),
+    rsv1: Boolean(buffer[0]! & 0x40),
+    opcode: buffer[0]! & 0x0f,
+    payload: buffer.subarray(offset, offset + length),
+  };
+  return { frame, bytes: offset + length };
+}
+
+/** A WebSocket client speaking raw frames, for conformance tests. */
+export class RawWebSocket {
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly frames: ServerFrame[] = [];
+  private wake?: () => void;
+  private ended = false;
+  /** Settles when the server closes the TCP connection. */
+  readonly closed: Promise<void>;
+
+  private constructor(
+    readonly socket: Socket,
+    rest: Buffer,
+    /** Subprotocol the server selected, if any. */
+    readonly protocol?: string,
+  ) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    this.closed = new Promise((resolve) => {
+      socket.once('close', () => {
+        this.ended = true;
+        this.wake?.();
+        resolve();
+      });
+    });
+    socket.on('error', () => undefined);
+    if (rest.length) this.receive(rest);
+  }
+
+  static async connect(port: number, options: RawConnectOptions = {}) {
+    const socket = options.tls
+      ? connectTls({ ...options.tls, host: '127.0.0.1', port })
+      : connect(port, '127.0.0.1');
+    await once(socket, options.tls ? 'secureConnect' : 'connect');
+    const key = randomBytes(16).toString('base64');
+    const headers = {
+      Host: `127.0.0.1:${port}`,
+      Upgrade: 'websocket',
+      Connection: 'Upgrade',
+      'Sec-WebSocket-Key': key,
+      'Sec-WebSocket-Version': '13',
+      ...options.headers,
+    };
+    socket.write(
+      [
+        `GET ${options.path ?? '/'} HTTP/1.1`,
+        ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+        '\r\n',
+      ].join('\r\n'),
+    );
+
+    let response = Buffer.alloc(0);
+    while (!response.includes('\r\n\r\n')) {
+      const [chunk] = (await Promise.race([
+        once(socket, 'data'),
+        once(socket, 'close').then(() => [undefined]),
+      ])) as [Buffer | undefined];
+      if (!chunk) throw new UpgradeError(0);
+      response = Buffer.concat([response, chunk]);
+    }
+    const end = response.indexOf('\r\n\r\n');
+    const head = response.subarray(0, end).toString('latin1').split('\r\n');
+    const status = Number(head[0]!.split(' ')[1]);
+    if (status !== 101) {
+      socket.destroy();
+      throw new UpgradeError(status);
+    }
+    const accept = createHash('sha1')
+      .update(key + GUID)
+      .digest('base64');
+    const acceptLine = head.find((line) => line.toLowerCase().startsWith('sec-websocket-accept:'));
+    if (acceptLine?.slice('sec-websocket-accept:'.length).trim() !== accept) {
+      socket.destroy();
+      throw new Error('Wrong Sec-WebSocket-Accept');
+    }
+    const protocolLine = head.find((line) =>
+      line.toLowerCase().startsWith('sec-websocket-protocol:'),
+    );
+    const protocol = protocolLine?.slice('sec-websocket-protocol:'.length).trim();
+    return new RawWebSocket(socket, response.subarray(end + 4), protocol);
+  }
+
+  send(opcode: number, payload?: Buffer | string, options?: ClientFrameOptions) {
+    this.socket.write(encodeClientFrame(opcode, payload, options));
+  }
+
+  sendMessage(message: unknown) {
+    this.send(0x1, JSON.stringify(message));
+  }
+
+  /** Next frame from the server; rejects once the connection is closed or after `timeoutMs`. */
+  async next(timeoutMs = 2000): Promise<ServerFrame> {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.frames.length) {
+      if (this.ended) throw new Error('Connection closed');
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error('No frame received');
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = undefined;
+    }
+    return this.frames.shift()!;
+  }
+
+  /** Next frame with `opcode`, skipping the others. */
+  async nextOf(opcode: number, timeoutMs?: number) {
+    for (;;) {
+      const frame = await this.next(timeoutMs);
+      if (frame.opcode === opcode) return frame;
+    }
+  }
+
+  /** Next decoded text message. */
+  async message(timeoutMs?: number) {
+    const frame = await this.nextOf(0x1, timeoutMs);
+    return JSON.parse(frame.payload.toString('utf8')) as { type: string; payload?: unknown };
+  }
+
+  /** Waits for the server's close frame, then for the TCP connection to end. */
+  async closeCode(timeoutMs?: number) {
+    const frame = await this.nextOf(0x8, timeoutMs);
+    await this.closed;
+    return {
+      code: frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : undefined,
+      reason: frame.payload.subarray(2).toString('utf8'),
+    };
+  }
+
+  destroy() {
+    this.socket.destroy();
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const decoded = decodeServerFrame(this.buffer);
+      if (!decoded) break;
+      this.frames.push(decoded.frame);
+      this.buffer = this.buffer.subarray(decoded.bytes);
+    }
+    this.wake?.();
+  }
+}
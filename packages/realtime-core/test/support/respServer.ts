@@ -0,0 +1,146 @@
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net';
+import { decodeReply, RespError, type RespValue } from '../../src/utils/resp.js';
+
+export interface RespServerOptions {
+  /** Port to listen on; a free one by default. */
+  port?: number;
+  /** Required by AUTH, like `requirepass`; with `username` too, like an ACL user. */
+  password?: string;
+  username?: string;
+  /** Writes every reply one byte at a time, to exercise incremental decoding. */
+  fragment?: boolean;
+  /** Answers a command instead of the default handling when it returns a value. */
+  intercept?: (command: string[]) => RespValue | undefined;
+}
+
+/**
+ * A stand-in for a Redis broker speaking enough RESP2 for `RedisPubSub`: AUTH, PING, PUBLISH and
+ * SUBSCRIBE. Commands are recorded in `commands`.
+ */
+export class RespServer {
+  readonly commands: string[][] = [];
+  private readonly sockets = new Set<Socket>();
+  private readonly subscriptions = new Map<string, Set<Socket>>();
+  private readonly server: Server;
+
+  private constructor(private readonly options: RespServerOptions) {
+    this.server = createServer((socket) => this.accept(socket));
+  }
+
+  static async start(options: RespServerOptions = {}) {
+    const broker = new RespServer(options);
+    await new Promise<void>((resolve) =>
+      broker.server.listen(options.port ?? 0, '127.0.0.1', resolve),
+    );
+    return broker;
+  }
+
+  get port() {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /** Connections subscribed to `channel`. */
+  subscribers(channel: string) {
+    return this.subscriptions.get(channel)?.size ?? 0;
+  }
+
+  /** Closes every client connection, as a broker restart or a network cut would. */
+  dropConnections() {
+    this.sockets.forEach((socket) => socket.destroy());
+  }
+
+  async stop() {
+    this.dropConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private accept(socket: Socket) {
+    this.sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+    let authenticated = this.options.password === undefined;
+    socket.on('error', () => undefined);
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.subscriptions.forEach((sockets) => sockets.delete(socket));
+    });
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (let request; (request = decodeReply(buffer)); ) {
+        buffer = buffer.subarray(request.bytes);
+        const command = (request.value as Buffer[]).map((arg) => arg.toString('utf8'));
+        this.commands.push(command);
+        const name = command[0]!.toUpperCase();
+        const intercepted = this.options.intercept?.(command);
+        if (intercepted !== undefined) {
+          this.reply(socket, intercepted);
+        } else if (name === 'AUTH') {
+          authenticated = this.authenticate(command.slice(1));
+          this.reply(
+            socket,
+            authenticated ? 'OK' : new RespError('WRONGPASS invalid username-password pair'),
+          );
+        } else if (!authenticated) {
+          this.reply(socket, new RespError('NOAUTH Authentication required.'));
+        } else {
+          this.execute(socket, name, command.slice(1));
+        }
+      }
+    });
+  }
+
+  private authenticate(args: string[]) {
+    const [username, password] = args.length > 1 ? args : ['default', args[0]];
+    return password === this.options.password && username === (this.options.username ?? 'default');
+  }
+
+  private execute(socket: Socket, name: string, args: string[]) {
+    switch (name) {
+      case 'PING':
+        this.reply(socket, 'PONG');
+        return;
+      case 'SUBSCRIBE':
+        args.forEach((channel, index) => {
+          const sockets = this.subscriptions.get(channel) ?? new Set();
+          sockets.add(socket);
+          this.subscriptions.set(channel, sockets);
+          this.reply(socket, [Buffer.from('subscribe'), Buffer.from(channel), index + 1]);
+        });
+        return;
+      case 'PUBLISH': {
+        const [channel = '', payload = ''] = args;
+        const sockets = [...(this.subscriptions.get(channel) ?? [])];
+        sockets.forEach((subscriber) =>
+          this.reply(subscriber, [
+            Buffer.from('message'),
+            Buffer.from(channel),
+            Buffer.from(payload),
+          ]),
+        );
+        this.reply(socket, sockets.length);
+        return;
+      }
+      default:
+        this.reply(socket, new RespError(`ERR unknown command '${name}'`));
+    }
+  }
+
+  private reply(socket: Socket, value: RespValue) {
+    const bytes = encodeValue(value);
+    if (!this.options.fragment) {
+      socket.write(bytes);
+      return;
+    }
+    for (const byte of bytes) socket.write(Buffer.of(byte));
+  }
+}
+
+function encodeValue(value: RespValue): Buffer {
+  if (value === null) return Buffer.from('$-1\r\n');
+  if (value instanceof RespError) return Buffer.from(`-${value.message}\r\n`);
+  if (typeof value === 'string') return Buffer.from(`+${value}\r\n`);
+  if (typeof value === 'number') return Buffer.from(`:${value}\r\n`);
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n')]);
+  }
+  return Buffer.concat([Buffer.from(`*${value.length}\r\n`), ...value.map(encodeValue)]);
+}
@@ -0,0 +1,80 @@
+import { createServer, request, type Server } from 'node:http';
+import { createServer as createNetServer, type AddressInfo } from 'node:net';
+import { RealtimeKernel } from '../../src/core/realtimeKernel.js';
+import type { BaseTransport } from '../../src/transports/base.js';
+import {
+  WebSocketTransport,
+  type WebSocketTransportOptions,
+} from '../../src/transports/websocket.js';
+import type { KernelOptions } from '../../src/types/index.js';
+
+/** Asks the system for a port nobody listens on, for transports that bind their own server. */
+export async function freePort() {
+  const server = createNetServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+export async function listen(server: Server) {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+export async function closeServer(server: { close(callback: () => void): unknown }) {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+/** Status of a GET sent with `path` as is, where fetch would refuse or normalise the target. */
+export async function statusOf(port: number, path: string) {
+  return new Promise<number | undefined>((resolve, reject) => {
+    request({ host: '127.0.0.1', port, path }, (response) => {
+      response.resume();
+      resolve(response.statusCode);
+    })
+      .on('error', reject)
+      .end();
+  });
+}
+
+/**
+ * Starts a kernel with a WebSocket transport on a free port. Its `echo` handler answers every
+ * `echo` message with the same payload.
+ */
+export async function startEchoKernel(
+  transport: Omit<WebSocketTransportOptions, 'server'> = {},
+  options: Omit<KernelOptions, 'transports'> = {},
+) {
+  return startHttpKernel(
+    (server) => [new WebSocketTransport({ heartbeatIntervalMs: 0, ...transport, server })],
+    options,
+  );
+}
+
+/** Like `startEchoKernel`, with the transports `mount` creates on the HTTP server. */
+export async function startHttpKernel(
+  mount: (server: Server) => BaseTransport[],
+  options: Omit<KernelOptions, 'transports'> = {},
+) {
+  const server = createServer();
+  const port = await listen(server);
+  const kernel = new RealtimeKernel({
+    logLevel: 'error',
+    ...options,
+    transports: mount(server),
+  });
+  kernel.on('echo', (message, _context, toolkit) => {
+    toolkit.reply({ type: 'echo', payload: message.payload });
+  });
+  await kernel.start();
+  return {
+    kernel,
+    port,
+    async stop() {
+      await kernel.stop();
+      server.closeAllConnections();
+      await closeServer(server);
+    },
+  };
+}
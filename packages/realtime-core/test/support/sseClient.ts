@@ -0,0 +1,108 @@
+import { request, type ClientRequest, type IncomingMessage } from 'node:http';
+
+export interface ServerSentEvent {
+  id?: string;
+  event?: string;
+  data?: string;
+  retry?: number;
+  /** Comment lines, such as heartbeats. */
+  comments: string[];
+}
+
+/** Reads an event stream the way `EventSource` does, without reconnecting on its own. */
+export class SseClient {
+  private buffer = '';
+  private readonly events: ServerSentEvent[] = [];
+  private wake?: () => void;
+  private ended = false;
+  /** Settles when the server ends the response. */
+  readonly closed: Promise<void>;
+
+  private constructor(
+    private readonly req: ClientRequest,
+    readonly response: IncomingMessage,
+  ) {
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => this.receive(chunk));
+    response.on('error', () => undefined);
+    this.closed = new Promise((resolve) => {
+      response.once('close', () => {
+        this.ended = true;
+        this.wake?.();
+        resolve();
+      });
+    });
+  }
+
+  static async connect(port: number, path = '/sse', headers: Record<string, string> = {}) {
+    return new Promise<SseClient>((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port, path, headers }, (response) =>
+        resolve(new SseClient(req, response)),
+      );
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  get status() {
+    return this.response.statusCode;
+  }
+
+  /** Next event from the server; rejects once the stream is closed or after `timeoutMs`. */
+  async next(timeoutMs = 2000): Promise<ServerSentEvent> {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.events.length) {
+      if (this.ended) throw new Error('Stream closed');
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error('No event received');
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = undefined;
+    }
+    return this.events.shift()!;
+  }
+
+  /** Next event carrying data, with the data decoded. */
+  async message(timeoutMs?: number) {
+    for (;;) {
+      const { id, event, data } = await this.next(timeoutMs);
+      if (data !== undefined) {
+        return { id, event, data: JSON.parse(data) as Record<string, unknown> };
+      }
+    }
+  }
+
+  destroy() {
+    this.req.destroy();
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    for (let end = this.buffer.indexOf('\n\n'); end >= 0; end = this.buffer.indexOf('\n\n')) {
+      const block = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      const event: ServerSentEvent = { comments: [] };
+      for (const line of block.split('\n')) {
+        if (line.startsWith(':')) {
+          event.comments.push(line.slice(1).trim());
+          continue;
+        }
+        const colon = line.indexOf(':');
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'id') event.id = value;
+        else if (field === 'event') event.event = value;
+        else if (field === 'retry') event.retry = Number(value);
+        else if (field === 'data')
+          event.data = event.data === undefined ? value : `${event.data}\n${value}`;
+      }
+      this.events.push(event);
+    }
+    this.wake?.();
+  }
+}
@@ -0,0 +1,88 @@
+import { once } from 'node:events';
+import { connect, type Socket } from 'node:net';
+import { connect as connectTls, type ConnectionOptions } from 'node:tls';
+import type { TcpHello, TcpWelcome } from '../../src/transports/tcp.js';
+import { decodeLengthPrefixed, encodeLengthPrefixed } from '../../src/utils/framing.js';
+
+/**
+ * Speaks length-prefixed JSON frames, as clients of the TCP transport and mesh handshakes do;
+ * heartbeats are answered and never surface.
+ */
+export class TcpClient {
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly frames: unknown[] = [];
+  private wake?: () => void;
+  private ended = false;
+  /** Settles when the server closes the connection. */
+  readonly closed: Promise<void>;
+
+  private constructor(readonly socket: Socket) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('error', () => undefined);
+    this.closed = new Promise((resolve) => {
+      socket.once('close', () => {
+        this.ended = true;
+        this.wake?.();
+        resolve();
+      });
+    });
+  }
+
+  /** Opens the connection without sending the hello. */
+  static async open(port: number, tls?: ConnectionOptions) {
+    const socket = tls
+      ? connectTls({ ...tls, host: '127.0.0.1', port })
+      : connect(port, '127.0.0.1');
+    await once(socket, tls ? 'secureConnect' : 'connect');
+    return new TcpClient(socket);
+  }
+
+  /** Opens the connection and returns the server's answer to `hello`. */
+  static async connect(port: number, hello: TcpHello = {}, tls?: ConnectionOptions) {
+    const client = await TcpClient.open(port, tls);
+    const welcome = await client.hello(hello);
+    return { client, welcome };
+  }
+
+  async hello(hello: TcpHello = {}) {
+    this.send(hello);
+    return (await this.next()) as TcpWelcome;
+  }
+
+  send(message: unknown) {
+    this.socket.write(encodeLengthPrefixed(JSON.stringify(message)));
+  }
+
+  /** Next frame from the server; rejects once the connection is closed or after `timeoutMs`. */
+  async next(timeoutMs = 2000): Promise<unknown> {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.frames.length) {
+      if (this.ended) throw new Error('Connection closed');
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error('No frame received');
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = undefined;
+    }
+    return this.frames.shift();
+  }
+
+  destroy() {
+    this.socket.destroy();
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (let frame; (frame = decodeLengthPrefixed(this.buffer, 1024 * 1024)); ) {
+      this.buffer = this.buffer.subarray(frame.bytes);
+      if (!frame.payload.length) this.socket.write(encodeLengthPrefixed(''));
+      else this.frames.push(JSON.parse(frame.payload.toString('utf8')));
+    }
+    this.wake?.();
+  }
+}
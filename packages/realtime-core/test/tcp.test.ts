@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { connect } from 'node:net';
+import { afterEach, describe, it } from 'node:test';
+import { AuthenticationError } from '../src/core/errors.js';
+import { RealtimeKernel } from '../src/core/realtimeKernel.js';
+import { TcpTransport, type TcpTransportOptions } from '../src/transports/tcp.js';
+import type { Authenticator } from '../src/types/index.js';
+import { decodeLengthPrefixed, encodeLengthPrefixed } from '../src/utils/framing.js';
+import { freePort } from './support/servers.js';
+import { TcpClient } from './support/tcpClient.js';
+
+describe('TCP transport admission', () => {
+  let kernel: RealtimeKernel;
+  let port: number;
+
+  const start = async (authenticate?: Authenticator, options: TcpTransportOptions = {}) => {
+    port = await freePort();
+    kernel = new RealtimeKernel({
+      logLevel: 'error',
+      authenticate,
+      transports: [
+        new TcpTransport({ port, host: '127.0.0.1', heartbeatIntervalMs: 0, ...options }),
+      ],
+    });
+    await kernel.start();
+  };
+
+  afterEach(async () => {
+    await kernel.stop();
+  });
+
+  it('welcomes an admitted client', async () => {
+    await start(() => ({ user: { id: 'u1' } }));
+    const { client, welcome } = await TcpClient.connect(port);
+    assert.ok('clientId' in welcome);
+    assert.equal(welcome.codec, 'json');
+    client.destroy();
+  });
+
+  const refusals: Array<[string, Authenticator, number, string]> = [
+    ['a false result', () => false, 401, 'unauthorized'],
+    [
+      'a 403 AuthenticationError',
+      () => {
+        throw new AuthenticationError('Banned', 403);
+      },
+      403,
+      'forbidden',
+    ],
+    [
+      'a failing hook',
+      () => {
+        throw new Error('database down');
+      },
+      500,
+      'internal_error',
+    ],
+  ];
+  for (const [name, authenticate, error, reason] of refusals) {
+    it(`refuses ${name} with ${error} ${reason}`, async () => {
+      await start(authenticate);
+      const { welcome } = await TcpClient.connect(port);
+      assert.deepEqual(welcome, { error, reason });
+    });
+  }
+
+  it('refuses a hello received while draining with 503 unavailable', async () => {
+    await start();
+    const client = await TcpClient.open(port);
+    await kernel.drain({ timeoutMs: 0 });
+    assert.deepEqual(await client.hello(), { error: 503, reason: 'unavailable' });
+  });
+
+  it('ignores a hello sent after the handshake timed out and then drops the socket', async () => {
+    let admissions = 0;
+    await start(() => void admissions++, { handshakeTimeoutMs: 50 });
+    // half-open, as a peer that never sends FIN: the server has to destroy the socket itself
+    const socket = connect({ port, host: '127.0.0.1', allowHalfOpen: true });
+    socket.on('error', () => undefined);
+    const closed = new Promise((resolve) => socket.once('close', resolve));
+    const [chunk] = (await once(socket, 'data')) as [Buffer];
+    const frame = decodeLengthPrefixed(chunk, 1024)!;
+    assert.deepEqual(JSON.parse(frame.payload.toString('utf8')), {
+      error: 408,
+      reason: 'handshake_timeout',
+    });
+
+    socket.write(encodeLengthPrefixed(JSON.stringify({})));
+    // heartbeats keep writing until the destroyed socket answers with a reset
+    const heartbeats = setInterval(() => socket.write(encodeLengthPrefixed('')), 100);
+    await closed;
+    clearInterval(heartbeats);
+    assert.equal(admissions, 0);
+  });
+});
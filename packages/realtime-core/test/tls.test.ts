@@ -0,0 +1,181 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { connect as connectTls } from 'node:tls';
+import { RealtimeKernel } from '../src/core/realtimeKernel.js';
+import { PeerMeshTransport } from '../src/transports/p2p.js';
+import { TcpTransport } from '../src/transports/tcp.js';
+import { WebSocketTransport } from '../src/transports/websocket.js';
+import {
+  createAuthority,
+  hasOpenssl,
+  issueCertificate,
+  type Credentials,
+} from './support/certificates.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { freePort } from './support/servers.js';
+import { TcpClient } from './support/tcpClient.js';
+
+/**
+ * TLS of the WebSocket, TCP and mesh transports, with a throwaway CA generated by `openssl` (the
+ * suite is skipped without it).
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() >= deadline) throw new Error('Condition not met in time');
+    await sleep(50);
+  }
+}
+
+/** Serial number of the certificate the server on `port` presents. */
+async function serialOf(port: number, ca: Buffer) {
+  const socket = connectTls({ host: '127.0.0.1', port, ca });
+  await once(socket, 'secureConnect');
+  const { serialNumber } = socket.getPeerCertificate();
+  socket.destroy();
+  return parseInt(serialNumber, 16);
+}
+
+describe('TLS', { skip: !hasOpenssl() && 'openssl is not available' }, () => {
+  let dir: string;
+  let authority: Credentials;
+  let ca: Buffer;
+  const kernels: RealtimeKernel[] = [];
+
+  const start = async (kernel: RealtimeKernel) => {
+    kernels.push(kernel);
+    await kernel.start();
+    return kernel;
+  };
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'realtime-tls-'));
+    authority = createAuthority(dir, 'ca');
+    ca = readFileSync(authority.cert);
+  });
+
+  after(async () => {
+    await Promise.all(kernels.map((kernel) => kernel.stop()));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves WebSocket over TLS and reloads the certificate on SIGHUP', async () => {
+    const port = await freePort();
+    const tls = issueCertificate(dir, authority, 'wss', 1);
+    const kernel = await start(
+      new RealtimeKernel({
+        logLevel: 'silent',
+        transports: [new WebSocketTransport({ port, tls, heartbeatIntervalMs: 0 })],
+      }),
+    );
+    kernel.on('echo', (message, _context, toolkit) => {
+      toolkit.reply({ type: 'echo', payload: message.payload });
+    });
+
+    const ws = await RawWebSocket.connect(port, { tls: { ca } });
+    ws.sendMessage({ type: 'echo', payload: 'secure' });
+    assert.equal((await ws.message()).payload, 'secure');
+    assert.equal(await serialOf(port, ca), 1);
+
+    issueCertificate(dir, authority, 'wss', 2);
+    process.kill(process.pid, 'SIGHUP');
+    await waitFor(async () => (await serialOf(port, ca)) === 2);
+
+    // the open connection keeps the certificate it was established with
+    ws.sendMessage({ type: 'echo', payload: 'still open' });
+    assert.equal((await ws.message()).payload, 'still open');
+    ws.destroy();
+  });
+
+  it('keeps the previous certificate when a reload fails', async () => {
+    const port = await freePort();
+    const tls = issueCertificate(dir, authority, 'broken', 3);
+    await start(
+      new RealtimeKernel({
+        logLevel: 'silent',
+        transports: [new TcpTransport({ port, host: '127.0.0.1', tls, heartbeatIntervalMs: 0 })],
+      }),
+    );
+    issueCertificate(dir, authority, 'broken', 4);
+    rmSync(tls.key);
+    process.kill(process.pid, 'SIGHUP');
+    await sleep(200);
+    assert.equal(await serialOf(port, ca), 3);
+  });
+
+  it('serves the TCP transport over TLS', async () => {
+    const port = await freePort();
+    await start(
+      new RealtimeKernel({
+        logLevel: 'silent',
+        transports: [
+          new TcpTransport({
+            port,
+            host: '127.0.0.1',
+            tls: issueCertificate(dir, authority, 'tcp', 5),
+            heartbeatIntervalMs: 0,
+          }),
+        ],
+      }),
+    );
+    const { client, welcome } = await TcpClient.connect(port, {}, { ca });
+    assert.ok('clientId' in welcome);
+    client.send({ type: 'system:join', room: 'jobs', ack: 'join-1' });
+    const ack = (await client.next()) as { type: string; payload: unknown };
+    assert.equal(ack.type, 'system:ack');
+    assert.deepEqual(ack.payload, { ack: 'join-1' });
+    client.destroy();
+
+    await assert.rejects(TcpClient.connect(port, {}, { ca: readFileSync(join(dir, 'wss.pem')) }));
+  });
+
+  it('links mesh peers signed by the cluster CA and rejects the others', async () => {
+    const rogue = createAuthority(dir, 'rogue-ca');
+    const membership = { probeIntervalMs: 100, probeTimeoutMs: 100 };
+    const mesh = async (nodeId: string, tls: Credentials & { ca: string }, peers: string[]) => {
+      const port = await freePort();
+      const transport = new PeerMeshTransport({
+        nodeId,
+        host: '127.0.0.1',
+        port,
+        peers,
+        tls,
+        membership,
+        reconnectIntervalMs: 100,
+      });
+      await start(new RealtimeKernel({ logLevel: 'silent', transports: [transport] }));
+      return { transport, address: `127.0.0.1:${port}` };
+    };
+    const alive = (transport: PeerMeshTransport) =>
+      transport
+        .members()
+        .filter((member) => member.status === 'alive')
+        .map((member) => member.nodeId)
+        .sort();
+
+    const a = await mesh(
+      'a',
+      { ...issueCertificate(dir, authority, 'a', 6), ca: authority.cert },
+      [],
+    );
+    const b = await mesh('b', { ...issueCertificate(dir, authority, 'b', 7), ca: authority.cert }, [
+      a.address,
+    ]);
+    // signed by another CA, but trusting the cluster CA so only the other side can refuse
+    const c = await mesh('c', { ...issueCertificate(dir, rogue, 'c', 8), ca: authority.cert }, [
+      a.address,
+    ]);
+
+    await waitFor(() => alive(a.transport).join() === 'a,b' && alive(b.transport).join() === 'a,b');
+    await sleep(500);
+    assert.deepEqual(alive(a.transport), ['a', 'b']);
+    assert.deepEqual(alive(c.transport), ['c']);
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { ErrorCodes } from '../src/core/errors.js';
+import { fromStandardSchema, v, type StandardSchemaLike } from '../src/core/validation.js';
+import { RawWebSocket } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+const order = v.object({
+  id: v.string({ min: 1 }),
+  items: v.array(v.object({ sku: v.string(), qty: v.number({ integer: true, min: 1 }) }), {
+    min: 1,
+  }),
+  note: v.optional(v.string()),
+});
+
+describe('Schemas', () => {
+  it('returns the parsed value, without unknown keys', () => {
+    assert.deepEqual(
+      order.validate({ id: 'o1', items: [{ sku: 'a', qty: 2, extra: true }], other: 1 }),
+      { success: true, value: { id: 'o1', items: [{ sku: 'a', qty: 2 }] } },
+    );
+  });
+
+  it('lists every failing path', () => {
+    assert.deepEqual(order.validate({ id: '', items: [{ sku: 'a', qty: 1 }, { qty: 1.5 }] }), {
+      success: false,
+      issues: [
+        { path: 'payload.id', message: 'Expected at least 1 characters' },
+        { path: 'payload.items[1].sku', message: 'Expected string, received undefined' },
+        { path: 'payload.items[1].qty', message: 'Expected an integer' },
+      ],
+    });
+    assert.deepEqual(order.validate(null, 'input'), {
+      success: false,
+      issues: [{ path: 'input', message: 'Expected object, received null' }],
+    });
+  });
+
+  it('reports unknown keys of a strict object', () => {
+    const strict = v.object({ a: v.number() }, { strict: true });
+    assert.deepEqual(strict.validate({ a: 1, b: 2 }), {
+      success: false,
+      issues: [{ path: 'payload.b', message: 'Unknown key' }],
+    });
+  });
+
+  it('accepts the first union member that fits', () => {
+    const id = v.union(v.number({ integer: true }), v.literal('me'));
+    assert.deepEqual(id.validate('me'), { success: true, value: 'me' });
+    const result = id.validate('you');
+    assert.equal(result.success, false);
+    assert.match(
+      !result.success ? result.issues[0]!.message : '',
+      /^No union member matched \(Expected number, received string; Expected "me"\)$/,
+    );
+  });
+
+  it('maps the issues of a Standard Schema onto paths', async () => {
+    const positive: StandardSchemaLike<number> = {
+      '~standard': {
+        validate: (value) =>
+          typeof value === 'number' && value > 0
+            ? { value }
+            : { issues: [{ message: 'Must be positive', path: ['amount', { key: 0 }] }] },
+      },
+    };
+    const schema = fromStandardSchema(positive);
+    assert.deepEqual(await schema.validate(3), { success: true, value: 3 });
+    assert.deepEqual(await schema.validate(-3), {
+      success: false,
+      issues: [{ path: 'payload.amount.0', message: 'Must be positive' }],
+    });
+  });
+});
+
+describe('Payload validation in the kernel', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('answers an invalid payload with the failing paths, before any handler runs', async () => {
+    server = await startEchoKernel({}, { schemas: { 'order:create': order } });
+    const received: unknown[] = [];
+    server.kernel.on('order:create', (message) => void received.push(message.payload));
+    server.kernel.on('*', (message) => void received.push(message.type));
+
+    const ws = await RawWebSocket.connect(server.port);
+    ws.sendMessage({ type: 'order:create', payload: { id: 'o1', items: [] }, ack: 'a1' });
+    const error = await ws.message();
+    assert.equal(error.type, 'system:error');
+    assert.deepEqual(error.payload, {
+      message: 'Invalid payload for order:create',
+      code: ErrorCodes.VALIDATION_FAILED,
+      details: 'payload.items: Expected at least 1 items',
+      issues: [{ path: 'payload.items', message: 'Expected at least 1 items' }],
+      ack: 'a1',
+    });
+    assert.deepEqual(received, []);
+    assert.equal(
+      server.kernel.metrics.counter('validation_failures_total', { event: 'order:create' }),
+      1,
+    );
+
+    ws.sendMessage({
+      type: 'order:create',
+      payload: { id: 'o2', items: [{ sku: 'a', qty: 1 }], coupon: 'FREE' },
+      ack: 'a2',
+    });
+    assert.deepEqual((await ws.message()).payload, { ack: 'a2' });
+    assert.deepEqual(received, [{ id: 'o2', items: [{ sku: 'a', qty: 1 }] }, 'order:create']);
+    ws.destroy();
+  });
+
+  it('validates the events of a template, counting failures under the template', async () => {
+    server = await startEchoKernel();
+    server.kernel.schema('score:[team]', v.number());
+    const ws = await RawWebSocket.connect(server.port);
+    ws.sendMessage({ type: 'score:red', payload: 'ten' });
+    const error = await ws.message();
+    assert.equal(error.type, 'system:error');
+    assert.deepEqual((error.payload as { issues: unknown }).issues, [
+      { path: 'payload', message: 'Expected number, received string' },
+    ]);
+    assert.equal(
+      server.kernel.metrics.counter('validation_failures_total', { event: 'score:[team]' }),
+      1,
+    );
+    ws.destroy();
+  });
+});
@@ -0,0 +1,500 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { constants, deflateRawSync, inflateRawSync } from 'node:zlib';
+import { AuthenticationError } from '../src/core/errors.js';
+import type { Authenticator, ConnectionRequest } from '../src/types/index.js';
+import {
+  CloseCodes,
+  decodeFrame,
+  Opcodes,
+  WebSocketProtocolError,
+} from '../src/utils/websocketFrames.js';
+import { encodeClientFrame, RawWebSocket, UpgradeError } from './support/rawWebSocket.js';
+import { startEchoKernel } from './support/servers.js';
+
+/**
+ * Conformance of the WebSocket transport, following the sections of the Autobahn test suite:
+ * every case opens a connection, sends raw frames and checks the echo or the close code.
+ */
+
+const MAX_PAYLOAD = 128 * 1024;
+
+const echo = (payload: unknown) => JSON.stringify({ type: 'echo', payload });
+
+// 6.3.1 of the Autobahn suite: "κόσμε" followed by an UTF-16 surrogate, then "edited"
+const INVALID_UTF8 = Buffer.from('cebae1bdb9cf83cebcceb5eda080656469746564', 'hex');
+
+describe('WebSocket transport conformance', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  let ws: RawWebSocket;
+
+  before(async () => {
+    server = await startEchoKernel({ maxPayloadBytes: MAX_PAYLOAD });
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  const open = async () => {
+    ws = await RawWebSocket.connect(server.port);
+    return ws;
+  };
+
+  afterEach(() => ws?.destroy());
+
+  describe('framing', () => {
+    for (const size of [0, 125, 126, 65535 - 40, 65536 - 20]) {
+      it(`echoes a text message of about ${size} bytes`, async () => {
+        await open();
+        const payload = 'x'.repeat(size);
+        ws.send(Opcodes.TEXT, echo(payload));
+        assert.deepEqual((await ws.message()).payload, payload);
+      });
+    }
+
+    it('reads a frame delivered one byte at a time', async () => {
+      await open();
+      const frame = encodeClientFrame(Opcodes.TEXT, echo('slow'));
+      for (const byte of frame) {
+        ws.socket.write(Buffer.from([byte]));
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      assert.equal((await ws.message()).payload, 'slow');
+    });
+
+    it('reads several frames delivered in one chunk', async () => {
+      await open();
+      ws.socket.write(
+        Buffer.concat([
+          encodeClientFrame(Opcodes.TEXT, echo(1)),
+          encodeClientFrame(Opcodes.TEXT, echo(2)),
+        ]),
+      );
+      assert.equal((await ws.message()).payload, 1);
+      assert.equal((await ws.message()).payload, 2);
+    });
+  });
+
+  describe('pings and pongs', () => {
+    it('answers a ping with a pong carrying the same payload', async () => {
+      await open();
+      ws.send(Opcodes.PING, 'hello');
+      const pong = await ws.nextOf(Opcodes.PONG);
+      assert.equal(pong.payload.toString(), 'hello');
+    });
+
+    it('answers a ping with a 125-byte payload', async () => {
+      await open();
+      const payload = Buffer.alloc(125, 0xfe);
+      ws.send(Opcodes.PING, payload);
+      assert.deepEqual((await ws.nextOf(Opcodes.PONG)).payload, payload);
+    });
+
+    it('fails a ping with a payload over 125 bytes', async () => {
+      await open();
+      ws.send(Opcodes.PING, Buffer.alloc(126));
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+
+    it('ignores an unsolicited pong', async () => {
+      await open();
+      ws.send(Opcodes.PONG, 'unsolicited');
+      ws.send(Opcodes.TEXT, echo('after pong'));
+      assert.equal((await ws.message()).payload, 'after pong');
+    });
+
+    it('fails a fragmented ping', async () => {
+      await open();
+      ws.send(Opcodes.PING, 'part', { fin: false });
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+  });
+
+  describe('reserved bits', () => {
+    for (const rsv of [0x40, 0x20, 0x10, 0x70]) {
+      it(`fails a frame with RSV bits 0x${rsv.toString(16)} and no extension`, async () => {
+        await open();
+        ws.send(Opcodes.TEXT, echo('rsv'), { rsv });
+        assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+      });
+    }
+
+    it('fails a ping with RSV1 set', async () => {
+      await open();
+      ws.send(Opcodes.PING, '', { rsv: 0x40 });
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+  });
+
+  describe('opcodes', () => {
+    for (const opcode of [3, 4, 5, 6, 7, 0xb, 0xc, 0xd, 0xe, 0xf]) {
+      it(`fails reserved opcode ${opcode}`, async () => {
+        await open();
+        ws.send(opcode, 'reserved');
+        assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+      });
+    }
+  });
+
+  describe('fragmentation', () => {
+    it('reassembles a text message sent in three fragments', async () => {
+      await open();
+      const text = echo('fragmented');
+      ws.send(Opcodes.TEXT, text.slice(0, 5), { fin: false });
+      ws.send(Opcodes.CONTINUATION, text.slice(5, 12), { fin: false });
+      ws.send(Opcodes.CONTINUATION, text.slice(12));
+      assert.equal((await ws.message()).payload, 'fragmented');
+    });
+
+    it('accepts empty fragments', async () => {
+      await open();
+      ws.send(Opcodes.TEXT, '', { fin: false });
+      ws.send(Opcodes.CONTINUATION, echo('empty parts'), { fin: false });
+      ws.send(Opcodes.CONTINUATION, '');
+      assert.equal((await ws.message()).payload, 'empty parts');
+    });
+
+    it('answers a ping sent between fragments before delivering the message', async () => {
+      await open();
+      const text = echo('interleaved');
+      ws.send(Opcodes.TEXT, text.slice(0, 10), { fin: false });
+      ws.send(Opcodes.PING, 'between');
+      ws.send(Opcodes.CONTINUATION, text.slice(10));
+      const pong = await ws.next();
+      assert.equal(pong.opcode, Opcodes.PONG);
+      assert.equal(pong.payload.toString(), 'between');
+      assert.equal((await ws.message()).payload, 'interleaved');
+    });
+
+    it('fails a continuation frame without a message to continue', async () => {
+      await open();
+      ws.send(Opcodes.CONTINUATION, echo('orphan'));
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+
+    it('fails a new data frame before the fragmented message ended', async () => {
+      await open();
+      ws.send(Opcodes.TEXT, '{"type":', { fin: false });
+      ws.send(Opcodes.TEXT, echo('interrupted'));
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+
+    it('fails a fragmented message larger than maxPayloadBytes', async () => {
+      await open();
+      const chunk = Buffer.alloc(MAX_PAYLOAD / 2 + 1, 0x61);
+      ws.send(Opcodes.TEXT, chunk, { fin: false });
+      ws.send(Opcodes.CONTINUATION, chunk);
+      assert.equal((await ws.closeCode()).code, CloseCodes.MESSAGE_TOO_BIG);
+    });
+  });
+
+  describe('UTF-8 handling', () => {
+    it('delivers multi-byte characters', async () => {
+      await open();
+      const text = 'κόσμε 😀 日本語';
+      ws.send(Opcodes.TEXT, echo(text));
+      assert.equal((await ws.message()).payload, text);
+    });
+
+    it('reassembles a character split across fragments', async () => {
+      await open();
+      const bytes = Buffer.from(echo('😀'));
+      const cut = bytes.indexOf(0xf0) + 2;
+      ws.send(Opcodes.TEXT, bytes.subarray(0, cut), { fin: false });
+      ws.send(Opcodes.CONTINUATION, bytes.subarray(cut));
+      assert.equal((await ws.message()).payload, '😀');
+    });
+
+    it('fails a text message that is not valid UTF-8', async () => {
+      await open();
+      ws.send(Opcodes.TEXT, INVALID_UTF8);
+      assert.equal((await ws.closeCode()).code, CloseCodes.INVALID_PAYLOAD);
+    });
+
+    it('fails invalid UTF-8 spread over fragments', async () => {
+      await open();
+      ws.send(Opcodes.TEXT, INVALID_UTF8.subarray(0, 12), { fin: false });
+      ws.send(Opcodes.CONTINUATION, INVALID_UTF8.subarray(12));
+      assert.equal((await ws.closeCode()).code, CloseCodes.INVALID_PAYLOAD);
+    });
+
+    for (const [name, hex] of [
+      ['an overlong encoding', 'c0af'],
+      ['a lone continuation byte', '80'],
+      ['a truncated sequence', 'e282'],
+      ['a code point above U+10FFFF', 'f4908080'],
+    ] as const) {
+      it(`fails ${name}`, async () => {
+        await open();
+        ws.send(Opcodes.TEXT, Buffer.from(hex, 'hex'));
+        assert.equal((await ws.closeCode()).code, CloseCodes.INVALID_PAYLOAD);
+      });
+    }
+  });
+
+  describe('close handling', () => {
+    const closePayload = (code: number, reason: Buffer | string = '') => {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      return Buffer.concat([payload, Buffer.from(reason)]);
+    };
+
+    it('answers a close frame with the same code and ends the connection', async () => {
+      await open();
+      ws.send(Opcodes.CLOSE, closePayload(1000, 'bye'));
+      assert.equal((await ws.closeCode()).code, 1000);
+    });
+
+    it('answers an empty close frame with 1000', async () => {
+      await open();
+      ws.send(Opcodes.CLOSE);
+      assert.equal((await ws.closeCode()).code, CloseCodes.NORMAL);
+    });
+
+    for (const code of [
+      1000, 1001, 1002, 1003, 1007, 1008, 1009, 1010, 1011, 3000, 3999, 4000, 4999,
+    ]) {
+      it(`echoes valid close code ${code}`, async () => {
+        await open();
+        ws.send(Opcodes.CLOSE, closePayload(code));
+        assert.equal((await ws.closeCode()).code, code);
+      });
+    }
+
+    for (const code of [0, 999, 1004, 1005, 1006, 1015, 1016, 1100, 2000, 2999, 5000, 65535]) {
+      it(`fails invalid close code ${code}`, async () => {
+        await open();
+        ws.send(Opcodes.CLOSE, closePayload(code));
+        assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+      });
+    }
+
+    it('fails a close frame with a one-byte payload', async () => {
+      await open();
+      ws.send(Opcodes.CLOSE, Buffer.from([0x03]));
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+
+    it('fails a close reason that is not valid UTF-8', async () => {
+      await open();
+      ws.send(Opcodes.CLOSE, closePayload(1000, INVALID_UTF8));
+      assert.equal((await ws.closeCode()).code, CloseCodes.INVALID_PAYLOAD);
+    });
+
+    it('fails a close frame with a payload over 125 bytes', async () => {
+      await open();
+      ws.send(Opcodes.CLOSE, closePayload(1000, 'x'.repeat(124)));
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+
+    it('drops data sent after the close frame', async () => {
+      await open();
+      ws.send(Opcodes.CLOSE, closePayload(1000));
+      ws.send(Opcodes.TEXT, echo('too late'));
+      const frames: number[] = [];
+      await assert.rejects(async () => {
+        for (;;) frames.push((await ws.next()).opcode);
+      }, /Connection closed/);
+      assert.deepEqual(frames, [Opcodes.CLOSE]);
+    });
+  });
+
+  describe('limits and masking', () => {
+    it('fails a frame larger than maxPayloadBytes before reading it', async () => {
+      await open();
+      // only the header: the server must not wait for the payload to refuse it
+      ws.socket.write(Buffer.from([0x81, 0xff, 0, 0, 0, 0, 0, 0x10, 0, 0]));
+      assert.equal((await ws.closeCode()).code, CloseCodes.MESSAGE_TOO_BIG);
+    });
+
+    it('fails an unmasked client frame', async () => {
+      await open();
+      ws.send(Opcodes.TEXT, echo('unmasked'), { masked: false });
+      assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+    });
+
+    it('sends unmasked server frames', async () => {
+      await open();
+      ws.send(Opcodes.TEXT, echo('server'));
+      const frame = await ws.nextOf(Opcodes.TEXT);
+      assert.equal(frame.fin, true);
+      assert.equal(JSON.parse(frame.payload.toString()).payload, 'server');
+    });
+  });
+});
+
+describe('WebSocket transport conformance with permessage-deflate', () => {
+  const TRAILER = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+  const compress = (data: Buffer | string) =>
+    deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH }).subarray(0, -TRAILER.length);
+  const inflate = (data: Buffer) =>
+    inflateRawSync(Buffer.concat([data, TRAILER]), { finishFlush: constants.Z_SYNC_FLUSH });
+
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+  let ws: RawWebSocket;
+
+  before(async () => {
+    server = await startEchoKernel({ compression: { threshold: 0 } });
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  const open = async () => {
+    ws = await RawWebSocket.connect(server.port, {
+      headers: { 'Sec-WebSocket-Extensions': 'permessage-deflate; client_no_context_takeover' },
+    });
+    return ws;
+  };
+
+  afterEach(() => ws?.destroy());
+
+  it('inflates a compressed message and compresses the answer', async () => {
+    await open();
+    ws.send(Opcodes.TEXT, compress(echo('compressed')), { rsv: 0x40 });
+    const frame = await ws.nextOf(Opcodes.TEXT);
+    assert.equal(frame.rsv1, true);
+    assert.equal(JSON.parse(inflate(frame.payload).toString()).payload, 'compressed');
+  });
+
+  it('inflates a compressed message sent in fragments', async () => {
+    await open();
+    const data = compress(echo('fragmented and compressed'));
+    ws.send(Opcodes.TEXT, data.subarray(0, 4), { fin: false, rsv: 0x40 });
+    ws.send(Opcodes.CONTINUATION, data.subarray(4));
+    const frame = await ws.nextOf(Opcodes.TEXT);
+    assert.equal(
+      JSON.parse(inflate(frame.payload).toString()).payload,
+      'fragmented and compressed',
+    );
+  });
+
+  it('still accepts uncompressed messages', async () => {
+    await open();
+    ws.send(Opcodes.TEXT, echo('plain'));
+    const frame = await ws.nextOf(Opcodes.TEXT);
+    assert.equal(JSON.parse(inflate(frame.payload).toString()).payload, 'plain');
+  });
+
+  it('fails RSV1 on a continuation frame', async () => {
+    await open();
+    const data = compress(echo('rsv1 twice'));
+    ws.send(Opcodes.TEXT, data.subarray(0, 4), { fin: false, rsv: 0x40 });
+    ws.send(Opcodes.CONTINUATION, data.subarray(4), { rsv: 0x40 });
+    assert.equal((await ws.closeCode()).code, CloseCodes.PROTOCOL_ERROR);
+  });
+
+  it('fails a compressed message that inflates to invalid UTF-8', async () => {
+    await open();
+    ws.send(Opcodes.TEXT, compress(INVALID_UTF8), { rsv: 0x40 });
+    assert.equal((await ws.closeCode()).code, CloseCodes.INVALID_PAYLOAD);
+  });
+});
+
+describe('WebSocket transport admission', () => {
+  let server: Awaited<ReturnType<typeof startEchoKernel>>;
+
+  const start = async (authenticate: Authenticator) => {
+    server = await startEchoKernel({}, { authenticate });
+  };
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const refusals: Array<[string, Authenticator, number]> = [
+    ['a false result', () => false, 401],
+    [
+      'a 403 AuthenticationError',
+      () => {
+        throw new AuthenticationError('Banned', 403);
+      },
+      403,
+    ],
+    [
+      'a failing hook',
+      () => {
+        throw new Error('database down');
+      },
+      500,
+    ],
+  ];
+  for (const [name, authenticate, status] of refusals) {
+    it(`refuses ${name} with ${status} before upgrading`, async () => {
+      await start(authenticate);
+      await assert.rejects(
+        RawWebSocket.connect(server.port),
+        (error: unknown) => error instanceof UpgradeError && error.status === status,
+      );
+      assert.equal(server.kernel.clientCount, 0);
+    });
+  }
+
+  it('answers a request target URL cannot parse with 400, without the hook', async () => {
+    let admissions = 0;
+    await start(() => void admissions++);
+    await assert.rejects(
+      RawWebSocket.connect(server.port, { path: '//[' }),
+      (error: unknown) => error instanceof UpgradeError && error.status === 400,
+    );
+    assert.equal(admissions, 0);
+    // still serving
+    (await RawWebSocket.connect(server.port)).destroy();
+    assert.equal(admissions, 1);
+  });
+
+  it('hands the hook the request and its result to the handlers', async () => {
+    const requests: ConnectionRequest[] = [];
+    await start(async (request) => {
+      requests.push(request);
+      return { user: { id: 'u1' }, metadata: { plan: request.query.plan } };
+    });
+    server.kernel.on('whoami', (_message, context, toolkit) => {
+      toolkit.reply({
+        type: 'whoami',
+        payload: { user: context.user, metadata: context.metadata },
+      });
+    });
+
+    const ws = await RawWebSocket.connect(server.port, {
+      path: '/?plan=pro',
+      headers: { Authorization: 'Bearer token', Cookie: 'theme=dark' },
+    });
+    const [request] = requests;
+    assert.equal(request!.transport, 'websocket');
+    assert.equal(request!.headers.authorization, 'Bearer token');
+    assert.deepEqual(request!.query, { plan: 'pro' });
+    assert.deepEqual(request!.cookies, { theme: 'dark' });
+
+    ws.send(Opcodes.TEXT, JSON.stringify({ type: 'whoami' }));
+    const frame = await ws.nextOf(Opcodes.TEXT);
+    assert.deepEqual(JSON.parse(frame.payload.toString()).payload, {
+      user: { id: 'u1' },
+      metadata: { plan: 'pro' },
+    });
+    ws.destroy();
+  });
+});
+
+describe('decodeFrame', () => {
+  it('waits for the rest of a partial frame', () => {
+    const frame = encodeClientFrame(Opcodes.TEXT, 'partial');
+    for (let length = 0; length < frame.length; length += 1) {
+      assert.equal(decodeFrame(frame.subarray(0, length), 1024), null);
+    }
+    assert.equal(decodeFrame(frame, 1024)?.payload.toString(), 'partial');
+  });
+
+  it('refuses a 64-bit length with its most significant bit set', () => {
+    const header = Buffer.from([0x82, 0xff, 0x80, 0, 0, 0, 0, 0, 0, 0]);
+    assert.throws(() => decodeFrame(header, 1024), WebSocketProtocolError);
+  });
+
+  it('accepts RSV1 on a data frame only when an extension was negotiated', () => {
+    const frame = encodeClientFrame(Opcodes.TEXT, 'deflated', { rsv: 0x40 });
+    assert.throws(() => decodeFrame(frame, 1024), WebSocketProtocolError);
+    assert.equal(decodeFrame(frame, 1024, true)?.rsv1, true);
+  });
+});